@@ -0,0 +1,106 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseIntPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { AdminService } from './admin.service';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { AdminGuard } from '../common/guards/admin.guard';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { AdjustCreditsDto } from './dto/adjust-credits.dto';
+import { UpdateStatusDto } from './dto/update-status.dto';
+import { UpdateRoleDto } from './dto/update-role.dto';
+
+@ApiTags('Admin')
+@Controller('admin')
+@UseGuards(JwtAuthGuard, AdminGuard)
+@ApiBearerAuth()
+export class AdminController {
+  constructor(private adminService: AdminService) {}
+
+  @Get('users')
+  @ApiOperation({ summary: 'List all users' })
+  async listUsers(
+    @Query('search') search?: string,
+    @Query('limit') limit?: number,
+    @Query('offset') offset?: number,
+  ) {
+    return this.adminService.listUsers(search, Math.min(Number(limit) || 50, 200), Number(offset) || 0);
+  }
+
+  @Get('users/:id')
+  @ApiOperation({ summary: 'Get a user with their organizations, sessions and API keys' })
+  async getUser(@Param('id', ParseIntPipe) id: number) {
+    return this.adminService.getUser(id);
+  }
+
+  @Put('users/:id/status')
+  @ApiOperation({ summary: 'Suspend or reactivate a user' })
+  async setUserStatus(
+    @CurrentUser() admin: { userId: number },
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateStatusDto: UpdateStatusDto,
+  ) {
+    return this.adminService.setUserActive(admin.userId, id, updateStatusDto.isActive);
+  }
+
+  @Put('users/:id/role')
+  @ApiOperation({ summary: 'Change a user\'s role' })
+  async setUserRole(
+    @CurrentUser() admin: { userId: number },
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateRoleDto: UpdateRoleDto,
+  ) {
+    return this.adminService.setUserRole(admin.userId, id, updateRoleDto.role);
+  }
+
+  @Get('organizations')
+  @ApiOperation({ summary: 'List all organizations with their credit balance' })
+  async listOrganizations(
+    @Query('search') search?: string,
+    @Query('limit') limit?: number,
+    @Query('offset') offset?: number,
+  ) {
+    return this.adminService.listOrganizations(search, Math.min(Number(limit) || 50, 200), Number(offset) || 0);
+  }
+
+  @Post('organizations/:id/credits')
+  @ApiOperation({ summary: 'Add or remove an organization\'s credits (recorded on the ledger)' })
+  async adjustCredits(
+    @CurrentUser() admin: { userId: number },
+    @Param('id', ParseIntPipe) id: number,
+    @Body() adjustCreditsDto: AdjustCreditsDto,
+  ) {
+    return this.adminService.adjustCredits(admin.userId, id, adjustCreditsDto);
+  }
+
+  @Put('api-keys/:id/status')
+  @ApiOperation({ summary: 'Enable or disable an API key' })
+  async setApiKeyStatus(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateStatusDto: UpdateStatusDto,
+  ) {
+    await this.adminService.setApiKeyActive(id, updateStatusDto.isActive);
+    return { success: true };
+  }
+
+  @Get('sessions')
+  @ApiOperation({ summary: 'List every WhatsApp session with its live status' })
+  async listSessions() {
+    return this.adminService.listSessions();
+  }
+
+  @Post('sessions/:id/disconnect')
+  @ApiOperation({ summary: 'Force-disconnect a WhatsApp session' })
+  async disconnectSession(@Param('id', ParseIntPipe) id: number) {
+    await this.adminService.disconnectSession(id);
+    return { success: true };
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AdminService } from './admin.service';
+import { AdminController } from './admin.controller';
+import { User } from '../users/user.entity';
+import { ApiKey } from '../api-keys/api-key.entity';
+import { WhatsappSession } from '../whatsapp/whatsapp-session.entity';
+import { Organization } from '../organizations/organization.entity';
+import { OrganizationMember } from '../organizations/organization-member.entity';
+import { WhatsappModule } from '../whatsapp/whatsapp.module';
+import { CreditsModule } from '../credits/credits.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([User, ApiKey, WhatsappSession, Organization, OrganizationMember]),
+    WhatsappModule,
+    CreditsModule,
+  ],
+  providers: [AdminService],
+  controllers: [AdminController],
+})
+export class AdminModule {}
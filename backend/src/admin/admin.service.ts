@@ -0,0 +1,172 @@
+import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Like, Repository } from 'typeorm';
+import { User, UserRole } from '../users/user.entity';
+import { ApiKey } from '../api-keys/api-key.entity';
+import { WhatsappSession } from '../whatsapp/whatsapp-session.entity';
+import { WhatsappService } from '../whatsapp/whatsapp.service';
+import { WhatsappGateway } from '../whatsapp/whatsapp.gateway';
+import { CreditsService } from '../credits/credits.service';
+import { CreditTransaction } from '../credits/credit-transaction.entity';
+import { Organization } from '../organizations/organization.entity';
+import { OrganizationMember } from '../organizations/organization-member.entity';
+import { AdjustCreditsDto } from './dto/adjust-credits.dto';
+
+export type AdminUser = Omit<User, 'password' | 'credits' | 'whatsappSessions' | 'apiKeys' | 'campaigns'>;
+
+@Injectable()
+export class AdminService {
+  private readonly logger = new Logger(AdminService.name);
+
+  constructor(
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+    @InjectRepository(ApiKey)
+    private apiKeyRepository: Repository<ApiKey>,
+    @InjectRepository(WhatsappSession)
+    private sessionRepository: Repository<WhatsappSession>,
+    @InjectRepository(Organization)
+    private organizationRepository: Repository<Organization>,
+    @InjectRepository(OrganizationMember)
+    private memberRepository: Repository<OrganizationMember>,
+    private whatsappService: WhatsappService,
+    private whatsappGateway: WhatsappGateway,
+    private creditsService: CreditsService,
+  ) {}
+
+  async listUsers(search?: string, limit = 50, offset = 0): Promise<{ users: AdminUser[]; total: number }> {
+    const pattern = search ? `%${search.replace(/[%_]/g, '')}%` : undefined;
+    const [users, total] = await this.userRepository.findAndCount({
+      where: pattern ? [{ email: Like(pattern) }, { name: Like(pattern) }] : {},
+      order: { createdAt: 'DESC' },
+      take: limit,
+      skip: offset,
+    });
+    return { users: users.map((user) => this.toAdminUser(user)), total };
+  }
+
+  async getUser(userId: number) {
+    const user = await this.findUser(userId);
+    const sessions = await this.sessionRepository.find({ where: { userId }, order: { createdAt: 'DESC' } });
+    const apiKeys = await this.apiKeyRepository.find({ where: { userId }, order: { createdAt: 'DESC' } });
+    const memberships = await this.memberRepository.find({ where: { userId }, relations: ['organization'] });
+
+    return {
+      user: this.toAdminUser(user),
+      organizations: memberships.map((m) => ({
+        id: m.organization.id,
+        name: m.organization.name,
+        credits: m.organization.credits,
+        role: m.role,
+      })),
+      sessions: sessions.map((session) => this.withLiveStatus(session)),
+      apiKeys: apiKeys.map((apiKey) => ({ ...apiKey, key: `${apiKey.keyPrefix}...` })),
+    };
+  }
+
+  async listOrganizations(
+    search?: string,
+    limit = 50,
+    offset = 0,
+  ): Promise<{ organizations: Organization[]; total: number }> {
+    const [organizations, total] = await this.organizationRepository.findAndCount({
+      where: search ? { name: Like(`%${search.replace(/[%_]/g, '')}%`) } : {},
+      order: { createdAt: 'DESC' },
+      take: limit,
+      skip: offset,
+    });
+    return { organizations, total };
+  }
+
+  async adjustCredits(adminId: number, organizationId: number, dto: AdjustCreditsDto): Promise<CreditTransaction> {
+    const organization = await this.organizationRepository.findOne({ where: { id: organizationId } });
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+    const reason = `${dto.reason} (by admin #${adminId})`;
+
+    const transaction =
+      dto.topUp && dto.amount > 0
+        ? await this.creditsService.topUp(organizationId, dto.amount, reason)
+        : await this.creditsService.adjust(organizationId, dto.amount, reason);
+    this.logger.log(`Admin ${adminId} changed credits of organization ${organizationId} by ${dto.amount}`);
+    return transaction;
+  }
+
+  // Suspending revokes the user's access: tokens and API keys are checked against isActive on
+  // every request, and open sockets are closed. Sessions and campaigns belong to the organization
+  // and keep running for the other members.
+  async setUserActive(adminId: number, userId: number, isActive: boolean): Promise<AdminUser> {
+    if (adminId === userId && !isActive) {
+      throw new BadRequestException('You cannot suspend your own account');
+    }
+    const user = await this.findUser(userId);
+    await this.userRepository.update(userId, { isActive });
+
+    if (!isActive) {
+      this.whatsappGateway.disconnectUser(userId);
+      this.logger.warn(`Admin ${adminId} suspended user ${userId}`);
+    } else {
+      this.logger.log(`Admin ${adminId} reactivated user ${userId}`);
+    }
+
+    return this.toAdminUser({ ...user, isActive });
+  }
+
+  async setUserRole(adminId: number, userId: number, role: UserRole): Promise<AdminUser> {
+    if (adminId === userId && role !== UserRole.ADMIN) {
+      throw new BadRequestException('You cannot remove your own admin role');
+    }
+    const user = await this.findUser(userId);
+    await this.userRepository.update(userId, { role });
+    this.logger.log(`Admin ${adminId} set role of user ${userId} to ${role}`);
+    return this.toAdminUser({ ...user, role });
+  }
+
+  async setApiKeyActive(apiKeyId: number, isActive: boolean): Promise<void> {
+    const apiKey = await this.apiKeyRepository.findOne({ where: { id: apiKeyId } });
+    if (!apiKey) {
+      throw new NotFoundException('API key not found');
+    }
+    await this.apiKeyRepository.update(apiKeyId, { isActive });
+  }
+
+  async listSessions() {
+    const sessions = await this.sessionRepository.find({
+      relations: ['user', 'organization'],
+      order: { updatedAt: 'DESC' },
+    });
+    return sessions.map(({ user, organization, sessionData, ...session }) => ({
+      ...this.withLiveStatus(session as WhatsappSession),
+      user: user ? { id: user.id, email: user.email, name: user.name } : null,
+      organization: organization ? { id: organization.id, name: organization.name } : null,
+    }));
+  }
+
+  async disconnectSession(sessionId: number): Promise<void> {
+    const session = await this.sessionRepository.findOne({ where: { id: sessionId } });
+    if (!session) {
+      throw new NotFoundException('Session not found');
+    }
+    await this.whatsappService.disconnectSession(sessionId);
+  }
+
+  private async findUser(userId: number): Promise<User> {
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return user;
+  }
+
+  private toAdminUser(user: User): AdminUser {
+    const { password, credits, whatsappSessions, apiKeys, campaigns, ...rest } = user;
+    return rest;
+  }
+
+  // DB status can lag behind the live client, so report both
+  private withLiveStatus(session: WhatsappSession) {
+    const { sessionData, ...rest } = session;
+    return { ...rest, isLive: this.whatsappService.isSessionActive(session.id) };
+  }
+}
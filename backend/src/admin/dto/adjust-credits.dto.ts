@@ -0,0 +1,19 @@
+import { IsInt, IsString, IsOptional, IsBoolean, NotEquals, MinLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class AdjustCreditsDto {
+  @ApiProperty({ example: 500, description: 'Positive to add credits, negative to remove them' })
+  @IsInt()
+  @NotEquals(0)
+  amount: number;
+
+  @ApiProperty({ example: 'Invoice #1042' })
+  @IsString()
+  @MinLength(1)
+  reason: string;
+
+  @ApiPropertyOptional({ example: true, description: 'Record a positive amount as a top-up rather than an adjustment' })
+  @IsOptional()
+  @IsBoolean()
+  topUp?: boolean;
+}
@@ -0,0 +1,9 @@
+import { IsEnum } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { UserRole } from '../../users/user.entity';
+
+export class UpdateRoleDto {
+  @ApiProperty({ enum: UserRole, example: UserRole.ADMIN })
+  @IsEnum(UserRole)
+  role: UserRole;
+}
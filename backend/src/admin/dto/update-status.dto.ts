@@ -0,0 +1,8 @@
+import { IsBoolean } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UpdateStatusDto {
+  @ApiProperty({ example: false })
+  @IsBoolean()
+  isActive: boolean;
+}
@@ -5,9 +5,19 @@ import {
   CreateDateColumn,
   ManyToOne,
   JoinColumn,
+  Index,
 } from 'typeorm';
+import { Organization } from '../organizations/organization.entity';
 import { User } from '../users/user.entity';
 
+export enum ApiKeyScope {
+  WHATSAPP_SEND = 'whatsapp:send',
+  WHATSAPP_MEDIA = 'whatsapp:media',
+  SMS_SEND = 'sms:send',
+  MESSAGES_READ = 'messages:read',
+  CAMPAIGNS_READ = 'campaigns:read',
+}
+
 @Entity('api_keys')
 export class ApiKey {
   @PrimaryGeneratedColumn()
@@ -16,8 +26,34 @@ export class ApiKey {
   @Column()
   userId: number;
 
-  @Column({ unique: true })
-  key: string;
+  @Index()
+  @Column({ nullable: true })
+  organizationId: number;
+
+  // Plaintext from before keys were hashed; hashed and cleared on startup
+  @Column({ type: 'varchar', unique: true, nullable: true, select: false })
+  key: string | null;
+
+  // First characters of the key, shown in listings and used to look it up.
+  // Nullable only so existing rows survive until their plaintext key is hashed.
+  @Index()
+  @Column({ nullable: true })
+  keyPrefix: string;
+
+  // salt:sha256(salt + key)
+  @Column({ nullable: true, select: false })
+  keyHash: string;
+
+  // The key replaced by the last rotation, accepted until previousKeyExpiresAt
+  @Index()
+  @Column({ type: 'varchar', nullable: true })
+  previousKeyPrefix: string | null;
+
+  @Column({ type: 'varchar', nullable: true, select: false })
+  previousKeyHash: string | null;
+
+  @Column({ type: Date, nullable: true })
+  previousKeyExpiresAt: Date | null;
 
   @Column()
   name: string;
@@ -25,6 +61,29 @@ export class ApiKey {
   @Column({ default: true })
   isActive: boolean;
 
+  // Overrides the owner's default country for numbers sent through this key
+  @Column({ type: 'varchar', nullable: true })
+  defaultCountry: string | null;
+
+  // Empty only on keys created before scopes existed, which keep full access
+  @Column({ type: 'simple-array', nullable: true })
+  scopes: ApiKeyScope[] | null;
+
+  // Sends through this key always use this session
+  @Column({ type: 'int', nullable: true })
+  sessionId: number | null;
+
+  // Addresses or CIDR ranges the key may be used from; empty allows any
+  @Column({ type: 'simple-array', nullable: true })
+  allowedIps: string[] | null;
+
+  @Column({ type: Date, nullable: true })
+  expiresAt: Date | null;
+
+  // Requests per minute; empty uses API_KEY_RATE_LIMIT
+  @Column({ type: 'int', nullable: true })
+  rateLimitPerMinute: number | null;
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -34,4 +93,8 @@ export class ApiKey {
   @ManyToOne(() => User, (user) => user.apiKeys, { onDelete: 'CASCADE' })
   @JoinColumn({ name: 'userId' })
   user: User;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organizationId' })
+  organization: Organization;
 }
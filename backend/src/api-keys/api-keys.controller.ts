@@ -2,6 +2,7 @@ import {
   Controller,
   Get,
   Post,
+  Put,
   Delete,
   Body,
   Param,
@@ -11,42 +12,79 @@ import {
 import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
 import { ApiKeysService } from './api-keys.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { OrganizationRoleGuard } from '../common/guards/organization-role.guard';
 import { CurrentUser } from '../common/decorators/current-user.decorator';
-import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { RequireOrganizationRole } from '../common/decorators/organization-role.decorator';
+import { OrganizationRole } from '../organizations/organization-member.entity';
+import { CreateApiKeyDto, UpdateApiKeyDto } from './dto/create-api-key.dto';
+import { RotateApiKeyDto } from './dto/rotate-api-key.dto';
+import { ApiKey } from './api-key.entity';
 
 @ApiTags('API Keys')
 @Controller('api-keys')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, OrganizationRoleGuard)
 @ApiBearerAuth()
 export class ApiKeysController {
   constructor(private apiKeysService: ApiKeysService) {}
 
+  // The full key is only ever returned here and by rotate
   @Post()
+  @RequireOrganizationRole(OrganizationRole.MANAGER)
   @ApiOperation({ summary: 'Create a new API key' })
   async create(
-    @CurrentUser() user: { userId: number },
+    @CurrentUser() user: { userId: number; organizationId: number },
     @Body() createApiKeyDto: CreateApiKeyDto,
   ) {
-    return this.apiKeysService.create(user.userId, createApiKeyDto.name);
+    const { apiKey, key } = await this.apiKeysService.create(user.organizationId, user.userId, createApiKeyDto);
+    return { ...apiKey, key };
   }
 
   @Get()
   @ApiOperation({ summary: 'Get all API keys' })
-  async findAll(@CurrentUser() user: { userId: number }) {
-    const keys = await this.apiKeysService.findAll(user.userId);
-    return keys.map((k) => ({
-      ...k,
-      key: k.key.substring(0, 8) + '...' + k.key.substring(k.key.length - 4),
-    }));
+  async findAll(@CurrentUser() user: { organizationId: number }) {
+    const keys = await this.apiKeysService.findAll(user.organizationId);
+    return keys.map((k) => this.mask(k));
+  }
+
+  @Post(':id/rotate')
+  @RequireOrganizationRole(OrganizationRole.MANAGER)
+  @ApiOperation({ summary: 'Issue a new key, keeping the old one valid for a grace period' })
+  async rotate(
+    @CurrentUser() user: { organizationId: number },
+    @Param('id', ParseIntPipe) id: number,
+    @Body() rotateApiKeyDto: RotateApiKeyDto,
+  ) {
+    const { apiKey, key } = await this.apiKeysService.rotate(
+      id,
+      user.organizationId,
+      rotateApiKeyDto.gracePeriodHours ?? 24,
+    );
+    return { ...apiKey, key };
+  }
+
+  @Put(':id')
+  @RequireOrganizationRole(OrganizationRole.MANAGER)
+  @ApiOperation({ summary: 'Change an API key\'s name, scopes or restrictions' })
+  async update(
+    @CurrentUser() user: { organizationId: number },
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateApiKeyDto: UpdateApiKeyDto,
+  ) {
+    return this.mask(await this.apiKeysService.update(id, user.organizationId, updateApiKeyDto));
   }
 
   @Delete(':id')
+  @RequireOrganizationRole(OrganizationRole.MANAGER)
   @ApiOperation({ summary: 'Delete an API key' })
   async delete(
-    @CurrentUser() user: { userId: number },
+    @CurrentUser() user: { organizationId: number },
     @Param('id', ParseIntPipe) id: number,
   ) {
-    await this.apiKeysService.delete(id, user.userId);
+    await this.apiKeysService.delete(id, user.organizationId);
     return { success: true };
   }
+
+  private mask(apiKey: ApiKey) {
+    return { ...apiKey, key: `${apiKey.keyPrefix}...` };
+  }
 }
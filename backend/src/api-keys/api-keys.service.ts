@@ -1,57 +1,171 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException, BadRequestException, OnModuleInit } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { v4 as uuidv4 } from 'uuid';
-import { ApiKey } from './api-key.entity';
+import { ConfigService } from '@nestjs/config';
+import { IsNull, Not, Repository } from 'typeorm';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { BlockList, isIP } from 'net';
+import { ApiKey, ApiKeyScope } from './api-key.entity';
+import { WhatsappSession } from '../whatsapp/whatsapp-session.entity';
+import { CreateApiKeyDto, UpdateApiKeyDto } from './dto/create-api-key.dto';
+
+interface RateLimitEntry {
+  count: number;
+  resetTime: number;
+}
+
+// A key together with its plaintext, which is only available right after it is issued
+export interface IssuedApiKey {
+  apiKey: ApiKey;
+  key: string;
+}
+
+const KEY_PREFIX_LENGTH = 12;
 
 @Injectable()
-export class ApiKeysService {
+export class ApiKeysService implements OnModuleInit {
+  private readonly logger = new Logger(ApiKeysService.name);
+  private rateLimits: Map<number, RateLimitEntry> = new Map();
+  private readonly RATE_LIMIT_WINDOW = 60000; // 1 minute
+  private readonly DEFAULT_RATE_LIMIT: number;
+
   constructor(
     @InjectRepository(ApiKey)
     private apiKeyRepository: Repository<ApiKey>,
-  ) {}
+    @InjectRepository(WhatsappSession)
+    private sessionRepository: Repository<WhatsappSession>,
+    private configService: ConfigService,
+  ) {
+    this.DEFAULT_RATE_LIMIT = Number(this.configService.get('API_KEY_RATE_LIMIT', 120));
+  }
+
+  // Hash any keys still stored in plaintext
+  async onModuleInit() {
+    try {
+      const legacyKeys = await this.apiKeyRepository.find({
+        where: { key: Not(IsNull()) },
+        select: { id: true, key: true },
+      });
+      for (const legacyKey of legacyKeys) {
+        await this.apiKeyRepository.update(legacyKey.id, {
+          keyPrefix: legacyKey.key!.slice(0, KEY_PREFIX_LENGTH),
+          keyHash: this.hashKey(legacyKey.key!),
+          key: null,
+        });
+      }
+      if (legacyKeys.length > 0) {
+        this.logger.log(`Hashed ${legacyKeys.length} plaintext API keys`);
+      }
+    } catch (error: any) {
+      this.logger.error(`Error hashing plaintext API keys: ${error.message}`);
+    }
+  }
+
+  async create(organizationId: number, userId: number, dto: CreateApiKeyDto): Promise<IssuedApiKey> {
+    await this.validateRestrictions(organizationId, dto);
 
-  async create(userId: number, name: string): Promise<ApiKey> {
     const key = this.generateApiKey();
     const apiKey = this.apiKeyRepository.create({
+      organizationId,
       userId,
-      key,
-      name,
+      keyPrefix: key.slice(0, KEY_PREFIX_LENGTH),
+      keyHash: this.hashKey(key),
+      name: dto.name,
+      defaultCountry: dto.defaultCountry?.toUpperCase(),
+      scopes: [...new Set(dto.scopes)],
+      sessionId: dto.sessionId,
+      allowedIps: dto.allowedIps?.length ? dto.allowedIps : null,
+      expiresAt: dto.expiresAt ? new Date(dto.expiresAt) : undefined,
+      rateLimitPerMinute: dto.rateLimitPerMinute,
     });
+    const saved = await this.apiKeyRepository.save(apiKey);
+    return { apiKey: await this.findOne(saved.id, organizationId), key };
+  }
+
+  // null clears a restriction; omitted fields are left alone
+  async update(id: number, organizationId: number, dto: UpdateApiKeyDto): Promise<ApiKey> {
+    const apiKey = await this.findOne(id, organizationId);
+    await this.validateRestrictions(organizationId, dto);
+
+    if (dto.name) apiKey.name = dto.name;
+    if (dto.defaultCountry !== undefined) apiKey.defaultCountry = dto.defaultCountry?.toUpperCase() ?? null;
+    if (dto.scopes) apiKey.scopes = [...new Set(dto.scopes)];
+    if (dto.sessionId !== undefined) apiKey.sessionId = dto.sessionId ?? null;
+    if (dto.allowedIps !== undefined) apiKey.allowedIps = dto.allowedIps?.length ? dto.allowedIps : null;
+    if (dto.expiresAt !== undefined) apiKey.expiresAt = dto.expiresAt ? new Date(dto.expiresAt) : null;
+    if (dto.rateLimitPerMinute !== undefined) apiKey.rateLimitPerMinute = dto.rateLimitPerMinute ?? null;
+
     return this.apiKeyRepository.save(apiKey);
   }
 
-  async findAll(userId: number): Promise<ApiKey[]> {
-    return this.apiKeyRepository.find({
-      where: { userId },
-      order: { createdAt: 'DESC' },
+  // Issues a new key; the old one keeps working for gracePeriodHours
+  async rotate(id: number, organizationId: number, gracePeriodHours: number): Promise<IssuedApiKey> {
+    await this.findOne(id, organizationId);
+    const current = await this.apiKeyRepository.findOne({
+      where: { id },
+      select: { id: true, keyPrefix: true, keyHash: true },
     });
-  }
 
-  async findByKey(key: string): Promise<ApiKey | null> {
-    return this.apiKeyRepository.findOne({
-      where: { key, isActive: true },
-      relations: ['user'],
+    const key = this.generateApiKey();
+    const graceEnds = gracePeriodHours > 0 ? new Date(Date.now() + gracePeriodHours * 3600000) : null;
+    await this.apiKeyRepository.update(id, {
+      keyPrefix: key.slice(0, KEY_PREFIX_LENGTH),
+      keyHash: this.hashKey(key),
+      previousKeyPrefix: graceEnds ? current!.keyPrefix : null,
+      previousKeyHash: graceEnds ? current!.keyHash : null,
+      previousKeyExpiresAt: graceEnds,
     });
+
+    return { apiKey: await this.findOne(id, organizationId), key };
   }
 
-  async delete(id: number, userId: number): Promise<void> {
-    const apiKey = await this.apiKeyRepository.findOne({
-      where: { id, userId },
-    });
+  async findOne(id: number, organizationId: number): Promise<ApiKey> {
+    const apiKey = await this.apiKeyRepository.findOne({ where: { id, organizationId } });
     if (!apiKey) {
       throw new NotFoundException('API key not found');
     }
-    await this.apiKeyRepository.delete(id);
+    return apiKey;
   }
 
-  async deactivate(id: number, userId: number): Promise<void> {
-    const apiKey = await this.apiKeyRepository.findOne({
-      where: { id, userId },
+  async findAll(organizationId: number): Promise<ApiKey[]> {
+    return this.apiKeyRepository.find({
+      where: { organizationId },
+      order: { createdAt: 'DESC' },
     });
-    if (!apiKey) {
-      throw new NotFoundException('API key not found');
-    }
+  }
+
+  // Looks the key up by its prefix, then checks it against the stored hash.
+  // Keys of suspended users are treated as invalid.
+  async findByKey(key: string): Promise<ApiKey | null> {
+    const prefix = key.slice(0, KEY_PREFIX_LENGTH);
+    const candidates = await this.apiKeyRepository
+      .createQueryBuilder('apiKey')
+      .addSelect(['apiKey.keyHash', 'apiKey.previousKeyHash'])
+      .innerJoinAndSelect('apiKey.user', 'user')
+      .where('apiKey.isActive = :active AND user.isActive = :active', { active: true })
+      .andWhere(
+        '(apiKey.keyPrefix = :prefix OR (apiKey.previousKeyPrefix = :prefix AND apiKey.previousKeyExpiresAt > :now))',
+        { prefix, now: new Date() },
+      )
+      .getMany();
+
+    const match = candidates.find(
+      (candidate) =>
+        this.verifyKey(key, candidate.keyHash) ||
+        (!!candidate.previousKeyExpiresAt && candidate.previousKeyExpiresAt > new Date() && this.verifyKey(key, candidate.previousKeyHash)),
+    );
+    if (!match) return null;
+
+    const { keyHash, previousKeyHash, ...apiKey } = match;
+    return apiKey as ApiKey;
+  }
+
+  async delete(id: number, organizationId: number): Promise<void> {
+    await this.findOne(id, organizationId);
+    await this.apiKeyRepository.delete(id);
+  }
+
+  async deactivate(id: number, organizationId: number): Promise<void> {
+    await this.findOne(id, organizationId);
     await this.apiKeyRepository.update(id, { isActive: false });
   }
 
@@ -59,7 +173,95 @@ export class ApiKeysService {
     await this.apiKeyRepository.update(id, { lastUsedAt: new Date() });
   }
 
+  // Keys from before scopes existed are allowed everything
+  hasScope(apiKey: ApiKey, scope: ApiKeyScope): boolean {
+    return !apiKey.scopes || apiKey.scopes.length === 0 || apiKey.scopes.includes(scope);
+  }
+
+  isExpired(apiKey: ApiKey): boolean {
+    return !!apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now();
+  }
+
+  isIpAllowed(apiKey: ApiKey, ip: string | undefined): boolean {
+    if (!apiKey.allowedIps || apiKey.allowedIps.length === 0) return true;
+    if (!ip) return false;
+
+    // IPv4 clients on a dual-stack socket show up as ::ffff:a.b.c.d
+    const address = ip.startsWith('::ffff:') && isIP(ip.slice(7)) === 4 ? ip.slice(7) : ip;
+    const family = isIP(address) === 6 ? 'ipv6' : 'ipv4';
+    return this.toBlockList(apiKey.allowedIps).check(address, family);
+  }
+
+  // Fixed one-minute window per key
+  checkRateLimit(apiKey: ApiKey): { allowed: boolean; waitTime?: number } {
+    const limit = apiKey.rateLimitPerMinute || this.DEFAULT_RATE_LIMIT;
+    const now = Date.now();
+    const entry = this.rateLimits.get(apiKey.id);
+
+    if (!entry || now > entry.resetTime) {
+      this.rateLimits.set(apiKey.id, { count: 1, resetTime: now + this.RATE_LIMIT_WINDOW });
+      return { allowed: true };
+    }
+
+    if (entry.count >= limit) {
+      return { allowed: false, waitTime: entry.resetTime - now };
+    }
+
+    entry.count++;
+    return { allowed: true };
+  }
+
+  private async validateRestrictions(organizationId: number, dto: UpdateApiKeyDto): Promise<void> {
+    if (dto.sessionId) {
+      const session = await this.sessionRepository.findOne({ where: { id: dto.sessionId, organizationId } });
+      if (!session) {
+        throw new BadRequestException('Session not found');
+      }
+    }
+    if (dto.allowedIps?.length) {
+      try {
+        this.toBlockList(dto.allowedIps);
+      } catch {
+        throw new BadRequestException('allowedIps must be IP addresses or CIDR ranges');
+      }
+    }
+    if (dto.expiresAt && new Date(dto.expiresAt).getTime() <= Date.now()) {
+      throw new BadRequestException('expiresAt must be in the future');
+    }
+  }
+
+  private toBlockList(entries: string[]): BlockList {
+    const list = new BlockList();
+    for (const entry of entries) {
+      const [address, prefix] = entry.trim().split('/');
+      const family = isIP(address);
+      if (!family) {
+        throw new Error(`Invalid address: ${entry}`);
+      }
+      const type = family === 6 ? 'ipv6' : 'ipv4';
+      if (prefix === undefined) {
+        list.addAddress(address, type);
+      } else {
+        list.addSubnet(address, Number(prefix), type);
+      }
+    }
+    return list;
+  }
+
   private generateApiKey(): string {
-    return uuidv4().replace(/-/g, '') + uuidv4().replace(/-/g, '');
+    return 'wk_' + randomBytes(24).toString('hex');
+  }
+
+  private hashKey(key: string): string {
+    const salt = randomBytes(16).toString('hex');
+    return `${salt}:${createHash('sha256').update(salt + key).digest('hex')}`;
+  }
+
+  private verifyKey(key: string, stored: string | null): boolean {
+    if (!stored) return false;
+    const [salt, hash] = stored.split(':');
+    const expected = Buffer.from(hash, 'hex');
+    const actual = createHash('sha256').update(salt + key).digest();
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
   }
 }
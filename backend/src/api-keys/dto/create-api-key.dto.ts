@@ -1,9 +1,57 @@
-import { IsString, MinLength } from 'class-validator';
-import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsString,
+  IsOptional,
+  IsISO31661Alpha2,
+  MinLength,
+  IsArray,
+  ArrayMinSize,
+  IsEnum,
+  IsInt,
+  Min,
+  IsDateString,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import { ApiKeyScope } from '../api-key.entity';
 
 export class CreateApiKeyDto {
   @ApiProperty({ example: 'My API Key' })
   @IsString()
   @MinLength(1)
   name: string;
+
+  @ApiPropertyOptional({ example: 'IN', description: 'Default country for numbers without a country code' })
+  @IsOptional()
+  @IsISO31661Alpha2()
+  defaultCountry?: string;
+
+  @ApiProperty({ enum: ApiKeyScope, isArray: true, example: [ApiKeyScope.WHATSAPP_SEND] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsEnum(ApiKeyScope, { each: true })
+  scopes: ApiKeyScope[];
+
+  @ApiPropertyOptional({ example: 1, description: 'Only send through this WhatsApp session' })
+  @IsOptional()
+  @IsInt()
+  sessionId?: number;
+
+  @ApiPropertyOptional({ example: ['203.0.113.7', '10.0.0.0/8'], description: 'Addresses or CIDR ranges allowed to use the key' })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  allowedIps?: string[];
+
+  @ApiPropertyOptional({ example: '2026-12-31T23:59:59Z' })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+
+  @ApiPropertyOptional({ example: 60, description: 'Requests per minute (defaults to API_KEY_RATE_LIMIT)' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  rateLimitPerMinute?: number;
 }
+
+// Send null to remove a restriction
+export class UpdateApiKeyDto extends PartialType(CreateApiKeyDto) {}
@@ -0,0 +1,11 @@
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class RotateApiKeyDto {
+  @ApiPropertyOptional({ example: 24, description: 'Hours the old key keeps working (0 revokes it immediately)' })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(720)
+  gracePeriodHours?: number;
+}
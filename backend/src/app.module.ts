@@ -3,11 +3,19 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { AuthModule } from './auth/auth.module';
 import { UsersModule } from './users/users.module';
+import { OrganizationsModule } from './organizations/organizations.module';
 import { WhatsappModule } from './whatsapp/whatsapp.module';
 import { SmsModule } from './sms/sms.module';
 import { CampaignsModule } from './campaigns/campaigns.module';
 import { ApiKeysModule } from './api-keys/api-keys.module';
+import { PublicApiModule } from './public-api/public-api.module';
 import { UploadsModule } from './uploads/uploads.module';
+import { WebhooksModule } from './webhooks/webhooks.module';
+import { InboxModule } from './inbox/inbox.module';
+import { SuppressionModule } from './suppression/suppression.module';
+import { CreditsModule } from './credits/credits.module';
+import { AdminModule } from './admin/admin.module';
+import { databaseConfig } from './config/database.config';
 
 @Module({
   imports: [
@@ -17,27 +25,23 @@ import { UploadsModule } from './uploads/uploads.module';
     }),
     TypeOrmModule.forRootAsync({
       imports: [ConfigModule],
-      useFactory: (configService: ConfigService) => ({
-        type: configService.get('DB_TYPE', 'postgres'),
-        host: configService.get('DB_HOST', 'localhost'),
-        port: configService.get<number>('DB_PORT', 5432),
-        username: configService.get('DB_USERNAME', 'jantu'),
-        password: configService.get('DB_PASSWORD', 'jantupassword'),
-        database: configService.get('DB_DATABASE', 'jantu'),
-        entities: [__dirname + '/**/*.entity{.ts,.js}'],
-        synchronize: true,
-        logging: false,
-        ssl: configService.get('DB_SSL', 'false') === 'true' ? { rejectUnauthorized: false } : false,
-      } as any),
+      useFactory: databaseConfig,
       inject: [ConfigService],
     }),
     AuthModule,
     UsersModule,
+    OrganizationsModule,
     WhatsappModule,
     SmsModule,
     CampaignsModule,
     ApiKeysModule,
+    PublicApiModule,
     UploadsModule,
+    WebhooksModule,
+    InboxModule,
+    SuppressionModule,
+    CreditsModule,
+    AdminModule,
   ],
 })
 export class AppModule {}
@@ -1,15 +1,28 @@
-import { Injectable, UnauthorizedException, ConflictException } from '@nestjs/common';
+import { Injectable, UnauthorizedException, ConflictException, ForbiddenException } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import * as bcrypt from 'bcryptjs';
 import { UsersService } from '../users/users.service';
+import { User, UserRole } from '../users/user.entity';
+import { OrganizationsService } from '../organizations/organizations.service';
+import { OrganizationMember, OrganizationRole } from '../organizations/organization-member.entity';
 import { LoginDto } from './dto/login.dto';
 import { RegisterDto } from './dto/register.dto';
 
+// What a valid token resolves to; available as the request's user
+export interface AuthenticatedUser {
+  userId: number;
+  email: string;
+  role: UserRole;
+  organizationId: number;
+  organizationRole: OrganizationRole;
+}
+
 @Injectable()
 export class AuthService {
   constructor(
     private usersService: UsersService,
     private jwtService: JwtService,
+    private organizationsService: OrganizationsService,
   ) {}
 
   async register(registerDto: RegisterDto) {
@@ -22,18 +35,11 @@ export class AuthService {
       registerDto.email,
       registerDto.password,
       registerDto.name,
+      registerDto.defaultCountry,
     );
+    const membership = await this.organizationsService.createPersonal(user);
 
-    const token = this.generateToken(user.id, user.email);
-    return {
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        credits: user.credits,
-      },
-      token,
-    };
+    return this.issue(user, membership);
   }
 
   async login(loginDto: LoginDto) {
@@ -47,32 +53,94 @@ export class AuthService {
       throw new UnauthorizedException('Invalid credentials');
     }
 
-    const token = this.generateToken(user.id, user.email);
-    return {
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        credits: user.credits,
-      },
-      token,
-    };
+    if (!user.isActive) {
+      throw new UnauthorizedException('Account suspended');
+    }
+    const membership = await this.organizationsService.findDefaultMembership(user.id);
+    if (!membership) {
+      throw new ForbiddenException('Your account does not belong to any organization');
+    }
+
+    return this.issue(user, membership);
   }
 
-  async getProfile(userId: number) {
+  async getProfile(userId: number, organizationId: number) {
     const user = await this.usersService.findById(userId);
     if (!user) {
       throw new UnauthorizedException('User not found');
     }
+    const membership = await this.organizationsService.findMembership(organizationId, user.id);
+    if (!membership) {
+      throw new UnauthorizedException('You are no longer a member of this organization');
+    }
+    return this.toProfile(user, membership);
+  }
+
+  // New token scoped to another organization the user belongs to
+  async switchOrganization(userId: number, organizationId: number) {
+    const user = await this.usersService.findById(userId);
+    const membership = await this.organizationsService.findMembership(organizationId, userId);
+    if (!user || !membership) {
+      throw new ForbiddenException('You are not a member of this organization');
+    }
+    return this.issue(user, membership);
+  }
+
+  // Loaded on every use so suspensions, role changes and removals apply to existing tokens.
+  // Read-only: a token is only ever valid for the organization it was issued for.
+  async validatePayload(payload: any): Promise<AuthenticatedUser> {
+    const user = await this.usersService.findById(payload.sub);
+    if (!user || !user.isActive) {
+      throw new UnauthorizedException('Account suspended');
+    }
+    const membership = payload.organizationId
+      ? await this.organizationsService.findMembership(payload.organizationId, user.id)
+      : null;
+    if (!membership) {
+      throw new UnauthorizedException('You are no longer a member of this organization');
+    }
+    return {
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      organizationId: membership.organizationId,
+      organizationRole: membership.role,
+    };
+  }
+
+  // For connections that don't go through Passport, like WebSocket handshakes
+  async verifyToken(token: string): Promise<AuthenticatedUser> {
+    let payload: any;
+    try {
+      payload = this.jwtService.verify(token);
+    } catch {
+      throw new UnauthorizedException('Invalid token');
+    }
+    return this.validatePayload(payload);
+  }
+
+  private issue(user: User, membership: OrganizationMember) {
+    const token = this.generateToken(user.id, user.email, membership.organizationId);
+    return { user: this.toProfile(user, membership), token };
+  }
+
+  private toProfile(user: User, membership: OrganizationMember) {
     return {
       id: user.id,
       email: user.email,
       name: user.name,
-      credits: user.credits,
+      defaultCountry: user.defaultCountry,
+      role: user.role,
+      organization: {
+        id: membership.organization.id,
+        name: membership.organization.name,
+        role: membership.role,
+        credits: membership.organization.credits,
+      },
     };
   }
 
-  private generateToken(userId: number, email: string): string {
-    return this.jwtService.sign({ sub: userId, email });
+  private generateToken(userId: number, email: string, organizationId: number): string {
+    return this.jwtService.sign({ sub: userId, email, organizationId });
   }
 }
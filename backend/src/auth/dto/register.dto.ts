@@ -1,5 +1,5 @@
-import { IsEmail, IsString, MinLength } from 'class-validator';
-import { ApiProperty } from '@nestjs/swagger';
+import { IsEmail, IsString, IsOptional, IsISO31661Alpha2, MinLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 export class RegisterDto {
   @ApiProperty({ example: 'user@example.com' })
@@ -15,4 +15,9 @@ export class RegisterDto {
   @IsString()
   @MinLength(2)
   name: string;
+
+  @ApiPropertyOptional({ example: 'IN', description: 'Default country for numbers without a country code' })
+  @IsOptional()
+  @IsISO31661Alpha2()
+  defaultCountry?: string;
 }
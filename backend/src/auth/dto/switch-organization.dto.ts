@@ -0,0 +1,8 @@
+import { IsInt } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SwitchOrganizationDto {
+  @ApiProperty({ example: 1 })
+  @IsInt()
+  organizationId: number;
+}
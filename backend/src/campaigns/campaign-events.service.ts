@@ -0,0 +1,110 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Campaign, CampaignStatus } from './campaign.entity';
+import { CampaignRecipient, RecipientStatus } from './campaign-recipient.entity';
+import { WhatsappGateway } from '../whatsapp/whatsapp.gateway';
+
+// Pushes campaign progress to the organization's sockets:
+// campaignStatus on status changes, campaignRecipient per recipient update and
+// campaignProgress with counters, throughput and ETA after either
+@Injectable()
+export class CampaignEventsService {
+  private readonly logger = new Logger(CampaignEventsService.name);
+  private readonly THROUGHPUT_WINDOW = 5 * 60 * 1000; // 5 minutes
+
+  // When each campaign's recent recipients were processed
+  private recentSends: Map<number, number[]> = new Map();
+
+  constructor(
+    @InjectRepository(Campaign)
+    private campaignRepository: Repository<Campaign>,
+    @InjectRepository(CampaignRecipient)
+    private recipientRepository: Repository<CampaignRecipient>,
+    private whatsappGateway: WhatsappGateway,
+  ) {}
+
+  async statusChanged(campaignId: number): Promise<void> {
+    try {
+      const campaign = await this.campaignRepository.findOne({ where: { id: campaignId } });
+      if (!campaign) return;
+
+      if (campaign.status !== CampaignStatus.RUNNING) {
+        this.recentSends.delete(campaignId);
+      }
+      this.whatsappGateway.emitToOrganization(campaign.organizationId, 'campaignStatus', {
+        campaignId,
+        status: campaign.status,
+      });
+      await this.emitProgress(campaign);
+    } catch (error: any) {
+      this.logger.warn(`Failed to emit status of campaign ${campaignId}: ${error.message}`);
+    }
+  }
+
+  async recipientUpdated(recipientId: number): Promise<void> {
+    try {
+      const recipient = await this.recipientRepository.findOne({ where: { id: recipientId } });
+      if (!recipient) return;
+      const campaign = await this.campaignRepository.findOne({ where: { id: recipient.campaignId } });
+      if (!campaign) return;
+
+      if (recipient.status === RecipientStatus.SENT || recipient.status === RecipientStatus.FAILED) {
+        this.recordSend(campaign.id);
+      }
+      this.whatsappGateway.emitToOrganization(campaign.organizationId, 'campaignRecipient', {
+        campaignId: campaign.id,
+        recipient: {
+          id: recipient.id,
+          phoneNumber: recipient.phoneNumber,
+          status: recipient.status,
+          error: recipient.error,
+          sentAt: recipient.sentAt,
+          deliveredAt: recipient.deliveredAt,
+          readAt: recipient.readAt,
+        },
+      });
+      await this.emitProgress(campaign);
+    } catch (error: any) {
+      this.logger.warn(`Failed to emit update of recipient ${recipientId}: ${error.message}`);
+    }
+  }
+
+  private async emitProgress(campaign: Campaign): Promise<void> {
+    const pendingCount = await this.recipientRepository.count({
+      where: { campaignId: campaign.id, status: RecipientStatus.PENDING },
+    });
+    const throughputPerMinute = this.throughput(campaign.id);
+    const running = campaign.status === CampaignStatus.RUNNING;
+
+    this.whatsappGateway.emitToOrganization(campaign.organizationId, 'campaignProgress', {
+      campaignId: campaign.id,
+      status: campaign.status,
+      totalRecipients: campaign.totalRecipients,
+      sentCount: campaign.sentCount,
+      failedCount: campaign.failedCount,
+      pendingCount,
+      throughputPerMinute,
+      etaSeconds:
+        running && throughputPerMinute > 0 ? Math.round((pendingCount / throughputPerMinute) * 60) : null,
+      at: new Date(),
+    });
+  }
+
+  private recordSend(campaignId: number) {
+    const now = Date.now();
+    const sends = (this.recentSends.get(campaignId) || []).filter((t) => now - t < this.THROUGHPUT_WINDOW);
+    sends.push(now);
+    this.recentSends.set(campaignId, sends);
+  }
+
+  // Recipients per minute over the window, or since the first send if that's more recent
+  private throughput(campaignId: number): number {
+    const now = Date.now();
+    const sends = (this.recentSends.get(campaignId) || []).filter((t) => now - t < this.THROUGHPUT_WINDOW);
+    if (sends.length < 2) return 0;
+
+    const minutes = (now - sends[0]) / 60000;
+    return Math.round((sends.length / minutes) * 10) / 10;
+  }
+}
@@ -0,0 +1,74 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Campaign } from './campaign.entity';
+import { CampaignRecipient } from './campaign-recipient.entity';
+
+export enum JobStatus {
+  QUEUED = 'queued',
+  PROCESSING = 'processing',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
+
+// One row per recipient send, so a restart can pick up where it left off
+@Entity('campaign_jobs')
+@Index(['status', 'runAt'])
+export class CampaignJob {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  campaignId: number;
+
+  @Column()
+  recipientId: number;
+
+  @Column()
+  userId: number;
+
+  @Column()
+  sessionId: number;
+
+  @Column({
+    type: 'enum',
+    enum: JobStatus,
+    default: JobStatus.QUEUED,
+  })
+  status: JobStatus;
+
+  @Column({ default: 0 })
+  attempts: number;
+
+  @Column()
+  runAt: Date;
+
+  // When a worker claimed the job; null while it isn't running
+  @Column({ type: Date, nullable: true })
+  lockedAt: Date | null;
+
+  @Column({ nullable: true })
+  lastError: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @ManyToOne(() => Campaign, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'campaignId' })
+  campaign: Campaign;
+
+  @ManyToOne(() => CampaignRecipient, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'recipientId' })
+  recipient: CampaignRecipient;
+}
@@ -0,0 +1,262 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { FindOptionsWhere, In, LessThan, LessThanOrEqual, Not, Repository } from 'typeorm';
+import { Campaign, CampaignStatus } from './campaign.entity';
+import { CampaignJob, JobStatus } from './campaign-job.entity';
+import { RecipientStatus } from './campaign-recipient.entity';
+import { CampaignsService } from './campaigns.service';
+import { WhatsappService } from '../whatsapp/whatsapp.service';
+import { InsufficientCreditsException } from '../credits/insufficient-credits.exception';
+import { RateLimitExceededException } from '../whatsapp/rate-limit-exceeded.exception';
+
+// DB-backed worker for campaign sends (no Redis needed)
+@Injectable()
+export class CampaignQueueService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(CampaignQueueService.name);
+  private timer: NodeJS.Timeout | null = null;
+  private reclaimTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  // Jobs currently running, in total and per WhatsApp session
+  private activeJobs = 0;
+  private activePerSession: Map<number, number> = new Map();
+
+  private readonly POLL_INTERVAL: number;
+  private readonly CONCURRENCY: number;
+  private readonly SESSION_CONCURRENCY: number;
+  private readonly MAX_ATTEMPTS: number;
+  private readonly MESSAGE_DELAY_MIN: number;
+  private readonly MESSAGE_DELAY_MAX: number;
+  private readonly STALE_AFTER: number;
+  private readonly RETRY_DELAY = 30000; // 30 seconds, doubled per attempt
+  private readonly SESSION_WAIT_DELAY = 30000; // recheck a disconnected session after 30 seconds
+
+  constructor(
+    @InjectRepository(CampaignJob)
+    private jobRepository: Repository<CampaignJob>,
+    @InjectRepository(Campaign)
+    private campaignRepository: Repository<Campaign>,
+    private campaignsService: CampaignsService,
+    private whatsappService: WhatsappService,
+    private configService: ConfigService,
+  ) {
+    this.POLL_INTERVAL = Number(this.configService.get('CAMPAIGN_QUEUE_POLL_INTERVAL', 2000));
+    this.CONCURRENCY = Number(this.configService.get('CAMPAIGN_QUEUE_CONCURRENCY', 5));
+    this.SESSION_CONCURRENCY = Number(this.configService.get('CAMPAIGN_SESSION_CONCURRENCY', 1));
+    this.MAX_ATTEMPTS = Number(this.configService.get('CAMPAIGN_JOB_MAX_ATTEMPTS', 3));
+    this.MESSAGE_DELAY_MIN = Number(this.configService.get('MESSAGE_DELAY_MIN', 1000));
+    this.MESSAGE_DELAY_MAX = Number(this.configService.get('MESSAGE_DELAY_MAX', this.MESSAGE_DELAY_MIN));
+    this.STALE_AFTER = Number(this.configService.get('CAMPAIGN_JOB_STALE_AFTER', 10 * 60 * 1000));
+  }
+
+  // Resume RUNNING campaigns on startup
+  async onModuleInit() {
+    try {
+      await this.reclaimStale();
+
+      const running = await this.campaignRepository.find({
+        where: { status: CampaignStatus.RUNNING },
+      });
+      for (const campaign of running) {
+        const queued = await this.campaignsService.enqueuePendingRecipients(campaign.id);
+        this.logger.log(`Resuming campaign ${campaign.id} (${queued} new jobs queued)`);
+      }
+    } catch (error: any) {
+      this.logger.error(`Error during campaign queue recovery: ${error.message}`);
+    }
+
+    this.timer = setInterval(() => this.poll(), this.POLL_INTERVAL);
+    this.reclaimTimer = setInterval(() => this.reclaimStale(), this.STALE_AFTER / 2);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.reclaimTimer) {
+      clearInterval(this.reclaimTimer);
+      this.reclaimTimer = null;
+    }
+  }
+
+  // Requeue jobs whose worker died mid-send. Only locks older than STALE_AFTER are taken over,
+  // since other instances may still be working on recent ones.
+  private async reclaimStale(): Promise<void> {
+    try {
+      const result = await this.jobRepository.update(
+        { status: JobStatus.PROCESSING, lockedAt: LessThan(new Date(Date.now() - this.STALE_AFTER)) },
+        { status: JobStatus.QUEUED, lockedAt: null },
+      );
+      if (result.affected) {
+        this.logger.warn(`Requeued ${result.affected} stale campaign jobs`);
+      }
+    } catch (error: any) {
+      this.logger.error(`Error requeuing stale campaign jobs: ${error.message}`);
+    }
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling || this.activeJobs >= this.CONCURRENCY) return;
+    this.polling = true;
+
+    try {
+      const where: FindOptionsWhere<CampaignJob> = {
+        status: JobStatus.QUEUED,
+        runAt: LessThanOrEqual(new Date()),
+        campaign: { status: CampaignStatus.RUNNING },
+      };
+      // Leave out sessions already at their cap, so their backlog can't crowd out other sessions' jobs
+      const busySessions = [...this.activePerSession]
+        .filter(([, count]) => count >= this.SESSION_CONCURRENCY)
+        .map(([sessionId]) => sessionId);
+      if (busySessions.length > 0) {
+        where.sessionId = Not(In(busySessions));
+      }
+
+      const candidates = await this.jobRepository.find({
+        where,
+        order: { runAt: 'ASC', id: 'ASC' },
+        take: this.CONCURRENCY * 10,
+      });
+
+      for (const job of candidates) {
+        if (this.activeJobs >= this.CONCURRENCY) break;
+        if ((this.activePerSession.get(job.sessionId) || 0) >= this.SESSION_CONCURRENCY) continue;
+
+        if (!this.whatsappService.isSessionActive(job.sessionId)) {
+          await this.jobRepository.update(job.id, {
+            runAt: new Date(Date.now() + this.SESSION_WAIT_DELAY),
+          });
+          continue;
+        }
+
+        if (!(await this.claim(job))) continue;
+
+        this.acquire(job.sessionId);
+        this.run(job)
+          .catch((err) => this.logger.error(`Job ${job.id} crashed: ${err.message}`))
+          .finally(() => this.release(job.sessionId));
+      }
+    } catch (error: any) {
+      this.logger.error(`Campaign queue poll failed: ${error.message}`);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  // Conditional update so a job is only ever picked up once
+  private async claim(job: CampaignJob): Promise<boolean> {
+    const result = await this.jobRepository.update(
+      { id: job.id, status: JobStatus.QUEUED },
+      { status: JobStatus.PROCESSING, lockedAt: new Date() },
+    );
+    return result.affected === 1;
+  }
+
+  private async run(job: CampaignJob): Promise<void> {
+    // The campaign may have been paused or cancelled since the job was picked
+    const campaignStatus = await this.campaignsService.getStatus(job.campaignId);
+    if (campaignStatus !== CampaignStatus.RUNNING) {
+      await this.jobRepository.update(job.id, {
+        status: campaignStatus === CampaignStatus.PAUSED ? JobStatus.QUEUED : JobStatus.CANCELLED,
+        lockedAt: null,
+      });
+      return;
+    }
+
+    // Outside the send window: wait for it to open without using up an attempt
+    const windowDelay = await this.campaignsService.getSendWindowDelay(job.campaignId, job.recipientId);
+    if (windowDelay > 0) {
+      await this.jobRepository.update(job.id, {
+        status: JobStatus.QUEUED,
+        lockedAt: null,
+        runAt: new Date(Date.now() + windowDelay),
+      });
+      return;
+    }
+
+    const attempts = job.attempts + 1;
+
+    try {
+      await this.campaignsService.sendToRecipient(job.campaignId, job.recipientId);
+      await this.jobRepository.update(job.id, {
+        status: JobStatus.COMPLETED,
+        attempts,
+        lockedAt: null,
+      });
+    } catch (error: any) {
+      // Out of credits: hold the job (without using an attempt) until the campaign is resumed
+      if (error instanceof InsufficientCreditsException) {
+        await this.jobRepository.update(job.id, {
+          status: JobStatus.QUEUED,
+          lastError: error.message,
+          lockedAt: null,
+        });
+        await this.campaignsService.pauseForInsufficientCredits(job.campaignId);
+        return;
+      }
+
+      // Session rate limit: retry once the window resets, also without using an attempt
+      if (error instanceof RateLimitExceededException) {
+        await this.jobRepository.update(job.id, {
+          status: JobStatus.QUEUED,
+          lockedAt: null,
+          runAt: new Date(Date.now() + error.waitTime),
+        });
+        return;
+      }
+
+      this.logger.warn(`Job ${job.id} attempt ${attempts}/${this.MAX_ATTEMPTS} failed: ${error.message}`);
+
+      if (attempts < this.MAX_ATTEMPTS) {
+        await this.jobRepository.update(job.id, {
+          status: JobStatus.QUEUED,
+          attempts,
+          lastError: error.message,
+          lockedAt: null,
+          runAt: new Date(Date.now() + this.RETRY_DELAY * Math.pow(2, attempts - 1)),
+        });
+        return;
+      }
+
+      await this.jobRepository.update(job.id, {
+        status: JobStatus.FAILED,
+        attempts,
+        lastError: error.message,
+        lockedAt: null,
+      });
+      await this.campaignsService.updateRecipientStatus(
+        job.recipientId,
+        RecipientStatus.FAILED,
+        error.message,
+      );
+    }
+
+    await this.campaignsService.completeIfFinished(job.campaignId);
+
+    // Small delay between messages to avoid rate limiting
+    await new Promise((resolve) => setTimeout(resolve, this.getMessageDelay()));
+  }
+
+  private getMessageDelay(): number {
+    const spread = Math.max(this.MESSAGE_DELAY_MAX - this.MESSAGE_DELAY_MIN, 0);
+    return this.MESSAGE_DELAY_MIN + Math.floor(Math.random() * spread);
+  }
+
+  private acquire(sessionId: number) {
+    this.activeJobs++;
+    this.activePerSession.set(sessionId, (this.activePerSession.get(sessionId) || 0) + 1);
+  }
+
+  private release(sessionId: number) {
+    this.activeJobs--;
+    const count = (this.activePerSession.get(sessionId) || 1) - 1;
+    if (count > 0) {
+      this.activePerSession.set(sessionId, count);
+    } else {
+      this.activePerSession.delete(sessionId);
+    }
+  }
+}
@@ -5,16 +5,24 @@ import {
   CreateDateColumn,
   ManyToOne,
   JoinColumn,
+  Index,
 } from 'typeorm';
 import { Campaign } from './campaign.entity';
 
 export enum RecipientStatus {
   PENDING = 'pending',
   SENT = 'sent',
+  DELIVERED = 'delivered',
+  READ = 'read',
   FAILED = 'failed',
+  CANCELLED = 'cancelled',
+  // Skipped: the number is on the suppression list
+  SUPPRESSED = 'suppressed',
 }
 
 @Entity('campaign_recipients')
+// A number receives each campaign once
+@Index(['campaignId', 'normalizedNumber'], { unique: true })
 export class CampaignRecipient {
   @PrimaryGeneratedColumn()
   id: number;
@@ -25,6 +33,17 @@ export class CampaignRecipient {
   @Column()
   phoneNumber: string;
 
+  // E.164 form of phoneNumber
+  @Column({ nullable: true })
+  normalizedNumber: string;
+
+  // Values for {{variables}} in the campaign message
+  @Column({ type: 'simple-json', nullable: true })
+  variables: Record<string, string> | null;
+
+  @Column({ nullable: true })
+  timezone: string;
+
   @Column({
     type: 'enum',
     enum: RecipientStatus,
@@ -35,6 +54,15 @@ export class CampaignRecipient {
   @Column({ nullable: true })
   sentAt: Date;
 
+  @Column({ nullable: true })
+  deliveredAt: Date;
+
+  @Column({ nullable: true })
+  readAt: Date;
+
+  @Column({ nullable: true })
+  messageLogId: number;
+
   @Column({ nullable: true })
   error: string;
 
@@ -0,0 +1,70 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { In, MoreThan, Repository } from 'typeorm';
+import { Campaign, CampaignStatus } from './campaign.entity';
+import { CampaignsService } from './campaigns.service';
+
+// Periodically recomputes campaign counters from recipient rows, as a safety net
+// for anything the incremental updates missed (crashes, manual DB edits)
+@Injectable()
+export class CampaignReconciliationService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(CampaignReconciliationService.name);
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  private readonly INTERVAL: number;
+  private readonly RECENT_WINDOW = 24 * 60 * 60 * 1000; // also recheck campaigns touched in the last day
+
+  constructor(
+    @InjectRepository(Campaign)
+    private campaignRepository: Repository<Campaign>,
+    private campaignsService: CampaignsService,
+    private configService: ConfigService,
+  ) {
+    this.INTERVAL = Number(this.configService.get('CAMPAIGN_RECONCILE_INTERVAL', 300000));
+  }
+
+  onModuleInit() {
+    this.timer = setInterval(() => this.reconcile(), this.INTERVAL);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async reconcile(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const campaigns = await this.campaignRepository.find({
+        select: ['id', 'status'],
+        where: [
+          { status: In([CampaignStatus.RUNNING, CampaignStatus.PAUSED]) },
+          { updatedAt: MoreThan(new Date(Date.now() - this.RECENT_WINDOW)) },
+        ],
+      });
+
+      let corrected = 0;
+      for (const campaign of campaigns) {
+        if (await this.campaignsService.reconcileCounters(campaign.id)) corrected++;
+        // Catch campaigns whose last job finished without completing them
+        if (campaign.status === CampaignStatus.RUNNING) {
+          await this.campaignsService.completeIfFinished(campaign.id);
+        }
+      }
+
+      if (corrected > 0) {
+        this.logger.log(`Reconciled ${campaigns.length} campaigns, corrected ${corrected}`);
+      }
+    } catch (error: any) {
+      this.logger.error(`Campaign reconciliation failed: ${error.message}`);
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,39 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CampaignsService } from './campaigns.service';
+
+// Starts scheduled campaigns once their scheduledAt has passed
+@Injectable()
+export class CampaignSchedulerService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(CampaignSchedulerService.name);
+  private timer: NodeJS.Timeout | null = null;
+  private readonly INTERVAL: number;
+
+  constructor(
+    private campaignsService: CampaignsService,
+    private configService: ConfigService,
+  ) {
+    this.INTERVAL = Number(this.configService.get('CAMPAIGN_SCHEDULER_INTERVAL', 30000));
+  }
+
+  // Pick up campaigns that became due while the server was down
+  async onModuleInit() {
+    await this.tick();
+    this.timer = setInterval(() => this.tick(), this.INTERVAL);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async tick(): Promise<void> {
+    try {
+      await this.campaignsService.startDueCampaigns();
+    } catch (error: any) {
+      this.logger.error(`Failed to start scheduled campaigns: ${error.message}`);
+    }
+  }
+}
@@ -7,7 +7,9 @@ import {
   ManyToOne,
   OneToMany,
   JoinColumn,
+  Index,
 } from 'typeorm';
+import { Organization } from '../organizations/organization.entity';
 import { User } from '../users/user.entity';
 import { WhatsappSession } from '../whatsapp/whatsapp-session.entity';
 import { CampaignRecipient } from './campaign-recipient.entity';
@@ -17,6 +19,8 @@ export enum CampaignStatus {
   DRAFT = 'draft',
   PENDING = 'pending',
   RUNNING = 'running',
+  PAUSED = 'paused',
+  CANCELLED = 'cancelled',
   COMPLETED = 'completed',
   FAILED = 'failed',
 }
@@ -29,6 +33,10 @@ export class Campaign {
   @Column()
   userId: number;
 
+  @Index()
+  @Column({ nullable: true })
+  organizationId: number;
+
   @Column({ nullable: true })
   sessionId: number;
 
@@ -50,6 +58,21 @@ export class Campaign {
   @Column({ nullable: true })
   callNumber: string;
 
+  // Start time for scheduled campaigns; the campaign stays PENDING until then
+  @Column({ nullable: true })
+  scheduledAt: Date;
+
+  // Optional daily send window ("HH:mm"), evaluated in the recipient's timezone
+  @Column({ nullable: true })
+  sendWindowStart: string;
+
+  @Column({ nullable: true })
+  sendWindowEnd: string;
+
+  // IANA timezone used for recipients without their own
+  @Column({ nullable: true })
+  timezone: string;
+
   @Column({
     type: 'enum',
     enum: CampaignStatus,
@@ -85,4 +108,8 @@ export class Campaign {
 
   @OneToMany(() => CampaignMedia, (media) => media.campaign)
   media: CampaignMedia[];
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organizationId' })
+  organization: Organization;
 }
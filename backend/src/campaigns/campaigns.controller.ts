@@ -5,66 +5,155 @@ import {
   Delete,
   Body,
   Param,
+  Query,
   UseGuards,
   ParseIntPipe,
   UseInterceptors,
+  UploadedFile,
   UploadedFiles,
+  BadRequestException,
 } from '@nestjs/common';
-import { FilesInterceptor } from '@nestjs/platform-express';
-import { ApiTags, ApiOperation, ApiBearerAuth, ApiConsumes } from '@nestjs/swagger';
+import { FileInterceptor, FilesInterceptor } from '@nestjs/platform-express';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiConsumes, ApiQuery } from '@nestjs/swagger';
 import { diskStorage } from 'multer';
 import { extname } from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import { CampaignsService } from './campaigns.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { OrganizationRoleGuard } from '../common/guards/organization-role.guard';
 import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { RequireOrganizationRole } from '../common/decorators/organization-role.decorator';
+import { OrganizationRole } from '../organizations/organization-member.entity';
 import { CreateCampaignDto } from './dto/create-campaign.dto';
 import { AddRecipientsDto } from './dto/add-recipients.dto';
+import { ImportRecipientsDto } from './dto/import-recipients.dto';
+import { RecipientImportService } from './recipient-import.service';
 import { CampaignMedia, MediaType } from './campaign-media.entity';
 
 @ApiTags('Campaigns')
 @Controller('campaigns')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, OrganizationRoleGuard)
 @ApiBearerAuth()
 export class CampaignsController {
-  constructor(private campaignsService: CampaignsService) {}
+  constructor(
+    private campaignsService: CampaignsService,
+    private recipientImportService: RecipientImportService,
+  ) {}
 
   @Post()
+  @RequireOrganizationRole(OrganizationRole.MANAGER)
   @ApiOperation({ summary: 'Create a new campaign' })
   async create(
-    @CurrentUser() user: { userId: number },
+    @CurrentUser() user: { userId: number; organizationId: number },
     @Body() createCampaignDto: CreateCampaignDto,
   ) {
-    return this.campaignsService.create(user.userId, createCampaignDto);
+    return this.campaignsService.create(user.organizationId, user.userId, createCampaignDto);
   }
 
   @Get()
   @ApiOperation({ summary: 'Get all campaigns' })
-  async findAll(@CurrentUser() user: { userId: number }) {
-    return this.campaignsService.findAll(user.userId);
+  async findAll(@CurrentUser() user: { organizationId: number }) {
+    return this.campaignsService.findAll(user.organizationId);
   }
 
   @Get(':id')
   @ApiOperation({ summary: 'Get a campaign by ID' })
   async findOne(
-    @CurrentUser() user: { userId: number },
+    @CurrentUser() user: { organizationId: number },
     @Param('id', ParseIntPipe) id: number,
   ) {
-    return this.campaignsService.findOne(id, user.userId);
+    return this.campaignsService.findOne(id, user.organizationId);
   }
 
   @Post(':id/recipients')
+  @RequireOrganizationRole(OrganizationRole.MANAGER)
   @ApiOperation({ summary: 'Add recipients to campaign' })
   async addRecipients(
-    @CurrentUser() user: { userId: number },
+    @CurrentUser() user: { organizationId: number },
     @Param('id', ParseIntPipe) id: number,
     @Body() addRecipientsDto: AddRecipientsDto,
   ) {
-    await this.campaignsService.addRecipients(id, user.userId, addRecipientsDto.phoneNumbers);
-    return { success: true, message: 'Recipients added successfully' };
+    const recipients = [
+      ...(addRecipientsDto.phoneNumbers || []).map((phoneNumber) => ({ phoneNumber })),
+      ...(addRecipientsDto.recipients || []),
+    ];
+    if (recipients.length === 0) {
+      throw new BadRequestException('Either phoneNumbers or recipients is required');
+    }
+
+    const result = await this.campaignsService.addRecipients(
+      id,
+      user.organizationId,
+      recipients,
+      addRecipientsDto.timezone,
+    );
+    return { success: true, message: 'Recipients added successfully', ...result };
+  }
+
+  @Post(':id/recipients/import')
+  @RequireOrganizationRole(OrganizationRole.MANAGER)
+  @ApiOperation({
+    summary: 'Import recipients from CSV/XLSX',
+    description:
+      'Returns a validation report. Send commit=true to save the accepted rows.',
+  })
+  @ApiConsumes('multipart/form-data')
+  @UseInterceptors(
+    FileInterceptor('file', {
+      limits: {
+        fileSize: 10 * 1024 * 1024,
+      },
+      fileFilter: (req, file, cb) => {
+        const allowedMimes = [
+          'text/csv',
+          'application/csv',
+          'text/plain',
+          'application/vnd.ms-excel',
+          'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        ];
+        if (allowedMimes.includes(file.mimetype)) {
+          cb(null, true);
+        } else {
+          cb(new BadRequestException('Invalid file type. Allowed: CSV, Excel'), false);
+        }
+      },
+    }),
+  )
+  async importRecipients(
+    @CurrentUser() user: { organizationId: number },
+    @Param('id', ParseIntPipe) id: number,
+    @UploadedFile() file: Express.Multer.File,
+    @Body() importDto: ImportRecipientsDto,
+  ) {
+    if (!file) {
+      throw new BadRequestException('File is required');
+    }
+
+    return this.recipientImportService.importFile(id, user.organizationId, file, {
+      phoneColumn: importDto.phoneColumn,
+      variables: importDto.variables,
+      timezoneColumn: importDto.timezoneColumn,
+      commit: importDto.commit,
+    });
+  }
+
+  @Get(':id/preview')
+  @ApiOperation({ summary: 'Render the campaign message for sample recipients' })
+  @ApiQuery({ name: 'recipientId', required: false })
+  async preview(
+    @CurrentUser() user: { organizationId: number },
+    @Param('id', ParseIntPipe) id: number,
+    @Query('recipientId') recipientId?: string,
+  ) {
+    return this.campaignsService.previewCampaign(
+      id,
+      user.organizationId,
+      recipientId ? Number(recipientId) : undefined,
+    );
   }
 
   @Post(':id/media')
+  @RequireOrganizationRole(OrganizationRole.MANAGER)
   @ApiOperation({ summary: 'Upload media to campaign' })
   @ApiConsumes('multipart/form-data')
   @UseInterceptors(
@@ -82,7 +171,7 @@ export class CampaignsController {
     }),
   )
   async uploadMedia(
-    @CurrentUser() user: { userId: number },
+    @CurrentUser() user: { organizationId: number },
     @Param('id', ParseIntPipe) id: number,
     @UploadedFiles() files: Express.Multer.File[],
   ) {
@@ -104,7 +193,7 @@ export class CampaignsController {
 
       const media = await this.campaignsService.addMedia(
         id,
-        user.userId,
+        user.organizationId,
         mediaType,
         file.path,
         file.originalname,
@@ -117,31 +206,66 @@ export class CampaignsController {
   }
 
   @Post(':id/send')
+  @RequireOrganizationRole(OrganizationRole.MANAGER)
   @ApiOperation({ summary: 'Start sending campaign messages' })
   async startCampaign(
-    @CurrentUser() user: { userId: number },
+    @CurrentUser() user: { organizationId: number },
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    const campaign = await this.campaignsService.startCampaign(id, user.organizationId);
+    return { success: true, campaign };
+  }
+
+  @Post(':id/pause')
+  @RequireOrganizationRole(OrganizationRole.MANAGER)
+  @ApiOperation({ summary: 'Pause a running campaign' })
+  async pauseCampaign(
+    @CurrentUser() user: { organizationId: number },
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    const campaign = await this.campaignsService.pauseCampaign(id, user.organizationId);
+    return { success: true, campaign };
+  }
+
+  @Post(':id/resume')
+  @RequireOrganizationRole(OrganizationRole.MANAGER)
+  @ApiOperation({ summary: 'Resume a paused campaign' })
+  async resumeCampaign(
+    @CurrentUser() user: { organizationId: number },
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    const campaign = await this.campaignsService.resumeCampaign(id, user.organizationId);
+    return { success: true, campaign };
+  }
+
+  @Post(':id/cancel')
+  @RequireOrganizationRole(OrganizationRole.MANAGER)
+  @ApiOperation({ summary: 'Cancel a campaign and drop its unsent messages' })
+  async cancelCampaign(
+    @CurrentUser() user: { organizationId: number },
     @Param('id', ParseIntPipe) id: number,
   ) {
-    const campaign = await this.campaignsService.startCampaign(id, user.userId);
+    const campaign = await this.campaignsService.cancelCampaign(id, user.organizationId);
     return { success: true, campaign };
   }
 
   @Get(':id/report')
   @ApiOperation({ summary: 'Get campaign report' })
   async getReport(
-    @CurrentUser() user: { userId: number },
+    @CurrentUser() user: { organizationId: number },
     @Param('id', ParseIntPipe) id: number,
   ) {
-    return this.campaignsService.getCampaignReport(id, user.userId);
+    return this.campaignsService.getCampaignReport(id, user.organizationId);
   }
 
   @Delete(':id')
+  @RequireOrganizationRole(OrganizationRole.MANAGER)
   @ApiOperation({ summary: 'Delete a campaign' })
   async delete(
-    @CurrentUser() user: { userId: number },
+    @CurrentUser() user: { organizationId: number },
     @Param('id', ParseIntPipe) id: number,
   ) {
-    await this.campaignsService.delete(id, user.userId);
+    await this.campaignsService.delete(id, user.organizationId);
     return { success: true };
   }
 }
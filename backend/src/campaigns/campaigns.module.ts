@@ -5,14 +5,35 @@ import { CampaignsController } from './campaigns.controller';
 import { Campaign } from './campaign.entity';
 import { CampaignRecipient } from './campaign-recipient.entity';
 import { CampaignMedia } from './campaign-media.entity';
+import { CampaignJob } from './campaign-job.entity';
+import { CampaignQueueService } from './campaign-queue.service';
+import { CampaignSchedulerService } from './campaign-scheduler.service';
+import { CampaignReconciliationService } from './campaign-reconciliation.service';
+import { RecipientImportService } from './recipient-import.service';
+import { CampaignEventsService } from './campaign-events.service';
 import { WhatsappModule } from '../whatsapp/whatsapp.module';
+import { PhoneModule } from '../phone/phone.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
+import { SuppressionModule } from '../suppression/suppression.module';
+import { CreditsModule } from '../credits/credits.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Campaign, CampaignRecipient, CampaignMedia]),
+    TypeOrmModule.forFeature([Campaign, CampaignRecipient, CampaignMedia, CampaignJob]),
     WhatsappModule,
+    PhoneModule,
+    WebhooksModule,
+    SuppressionModule,
+    CreditsModule,
+  ],
+  providers: [
+    CampaignsService,
+    CampaignQueueService,
+    CampaignSchedulerService,
+    CampaignReconciliationService,
+    RecipientImportService,
+    CampaignEventsService,
   ],
-  providers: [CampaignsService],
   controllers: [CampaignsController],
   exports: [CampaignsService],
 })
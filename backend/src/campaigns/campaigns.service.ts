@@ -1,15 +1,25 @@
-import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException, Logger, OnModuleInit } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { In, LessThanOrEqual, Repository } from 'typeorm';
 import { Campaign, CampaignStatus } from './campaign.entity';
 import { CampaignRecipient, RecipientStatus } from './campaign-recipient.entity';
 import { CampaignMedia, MediaType } from './campaign-media.entity';
+import { CampaignJob, JobStatus } from './campaign-job.entity';
+import { isValidTimezone, msUntilWindowOpens } from './send-window';
+import { CampaignEventsService } from './campaign-events.service';
+import { extractVariables, findMissingVariables, renderTemplate, TemplateVariables } from './template';
 import { CreateCampaignDto } from './dto/create-campaign.dto';
+import { RecipientDto } from './dto/recipient.dto';
 import { WhatsappService } from '../whatsapp/whatsapp.service';
-import { MessageSource } from '../whatsapp/message-log.entity';
+import { MessageLog, MessageSource, MessageStatus } from '../whatsapp/message-log.entity';
+import { PhoneNumberService } from '../phone/phone-number.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { WebhookEvent } from '../webhooks/webhook-endpoint.entity';
+import { SuppressionService } from '../suppression/suppression.service';
+import { CreditsService, BillingChannel } from '../credits/credits.service';
 
 @Injectable()
-export class CampaignsService {
+export class CampaignsService implements OnModuleInit {
   private readonly logger = new Logger(CampaignsService.name);
 
   constructor(
@@ -19,29 +29,51 @@ export class CampaignsService {
     private recipientRepository: Repository<CampaignRecipient>,
     @InjectRepository(CampaignMedia)
     private mediaRepository: Repository<CampaignMedia>,
+    @InjectRepository(CampaignJob)
+    private jobRepository: Repository<CampaignJob>,
     private whatsappService: WhatsappService,
+    private phoneNumberService: PhoneNumberService,
+    private webhooksService: WebhooksService,
+    private suppressionService: SuppressionService,
+    private creditsService: CreditsService,
+    private campaignEvents: CampaignEventsService,
   ) {}
 
-  async create(userId: number, createCampaignDto: CreateCampaignDto): Promise<Campaign> {
+  onModuleInit() {
+    this.whatsappService.onMessageStatus((log) => this.handleMessageStatus(log));
+  }
+
+  async create(organizationId: number, userId: number, createCampaignDto: CreateCampaignDto): Promise<Campaign> {
+    const { scheduledAt, ...fields } = createCampaignDto;
+
+    if (!!fields.sendWindowStart !== !!fields.sendWindowEnd) {
+      throw new BadRequestException('sendWindowStart and sendWindowEnd must be set together');
+    }
+    if (fields.timezone && !isValidTimezone(fields.timezone)) {
+      throw new BadRequestException(`Unknown timezone: ${fields.timezone}`);
+    }
+
     const campaign = this.campaignRepository.create({
+      organizationId,
       userId,
-      ...createCampaignDto,
+      ...fields,
+      scheduledAt: scheduledAt ? new Date(scheduledAt) : undefined,
       status: CampaignStatus.DRAFT,
     });
     return this.campaignRepository.save(campaign);
   }
 
-  async findAll(userId: number): Promise<Campaign[]> {
+  async findAll(organizationId: number): Promise<Campaign[]> {
     return this.campaignRepository.find({
-      where: { userId },
+      where: { organizationId },
       order: { createdAt: 'DESC' },
       relations: ['media'],
     });
   }
 
-  async findOne(id: number, userId: number): Promise<Campaign> {
+  async findOne(id: number, organizationId: number): Promise<Campaign> {
     const campaign = await this.campaignRepository.findOne({
-      where: { id, userId },
+      where: { id, organizationId },
       relations: ['recipients', 'media'],
     });
     if (!campaign) {
@@ -50,34 +82,121 @@ export class CampaignsService {
     return campaign;
   }
 
-  async addRecipients(campaignId: number, userId: number, phoneNumbers: string[]): Promise<void> {
-    const campaign = await this.findOne(campaignId, userId);
+  async addRecipients(
+    campaignId: number,
+    organizationId: number,
+    recipients: RecipientDto[],
+    timezone?: string,
+  ): Promise<{ added: number; suppressed: number; skipped: number }> {
+    const campaign = await this.findOne(campaignId, organizationId);
+
+    for (const tz of [timezone, ...recipients.map((r) => r.timezone)]) {
+      if (tz && !isValidTimezone(tz)) {
+        throw new BadRequestException(`Unknown timezone: ${tz}`);
+      }
+    }
+
+    // Normalize to E.164 and de-duplicate, keeping the first entry
+    const country = await this.phoneNumberService.resolveDefaultCountry(organizationId);
+    const byNumber = new Map<string, RecipientDto & { normalizedNumber: string }>();
+    const invalid: string[] = [];
+    for (const recipient of recipients) {
+      const phoneNumber = recipient.phoneNumber.trim();
+      if (!phoneNumber) continue;
+
+      const normalized = this.phoneNumberService.normalize(phoneNumber, country);
+      if (!normalized) {
+        invalid.push(phoneNumber);
+      } else if (!byNumber.has(normalized.e164)) {
+        byNumber.set(normalized.e164, { ...recipient, phoneNumber, normalizedNumber: normalized.e164 });
+      }
+    }
+    if (invalid.length > 0) {
+      throw new BadRequestException(
+        `Invalid phone number(s): ${invalid.slice(0, 10).join(', ')}${invalid.length > 10 ? ', ...' : ''}`,
+      );
+    }
 
-    const uniqueNumbers = [...new Set(phoneNumbers.map((n) => n.trim()).filter((n) => n))];
+    // Numbers already in the campaign, e.g. from an earlier or overlapping upload, are skipped
+    const existing = new Set(
+      campaign.recipients.map(
+        (r) => r.normalizedNumber || this.phoneNumberService.normalize(r.phoneNumber, country)?.e164,
+      ),
+    );
+    const unique = [...byNumber.values()].filter((r) => !existing.has(r.normalizedNumber));
+    const suppressed = await this.suppressionService.findSuppressed(
+      organizationId,
+      unique.map((r) => r.normalizedNumber),
+    );
+
+    this.assertVariablesPresent(
+      campaign,
+      unique.map((r) => ({ phoneNumber: r.phoneNumber, variables: r.variables || null })),
+    );
 
-    const recipients = uniqueNumbers.map((phoneNumber) =>
+    const entities = unique.map((recipient) =>
       this.recipientRepository.create({
         campaignId,
-        phoneNumber,
-        status: RecipientStatus.PENDING,
+        phoneNumber: recipient.phoneNumber,
+        normalizedNumber: recipient.normalizedNumber,
+        variables: recipient.variables || null,
+        timezone: recipient.timezone || timezone,
+        // Kept on the campaign so the report shows who was skipped
+        ...(suppressed.has(recipient.normalizedNumber)
+          ? { status: RecipientStatus.SUPPRESSED, error: 'Recipient has opted out' }
+          : { status: RecipientStatus.PENDING }),
       }),
     );
 
-    await this.recipientRepository.save(recipients);
-    await this.campaignRepository.update(campaignId, {
-      totalRecipients: campaign.totalRecipients + uniqueNumbers.length,
-    });
+    // Inserted separately so each count only includes rows that were actually added
+    const added = await this.insertRecipients(entities.filter((r) => r.status === RecipientStatus.PENDING));
+    const suppressedCount = await this.insertRecipients(
+      entities.filter((r) => r.status === RecipientStatus.SUPPRESSED),
+    );
+    const inserted = added + suppressedCount;
+    if (inserted > 0) {
+      await this.campaignRepository.increment({ id: campaignId }, 'totalRecipients', inserted);
+    }
+
+    return {
+      added,
+      suppressed: suppressedCount,
+      skipped: byNumber.size - inserted,
+    };
+  }
+
+  // Render the campaign message for a few recipients without sending anything
+  async previewCampaign(campaignId: number, organizationId: number, recipientId?: number, limit = 3) {
+    const campaign = await this.findOne(campaignId, organizationId);
+    const variables = this.getTemplateVariables(campaign);
+
+    const recipients = recipientId
+      ? campaign.recipients.filter((r) => r.id === recipientId)
+      : campaign.recipients.slice(0, limit);
+    if (recipientId && recipients.length === 0) {
+      throw new NotFoundException('Recipient not found');
+    }
+
+    return {
+      variables,
+      samples: recipients.map((recipient) => ({
+        recipientId: recipient.id,
+        phoneNumber: recipient.phoneNumber,
+        message: this.buildMessage(campaign, recipient),
+        missingVariables: findMissingVariables(variables, this.recipientVariables(recipient)),
+      })),
+    };
   }
 
   async addMedia(
     campaignId: number,
-    userId: number,
+    organizationId: number,
     type: MediaType,
     filePath: string,
     fileName: string,
     fileSize: number,
   ): Promise<CampaignMedia> {
-    await this.findOne(campaignId, userId);
+    await this.findOne(campaignId, organizationId);
 
     const media = this.mediaRepository.create({
       campaignId,
@@ -89,81 +208,363 @@ export class CampaignsService {
     return this.mediaRepository.save(media);
   }
 
-  async startCampaign(campaignId: number, userId: number): Promise<Campaign> {
-    const campaign = await this.findOne(campaignId, userId);
+  async startCampaign(campaignId: number, organizationId: number): Promise<Campaign> {
+    const campaign = await this.findOne(campaignId, organizationId);
 
     if (!campaign.sessionId) {
       throw new BadRequestException('No WhatsApp session assigned to campaign');
     }
 
-    if (!this.whatsappService.isSessionActive(campaign.sessionId)) {
-      throw new BadRequestException('WhatsApp session is not connected');
+    if (campaign.status === CampaignStatus.RUNNING || campaign.status === CampaignStatus.PAUSED) {
+      throw new BadRequestException('Campaign is already running');
+    }
+
+    // Restarting would send again to recipients of a finished run
+    if (campaign.status === CampaignStatus.COMPLETED || campaign.status === CampaignStatus.CANCELLED) {
+      throw new BadRequestException(`Campaign is already ${campaign.status}`);
     }
 
     if (campaign.recipients.length === 0) {
       throw new BadRequestException('No recipients in campaign');
     }
 
+    this.assertVariablesPresent(campaign, campaign.recipients);
+    await this.creditsService.assertBalance(organizationId, await this.estimateCost(campaign));
+
+    // Scheduled for later: CampaignSchedulerService starts it when due
+    if (campaign.scheduledAt && campaign.scheduledAt.getTime() > Date.now()) {
+      await this.campaignRepository.update(campaignId, {
+        status: CampaignStatus.PENDING,
+      });
+      this.logger.log(`Campaign ${campaignId} scheduled for ${campaign.scheduledAt.toISOString()}`);
+      await this.campaignEvents.statusChanged(campaignId);
+      return this.findOne(campaignId, organizationId);
+    }
+
+    if (!this.whatsappService.isSessionActive(campaign.sessionId)) {
+      throw new BadRequestException('WhatsApp session is not connected');
+    }
+
     await this.campaignRepository.update(campaignId, {
       status: CampaignStatus.RUNNING,
     });
+    await this.campaignEvents.statusChanged(campaignId);
 
-    // Send messages directly (no Redis queue needed)
-    this.sendCampaignMessages(campaignId, userId, campaign);
+    // Persist one job per recipient; CampaignQueueService picks them up
+    const queued = await this.enqueuePendingRecipients(campaignId);
+    this.logger.log(`Queued ${queued} messages for campaign ${campaignId}`);
+    // Nothing to send, e.g. every recipient is suppressed
+    if (queued === 0) await this.completeIfFinished(campaignId);
 
-    return this.findOne(campaignId, userId);
+    return this.findOne(campaignId, organizationId);
   }
 
-  // Send campaign messages directly without queue
-  private async sendCampaignMessages(campaignId: number, userId: number, campaign: Campaign) {
-    this.logger.log(`Starting to send campaign ${campaignId} messages`);
+  // Move scheduled campaigns whose start time has passed to RUNNING
+  async startDueCampaigns(): Promise<number> {
+    const due = await this.campaignRepository.find({
+      where: { status: CampaignStatus.PENDING, scheduledAt: LessThanOrEqual(new Date()) },
+    });
+
+    let started = 0;
+    for (const campaign of due) {
+      const cost = await this.estimateCost(campaign);
+      if ((await this.creditsService.getBalance(campaign.organizationId)) < cost) {
+        await this.campaignRepository.update(
+          { id: campaign.id, status: CampaignStatus.PENDING },
+          { status: CampaignStatus.PAUSED },
+        );
+        this.logger.warn(`Scheduled campaign ${campaign.id} paused: ${cost} credits needed`);
+        await this.campaignEvents.statusChanged(campaign.id);
+        continue;
+      }
 
-    for (const recipient of campaign.recipients) {
-      if (recipient.status !== RecipientStatus.PENDING) continue;
+      const result = await this.campaignRepository.update(
+        { id: campaign.id, status: CampaignStatus.PENDING },
+        { status: CampaignStatus.RUNNING },
+      );
+      if (result.affected !== 1) continue;
+      await this.campaignEvents.statusChanged(campaign.id);
+
+      const queued = await this.enqueuePendingRecipients(campaign.id);
+      this.logger.log(`Scheduled campaign ${campaign.id} started, queued ${queued} messages`);
+      if (queued === 0) await this.completeIfFinished(campaign.id);
+      started++;
+    }
+    return started;
+  }
 
-      try {
-        // Build message with link and call buttons
-        let fullMessage = campaign.message || '';
-        if (campaign.linkText && campaign.linkUrl) {
-          fullMessage += `\n\n${campaign.linkText}: ${campaign.linkUrl}`;
-        }
-        if (campaign.callText && campaign.callNumber) {
-          fullMessage += `\n${campaign.callText}: ${campaign.callNumber}`;
-        }
+  async pauseCampaign(campaignId: number, organizationId: number): Promise<Campaign> {
+    const campaign = await this.findOne(campaignId, organizationId);
+    if (campaign.status !== CampaignStatus.RUNNING) {
+      throw new BadRequestException('Only running campaigns can be paused');
+    }
 
-        // Get first media file if any
-        const mediaPath = campaign.media?.[0]?.filePath;
+    // Queued jobs stay in place; the worker skips campaigns that aren't RUNNING
+    await this.campaignRepository.update(campaignId, { status: CampaignStatus.PAUSED });
+    this.logger.log(`Campaign ${campaignId} paused`);
+    await this.campaignEvents.statusChanged(campaignId);
+    return this.findOne(campaignId, organizationId);
+  }
 
-        // Send the message
-        await this.whatsappService.sendMessage(
-          campaign.sessionId,
-          userId,
-          recipient.phoneNumber,
-          fullMessage,
-          mediaPath,
-          MessageSource.CAMPAIGN,
-        );
+  async resumeCampaign(campaignId: number, organizationId: number): Promise<Campaign> {
+    const campaign = await this.findOne(campaignId, organizationId);
+    if (campaign.status !== CampaignStatus.PAUSED) {
+      throw new BadRequestException('Only paused campaigns can be resumed');
+    }
 
-        // Update recipient status to sent
-        await this.updateRecipientStatus(recipient.id, RecipientStatus.SENT);
-        this.logger.log(`Sent campaign message to ${recipient.phoneNumber}`);
+    if (!this.whatsappService.isSessionActive(campaign.sessionId)) {
+      throw new BadRequestException('WhatsApp session is not connected');
+    }
+    await this.creditsService.assertBalance(organizationId, await this.estimateCost(campaign));
 
-        // Small delay between messages to avoid rate limiting
-        await new Promise(resolve => setTimeout(resolve, 1000));
+    await this.campaignRepository.update(campaignId, { status: CampaignStatus.RUNNING });
+    await this.enqueuePendingRecipients(campaignId);
+    this.logger.log(`Campaign ${campaignId} resumed`);
+    await this.campaignEvents.statusChanged(campaignId);
 
-      } catch (error: any) {
-        this.logger.error(`Failed to send to ${recipient.phoneNumber}: ${error.message}`);
-        await this.updateRecipientStatus(recipient.id, RecipientStatus.FAILED, error.message);
-      }
+    // Everything may have been sent while it was paused
+    await this.completeIfFinished(campaignId);
+    return this.findOne(campaignId, organizationId);
+  }
+
+  // Stop a running campaign that ran out of credits mid-send; resuming re-checks the balance
+  async pauseForInsufficientCredits(campaignId: number): Promise<void> {
+    const result = await this.campaignRepository.update(
+      { id: campaignId, status: CampaignStatus.RUNNING },
+      { status: CampaignStatus.PAUSED },
+    );
+    if (result.affected === 1) {
+      this.logger.warn(`Campaign ${campaignId} paused: out of credits`);
+      await this.campaignEvents.statusChanged(campaignId);
     }
+  }
 
-    // Check if campaign is complete
-    const updatedCampaign = await this.campaignRepository.findOne({ where: { id: campaignId } });
-    if (updatedCampaign && updatedCampaign.sentCount + updatedCampaign.failedCount >= updatedCampaign.totalRecipients) {
-      await this.campaignRepository.update(campaignId, { status: CampaignStatus.COMPLETED });
+  async cancelCampaign(campaignId: number, organizationId: number): Promise<Campaign> {
+    const campaign = await this.findOne(campaignId, organizationId);
+    if (
+      campaign.status === CampaignStatus.COMPLETED ||
+      campaign.status === CampaignStatus.CANCELLED
+    ) {
+      throw new BadRequestException(`Campaign is already ${campaign.status}`);
     }
 
+    await this.campaignRepository.update(campaignId, { status: CampaignStatus.CANCELLED });
+    await this.jobRepository.update(
+      { campaignId, status: JobStatus.QUEUED },
+      { status: JobStatus.CANCELLED },
+    );
+    await this.recipientRepository.update(
+      { campaignId, status: RecipientStatus.PENDING },
+      { status: RecipientStatus.CANCELLED },
+    );
+    this.logger.log(`Campaign ${campaignId} cancelled`);
+    await this.campaignEvents.statusChanged(campaignId);
+    return this.findOne(campaignId, organizationId);
+  }
+
+  async getStatus(campaignId: number): Promise<CampaignStatus | null> {
+    const campaign = await this.campaignRepository.findOne({
+      where: { id: campaignId },
+      select: ['id', 'status'],
+    });
+    return campaign ? campaign.status : null;
+  }
+
+  // Create send jobs for pending recipients that don't have an open job yet
+  async enqueuePendingRecipients(campaignId: number): Promise<number> {
+    const campaign = await this.campaignRepository.findOne({ where: { id: campaignId } });
+    if (!campaign || !campaign.sessionId) return 0;
+
+    const recipients = await this.recipientRepository.find({
+      where: { campaignId, status: RecipientStatus.PENDING },
+    });
+    const openJobs = await this.jobRepository.find({
+      where: { campaignId, status: In([JobStatus.QUEUED, JobStatus.PROCESSING]) },
+    });
+    const queuedIds = new Set(openJobs.map((j) => j.recipientId));
+
+    const now = new Date();
+    const jobs = recipients
+      .filter((r) => !queuedIds.has(r.id))
+      .map((recipient) =>
+        this.jobRepository.create({
+          campaignId,
+          recipientId: recipient.id,
+          userId: campaign.userId,
+          sessionId: campaign.sessionId,
+          status: JobStatus.QUEUED,
+          runAt: now,
+        }),
+      );
+
+    await this.jobRepository.save(jobs);
+    return jobs.length;
+  }
+
+  // How long a recipient has to wait for the campaign's send window to open
+  async getSendWindowDelay(campaignId: number, recipientId: number): Promise<number> {
+    const campaign = await this.campaignRepository.findOne({ where: { id: campaignId } });
+    if (!campaign || !campaign.sendWindowStart || !campaign.sendWindowEnd) return 0;
+
+    const recipient = await this.recipientRepository.findOne({ where: { id: recipientId } });
+    const timezone = recipient?.timezone || campaign.timezone || 'UTC';
+    return msUntilWindowOpens(new Date(), campaign.sendWindowStart, campaign.sendWindowEnd, timezone);
+  }
+
+  // Send a single campaign message. Throws if WhatsApp reports a failure.
+  async sendToRecipient(campaignId: number, recipientId: number): Promise<void> {
+    const campaign = await this.campaignRepository.findOne({
+      where: { id: campaignId },
+      relations: ['media'],
+    });
+    const recipient = await this.recipientRepository.findOne({ where: { id: recipientId } });
+    if (!campaign || !recipient) {
+      throw new Error('Campaign or recipient no longer exists');
+    }
+    if (recipient.status !== RecipientStatus.PENDING) return;
+
+    const fullMessage = this.buildMessage(campaign, recipient);
+
+    // Get first media file if any
+    const mediaPath = campaign.media?.[0]?.filePath;
+
+    const log = await this.whatsappService.sendMessage(
+      campaign.sessionId,
+      campaign.organizationId,
+      recipient.normalizedNumber || recipient.phoneNumber,
+      fullMessage,
+      mediaPath,
+      MessageSource.CAMPAIGN,
+      { checkSuppression: true, campaignId, userId: campaign.userId },
+    );
+    await this.recipientRepository.update(recipient.id, { messageLogId: log.id });
+    // Opted out after being added to the campaign
+    if (log.status === MessageStatus.SUPPRESSED) {
+      await this.updateRecipientStatus(recipient.id, RecipientStatus.SUPPRESSED, log.error);
+      return;
+    }
+    if (log.status === MessageStatus.FAILED) {
+      throw new Error(log.error || 'Failed to send message');
+    }
+
+    await this.updateRecipientStatus(recipient.id, RecipientStatus.SENT);
+    this.logger.log(`Sent campaign message to ${recipient.phoneNumber}`);
+  }
+
+  // Build message with link and call buttons, rendered for one recipient
+  private buildMessage(
+    campaign: Campaign,
+    recipient: Pick<CampaignRecipient, 'phoneNumber' | 'variables'>,
+  ): string {
+    const variables = this.recipientVariables(recipient);
+
+    let fullMessage = renderTemplate(campaign.message || '', variables);
+    if (campaign.linkText && campaign.linkUrl) {
+      fullMessage += `\n\n${renderTemplate(campaign.linkText, variables)}: ${renderTemplate(campaign.linkUrl, variables)}`;
+    }
+    if (campaign.callText && campaign.callNumber) {
+      fullMessage += `\n${campaign.callText}: ${campaign.callNumber}`;
+    }
+    return fullMessage;
+  }
+
+  // Credits needed to send to every recipient still pending
+  async estimateCost(campaign: Campaign): Promise<number> {
+    const pending = await this.recipientRepository.count({
+      where: { campaignId: campaign.id, status: RecipientStatus.PENDING },
+    });
+    const media = campaign.media ?? (await this.mediaRepository.find({ where: { campaignId: campaign.id } }));
+    const channel = media.length > 0 ? BillingChannel.WHATSAPP_MEDIA : BillingChannel.WHATSAPP_TEXT;
+    return this.creditsService.priceOf(channel, pending);
+  }
+
+  getTemplateVariables(campaign: Campaign): string[] {
+    return extractVariables([campaign.message, campaign.linkText, campaign.linkUrl].join('\n'));
+  }
+
+  // phoneNumber is always available to templates
+  private recipientVariables(
+    recipient: Pick<CampaignRecipient, 'phoneNumber' | 'variables'>,
+  ): TemplateVariables {
+    return { phoneNumber: recipient.phoneNumber, ...(recipient.variables || {}) };
+  }
+
+  // The unique (campaignId, normalizedNumber) index drops numbers a concurrent request added first
+  private async insertRecipients(recipients: CampaignRecipient[]): Promise<number> {
+    if (recipients.length === 0) return 0;
+
+    const result = await this.recipientRepository
+      .createQueryBuilder()
+      .insert()
+      .into(CampaignRecipient)
+      .values(recipients)
+      .orIgnore()
+      .execute();
+    return this.countInserted(result.raw, recipients.length);
+  }
+
+  // Postgres returns the inserted rows, MySQL a header with the number of affected rows
+  private countInserted(raw: unknown[] | { affectedRows?: number } | undefined, attempted: number): number {
+    if (Array.isArray(raw)) return raw.length;
+    return typeof raw?.affectedRows === 'number' ? raw.affectedRows : attempted;
+  }
+
+  private assertVariablesPresent(
+    campaign: Campaign,
+    recipients: Pick<CampaignRecipient, 'phoneNumber' | 'variables'>[],
+  ): void {
+    const variables = this.getTemplateVariables(campaign);
+    if (variables.length === 0) return;
+
+    const problems = recipients
+      .map((r) => ({
+        phoneNumber: r.phoneNumber,
+        missing: findMissingVariables(variables, this.recipientVariables(r)),
+      }))
+      .filter((p) => p.missing.length > 0);
+
+    if (problems.length > 0) {
+      const examples = problems
+        .slice(0, 5)
+        .map((p) => `${p.phoneNumber} (${p.missing.join(', ')})`)
+        .join('; ');
+      throw new BadRequestException(
+        `Missing template variables for ${problems.length} recipient(s): ${examples}`,
+      );
+    }
+  }
+
+  // Mark the campaign completed once no jobs are left to run
+  async completeIfFinished(campaignId: number): Promise<void> {
+    const openJobs = await this.jobRepository.count({
+      where: { campaignId, status: In([JobStatus.QUEUED, JobStatus.PROCESSING]) },
+    });
+    if (openJobs > 0) return;
+
+    await this.markCompleted(campaignId);
+  }
+
+  // Conditional update so the completion event fires only once
+  private async markCompleted(campaignId: number): Promise<void> {
+    const result = await this.campaignRepository.update(
+      { id: campaignId, status: CampaignStatus.RUNNING },
+      { status: CampaignStatus.COMPLETED },
+    );
+    if (result.affected !== 1) return;
+
     this.logger.log(`Campaign ${campaignId} finished sending`);
+    await this.campaignEvents.statusChanged(campaignId);
+
+    const campaign = await this.campaignRepository.findOne({ where: { id: campaignId } });
+    if (campaign) {
+      this.webhooksService.dispatch(campaign.organizationId, WebhookEvent.CAMPAIGN_COMPLETED, {
+        campaignId: campaign.id,
+        name: campaign.name,
+        totalRecipients: campaign.totalRecipients,
+        sentCount: campaign.sentCount,
+        failedCount: campaign.failedCount,
+      });
+    }
   }
 
   async updateRecipientStatus(
@@ -178,67 +579,137 @@ export class CampaignsService {
     if (error) {
       updateData.error = error;
     }
-    await this.recipientRepository.update(recipientId, updateData);
+
+    // Conditional on PENDING so a recipient is only ever counted once
+    const result = await this.recipientRepository.update(
+      { id: recipientId, status: RecipientStatus.PENDING },
+      updateData,
+    );
+    if (result.affected !== 1) return;
 
     const recipient = await this.recipientRepository.findOne({
       where: { id: recipientId },
     });
+    if (!recipient) return;
 
-    if (recipient) {
-      const campaign = await this.campaignRepository.findOne({
-        where: { id: recipient.campaignId },
-      });
+    // Atomic increments; completion is decided by completeIfFinished from the job queue
+    if (status === RecipientStatus.SENT) {
+      await this.campaignRepository.increment({ id: recipient.campaignId }, 'sentCount', 1);
+    } else if (status === RecipientStatus.FAILED) {
+      await this.campaignRepository.increment({ id: recipient.campaignId }, 'failedCount', 1);
+    }
+    await this.campaignEvents.recipientUpdated(recipientId);
+  }
 
-      if (campaign) {
-        if (status === RecipientStatus.SENT) {
-          await this.campaignRepository.update(recipient.campaignId, {
-            sentCount: campaign.sentCount + 1,
-          });
-        } else if (status === RecipientStatus.FAILED) {
-          await this.campaignRepository.update(recipient.campaignId, {
-            failedCount: campaign.failedCount + 1,
-          });
-        }
-
-        if (
-          campaign.sentCount + campaign.failedCount + 1 >=
-          campaign.totalRecipients
-        ) {
-          await this.campaignRepository.update(recipient.campaignId, {
-            status: CampaignStatus.COMPLETED,
-          });
-        }
-      }
+  // Recompute the campaign counters from its recipient rows. Returns true if they had drifted.
+  async reconcileCounters(campaignId: number): Promise<boolean> {
+    const campaign = await this.campaignRepository.findOne({ where: { id: campaignId } });
+    if (!campaign) return false;
+
+    const rows = await this.recipientRepository
+      .createQueryBuilder('recipient')
+      .select('recipient.status', 'status')
+      .addSelect('COUNT(*)', 'count')
+      .where('recipient.campaignId = :campaignId', { campaignId })
+      .groupBy('recipient.status')
+      .getRawMany<{ status: RecipientStatus; count: string }>();
+
+    const counts = new Map(rows.map((row) => [row.status, Number(row.count)]));
+    const count = (...statuses: RecipientStatus[]) =>
+      statuses.reduce((sum, status) => sum + (counts.get(status) || 0), 0);
+
+    const actual = {
+      totalRecipients: rows.reduce((sum, row) => sum + Number(row.count), 0),
+      sentCount: count(RecipientStatus.SENT, RecipientStatus.DELIVERED, RecipientStatus.READ),
+      failedCount: count(RecipientStatus.FAILED),
+    };
+    if (
+      actual.totalRecipients === campaign.totalRecipients &&
+      actual.sentCount === campaign.sentCount &&
+      actual.failedCount === campaign.failedCount
+    ) {
+      return false;
     }
+
+    await this.campaignRepository.update(campaignId, actual);
+    this.logger.warn(
+      `Campaign ${campaignId} counters corrected: ` +
+        `total ${campaign.totalRecipients}->${actual.totalRecipients}, ` +
+        `sent ${campaign.sentCount}->${actual.sentCount}, ` +
+        `failed ${campaign.failedCount}->${actual.failedCount}`,
+    );
+    return true;
+  }
+
+  // Carry delivery/read receipts over from the message log to the recipient
+  private async handleMessageStatus(log: MessageLog): Promise<void> {
+    if (log.source !== MessageSource.CAMPAIGN) return;
+    if (log.status !== MessageStatus.DELIVERED && log.status !== MessageStatus.READ) return;
+
+    const recipient = await this.recipientRepository.findOne({ where: { messageLogId: log.id } });
+    if (!recipient) return;
+
+    const rank = [RecipientStatus.SENT, RecipientStatus.DELIVERED, RecipientStatus.READ];
+    const next = log.status === MessageStatus.READ ? RecipientStatus.READ : RecipientStatus.DELIVERED;
+    if (rank.indexOf(recipient.status) < 0 || rank.indexOf(recipient.status) >= rank.indexOf(next)) return;
+
+    await this.recipientRepository.update(recipient.id, {
+      status: next,
+      deliveredAt: log.deliveredAt,
+      readAt: log.readAt,
+    });
+    await this.campaignEvents.recipientUpdated(recipient.id);
   }
 
-  async getCampaignReport(campaignId: number, userId: number) {
-    const campaign = await this.findOne(campaignId, userId);
+  async getCampaignReport(campaignId: number, organizationId: number) {
+    const campaign = await this.findOne(campaignId, organizationId);
     const recipients = await this.recipientRepository.find({
       where: { campaignId },
     });
 
+    const deliveredCount = recipients.filter(
+      (r) => r.status === RecipientStatus.DELIVERED || r.status === RecipientStatus.READ,
+    ).length;
+    const readCount = recipients.filter((r) => r.status === RecipientStatus.READ).length;
+    const suppressedCount = recipients.filter((r) => r.status === RecipientStatus.SUPPRESSED).length;
+    const rate = (count: number) =>
+      campaign.sentCount > 0 ? Math.round((count / campaign.sentCount) * 1000) / 10 : 0;
+
     return {
       campaign: {
         id: campaign.id,
         name: campaign.name,
         status: campaign.status,
+        scheduledAt: campaign.scheduledAt,
+        sendWindowStart: campaign.sendWindowStart,
+        sendWindowEnd: campaign.sendWindowEnd,
+        timezone: campaign.timezone,
         totalRecipients: campaign.totalRecipients,
         sentCount: campaign.sentCount,
         failedCount: campaign.failedCount,
+        deliveredCount,
+        readCount,
+        suppressedCount,
+        deliveryRate: rate(deliveredCount),
+        readRate: rate(readCount),
         createdAt: campaign.createdAt,
       },
       recipients: recipients.map((r) => ({
+        id: r.id,
         phoneNumber: r.phoneNumber,
+        normalizedNumber: r.normalizedNumber,
+        variables: r.variables,
         status: r.status,
         sentAt: r.sentAt,
+        deliveredAt: r.deliveredAt,
+        readAt: r.readAt,
         error: r.error,
       })),
     };
   }
 
-  async delete(campaignId: number, userId: number): Promise<void> {
-    const campaign = await this.findOne(campaignId, userId);
+  async delete(campaignId: number, organizationId: number): Promise<void> {
+    const campaign = await this.findOne(campaignId, organizationId);
     await this.campaignRepository.delete(campaignId);
   }
 }
@@ -1,13 +1,32 @@
-import { IsArray, IsString, ArrayMinSize } from 'class-validator';
-import { ApiProperty } from '@nestjs/swagger';
+import { IsArray, IsString, IsOptional, ArrayMinSize, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { RecipientDto } from './recipient.dto';
 
 export class AddRecipientsDto {
-  @ApiProperty({
+  @ApiPropertyOptional({
     example: ['919876543210', '919876543211'],
-    description: 'Array of phone numbers',
+    description: 'Array of phone numbers (for messages without variables)',
   })
+  @IsOptional()
   @IsArray()
   @ArrayMinSize(1)
   @IsString({ each: true })
-  phoneNumbers: string[];
+  phoneNumbers?: string[];
+
+  @ApiPropertyOptional({
+    type: [RecipientDto],
+    description: 'Recipients with per-recipient template variables',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => RecipientDto)
+  recipients?: RecipientDto[];
+
+  @ApiPropertyOptional({ example: 'Asia/Kolkata', description: 'Timezone for these recipients (IANA)' })
+  @IsOptional()
+  @IsString()
+  timezone?: string;
 }
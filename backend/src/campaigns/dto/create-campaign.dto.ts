@@ -1,4 +1,4 @@
-import { IsString, IsOptional, IsNumber, MinLength } from 'class-validator';
+import { IsString, IsOptional, IsNumber, IsDateString, Matches, MinLength } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 export class CreateCampaignDto {
@@ -36,4 +36,24 @@ export class CreateCampaignDto {
   @IsOptional()
   @IsString()
   callNumber?: string;
+
+  @ApiPropertyOptional({ example: '2026-01-01T09:00:00Z', description: 'Start sending at this time' })
+  @IsOptional()
+  @IsDateString()
+  scheduledAt?: string;
+
+  @ApiPropertyOptional({ example: '09:00', description: 'Daily send window start (HH:mm)' })
+  @IsOptional()
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'sendWindowStart must be HH:mm' })
+  sendWindowStart?: string;
+
+  @ApiPropertyOptional({ example: '20:00', description: 'Daily send window end (HH:mm)' })
+  @IsOptional()
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'sendWindowEnd must be HH:mm' })
+  sendWindowEnd?: string;
+
+  @ApiPropertyOptional({ example: 'Asia/Kolkata', description: 'Default recipient timezone (IANA)' })
+  @IsOptional()
+  @IsString()
+  timezone?: string;
 }
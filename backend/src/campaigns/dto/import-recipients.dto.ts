@@ -0,0 +1,60 @@
+import { BadRequestException } from '@nestjs/common';
+import { IsString, IsOptional, IsObject, IsBoolean } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+// Form fields are strings, so the variable mapping arrives as JSON
+function parseVariableMapping(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+
+  let mapping: unknown;
+  try {
+    mapping = JSON.parse(value);
+  } catch {
+    mapping = null;
+  }
+  const isMapping =
+    !!mapping &&
+    typeof mapping === 'object' &&
+    !Array.isArray(mapping) &&
+    Object.values(mapping).every((column) => typeof column === 'string');
+  if (!isMapping) {
+    throw new BadRequestException('variables must be a JSON object mapping variable names to column names');
+  }
+  return mapping;
+}
+
+// Multipart form fields sent alongside the uploaded CSV/XLSX file
+export class ImportRecipientsDto {
+  @ApiPropertyOptional({
+    example: 'Mobile',
+    description: 'Column holding the phone number. Omit to only list the file columns.',
+  })
+  @IsOptional()
+  @IsString()
+  phoneColumn?: string;
+
+  @ApiPropertyOptional({
+    type: String,
+    example: '{"name":"Customer Name","orderId":"Order"}',
+    description: 'JSON object mapping template variables to column names',
+  })
+  @IsOptional()
+  @Transform(({ value }) => parseVariableMapping(value))
+  @IsObject()
+  variables?: Record<string, string>;
+
+  @ApiPropertyOptional({ example: 'Timezone', description: 'Column holding an IANA timezone' })
+  @IsOptional()
+  @IsString()
+  timezoneColumn?: string;
+
+  @ApiPropertyOptional({
+    example: false,
+    description: 'Save the accepted rows. When false only the validation report is returned.',
+  })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  commit?: boolean;
+}
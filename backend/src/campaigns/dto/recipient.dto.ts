@@ -0,0 +1,22 @@
+import { IsString, IsOptional, IsObject, MinLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class RecipientDto {
+  @ApiProperty({ example: '919876543210' })
+  @IsString()
+  @MinLength(1)
+  phoneNumber: string;
+
+  @ApiPropertyOptional({
+    example: { name: 'Asha', orderId: 'A-1042', dueAmount: '499' },
+    description: 'Values for {{variables}} in the campaign message',
+  })
+  @IsOptional()
+  @IsObject()
+  variables?: Record<string, string>;
+
+  @ApiPropertyOptional({ example: 'Asia/Kolkata', description: 'Timezone for this recipient (IANA)' })
+  @IsOptional()
+  @IsString()
+  timezone?: string;
+}
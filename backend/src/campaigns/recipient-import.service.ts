@@ -0,0 +1,168 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import * as XLSX from 'xlsx';
+import { CampaignsService } from './campaigns.service';
+import { RecipientDto } from './dto/recipient.dto';
+import { isValidTimezone } from './send-window';
+import { PhoneNumberService } from '../phone/phone-number.service';
+import { SuppressionService } from '../suppression/suppression.service';
+
+export interface ImportRejection {
+  row: number;
+  phoneNumber?: string;
+  reason: string;
+}
+
+export interface ImportReport {
+  columns: string[];
+  totalRows: number;
+  acceptedCount: number;
+  rejected: ImportRejection[];
+  preview: RecipientDto[];
+  // Accepted rows whose number is on the suppression list; they are added but never sent
+  suppressedCount: number;
+  committed: boolean;
+}
+
+export interface ImportMapping {
+  phoneColumn?: string;
+  variables?: Record<string, string>;
+  timezoneColumn?: string;
+  commit?: boolean;
+}
+
+type Row = Record<string, unknown>;
+
+@Injectable()
+export class RecipientImportService {
+  constructor(
+    private campaignsService: CampaignsService,
+    private phoneNumberService: PhoneNumberService,
+    private suppressionService: SuppressionService,
+  ) {}
+
+  async importFile(
+    campaignId: number,
+    organizationId: number,
+    file: Express.Multer.File,
+    mapping: ImportMapping,
+  ): Promise<ImportReport> {
+    const campaign = await this.campaignsService.findOne(campaignId, organizationId);
+    const { columns, rows } = this.parse(file.buffer);
+
+    const report: ImportReport = {
+      columns,
+      totalRows: rows.length,
+      acceptedCount: 0,
+      rejected: [],
+      preview: [],
+      suppressedCount: 0,
+      committed: false,
+    };
+
+    // No mapping yet: just tell the client which columns exist
+    if (!mapping.phoneColumn) return report;
+
+    const variableColumns = mapping.variables || {};
+    for (const column of [mapping.phoneColumn, mapping.timezoneColumn, ...Object.values(variableColumns)]) {
+      if (column && !columns.includes(column)) {
+        throw new BadRequestException(`Column not found in file: ${column}`);
+      }
+    }
+
+    const unmapped = this.campaignsService
+      .getTemplateVariables(campaign)
+      .filter((name) => name !== 'phoneNumber' && !variableColumns[name]);
+    if (unmapped.length > 0) {
+      throw new BadRequestException(`Template variables not mapped to a column: ${unmapped.join(', ')}`);
+    }
+
+    const country = await this.phoneNumberService.resolveDefaultCountry(organizationId);
+    const existing = new Set(
+      campaign.recipients.map(
+        (r) => r.normalizedNumber || this.phoneNumberService.normalize(r.phoneNumber, country)?.e164,
+      ),
+    );
+    const seen = new Set<string>();
+    const accepted: RecipientDto[] = [];
+    const acceptedNumbers: string[] = [];
+
+    rows.forEach((row, index) => {
+      // Spreadsheet row number: 1-based plus the header row
+      const rowNumber = index + 2;
+      const phoneNumber = this.cell(row, mapping.phoneColumn!);
+      const reject = (reason: string) =>
+        report.rejected.push({ row: rowNumber, phoneNumber: phoneNumber || undefined, reason });
+
+      if (!phoneNumber) return reject('Missing phone number');
+
+      const normalized = this.phoneNumberService.normalize(phoneNumber, country);
+      if (!normalized) return reject('Invalid phone number');
+      if (seen.has(normalized.e164)) return reject('Duplicate phone number in file');
+      if (existing.has(normalized.e164)) return reject('Already a recipient of this campaign');
+
+      const variables: Record<string, string> = {};
+      const missing: string[] = [];
+      for (const [name, column] of Object.entries(variableColumns)) {
+        const value = this.cell(row, column);
+        if (value) {
+          variables[name] = value;
+        } else {
+          missing.push(name);
+        }
+      }
+      if (missing.length > 0) return reject(`Missing value for ${missing.join(', ')}`);
+
+      const timezone = mapping.timezoneColumn ? this.cell(row, mapping.timezoneColumn) : '';
+      if (timezone && !isValidTimezone(timezone)) return reject(`Unknown timezone: ${timezone}`);
+
+      seen.add(normalized.e164);
+      acceptedNumbers.push(normalized.e164);
+      accepted.push({
+        phoneNumber,
+        variables: Object.keys(variables).length > 0 ? variables : undefined,
+        timezone: timezone || undefined,
+      });
+    });
+
+    report.acceptedCount = accepted.length;
+    report.preview = accepted.slice(0, 5);
+    report.suppressedCount = (await this.suppressionService.findSuppressed(organizationId, acceptedNumbers)).size;
+
+    if (mapping.commit && accepted.length > 0) {
+      await this.campaignsService.addRecipients(campaignId, organizationId, accepted);
+      report.committed = true;
+    }
+
+    return report;
+  }
+
+  // First sheet of a CSV or XLSX file, as header-keyed rows
+  private parse(buffer: Buffer): { columns: string[]; rows: Row[] } {
+    let workbook: XLSX.WorkBook;
+    try {
+      // raw: keep CSV values as text so long phone numbers aren't turned into floats
+      workbook = XLSX.read(buffer, { type: 'buffer', raw: true });
+    } catch (error: any) {
+      throw new BadRequestException(`Could not read file: ${error.message}`);
+    }
+
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    if (!sheet) {
+      throw new BadRequestException('File contains no sheets');
+    }
+
+    const header = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1 })[0] || [];
+    const columns = header.map((c) => String(c ?? '')).filter((c) => c.trim());
+    const rows = XLSX.utils.sheet_to_json<Row>(sheet, { defval: '', raw: true });
+
+    return { columns, rows };
+  }
+
+  private cell(row: Row, column: string): string {
+    const value = row[column];
+    if (value === null || value === undefined) return '';
+    // Excel stores phone numbers as numbers; avoid exponent notation
+    if (typeof value === 'number' && Number.isInteger(value)) return value.toFixed(0);
+    return String(value).trim();
+  }
+}
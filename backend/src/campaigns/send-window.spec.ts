@@ -0,0 +1,54 @@
+import { isValidTimezone, localWeekday, msUntilWindowOpens } from './send-window';
+
+const MINUTE = 60 * 1000;
+
+describe('send window', () => {
+  describe('isValidTimezone', () => {
+    it('accepts IANA zones and rejects anything else', () => {
+      expect(isValidTimezone('UTC')).toBe(true);
+      expect(isValidTimezone('Asia/Kolkata')).toBe(true);
+      expect(isValidTimezone('Mars/Olympus_Mons')).toBe(false);
+    });
+  });
+
+  describe('localWeekday', () => {
+    it('uses the day in the given timezone', () => {
+      const date = new Date('2024-01-01T12:00:00Z'); // Monday in UTC
+      expect(localWeekday(date, 'UTC')).toBe(1);
+      expect(localWeekday(date, 'Pacific/Auckland')).toBe(2);
+    });
+  });
+
+  describe('msUntilWindowOpens', () => {
+    it('is always open without a window', () => {
+      expect(msUntilWindowOpens(new Date('2024-01-01T03:00:00Z'), null, null, 'UTC')).toBe(0);
+      expect(msUntilWindowOpens(new Date('2024-01-01T03:00:00Z'), '09:00', null, 'UTC')).toBe(0);
+    });
+
+    it('is open from the start up to, but not including, the end', () => {
+      expect(msUntilWindowOpens(new Date('2024-01-01T09:00:00Z'), '09:00', '17:00', 'UTC')).toBe(0);
+      expect(msUntilWindowOpens(new Date('2024-01-01T16:59:00Z'), '09:00', '17:00', 'UTC')).toBe(0);
+      expect(msUntilWindowOpens(new Date('2024-01-01T17:00:00Z'), '09:00', '17:00', 'UTC')).toBe(16 * 60 * MINUTE);
+    });
+
+    it('waits until the window opens later the same day', () => {
+      expect(msUntilWindowOpens(new Date('2024-01-01T08:30:00Z'), '09:00', '17:00', 'UTC')).toBe(30 * MINUTE);
+    });
+
+    it('handles windows that wrap midnight', () => {
+      expect(msUntilWindowOpens(new Date('2024-01-01T23:00:00Z'), '22:00', '06:00', 'UTC')).toBe(0);
+      expect(msUntilWindowOpens(new Date('2024-01-01T05:59:00Z'), '22:00', '06:00', 'UTC')).toBe(0);
+      expect(msUntilWindowOpens(new Date('2024-01-01T12:00:00Z'), '22:00', '06:00', 'UTC')).toBe(10 * 60 * MINUTE);
+    });
+
+    it('evaluates the window in the given timezone', () => {
+      // 03:00 UTC is 08:30 in India
+      expect(msUntilWindowOpens(new Date('2024-01-01T03:00:00Z'), '09:00', '17:00', 'Asia/Kolkata')).toBe(30 * MINUTE);
+      expect(msUntilWindowOpens(new Date('2024-01-01T03:30:00Z'), '09:00', '17:00', 'Asia/Kolkata')).toBe(0);
+    });
+
+    it('counts down to the second', () => {
+      expect(msUntilWindowOpens(new Date('2024-01-01T08:59:30.250Z'), '09:00', '17:00', 'UTC')).toBe(30 * 1000);
+    });
+  });
+});
@@ -0,0 +1,58 @@
+// Helpers for daily send windows ("quiet hours") evaluated in a given timezone
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// "HH:mm" -> minutes since midnight
+function parseTime(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Wall-clock time of `date` in `timezone`, in minutes (with fractional seconds)
+function localMinutes(date: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value || 0);
+  return get('hour') * 60 + get('minute') + get('second') / 60;
+}
+
+// Day of the week of `date` in `timezone` (0 = Sunday)
+export function localWeekday(date: Date, timezone: string): number {
+  const day = new Intl.DateTimeFormat('en-US', { timeZone: timezone, weekday: 'short' }).format(date);
+  return ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(day);
+}
+
+// Milliseconds until sending is allowed again, or 0 if `date` is inside the window.
+// Windows may wrap midnight (e.g. 22:00-06:00).
+export function msUntilWindowOpens(
+  date: Date,
+  windowStart: string | null,
+  windowEnd: string | null,
+  timezone: string,
+): number {
+  if (!windowStart || !windowEnd) return 0;
+
+  const start = parseTime(windowStart);
+  const end = parseTime(windowEnd);
+  const now = localMinutes(date, timezone);
+
+  const inside = start <= end ? now >= start && now < end : now >= start || now < end;
+  if (inside) return 0;
+
+  const minutesUntilStart = (start - now + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return Math.ceil(minutesUntilStart * 60 * 1000);
+}
@@ -0,0 +1,39 @@
+import { extractVariables, findMissingVariables, renderTemplate } from './template';
+
+describe('campaign templates', () => {
+  describe('extractVariables', () => {
+    it('lists each variable once, in order of appearance', () => {
+      expect(extractVariables('Hi {{ name }}, your order {{order_id}} ships to {{name}}')).toEqual(['name', 'order_id']);
+    });
+
+    it('ignores placeholders that are not valid variable names', () => {
+      expect(extractVariables('{{1st}} {{first-name}} {{}} {name}')).toEqual([]);
+    });
+
+    it('handles empty templates', () => {
+      expect(extractVariables(null)).toEqual([]);
+      expect(extractVariables(undefined)).toEqual([]);
+      expect(extractVariables('')).toEqual([]);
+    });
+  });
+
+  describe('findMissingVariables', () => {
+    it('treats empty values as missing', () => {
+      expect(findMissingVariables(['name', 'city', 'code'], { name: 'Asha', city: '' })).toEqual(['city', 'code']);
+    });
+  });
+
+  describe('renderTemplate', () => {
+    it('replaces every occurrence of each variable', () => {
+      expect(renderTemplate('Hi {{name}}! Bye {{ name }}.', { name: 'Asha' })).toBe('Hi Asha! Bye Asha.');
+    });
+
+    it('leaves unknown variables untouched', () => {
+      expect(renderTemplate('Hi {{name}}, code {{code}}', { name: 'Asha' })).toBe('Hi Asha, code {{code}}');
+    });
+
+    it('does not expand placeholders inside values', () => {
+      expect(renderTemplate('{{a}} {{b}}', { a: '{{b}}', b: 'x' })).toBe('{{b}} x');
+    });
+  });
+});
@@ -0,0 +1,26 @@
+// Minimal {{variable}} templating for campaign messages
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*\}\}/g;
+
+export type TemplateVariables = Record<string, string>;
+
+// Unique variable names referenced by a template, in order of appearance
+export function extractVariables(template: string | null | undefined): string[] {
+  if (!template) return [];
+  const names = new Set<string>();
+  for (const match of template.matchAll(VARIABLE_PATTERN)) {
+    names.add(match[1]);
+  }
+  return [...names];
+}
+
+export function findMissingVariables(names: string[], variables: TemplateVariables): string[] {
+  return names.filter((name) => variables[name] === undefined || variables[name] === null || variables[name] === '');
+}
+
+// Replace each {{name}} with its value; unknown variables are left untouched
+export function renderTemplate(template: string, variables: TemplateVariables): string {
+  return template.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    variables[name] !== undefined && variables[name] !== null ? String(variables[name]) : placeholder,
+  );
+}
@@ -0,0 +1,37 @@
+import { NestFactory } from '@nestjs/core';
+import { Logger } from '@nestjs/common';
+import { CliModule } from './cli.module';
+import { UsersService } from '../users/users.service';
+import { UserRole } from '../users/user.entity';
+
+// Gives existing accounts the admin role: npm run admin:promote -- admin@example.com
+// Emails aren't verified, so only run this for accounts you know belong to the right person
+async function promoteAdmins() {
+  const logger = new Logger('PromoteAdmins');
+  const emails = process.argv.slice(2).map((email) => email.trim()).filter(Boolean);
+  if (emails.length === 0) {
+    logger.error('Usage: npm run admin:promote -- <email> [<email>...]');
+    process.exitCode = 1;
+    return;
+  }
+
+  const app = await NestFactory.createApplicationContext(CliModule, { logger: ['error', 'warn', 'log'] });
+  const usersService = app.get(UsersService);
+
+  for (const email of emails) {
+    const user = await usersService.findByEmail(email);
+    if (!user) {
+      logger.warn(`No account with email ${email}`);
+      process.exitCode = 1;
+    } else if (user.role === UserRole.ADMIN) {
+      logger.log(`${email} is already an admin`);
+    } else {
+      await usersService.setRole(user.id, UserRole.ADMIN);
+      logger.log(`${email} is now an admin`);
+    }
+  }
+
+  await app.close();
+}
+
+promoteAdmins();
@@ -0,0 +1,7 @@
+import { SetMetadata } from '@nestjs/common';
+import { ApiKeyScope } from '../../api-keys/api-key.entity';
+
+export const API_KEY_SCOPE_KEY = 'apiKeyScope';
+
+// Scope an API key needs for a route guarded by ApiKeyGuard
+export const RequireApiKeyScope = (scope: ApiKeyScope) => SetMetadata(API_KEY_SCOPE_KEY, scope);
@@ -0,0 +1,7 @@
+import { SetMetadata } from '@nestjs/common';
+import { OrganizationRole } from '../../organizations/organization-member.entity';
+
+export const ORGANIZATION_ROLE_KEY = 'organizationRole';
+
+// Minimum organization role for a route; routes without it are open to every member
+export const RequireOrganizationRole = (role: OrganizationRole) => SetMetadata(ORGANIZATION_ROLE_KEY, role);
@@ -0,0 +1,13 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+// An HTTP error with a machine-readable code for public API clients
+export class ApiErrorException extends HttpException {
+  constructor(
+    status: HttpStatus,
+    public readonly code: string,
+    message: string,
+    public readonly details?: Record<string, any>,
+  ) {
+    super({ statusCode: status, code, message, details }, status);
+  }
+}
@@ -0,0 +1,48 @@
+import { ArgumentsHost, Catch, ExceptionFilter, HttpException, HttpStatus, Logger } from '@nestjs/common';
+import { Response } from 'express';
+
+const DEFAULT_CODES: Record<number, string> = {
+  [HttpStatus.BAD_REQUEST]: 'bad_request',
+  [HttpStatus.UNAUTHORIZED]: 'unauthorized',
+  [HttpStatus.PAYMENT_REQUIRED]: 'insufficient_credits',
+  [HttpStatus.FORBIDDEN]: 'forbidden',
+  [HttpStatus.NOT_FOUND]: 'not_found',
+  [HttpStatus.CONFLICT]: 'conflict',
+  [HttpStatus.PAYLOAD_TOO_LARGE]: 'payload_too_large',
+  [HttpStatus.UNPROCESSABLE_ENTITY]: 'unprocessable_entity',
+  [HttpStatus.TOO_MANY_REQUESTS]: 'rate_limited',
+  [HttpStatus.SERVICE_UNAVAILABLE]: 'service_unavailable',
+};
+
+// Renders every error as { error: { status, code, message, details? } }
+@Catch()
+export class ApiExceptionFilter implements ExceptionFilter {
+  private readonly logger = new Logger(ApiExceptionFilter.name);
+
+  catch(exception: unknown, host: ArgumentsHost) {
+    const response = host.switchToHttp().getResponse<Response>();
+
+    if (!(exception instanceof HttpException)) {
+      this.logger.error(`Unhandled error: ${(exception as Error)?.message}`, (exception as Error)?.stack);
+      response.status(HttpStatus.INTERNAL_SERVER_ERROR).json({
+        error: { status: HttpStatus.INTERNAL_SERVER_ERROR, code: 'internal_error', message: 'Internal server error' },
+      });
+      return;
+    }
+
+    const status = exception.getStatus();
+    const body = exception.getResponse() as any;
+    let code: string = body?.code || DEFAULT_CODES[status] || (status >= 500 ? 'internal_error' : 'error');
+    let message: string = typeof body === 'string' ? body : body?.message || exception.message;
+    let details: Record<string, any> | undefined = body?.details;
+
+    // ValidationPipe reports every failed constraint as an array of messages
+    if (Array.isArray(message)) {
+      code = 'validation_failed';
+      details = { errors: message };
+      message = 'Request validation failed';
+    }
+
+    response.status(status).json({ error: { status, code, message, details } });
+  }
+}
@@ -0,0 +1,72 @@
+import { CanActivate, ExecutionContext, HttpStatus, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ApiKeysService } from '../../api-keys/api-keys.service';
+import { ApiKeyScope } from '../../api-keys/api-key.entity';
+import { API_KEY_SCOPE_KEY } from '../decorators/api-key-scope.decorator';
+import { ApiErrorException } from '../exceptions/api-error.exception';
+
+// Resolves the API key from the X-API-Key or Authorization: Bearer header (or the
+// legacy `apikey` query parameter) and enforces the key's restrictions.
+// The key is put on the request for @CurrentApiKey().
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private apiKeysService: ApiKeysService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest();
+    const key = this.extractKey(request);
+    if (!key) {
+      throw new ApiErrorException(HttpStatus.UNAUTHORIZED, 'api_key_missing', 'API key is required');
+    }
+
+    const apiKey = await this.apiKeysService.findByKey(String(key));
+    if (!apiKey) {
+      throw new ApiErrorException(HttpStatus.UNAUTHORIZED, 'api_key_invalid', 'Invalid API key');
+    }
+    if (this.apiKeysService.isExpired(apiKey)) {
+      throw new ApiErrorException(HttpStatus.UNAUTHORIZED, 'api_key_expired', 'API key has expired');
+    }
+    if (!this.apiKeysService.isIpAllowed(apiKey, request.ip)) {
+      throw new ApiErrorException(
+        HttpStatus.FORBIDDEN,
+        'ip_not_allowed',
+        'API key is not allowed from this IP address',
+      );
+    }
+
+    const scope = this.reflector.getAllAndOverride<ApiKeyScope | undefined>(API_KEY_SCOPE_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (scope && !this.apiKeysService.hasScope(apiKey, scope)) {
+      throw new ApiErrorException(HttpStatus.FORBIDDEN, 'missing_scope', `API key is missing the ${scope} scope`);
+    }
+
+    const rateCheck = this.apiKeysService.checkRateLimit(apiKey);
+    if (!rateCheck.allowed) {
+      throw new ApiErrorException(
+        HttpStatus.TOO_MANY_REQUESTS,
+        'rate_limited',
+        `Rate limit exceeded. Please wait ${Math.ceil(rateCheck.waitTime! / 1000)} seconds.`,
+        { retryAfterSeconds: Math.ceil(rateCheck.waitTime! / 1000) },
+      );
+    }
+
+    await this.apiKeysService.updateLastUsed(apiKey.id);
+    request.apiKey = apiKey;
+    return true;
+  }
+
+  private extractKey(request: any): string | undefined {
+    const header = request.headers['x-api-key'];
+    if (header) return String(header);
+
+    const [type, token] = String(request.headers.authorization || '').split(' ');
+    if (type?.toLowerCase() === 'bearer' && token) return token;
+
+    return request.query?.apikey;
+  }
+}
@@ -0,0 +1,25 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ORGANIZATION_ROLE_KEY } from '../decorators/organization-role.decorator';
+import { OrganizationRole, hasOrganizationRole } from '../../organizations/organization-member.entity';
+
+// Use after JwtAuthGuard, which puts the member's organization role on the request
+@Injectable()
+export class OrganizationRoleGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const required = this.reflector.getAllAndOverride<OrganizationRole | undefined>(ORGANIZATION_ROLE_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (!required) return true;
+
+    const request = context.switchToHttp().getRequest();
+    const role: OrganizationRole | undefined = request.user?.organizationRole;
+    if (!role || !hasOrganizationRole(role, required)) {
+      throw new ForbiddenException(`This action requires the ${required} role`);
+    }
+    return true;
+  }
+}
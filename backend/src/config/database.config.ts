@@ -0,0 +1,17 @@
+import { ConfigService } from '@nestjs/config';
+import { TypeOrmModuleOptions } from '@nestjs/typeorm';
+
+// Shared by the app and the CLI commands
+export const databaseConfig = (configService: ConfigService): TypeOrmModuleOptions =>
+  ({
+    type: configService.get('DB_TYPE', 'postgres'),
+    host: configService.get('DB_HOST', 'localhost'),
+    port: configService.get<number>('DB_PORT', 5432),
+    username: configService.get('DB_USERNAME', 'jantu'),
+    password: configService.get('DB_PASSWORD', 'jantupassword'),
+    database: configService.get('DB_DATABASE', 'jantu'),
+    entities: [__dirname + '/../**/*.entity{.ts,.js}'],
+    synchronize: true,
+    logging: false,
+    ssl: configService.get('DB_SSL', 'false') === 'true' ? { rejectUnauthorized: false } : false,
+  }) as any;
@@ -0,0 +1,77 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Organization } from '../organizations/organization.entity';
+import { User } from '../users/user.entity';
+
+export enum CreditTransactionType {
+  DEBIT = 'debit',
+  REFUND = 'refund',
+  TOP_UP = 'top_up',
+  ADJUSTMENT = 'adjustment',
+}
+
+export enum CreditReferenceType {
+  MESSAGE = 'message',
+  SMS = 'sms',
+  CAMPAIGN = 'campaign',
+  TOP_UP = 'top_up',
+}
+
+// Ledger of every change to an organization's credit balance
+@Entity('credit_transactions')
+@Index(['organizationId', 'createdAt'])
+export class CreditTransaction {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  // Who caused the change, when it was a person
+  @Column({ nullable: true })
+  userId: number;
+
+  @Column({ nullable: true })
+  organizationId: number;
+
+  @Column({
+    type: 'enum',
+    enum: CreditTransactionType,
+  })
+  type: CreditTransactionType;
+
+  // Signed: negative for debits
+  @Column()
+  amount: number;
+
+  @Column()
+  balanceAfter: number;
+
+  @Column()
+  reason: string;
+
+  @Column({
+    type: 'enum',
+    enum: CreditReferenceType,
+    nullable: true,
+  })
+  referenceType: CreditReferenceType;
+
+  @Column({ nullable: true })
+  referenceId: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organizationId' })
+  organization: Organization;
+}
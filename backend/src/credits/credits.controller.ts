@@ -0,0 +1,35 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { CreditsService } from './credits.service';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+
+@ApiTags('Credits')
+@Controller('credits')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class CreditsController {
+  constructor(private creditsService: CreditsService) {}
+
+  @Get('balance')
+  @ApiOperation({ summary: 'Get current credit balance' })
+  async getBalance(@CurrentUser() user: { organizationId: number }) {
+    return { credits: await this.creditsService.getBalance(user.organizationId) };
+  }
+
+  @Get('pricing')
+  @ApiOperation({ summary: 'Get credit price per channel' })
+  getPricing() {
+    return this.creditsService.getPricing();
+  }
+
+  @Get('transactions')
+  @ApiOperation({ summary: 'Get credit ledger entries, newest first' })
+  async getTransactions(
+    @CurrentUser() user: { organizationId: number },
+    @Query('limit') limit?: number,
+    @Query('offset') offset?: number,
+  ) {
+    return this.creditsService.getTransactions(user.organizationId, Math.min(Number(limit) || 50, 500), Number(offset) || 0);
+  }
+}
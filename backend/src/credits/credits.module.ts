@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { CreditsService } from './credits.service';
+import { CreditsController } from './credits.controller';
+import { CreditTransaction } from './credit-transaction.entity';
+import { Organization } from '../organizations/organization.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([CreditTransaction, Organization])],
+  providers: [CreditsService],
+  controllers: [CreditsController],
+  exports: [CreditsService],
+})
+export class CreditsModule {}
@@ -0,0 +1,184 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { DataSource, EntityManager, Repository } from 'typeorm';
+import { Organization } from '../organizations/organization.entity';
+import { CreditTransaction, CreditTransactionType, CreditReferenceType } from './credit-transaction.entity';
+import { InsufficientCreditsException } from './insufficient-credits.exception';
+import { countSmsSegments } from './sms-segments';
+
+export enum BillingChannel {
+  WHATSAPP_TEXT = 'whatsapp_text',
+  WHATSAPP_MEDIA = 'whatsapp_media',
+  SMS_SEGMENT = 'sms_segment',
+}
+
+export interface CreditReference {
+  type: CreditReferenceType;
+  id?: string | number;
+  // Person whose action caused the entry
+  userId?: number | null;
+}
+
+@Injectable()
+export class CreditsService {
+  private readonly prices: Record<BillingChannel, number>;
+
+  constructor(
+    @InjectRepository(CreditTransaction)
+    private transactionRepository: Repository<CreditTransaction>,
+    @InjectRepository(Organization)
+    private organizationRepository: Repository<Organization>,
+    private dataSource: DataSource,
+    private configService: ConfigService,
+  ) {
+    this.prices = {
+      [BillingChannel.WHATSAPP_TEXT]: Number(this.configService.get('CREDIT_PRICE_WHATSAPP_TEXT', 1)),
+      [BillingChannel.WHATSAPP_MEDIA]: Number(this.configService.get('CREDIT_PRICE_WHATSAPP_MEDIA', 2)),
+      [BillingChannel.SMS_SEGMENT]: Number(this.configService.get('CREDIT_PRICE_SMS_SEGMENT', 1)),
+    };
+  }
+
+  getPricing(): Record<BillingChannel, number> {
+    return { ...this.prices };
+  }
+
+  priceOf(channel: BillingChannel, units = 1): number {
+    return this.prices[channel] * units;
+  }
+
+  smsPrice(message: string): number {
+    return this.priceOf(BillingChannel.SMS_SEGMENT, countSmsSegments(message));
+  }
+
+  async getBalance(organizationId: number): Promise<number> {
+    const organization = await this.organizationRepository.findOne({
+      where: { id: organizationId },
+      select: ['id', 'credits'],
+    });
+    return organization?.credits ?? 0;
+  }
+
+  async assertBalance(organizationId: number, required: number): Promise<void> {
+    const balance = await this.getBalance(organizationId);
+    if (balance < required) {
+      throw new InsufficientCreditsException(required, balance);
+    }
+  }
+
+  async debit(
+    organizationId: number,
+    amount: number,
+    reason: string,
+    reference?: CreditReference,
+  ): Promise<CreditTransaction | null> {
+    if (amount <= 0) return null;
+    return this.withdraw(organizationId, amount, CreditTransactionType.DEBIT, reason, reference);
+  }
+
+  async refund(
+    organizationId: number,
+    amount: number,
+    reason: string,
+    reference?: CreditReference,
+  ): Promise<CreditTransaction | null> {
+    if (amount <= 0) return null;
+    return this.credit(organizationId, amount, CreditTransactionType.REFUND, reason, reference);
+  }
+
+  async topUp(organizationId: number, amount: number, reason = 'Top-up'): Promise<CreditTransaction> {
+    if (!Number.isInteger(amount) || amount <= 0) {
+      throw new BadRequestException('Top-up amount must be a positive whole number');
+    }
+    return this.credit(organizationId, amount, CreditTransactionType.TOP_UP, reason, { type: CreditReferenceType.TOP_UP });
+  }
+
+  // Manual correction by staff; negative amounts can't take the balance below zero
+  async adjust(organizationId: number, amount: number, reason: string): Promise<CreditTransaction> {
+    if (!Number.isInteger(amount) || amount === 0) {
+      throw new BadRequestException('Adjustment must be a non-zero whole number');
+    }
+    return amount > 0
+      ? this.credit(organizationId, amount, CreditTransactionType.ADJUSTMENT, reason)
+      : this.withdraw(organizationId, -amount, CreditTransactionType.ADJUSTMENT, reason);
+  }
+
+  async getTransactions(
+    organizationId: number,
+    limit = 50,
+    offset = 0,
+  ): Promise<{ transactions: CreditTransaction[]; total: number }> {
+    const [transactions, total] = await this.transactionRepository.findAndCount({
+      where: { organizationId },
+      order: { createdAt: 'DESC', id: 'DESC' },
+      take: limit,
+      skip: offset,
+    });
+    return { transactions, total };
+  }
+
+  // Conditional update, so concurrent sends can never take the balance below zero
+  private async withdraw(
+    organizationId: number,
+    amount: number,
+    type: CreditTransactionType,
+    reason: string,
+    reference?: CreditReference,
+  ): Promise<CreditTransaction> {
+    return this.dataSource.transaction(async (manager) => {
+      const result = await manager
+        .createQueryBuilder()
+        .update(Organization)
+        .set({ credits: () => 'credits - :amount' })
+        .where('id = :organizationId AND credits >= :amount', { organizationId, amount })
+        .execute();
+
+      if (result.affected !== 1) {
+        const organization = await manager.findOne(Organization, { where: { id: organizationId } });
+        throw new InsufficientCreditsException(amount, organization?.credits ?? 0);
+      }
+      return this.record(manager, organizationId, type, -amount, reason, reference);
+    });
+  }
+
+  private async credit(
+    organizationId: number,
+    amount: number,
+    type: CreditTransactionType,
+    reason: string,
+    reference?: CreditReference,
+  ): Promise<CreditTransaction> {
+    return this.dataSource.transaction(async (manager) => {
+      await manager
+        .createQueryBuilder()
+        .update(Organization)
+        .set({ credits: () => 'credits + :amount' })
+        .where('id = :organizationId', { organizationId, amount })
+        .execute();
+      return this.record(manager, organizationId, type, amount, reason, reference);
+    });
+  }
+
+  private async record(
+    manager: EntityManager,
+    organizationId: number,
+    type: CreditTransactionType,
+    amount: number,
+    reason: string,
+    reference?: CreditReference,
+  ): Promise<CreditTransaction> {
+    const organization = await manager.findOne(Organization, { where: { id: organizationId } });
+    return manager.save(
+      manager.create(CreditTransaction, {
+        organizationId,
+        userId: reference?.userId ?? undefined,
+        type,
+        amount,
+        balanceAfter: organization?.credits ?? 0,
+        reason,
+        referenceType: reference?.type,
+        referenceId: reference?.id !== undefined ? String(reference.id) : undefined,
+      }),
+    );
+  }
+}
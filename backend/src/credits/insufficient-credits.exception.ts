@@ -0,0 +1,15 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+export class InsufficientCreditsException extends HttpException {
+  constructor(required: number, balance: number) {
+    super(
+      {
+        statusCode: HttpStatus.PAYMENT_REQUIRED,
+        message: `Insufficient credits: ${required} required, ${balance} available`,
+        required,
+        balance,
+      },
+      HttpStatus.PAYMENT_REQUIRED,
+    );
+  }
+}
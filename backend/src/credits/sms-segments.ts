@@ -0,0 +1,23 @@
+// SMS segment counting for billing (GSM 03.38 vs UCS-2)
+
+const GSM_BASIC =
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+  '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+// Characters that take an escape plus one septet
+const GSM_EXTENDED = '^{}\\[~]|€\f';
+
+export function countSmsSegments(message: string): number {
+  let septets = 0;
+  for (const char of message) {
+    if (GSM_BASIC.includes(char)) {
+      septets += 1;
+    } else if (GSM_EXTENDED.includes(char)) {
+      septets += 2;
+    } else {
+      // Anything else forces UCS-2 for the whole message (counted in UTF-16 units)
+      return message.length <= 70 ? 1 : Math.ceil(message.length / 67);
+    }
+  }
+  if (septets === 0) return 1;
+  return septets <= 160 ? 1 : Math.ceil(septets / 153);
+}
@@ -0,0 +1,40 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+
+// A request made with an Idempotency-Key header and the response it produced
+@Entity('idempotency_keys')
+@Index(['scope', 'key'], { unique: true })
+export class IdempotencyKey {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  // Who the key belongs to: api-key:<id> or user:<id>
+  @Column()
+  scope: string;
+
+  @Column()
+  key: string;
+
+  // Hash of method, path and body; a reused key must come with the same request
+  @Column()
+  requestHash: string;
+
+  // Successful responses only; failed requests release their key
+  @Column({ type: 'simple-json', nullable: true })
+  response: any;
+
+  // Empty while the first request is still running
+  @Column({ nullable: true })
+  completedAt: Date;
+
+  // When the running request claimed the key; a request that crashed leaves this behind
+  @Column({ type: Date, nullable: true })
+  lockedAt: Date | null;
+
+  // After this the key can be reused and the record is purged
+  @Index()
+  @Column({ nullable: true })
+  expiresAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,87 @@
+import { CallHandler, ExecutionContext, HttpStatus } from '@nestjs/common';
+import { lastValueFrom, of, throwError } from 'rxjs';
+import { IdempotencyInterceptor } from './idempotency.interceptor';
+import { IdempotencyService } from './idempotency.service';
+import { ApiErrorException } from '../common/exceptions/api-error.exception';
+
+describe('IdempotencyInterceptor', () => {
+  let idempotencyService: { begin: jest.Mock; complete: jest.Mock; release: jest.Mock };
+  let interceptor: IdempotencyInterceptor;
+  let response: { setHeader: jest.Mock };
+
+  beforeEach(() => {
+    idempotencyService = {
+      begin: jest.fn(async () => ({ record: { id: 7 }, created: true })),
+      complete: jest.fn(async () => undefined),
+      release: jest.fn(async () => undefined),
+    };
+    interceptor = new IdempotencyInterceptor(idempotencyService as unknown as IdempotencyService);
+    response = { setHeader: jest.fn() };
+  });
+
+  const contextFor = (headers: Record<string, string>, body: any = { to: '+14155550101' }) =>
+    ({
+      switchToHttp: () => ({
+        getRequest: () => ({ method: 'POST', originalUrl: '/v1/messages', headers, body, apiKey: { id: 3 } }),
+        getResponse: () => response,
+      }),
+    }) as unknown as ExecutionContext;
+
+  const handler = (result: () => any): CallHandler => ({ handle: jest.fn(result) });
+
+  const run = async (headers: Record<string, string>, next: CallHandler) =>
+    lastValueFrom(await interceptor.intercept(contextFor(headers), next));
+
+  it('passes requests without the header straight through', async () => {
+    expect(await run({}, handler(() => of({ id: 1 })))).toEqual({ id: 1 });
+    expect(idempotencyService.begin).not.toHaveBeenCalled();
+  });
+
+  it('scopes keys to the API key and stores successful responses', async () => {
+    expect(await run({ 'idempotency-key': 'order-42' }, handler(() => of({ id: 1 })))).toEqual({ id: 1 });
+    expect(idempotencyService.begin).toHaveBeenCalledWith('api-key:3', 'order-42', expect.any(String));
+    expect(idempotencyService.complete).toHaveBeenCalledWith(7, { id: 1 });
+    expect(idempotencyService.release).not.toHaveBeenCalled();
+  });
+
+  it('releases the key when the request throws', async () => {
+    const error = new Error('Phone is offline');
+    await expect(run({ 'idempotency-key': 'order-42' }, handler(() => throwError(() => error)))).rejects.toBe(error);
+    expect(idempotencyService.release).toHaveBeenCalledWith(7);
+    expect(idempotencyService.complete).not.toHaveBeenCalled();
+  });
+
+  it('releases the key for legacy { success: false } responses', async () => {
+    const body = { success: false, error: 'Session not connected' };
+    expect(await run({ 'idempotency-key': 'order-42' }, handler(() => of(body)))).toEqual(body);
+    expect(idempotencyService.release).toHaveBeenCalledWith(7);
+  });
+
+  it('replays completed responses without running the handler', async () => {
+    const first = { 'idempotency-key': 'order-42' };
+    await run(first, handler(() => of({ id: 1 })));
+    const requestHash = idempotencyService.begin.mock.calls[0][2];
+    idempotencyService.begin.mockResolvedValueOnce({
+      record: { id: 7, requestHash, completedAt: new Date(), response: { id: 1 } },
+      created: false,
+    });
+
+    const next = handler(() => of({ id: 2 }));
+    expect(await run(first, next)).toEqual({ id: 1 });
+    expect(next.handle).not.toHaveBeenCalled();
+    expect(response.setHeader).toHaveBeenCalledWith('Idempotent-Replayed', 'true');
+  });
+
+  it('rejects a key reused for a different request', async () => {
+    idempotencyService.begin.mockResolvedValueOnce({ record: { id: 7, requestHash: 'other' }, created: false });
+    await expect(run({ 'idempotency-key': 'order-42' }, handler(() => of({})))).rejects.toMatchObject({
+      status: HttpStatus.UNPROCESSABLE_ENTITY,
+    });
+  });
+
+  it('rejects keys that are too long', async () => {
+    await expect(run({ 'idempotency-key': 'k'.repeat(256) }, handler(() => of({})))).rejects.toBeInstanceOf(
+      ApiErrorException,
+    );
+  });
+});
@@ -0,0 +1,79 @@
+import { CallHandler, ExecutionContext, HttpStatus, Injectable, NestInterceptor } from '@nestjs/common';
+import { Observable, from, of, throwError } from 'rxjs';
+import { catchError, mergeMap } from 'rxjs/operators';
+import { createHash } from 'crypto';
+import { IdempotencyService } from './idempotency.service';
+import { ApiErrorException } from '../common/exceptions/api-error.exception';
+
+const MAX_KEY_LENGTH = 255;
+
+// Replays the stored response when a request is repeated with the same Idempotency-Key.
+// Keys are scoped to the API key or logged-in user; requests without the header run normally.
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  constructor(private idempotencyService: IdempotencyService) {}
+
+  async intercept(context: ExecutionContext, next: CallHandler): Promise<Observable<any>> {
+    const request = context.switchToHttp().getRequest();
+    const response = context.switchToHttp().getResponse();
+    const key = request.headers['idempotency-key'];
+    const scope = this.scopeOf(request);
+    if (!key || !scope) {
+      return next.handle();
+    }
+    if (String(key).length > MAX_KEY_LENGTH) {
+      throw new ApiErrorException(
+        HttpStatus.BAD_REQUEST,
+        'invalid_idempotency_key',
+        `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`,
+      );
+    }
+
+    // Covers the query string and form fields, but not uploaded files
+    const requestHash = createHash('sha256')
+      .update(`${request.method} ${request.originalUrl} ${JSON.stringify(request.body ?? {})}`)
+      .digest('hex');
+    const { record, created } = await this.idempotencyService.begin(scope, String(key), requestHash);
+
+    if (!created) {
+      if (record.requestHash !== requestHash) {
+        throw new ApiErrorException(
+          HttpStatus.UNPROCESSABLE_ENTITY,
+          'idempotency_key_reused',
+          'This Idempotency-Key was already used for a different request',
+        );
+      }
+      if (!record.completedAt) {
+        throw new ApiErrorException(
+          HttpStatus.CONFLICT,
+          'idempotency_in_progress',
+          'A request with this Idempotency-Key is still being processed',
+        );
+      }
+      // The route's own status code is applied to the replayed body
+      response.setHeader('Idempotent-Replayed', 'true');
+      return of(record.response);
+    }
+
+    return next.handle().pipe(
+      mergeMap(async (body) => {
+        // Legacy endpoints report failures as { success: false } with a 200
+        if (body?.success === false) {
+          await this.idempotencyService.release(record.id);
+        } else {
+          await this.idempotencyService.complete(record.id, body);
+        }
+        return body;
+      }),
+      catchError((error) =>
+        from(this.idempotencyService.release(record.id)).pipe(mergeMap(() => throwError(() => error))),
+      ),
+    );
+  }
+
+  private scopeOf(request: any): string | null {
+    if (request.apiKey) return `api-key:${request.apiKey.id}`;
+    if (request.user?.userId) return `user:${request.user.userId}`;
+    return null;
+  }
+}
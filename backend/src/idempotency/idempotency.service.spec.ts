@@ -0,0 +1,127 @@
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { IdempotencyService } from './idempotency.service';
+import { IdempotencyKey } from './idempotency-key.entity';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = new Date('2024-01-01T12:00:00Z').getTime();
+
+describe('IdempotencyService', () => {
+  let repository: {
+    create: jest.Mock;
+    save: jest.Mock;
+    findOne: jest.Mock;
+    update: jest.Mock;
+    delete: jest.Mock;
+  };
+  let service: IdempotencyService;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+    repository = {
+      create: jest.fn((data) => data),
+      save: jest.fn(async (data) => ({ id: 1, ...data })),
+      findOne: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(async () => ({ affected: 0 })),
+    };
+    service = new IdempotencyService(
+      repository as unknown as Repository<IdempotencyKey>,
+      new ConfigService({ IDEMPOTENCY_KEY_TTL_HOURS: '2' }),
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const duplicateKey = () => repository.save.mockRejectedValueOnce(new Error('duplicate key'));
+
+  describe('begin', () => {
+    it('claims a new key until the TTL runs out', async () => {
+      const { record, created } = await service.begin('api-key:1', 'order-42', 'hash');
+
+      expect(created).toBe(true);
+      expect(record).toMatchObject({ scope: 'api-key:1', key: 'order-42', requestHash: 'hash' });
+      expect(record.expiresAt.getTime()).toBe(NOW + 2 * HOUR);
+    });
+
+    it('returns the existing record while it is still valid', async () => {
+      const existing = { id: 7, scope: 'api-key:1', key: 'order-42', expiresAt: new Date(NOW + HOUR) };
+      duplicateKey();
+      repository.findOne.mockResolvedValueOnce(existing);
+
+      expect(await service.begin('api-key:1', 'order-42', 'hash')).toEqual({ record: existing, created: false });
+      expect(repository.delete).not.toHaveBeenCalled();
+    });
+
+    it('frees expired keys that were not purged yet', async () => {
+      duplicateKey();
+      repository.findOne.mockResolvedValueOnce({ id: 7, expiresAt: new Date(NOW) });
+
+      const { record, created } = await service.begin('api-key:1', 'order-42', 'hash');
+      expect(created).toBe(true);
+      expect(repository.delete).toHaveBeenCalledWith(7);
+      expect(record.expiresAt.getTime()).toBe(NOW + 2 * HOUR);
+    });
+
+    it('treats records without an expiry as expired', async () => {
+      duplicateKey();
+      repository.findOne.mockResolvedValueOnce({ id: 7, expiresAt: null });
+
+      expect((await service.begin('api-key:1', 'order-42', 'hash')).created).toBe(true);
+      expect(repository.delete).toHaveBeenCalledWith(7);
+    });
+
+    it('reclaims a key whose request never finished once its lock goes stale', async () => {
+      const lockedAt = new Date(NOW - 2 * 60 * 1000);
+      duplicateKey();
+      repository.findOne.mockResolvedValueOnce({ id: 7, lockedAt, expiresAt: new Date(NOW + HOUR) });
+      repository.update.mockResolvedValueOnce({ affected: 1 });
+
+      const { record, created } = await service.begin('api-key:1', 'order-42', 'new-hash');
+      expect(created).toBe(true);
+      expect(record).toMatchObject({ id: 7, requestHash: 'new-hash', lockedAt: new Date(NOW) });
+      expect(repository.update.mock.calls[0][0]).toMatchObject({ id: 7, lockedAt });
+    });
+
+    it('keeps a key in progress while its lock is recent', async () => {
+      const existing = { id: 7, lockedAt: new Date(NOW - 30 * 1000), expiresAt: new Date(NOW + HOUR) };
+      duplicateKey();
+      repository.findOne.mockResolvedValueOnce(existing);
+
+      expect(await service.begin('api-key:1', 'order-42', 'hash')).toEqual({ record: existing, created: false });
+      expect(repository.update).not.toHaveBeenCalled();
+    });
+
+    it('leaves a stale key in progress when a concurrent retry reclaimed it first', async () => {
+      const existing = { id: 7, lockedAt: new Date(NOW - 2 * 60 * 1000), expiresAt: new Date(NOW + HOUR) };
+      duplicateKey();
+      repository.findOne.mockResolvedValueOnce(existing);
+      repository.update.mockResolvedValueOnce({ affected: 0 });
+
+      expect(await service.begin('api-key:1', 'order-42', 'hash')).toEqual({ record: existing, created: false });
+    });
+
+    it('rethrows errors that are not caused by an existing key', async () => {
+      duplicateKey();
+      repository.findOne.mockResolvedValueOnce(null);
+
+      await expect(service.begin('api-key:1', 'order-42', 'hash')).rejects.toThrow('duplicate key');
+    });
+  });
+
+  it('stores the response on completion', async () => {
+    await service.complete(7, { id: 1 });
+    expect(repository.update).toHaveBeenCalledWith(7, {
+      response: { id: 1 },
+      completedAt: new Date(NOW),
+      lockedAt: null,
+    });
+  });
+
+  it('deletes released keys so the request can be retried', async () => {
+    await service.release(7);
+    expect(repository.delete).toHaveBeenCalledWith(7);
+  });
+});
@@ -0,0 +1,127 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { IsNull, LessThan, Repository } from 'typeorm';
+import { IdempotencyKey } from './idempotency-key.entity';
+
+@Injectable()
+export class IdempotencyService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(IdempotencyService.name);
+  private timer: NodeJS.Timeout | null = null;
+
+  private readonly TTL: number;
+  private readonly STALE_AFTER: number;
+  private readonly CLEANUP_INTERVAL = 60 * 60 * 1000; // 1 hour
+
+  constructor(
+    @InjectRepository(IdempotencyKey)
+    private idempotencyKeyRepository: Repository<IdempotencyKey>,
+    private configService: ConfigService,
+  ) {
+    this.TTL = Number(this.configService.get('IDEMPOTENCY_KEY_TTL_HOURS', 24)) * 60 * 60 * 1000;
+    this.STALE_AFTER = Number(this.configService.get('IDEMPOTENCY_KEY_STALE_AFTER', 60 * 1000));
+  }
+
+  onModuleInit() {
+    this.timer = setInterval(() => this.purgeExpired(), this.CLEANUP_INTERVAL);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Claims the key for this request. Returns the existing record instead if it was already used.
+  async begin(
+    scope: string,
+    key: string,
+    requestHash: string,
+  ): Promise<{ record: IdempotencyKey; created: boolean }> {
+    try {
+      return { record: await this.insert(scope, key, requestHash), created: true };
+    } catch (error) {
+      // Unique (scope, key) violation: someone got there first
+      const existing = await this.idempotencyKeyRepository.findOne({ where: { scope, key } });
+      if (!existing) throw error;
+      if (this.isStale(existing)) {
+        return this.reclaim(existing, requestHash);
+      }
+      if (!this.isExpired(existing)) {
+        return { record: existing, created: false };
+      }
+
+      // Expired but not purged yet: the key is free again
+      await this.idempotencyKeyRepository.delete(existing.id);
+      return { record: await this.insert(scope, key, requestHash), created: true };
+    }
+  }
+
+  async complete(id: number, response: any): Promise<void> {
+    await this.idempotencyKeyRepository.update(id, { response, completedAt: new Date(), lockedAt: null });
+  }
+
+  // Failed requests don't hold on to their key, so they can be retried
+  async release(id: number): Promise<void> {
+    await this.idempotencyKeyRepository.delete(id);
+  }
+
+  async purgeExpired(): Promise<void> {
+    try {
+      const expired = await this.idempotencyKeyRepository.delete({ expiresAt: LessThan(new Date()) });
+      const undated = await this.idempotencyKeyRepository.delete({ expiresAt: IsNull() });
+      const purged = (expired.affected || 0) + (undated.affected || 0);
+      if (purged > 0) {
+        this.logger.log(`Purged ${purged} expired idempotency keys`);
+      }
+    } catch (error: any) {
+      this.logger.error(`Error purging idempotency keys: ${error.message}`);
+    }
+  }
+
+  private insert(scope: string, key: string, requestHash: string): Promise<IdempotencyKey> {
+    return this.idempotencyKeyRepository.save(
+      this.idempotencyKeyRepository.create({
+        scope,
+        key,
+        requestHash,
+        lockedAt: new Date(),
+        expiresAt: new Date(Date.now() + this.TTL),
+      }),
+    );
+  }
+
+  // Take over the key of a request that never finished. Conditional on the old lock, so only
+  // one of several concurrent retries gets it; the others see it as in progress.
+  private async reclaim(
+    existing: IdempotencyKey,
+    requestHash: string,
+  ): Promise<{ record: IdempotencyKey; created: boolean }> {
+    const claimed = {
+      requestHash,
+      lockedAt: new Date(),
+      expiresAt: new Date(Date.now() + this.TTL),
+    };
+    const result = await this.idempotencyKeyRepository.update(
+      { id: existing.id, completedAt: IsNull(), lockedAt: existing.lockedAt ?? IsNull() },
+      claimed,
+    );
+    if (result.affected !== 1) {
+      return { record: existing, created: false };
+    }
+    this.logger.warn(`Reclaimed idempotency key ${existing.id} from a request that did not finish`);
+    return { record: { ...existing, ...claimed }, created: true };
+  }
+
+  // Records from before keys were locked fall back to their creation time
+  private isStale(record: IdempotencyKey): boolean {
+    const lockedAt = record.lockedAt ?? record.createdAt;
+    return !record.completedAt && !!lockedAt && lockedAt.getTime() <= Date.now() - this.STALE_AFTER;
+  }
+
+  // Records from before keys expired have no expiry and count as expired
+  private isExpired(record: IdempotencyKey): boolean {
+    return !record.expiresAt || record.expiresAt.getTime() <= Date.now();
+  }
+}
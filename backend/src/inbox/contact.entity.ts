@@ -0,0 +1,61 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Organization } from '../organizations/organization.entity';
+import { WhatsappSession } from '../whatsapp/whatsapp-session.entity';
+
+// Someone who has messaged a session; one conversation per contact
+@Entity('contacts')
+@Index(['sessionId', 'chatId'], { unique: true })
+export class Contact {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index()
+  @Column({ nullable: true })
+  organizationId: number;
+
+  @Column()
+  sessionId: number;
+
+  // WhatsApp chat id of the contact
+  @Column()
+  chatId: string;
+
+  // E.164 number, used to reply and to match outbound messages
+  @Column({ nullable: true })
+  phoneNumber: string;
+
+  @Column({ nullable: true })
+  name: string;
+
+  @Column({ nullable: true })
+  lastMessageAt: Date;
+
+  @Column({ nullable: true })
+  lastMessagePreview: string;
+
+  @Column({ default: 0 })
+  unreadCount: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organizationId' })
+  organization: Organization;
+
+  @ManyToOne(() => WhatsappSession, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'sessionId' })
+  session: WhatsappSession;
+}
@@ -0,0 +1,9 @@
+import { IsString, MinLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ReplyDto {
+  @ApiProperty({ example: 'Thanks for reaching out!' })
+  @IsString()
+  @MinLength(1)
+  message: string;
+}
@@ -0,0 +1,62 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Organization } from '../organizations/organization.entity';
+import { WhatsappSession } from '../whatsapp/whatsapp-session.entity';
+import { Contact } from './contact.entity';
+
+@Entity('inbound_messages')
+@Index(['contactId', 'receivedAt'])
+export class InboundMessage {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index()
+  @Column({ nullable: true })
+  organizationId: number;
+
+  @Column()
+  sessionId: number;
+
+  @Column()
+  contactId: number;
+
+  // Serialized WhatsApp message id; the client can emit the same message twice
+  @Column({ unique: true })
+  whatsappMessageId: string;
+
+  @Column({ type: 'text' })
+  body: string;
+
+  // WhatsApp message type (chat, image, audio, ...)
+  @Column({ default: 'chat' })
+  type: string;
+
+  @Column({ default: false })
+  hasMedia: boolean;
+
+  // When the sender sent it, per WhatsApp
+  @Column()
+  receivedAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @ManyToOne(() => WhatsappSession, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'sessionId' })
+  session: WhatsappSession;
+
+  @ManyToOne(() => Contact, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'contactId' })
+  contact: Contact;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organizationId' })
+  organization: Organization;
+}
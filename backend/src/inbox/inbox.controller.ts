@@ -0,0 +1,77 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseIntPipe,
+  BadRequestException,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
+import { InboxService } from './inbox.service';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { OrganizationRoleGuard } from '../common/guards/organization-role.guard';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { RequireOrganizationRole } from '../common/decorators/organization-role.decorator';
+import { OrganizationRole } from '../organizations/organization-member.entity';
+import { ReplyDto } from './dto/reply.dto';
+
+@ApiTags('Inbox')
+@Controller('inbox')
+@UseGuards(JwtAuthGuard, OrganizationRoleGuard)
+@ApiBearerAuth()
+export class InboxController {
+  constructor(private inboxService: InboxService) {}
+
+  @Get('sessions/:sessionId/conversations')
+  @ApiOperation({ summary: 'Get conversations for a session, most recent first' })
+  async getConversations(
+    @CurrentUser() user: { organizationId: number },
+    @Param('sessionId', ParseIntPipe) sessionId: number,
+    @Query('limit') limit?: number,
+    @Query('offset') offset?: number,
+  ) {
+    return this.inboxService.getConversations(sessionId, user.organizationId, Number(limit) || 50, Number(offset) || 0);
+  }
+
+  @Get('conversations/:id/messages')
+  @ApiOperation({ summary: 'Get a page of messages in a conversation' })
+  @ApiQuery({ name: 'before', required: false, description: 'Only messages older than this ISO timestamp' })
+  async getMessages(
+    @CurrentUser() user: { organizationId: number },
+    @Param('id', ParseIntPipe) id: number,
+    @Query('limit') limit?: number,
+    @Query('before') before?: string,
+  ) {
+    const beforeDate = before ? new Date(before) : undefined;
+    if (beforeDate && isNaN(beforeDate.getTime())) {
+      throw new BadRequestException('before must be an ISO timestamp');
+    }
+    return this.inboxService.getThread(id, user.organizationId, Math.min(Number(limit) || 50, 200), beforeDate);
+  }
+
+  @Post('conversations/:id/reply')
+  @RequireOrganizationRole(OrganizationRole.AGENT)
+  @ApiOperation({ summary: 'Reply to a conversation' })
+  async reply(
+    @CurrentUser() user: { userId: number; organizationId: number },
+    @Param('id', ParseIntPipe) id: number,
+    @Body() replyDto: ReplyDto,
+  ) {
+    const messageLog = await this.inboxService.reply(id, user.organizationId, user.userId, replyDto.message);
+    return { success: true, messageLog };
+  }
+
+  @Post('conversations/:id/read')
+  @RequireOrganizationRole(OrganizationRole.AGENT)
+  @ApiOperation({ summary: 'Mark a conversation as read' })
+  async markRead(
+    @CurrentUser() user: { organizationId: number },
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    await this.inboxService.markRead(id, user.organizationId);
+    return { success: true };
+  }
+}
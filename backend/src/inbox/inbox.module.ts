@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { InboxService } from './inbox.service';
+import { InboxController } from './inbox.controller';
+import { Contact } from './contact.entity';
+import { InboundMessage } from './inbound-message.entity';
+import { MessageLog } from '../whatsapp/message-log.entity';
+import { WhatsappModule } from '../whatsapp/whatsapp.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Contact, InboundMessage, MessageLog]),
+    WhatsappModule,
+  ],
+  providers: [InboxService],
+  controllers: [InboxController],
+  exports: [InboxService],
+})
+export class InboxModule {}
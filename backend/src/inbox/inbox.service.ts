@@ -0,0 +1,233 @@
+import { Injectable, NotFoundException, BadRequestException, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThan, Repository } from 'typeorm';
+import { Contact } from './contact.entity';
+import { InboundMessage } from './inbound-message.entity';
+import { WhatsappService, IncomingMessage } from '../whatsapp/whatsapp.service';
+import { WhatsappGateway } from '../whatsapp/whatsapp.gateway';
+import { MessageLog, MessageSource, MessageStatus } from '../whatsapp/message-log.entity';
+
+export type MessageDirection = 'inbound' | 'outbound';
+
+// Inbound messages and our own sends, merged into one thread
+export interface ThreadMessage {
+  id: number;
+  direction: MessageDirection;
+  body: string;
+  type: string;
+  hasMedia: boolean;
+  status: MessageStatus | null;
+  timestamp: Date;
+}
+
+export interface ThreadPage {
+  messages: ThreadMessage[];
+  hasMore: boolean;
+}
+
+@Injectable()
+export class InboxService implements OnModuleInit {
+  private readonly logger = new Logger(InboxService.name);
+  private readonly PREVIEW_LENGTH = 100;
+
+  constructor(
+    @InjectRepository(Contact)
+    private contactRepository: Repository<Contact>,
+    @InjectRepository(InboundMessage)
+    private inboundRepository: Repository<InboundMessage>,
+    @InjectRepository(MessageLog)
+    private messageLogRepository: Repository<MessageLog>,
+    private whatsappService: WhatsappService,
+    private whatsappGateway: WhatsappGateway,
+  ) {}
+
+  onModuleInit() {
+    this.whatsappService.onIncomingMessage((message) => this.handleIncomingMessage(message));
+  }
+
+  async getConversations(
+    sessionId: number,
+    organizationId: number,
+    limit = 50,
+    offset = 0,
+  ): Promise<{ conversations: Contact[]; total: number }> {
+    await this.assertSessionInOrganization(sessionId, organizationId);
+    const [conversations, total] = await this.contactRepository.findAndCount({
+      where: { sessionId, organizationId },
+      order: { lastMessageAt: 'DESC' },
+      take: limit,
+      skip: offset,
+    });
+    return { conversations, total };
+  }
+
+  async getContact(contactId: number, organizationId: number): Promise<Contact> {
+    const contact = await this.contactRepository.findOne({ where: { id: contactId, organizationId } });
+    if (!contact) {
+      throw new NotFoundException('Conversation not found');
+    }
+    return contact;
+  }
+
+  // Newest page first; pass the oldest timestamp seen as `before` to page back
+  async getThread(contactId: number, organizationId: number, limit = 50, before?: Date): Promise<ThreadPage> {
+    const contact = await this.getContact(contactId, organizationId);
+
+    const inbound = await this.inboundRepository.find({
+      where: { contactId, ...(before && { receivedAt: LessThan(before) }) },
+      order: { receivedAt: 'DESC' },
+      take: limit + 1,
+    });
+    const outbound = contact.phoneNumber
+      ? await this.messageLogRepository.find({
+          where: {
+            sessionId: contact.sessionId,
+            organizationId,
+            normalizedRecipient: contact.phoneNumber,
+            ...(before && { createdAt: LessThan(before) }),
+          },
+          order: { createdAt: 'DESC' },
+          take: limit + 1,
+        })
+      : [];
+
+    const merged: ThreadMessage[] = [
+      ...inbound.map((m) => ({
+        id: m.id,
+        direction: 'inbound' as const,
+        body: m.body,
+        type: m.type,
+        hasMedia: m.hasMedia,
+        status: null,
+        timestamp: m.receivedAt,
+      })),
+      ...outbound.map((log) => ({
+        id: log.id,
+        direction: 'outbound' as const,
+        body: log.message,
+        type: 'chat',
+        hasMedia: false,
+        status: log.status,
+        timestamp: log.createdAt,
+      })),
+    ].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+
+    return {
+      messages: merged.slice(0, limit).reverse(),
+      hasMore: merged.length > limit,
+    };
+  }
+
+  async reply(contactId: number, organizationId: number, userId: number, message: string): Promise<MessageLog> {
+    const contact = await this.getContact(contactId, organizationId);
+    if (!contact.phoneNumber) {
+      throw new BadRequestException('This contact has no phone number to reply to');
+    }
+
+    const log = await this.whatsappService.sendMessage(
+      contact.sessionId,
+      organizationId,
+      contact.phoneNumber,
+      message,
+      undefined,
+      MessageSource.MANUAL,
+      { userId },
+    );
+    if (log.status === MessageStatus.FAILED) {
+      throw new BadRequestException(log.error || 'Failed to send reply');
+    }
+
+    await this.contactRepository.update(contact.id, {
+      lastMessageAt: log.createdAt,
+      lastMessagePreview: this.preview(message),
+    });
+    return log;
+  }
+
+  async markRead(contactId: number, organizationId: number): Promise<void> {
+    await this.getContact(contactId, organizationId);
+    await this.contactRepository.update(contactId, { unreadCount: 0 });
+  }
+
+  private async handleIncomingMessage(incoming: IncomingMessage): Promise<void> {
+    const exists = await this.inboundRepository.findOne({
+      where: { whatsappMessageId: incoming.whatsappMessageId },
+    });
+    if (exists) return;
+
+    let contact = await this.findOrCreateContact(incoming);
+
+    let message: InboundMessage;
+    try {
+      message = await this.inboundRepository.save(
+        this.inboundRepository.create({
+          organizationId: incoming.organizationId,
+          sessionId: incoming.sessionId,
+          contactId: contact.id,
+          whatsappMessageId: incoming.whatsappMessageId,
+          body: incoming.body,
+          type: incoming.type,
+          hasMedia: incoming.hasMedia,
+          receivedAt: incoming.timestamp,
+        }),
+      );
+    } catch (error) {
+      // Unique whatsappMessageId violation: the other copy of a duplicate got there first
+      if (await this.inboundRepository.findOne({ where: { whatsappMessageId: incoming.whatsappMessageId } })) return;
+      throw error;
+    }
+
+    await this.contactRepository.update(contact.id, {
+      phoneNumber: incoming.phoneNumber || contact.phoneNumber,
+      name: incoming.name || contact.name,
+      lastMessageAt: incoming.timestamp,
+      lastMessagePreview: this.preview(incoming.body || `[${incoming.type}]`),
+    });
+    await this.contactRepository.increment({ id: contact.id }, 'unreadCount', 1);
+    contact = await this.getContact(contact.id, incoming.organizationId);
+
+    this.logger.log(`Inbound message ${message.id} on session ${incoming.sessionId} from contact ${contact.id}`);
+
+    this.whatsappGateway.emitToOrganization(incoming.organizationId, 'inboxMessage', {
+      sessionId: incoming.sessionId,
+      contact,
+      message: {
+        id: message.id,
+        direction: 'inbound',
+        body: message.body,
+        type: message.type,
+        hasMedia: message.hasMedia,
+        status: null,
+        timestamp: message.receivedAt,
+      } as ThreadMessage,
+    });
+  }
+
+  // Messages from a new contact can arrive together; the unique (sessionId, chatId) index keeps one contact
+  private async findOrCreateContact(incoming: IncomingMessage): Promise<Contact> {
+    const where = { sessionId: incoming.sessionId, chatId: incoming.chatId };
+    const contact = await this.contactRepository.findOne({ where });
+    if (contact) return contact;
+
+    try {
+      return await this.contactRepository.save(
+        this.contactRepository.create({ ...where, organizationId: incoming.organizationId, unreadCount: 0 }),
+      );
+    } catch (error) {
+      const existing = await this.contactRepository.findOne({ where });
+      if (!existing) throw error;
+      return existing;
+    }
+  }
+
+  private async assertSessionInOrganization(sessionId: number, organizationId: number): Promise<void> {
+    const session = await this.whatsappService.getSession(sessionId, organizationId);
+    if (!session) {
+      throw new NotFoundException('Session not found');
+    }
+  }
+
+  private preview(text: string): string {
+    return text.length > this.PREVIEW_LENGTH ? text.slice(0, this.PREVIEW_LENGTH - 1) + '…' : text;
+  }
+}
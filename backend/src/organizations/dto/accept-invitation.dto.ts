@@ -0,0 +1,9 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class AcceptInvitationDto {
+  @ApiProperty({ description: 'Token from the invitation link' })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
@@ -0,0 +1,29 @@
+import { IsString, IsOptional, IsISO31661Alpha2, MinLength, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateOrganizationDto {
+  @ApiProperty({ example: 'Acme Support' })
+  @IsString()
+  @MinLength(2)
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({ example: 'IN', description: 'Default country for numbers without a country code' })
+  @IsOptional()
+  @IsISO31661Alpha2()
+  defaultCountry?: string;
+}
+
+export class UpdateOrganizationDto {
+  @ApiPropertyOptional({ example: 'Acme Support' })
+  @IsOptional()
+  @IsString()
+  @MinLength(2)
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional({ example: 'IN' })
+  @IsOptional()
+  @IsISO31661Alpha2()
+  defaultCountry?: string;
+}
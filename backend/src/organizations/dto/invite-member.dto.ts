@@ -0,0 +1,13 @@
+import { IsEmail, IsEnum } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { OrganizationRole } from '../organization-member.entity';
+
+export class InviteMemberDto {
+  @ApiProperty({ example: 'agent@example.com' })
+  @IsEmail()
+  email: string;
+
+  @ApiProperty({ enum: OrganizationRole, example: OrganizationRole.AGENT })
+  @IsEnum(OrganizationRole)
+  role: OrganizationRole;
+}
@@ -0,0 +1,9 @@
+import { IsEnum } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { OrganizationRole } from '../organization-member.entity';
+
+export class UpdateMemberRoleDto {
+  @ApiProperty({ enum: OrganizationRole, example: OrganizationRole.MANAGER })
+  @IsEnum(OrganizationRole)
+  role: OrganizationRole;
+}
@@ -0,0 +1,52 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Organization } from './organization.entity';
+import { OrganizationRole } from './organization-member.entity';
+
+@Entity('organization_invitations')
+@Index(['organizationId', 'email'])
+export class OrganizationInvitation {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  organizationId: number;
+
+  // Only the account with this email can accept
+  @Column()
+  email: string;
+
+  @Column({
+    type: 'enum',
+    enum: OrganizationRole,
+    default: OrganizationRole.AGENT,
+  })
+  role: OrganizationRole;
+
+  // SHA-256 of the token; the token itself is only returned when the invitation is created
+  @Column({ unique: true, select: false })
+  tokenHash: string;
+
+  @Column()
+  invitedById: number;
+
+  @Column()
+  expiresAt: Date;
+
+  @Column({ nullable: true })
+  acceptedAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organizationId' })
+  organization: Organization;
+}
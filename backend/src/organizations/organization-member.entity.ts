@@ -0,0 +1,65 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../users/user.entity';
+import { Organization } from './organization.entity';
+
+export enum OrganizationRole {
+  OWNER = 'owner',
+  MANAGER = 'manager',
+  AGENT = 'agent',
+  VIEWER = 'viewer',
+}
+
+// Each role can do everything the roles below it can
+const ROLE_RANK: Record<OrganizationRole, number> = {
+  [OrganizationRole.VIEWER]: 0,
+  [OrganizationRole.AGENT]: 1,
+  [OrganizationRole.MANAGER]: 2,
+  [OrganizationRole.OWNER]: 3,
+};
+
+export function hasOrganizationRole(role: OrganizationRole, required: OrganizationRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+@Entity('organization_members')
+@Index(['organizationId', 'userId'], { unique: true })
+export class OrganizationMember {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  organizationId: number;
+
+  @Column()
+  userId: number;
+
+  @Column({
+    type: 'enum',
+    enum: OrganizationRole,
+    default: OrganizationRole.AGENT,
+  })
+  role: OrganizationRole;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @ManyToOne(() => Organization, (organization) => organization.members, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organizationId' })
+  organization: Organization;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+}
@@ -0,0 +1,35 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  OneToMany,
+} from 'typeorm';
+import { OrganizationMember } from './organization-member.entity';
+
+// Workspace that owns sessions, campaigns, API keys and the credit balance
+@Entity('organizations')
+export class Organization {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  name: string;
+
+  @Column({ default: 0 })
+  credits: number;
+
+  // ISO country used for numbers entered without a country code
+  @Column({ nullable: true })
+  defaultCountry: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @OneToMany(() => OrganizationMember, (member) => member.organization)
+  members: OrganizationMember[];
+}
@@ -0,0 +1,131 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  ParseIntPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { OrganizationsService } from './organizations.service';
+import { OrganizationRole } from './organization-member.entity';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { OrganizationRoleGuard } from '../common/guards/organization-role.guard';
+import { RequireOrganizationRole } from '../common/decorators/organization-role.decorator';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { CreateOrganizationDto, UpdateOrganizationDto } from './dto/create-organization.dto';
+import { InviteMemberDto } from './dto/invite-member.dto';
+import { UpdateMemberRoleDto } from './dto/update-member-role.dto';
+import { AcceptInvitationDto } from './dto/accept-invitation.dto';
+
+type Member = { userId: number; organizationId: number; organizationRole: OrganizationRole };
+
+@ApiTags('Organizations')
+@Controller('organizations')
+@UseGuards(JwtAuthGuard, OrganizationRoleGuard)
+@ApiBearerAuth()
+export class OrganizationsController {
+  constructor(private organizationsService: OrganizationsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get the organizations the current user belongs to' })
+  async findMine(@CurrentUser() user: Member) {
+    const memberships = await this.organizationsService.findForUser(user.userId);
+    return memberships.map((m) => ({ ...m.organization, role: m.role }));
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create an organization (switch to it via /auth/switch-organization)' })
+  async create(
+    @CurrentUser() user: Member,
+    @Body() createOrganizationDto: CreateOrganizationDto,
+  ) {
+    const membership = await this.organizationsService.create(user.userId, createOrganizationDto);
+    return { ...membership.organization, role: membership.role };
+  }
+
+  @Get('current')
+  @ApiOperation({ summary: 'Get the active organization' })
+  async getCurrent(@CurrentUser() user: Member) {
+    const organization = await this.organizationsService.findOne(user.organizationId);
+    return { ...organization, role: user.organizationRole };
+  }
+
+  @Put('current')
+  @RequireOrganizationRole(OrganizationRole.OWNER)
+  @ApiOperation({ summary: 'Update the active organization' })
+  async update(
+    @CurrentUser() user: Member,
+    @Body() updateOrganizationDto: UpdateOrganizationDto,
+  ) {
+    return this.organizationsService.update(user.organizationId, updateOrganizationDto);
+  }
+
+  @Get('current/members')
+  @ApiOperation({ summary: 'Get members of the active organization' })
+  async getMembers(@CurrentUser() user: Member) {
+    return this.organizationsService.getMembers(user.organizationId);
+  }
+
+  @Put('current/members/:id')
+  @RequireOrganizationRole(OrganizationRole.MANAGER)
+  @ApiOperation({ summary: 'Change a member\'s role' })
+  async updateMemberRole(
+    @CurrentUser() user: Member,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateMemberRoleDto: UpdateMemberRoleDto,
+  ) {
+    return this.organizationsService.updateMemberRole(user.organizationId, user, id, updateMemberRoleDto.role);
+  }
+
+  @Delete('current/members/:id')
+  @ApiOperation({ summary: 'Remove a member, or leave the organization' })
+  async removeMember(
+    @CurrentUser() user: Member,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    await this.organizationsService.removeMember(user.organizationId, user, id);
+    return { success: true };
+  }
+
+  @Get('current/invitations')
+  @RequireOrganizationRole(OrganizationRole.MANAGER)
+  @ApiOperation({ summary: 'Get pending invitations' })
+  async getInvitations(@CurrentUser() user: Member) {
+    return this.organizationsService.getInvitations(user.organizationId);
+  }
+
+  @Post('current/invitations')
+  @RequireOrganizationRole(OrganizationRole.MANAGER)
+  @ApiOperation({ summary: 'Invite someone by email (the token is only shown once)' })
+  async invite(
+    @CurrentUser() user: Member,
+    @Body() inviteMemberDto: InviteMemberDto,
+  ) {
+    return this.organizationsService.invite(user.organizationId, user, inviteMemberDto);
+  }
+
+  @Delete('current/invitations/:id')
+  @RequireOrganizationRole(OrganizationRole.MANAGER)
+  @ApiOperation({ summary: 'Revoke a pending invitation' })
+  async revokeInvitation(
+    @CurrentUser() user: Member,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    await this.organizationsService.revokeInvitation(user.organizationId, id);
+    return { success: true };
+  }
+
+  @Post('invitations/accept')
+  @ApiOperation({ summary: 'Accept an invitation sent to your email' })
+  async acceptInvitation(
+    @CurrentUser() user: Member,
+    @Body() acceptInvitationDto: AcceptInvitationDto,
+  ) {
+    const membership = await this.organizationsService.acceptInvitation(user.userId, acceptInvitationDto.token);
+    return { ...membership.organization, role: membership.role };
+  }
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { OrganizationsService } from './organizations.service';
+import { OrganizationsController } from './organizations.controller';
+import { Organization } from './organization.entity';
+import { OrganizationMember } from './organization-member.entity';
+import { OrganizationInvitation } from './organization-invitation.entity';
+import { User } from '../users/user.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Organization, OrganizationMember, OrganizationInvitation, User])],
+  providers: [OrganizationsService],
+  controllers: [OrganizationsController],
+  exports: [OrganizationsService],
+})
+export class OrganizationsModule {}
@@ -0,0 +1,349 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  ConflictException,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { DataSource, IsNull, MoreThan, Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { Organization } from './organization.entity';
+import { OrganizationMember, OrganizationRole, hasOrganizationRole } from './organization-member.entity';
+import { OrganizationInvitation } from './organization-invitation.entity';
+import { CreateOrganizationDto, UpdateOrganizationDto } from './dto/create-organization.dto';
+import { InviteMemberDto } from './dto/invite-member.dto';
+import { User } from '../users/user.entity';
+import { WhatsappSession } from '../whatsapp/whatsapp-session.entity';
+import { MessageLog } from '../whatsapp/message-log.entity';
+import { AutoReplyRule } from '../whatsapp/auto-reply-rule.entity';
+import { Campaign } from '../campaigns/campaign.entity';
+import { ApiKey } from '../api-keys/api-key.entity';
+import { WebhookEndpoint } from '../webhooks/webhook-endpoint.entity';
+import { CreditTransaction } from '../credits/credit-transaction.entity';
+import { Suppression } from '../suppression/suppression.entity';
+import { Contact } from '../inbox/contact.entity';
+import { InboundMessage } from '../inbox/inbound-message.entity';
+
+// The member acting on an organization
+export interface OrganizationActor {
+  userId: number;
+  organizationRole: OrganizationRole;
+}
+
+@Injectable()
+export class OrganizationsService implements OnModuleInit {
+  private readonly logger = new Logger(OrganizationsService.name);
+  private readonly SIGNUP_CREDITS = 100;
+  private readonly INVITATION_TTL = 7 * 24 * 60 * 60 * 1000; // 7 days
+  private readonly FRONTEND_URL: string;
+  private membershipListeners: ((organizationId: number, userId: number) => void | Promise<void>)[] = [];
+
+  constructor(
+    @InjectRepository(Organization)
+    private organizationRepository: Repository<Organization>,
+    @InjectRepository(OrganizationMember)
+    private memberRepository: Repository<OrganizationMember>,
+    @InjectRepository(OrganizationInvitation)
+    private invitationRepository: Repository<OrganizationInvitation>,
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+    private dataSource: DataSource,
+    private configService: ConfigService,
+  ) {
+    this.FRONTEND_URL = this.configService.get<string>('FRONTEND_URL', 'http://localhost:5173').replace(/\/$/, '');
+  }
+
+  async onModuleInit() {
+    try {
+      await this.migrateUsersWithoutOrganization();
+    } catch (error: any) {
+      this.logger.error(`Organization backfill failed: ${error.message}`);
+    }
+  }
+
+  // Every account starts with a workspace of its own
+  async createPersonal(user: User, credits = this.SIGNUP_CREDITS): Promise<OrganizationMember> {
+    return this.createWithOwner(user.id, `${user.name}'s workspace`, user.defaultCountry, credits);
+  }
+
+  async create(userId: number, dto: CreateOrganizationDto): Promise<OrganizationMember> {
+    return this.createWithOwner(userId, dto.name, dto.defaultCountry, 0);
+  }
+
+  // The organization a login starts in: the user's oldest membership
+  async findDefaultMembership(userId: number): Promise<OrganizationMember | null> {
+    const [first] = await this.memberRepository.find({
+      where: { userId },
+      relations: ['organization'],
+      order: { createdAt: 'ASC' },
+      take: 1,
+    });
+    return first || null;
+  }
+
+  async findMembership(organizationId: number, userId: number): Promise<OrganizationMember | null> {
+    return this.memberRepository.findOne({
+      where: { organizationId, userId },
+      relations: ['organization'],
+    });
+  }
+
+  async findForUser(userId: number): Promise<OrganizationMember[]> {
+    return this.memberRepository.find({
+      where: { userId },
+      relations: ['organization'],
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  async findOne(organizationId: number): Promise<Organization> {
+    const organization = await this.organizationRepository.findOne({ where: { id: organizationId } });
+    if (!organization) {
+      throw new NotFoundException('Organization not found');
+    }
+    return organization;
+  }
+
+  async update(organizationId: number, dto: UpdateOrganizationDto): Promise<Organization> {
+    const organization = await this.findOne(organizationId);
+    if (dto.name !== undefined) organization.name = dto.name;
+    if (dto.defaultCountry !== undefined) organization.defaultCountry = dto.defaultCountry.toUpperCase();
+    return this.organizationRepository.save(organization);
+  }
+
+  async getMembers(organizationId: number) {
+    const members = await this.memberRepository.find({
+      where: { organizationId },
+      relations: ['user'],
+      order: { createdAt: 'ASC' },
+    });
+    return members.map(({ user, ...member }) => ({
+      ...member,
+      user: { id: user.id, email: user.email, name: user.name },
+    }));
+  }
+
+  async updateMemberRole(
+    organizationId: number,
+    actor: OrganizationActor,
+    memberId: number,
+    role: OrganizationRole,
+  ): Promise<OrganizationMember> {
+    const member = await this.findMember(organizationId, memberId);
+    this.assertCanManage(actor, member.role);
+    this.assertCanManage(actor, role);
+
+    if (member.role === OrganizationRole.OWNER && role !== OrganizationRole.OWNER) {
+      await this.assertNotLastOwner(organizationId);
+    }
+
+    await this.memberRepository.update(member.id, { role });
+    await this.notifyMembershipChanged(organizationId, member.userId);
+    return { ...member, role };
+  }
+
+  // Members can always remove themselves, unless they are the last owner or it's their only organization
+  async removeMember(organizationId: number, actor: OrganizationActor, memberId: number): Promise<void> {
+    const member = await this.findMember(organizationId, memberId);
+    if (member.userId !== actor.userId) {
+      this.assertCanManage(actor, member.role);
+    } else if ((await this.memberRepository.count({ where: { userId: actor.userId } })) <= 1) {
+      throw new BadRequestException("You can't leave your only organization");
+    }
+    if (member.role === OrganizationRole.OWNER) {
+      await this.assertNotLastOwner(organizationId);
+    }
+    await this.memberRepository.delete(member.id);
+    await this.notifyMembershipChanged(organizationId, member.userId);
+  }
+
+  // Subscribe to role changes and removals, e.g. to drop connections authorized under the old role
+  onMembershipChanged(listener: (organizationId: number, userId: number) => void | Promise<void>): void {
+    this.membershipListeners.push(listener);
+  }
+
+  // The token is only returned here; share the link with the invitee
+  async invite(
+    organizationId: number,
+    actor: OrganizationActor,
+    dto: InviteMemberDto,
+  ): Promise<{ invitation: OrganizationInvitation; token: string; acceptUrl: string }> {
+    this.assertCanManage(actor, dto.role);
+    const email = dto.email.trim().toLowerCase();
+
+    const existingMember = await this.memberRepository.findOne({
+      where: { organizationId, user: { email } },
+    });
+    if (existingMember) {
+      throw new ConflictException('This user is already a member');
+    }
+
+    // A new invitation replaces any pending one for the same email
+    await this.invitationRepository.delete({ organizationId, email, acceptedAt: IsNull() });
+
+    const token = randomBytes(32).toString('hex');
+    const invitation = await this.invitationRepository.save(
+      this.invitationRepository.create({
+        organizationId,
+        email,
+        role: dto.role,
+        tokenHash: this.hashToken(token),
+        invitedById: actor.userId,
+        expiresAt: new Date(Date.now() + this.INVITATION_TTL),
+      }),
+    );
+    const { tokenHash, ...result } = invitation;
+
+    return {
+      invitation: result as OrganizationInvitation,
+      token,
+      acceptUrl: `${this.FRONTEND_URL}/invitations/accept?token=${token}`,
+    };
+  }
+
+  async getInvitations(organizationId: number): Promise<OrganizationInvitation[]> {
+    return this.invitationRepository.find({
+      where: { organizationId, acceptedAt: IsNull(), expiresAt: MoreThan(new Date()) },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async revokeInvitation(organizationId: number, invitationId: number): Promise<void> {
+    const result = await this.invitationRepository.delete({ id: invitationId, organizationId, acceptedAt: IsNull() });
+    if (!result.affected) {
+      throw new NotFoundException('Invitation not found');
+    }
+  }
+
+  async acceptInvitation(userId: number, token: string): Promise<OrganizationMember> {
+    const invitation = await this.invitationRepository.findOne({ where: { tokenHash: this.hashToken(token) } });
+    if (!invitation || invitation.acceptedAt || invitation.expiresAt.getTime() < Date.now()) {
+      throw new BadRequestException('Invitation is invalid or has expired');
+    }
+
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    if (!user || user.email.toLowerCase() !== invitation.email) {
+      throw new ForbiddenException('This invitation was sent to a different email address');
+    }
+
+    // Conditional update so the same invitation can't be used twice
+    const claimed = await this.invitationRepository.update(
+      { id: invitation.id, acceptedAt: IsNull() },
+      { acceptedAt: new Date() },
+    );
+    if (claimed.affected !== 1) {
+      throw new BadRequestException('Invitation is invalid or has expired');
+    }
+
+    const existing = await this.findMembership(invitation.organizationId, userId);
+    if (existing) return existing;
+
+    await this.memberRepository.save(
+      this.memberRepository.create({
+        organizationId: invitation.organizationId,
+        userId,
+        role: invitation.role,
+      }),
+    );
+    this.logger.log(`User ${userId} joined organization ${invitation.organizationId} as ${invitation.role}`);
+    return (await this.findMembership(invitation.organizationId, userId))!;
+  }
+
+  private async createWithOwner(
+    userId: number,
+    name: string,
+    defaultCountry: string | undefined,
+    credits: number,
+  ): Promise<OrganizationMember> {
+    return this.dataSource.transaction(async (manager) => {
+      const organization = await manager.save(
+        manager.create(Organization, { name, credits, defaultCountry: defaultCountry?.toUpperCase() }),
+      );
+      const member = await manager.save(
+        manager.create(OrganizationMember, {
+          organizationId: organization.id,
+          userId,
+          role: OrganizationRole.OWNER,
+        }),
+      );
+      member.organization = organization;
+      return member;
+    });
+  }
+
+  private async findMember(organizationId: number, memberId: number): Promise<OrganizationMember> {
+    const member = await this.memberRepository.findOne({ where: { id: memberId, organizationId } });
+    if (!member) {
+      throw new NotFoundException('Member not found');
+    }
+    return member;
+  }
+
+  // Owners manage everyone; other members only roles below their own
+  private assertCanManage(actor: OrganizationActor, role: OrganizationRole): void {
+    const allowed =
+      actor.organizationRole === OrganizationRole.OWNER ||
+      (hasOrganizationRole(actor.organizationRole, role) && actor.organizationRole !== role);
+    if (!allowed) {
+      throw new ForbiddenException(`Your role can't manage ${role}s`);
+    }
+  }
+
+  private async assertNotLastOwner(organizationId: number): Promise<void> {
+    const owners = await this.memberRepository.count({
+      where: { organizationId, role: OrganizationRole.OWNER },
+    });
+    if (owners <= 1) {
+      throw new BadRequestException('An organization needs at least one owner');
+    }
+  }
+
+  private async notifyMembershipChanged(organizationId: number, userId: number): Promise<void> {
+    for (const listener of this.membershipListeners) {
+      try {
+        await listener(organizationId, userId);
+      } catch (error: any) {
+        this.logger.error(`Membership listener failed: ${error.message}`);
+      }
+    }
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  // Accounts from before organizations get a personal one that takes over their data and balance
+  private async migrateUsersWithoutOrganization(): Promise<void> {
+    const users = await this.userRepository
+      .createQueryBuilder('user')
+      .leftJoin(OrganizationMember, 'member', 'member.userId = user.id')
+      .where('member.id IS NULL')
+      .getMany();
+    if (users.length === 0) return;
+
+    for (const user of users) {
+      const { organizationId } = await this.createPersonal(user, user.credits);
+      for (const entity of [WhatsappSession, Campaign, ApiKey, WebhookEndpoint, MessageLog, CreditTransaction, Suppression]) {
+        await this.dataSource
+          .getRepository<{ userId: number; organizationId: number }>(entity)
+          .update({ userId: user.id, organizationId: IsNull() }, { organizationId });
+      }
+    }
+
+    // Session-level data follows the session's organization
+    const sessions = await this.dataSource.getRepository(WhatsappSession).find();
+    for (const session of sessions) {
+      for (const entity of [Contact, InboundMessage, AutoReplyRule]) {
+        await this.dataSource
+          .getRepository<{ sessionId: number; organizationId: number }>(entity)
+          .update({ sessionId: session.id, organizationId: IsNull() }, { organizationId: session.organizationId });
+      }
+    }
+
+    this.logger.log(`Created personal organizations for ${users.length} existing users`);
+  }
+}
@@ -0,0 +1,62 @@
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { PhoneNumberService, PhoneNumberType } from './phone-number.service';
+import { Organization } from '../organizations/organization.entity';
+
+describe('PhoneNumberService', () => {
+  let organizationRepository: { findOne: jest.Mock };
+  let service: PhoneNumberService;
+
+  beforeEach(() => {
+    organizationRepository = { findOne: jest.fn() };
+    service = new PhoneNumberService(
+      organizationRepository as unknown as Repository<Organization>,
+      new ConfigService({ DEFAULT_PHONE_COUNTRY: 'in' }),
+    );
+  });
+
+  describe('normalize', () => {
+    it('reads national numbers in the default country', () => {
+      expect(service.normalize('98765 43210')).toEqual({
+        e164: '+919876543210',
+        digits: '919876543210',
+        country: 'IN',
+        type: PhoneNumberType.MOBILE,
+      });
+    });
+
+    it('prefers the given country over the default', () => {
+      expect(service.normalize('(415) 555-0101', 'us')?.e164).toBe('+14155550101');
+    });
+
+    it('accepts international formats', () => {
+      expect(service.normalize('+1 415 555 0101')?.e164).toBe('+14155550101');
+      expect(service.normalize('0014155550101')?.e164).toBe('+14155550101');
+    });
+
+    it('reads bare digits that already carry a country code', () => {
+      expect(service.normalize('14155550101')?.e164).toBe('+14155550101');
+    });
+
+    it('rejects numbers that are not valid anywhere', () => {
+      expect(service.normalize('')).toBeNull();
+      expect(service.normalize('12345')).toBeNull();
+      expect(service.normalize('not a number')).toBeNull();
+    });
+  });
+
+  describe('resolveDefaultCountry', () => {
+    it("uses the API key's country first", async () => {
+      expect(await service.resolveDefaultCountry(1, 'GB')).toBe('GB');
+      expect(organizationRepository.findOne).not.toHaveBeenCalled();
+    });
+
+    it("falls back to the organization's country, then DEFAULT_PHONE_COUNTRY", async () => {
+      organizationRepository.findOne.mockResolvedValueOnce({ id: 1, defaultCountry: 'US' });
+      expect(await service.resolveDefaultCountry(1)).toBe('US');
+
+      organizationRepository.findOne.mockResolvedValueOnce({ id: 1, defaultCountry: null });
+      expect(await service.resolveDefaultCountry(1)).toBe('IN');
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { CountryCode, isSupportedCountry, parsePhoneNumberFromString } from 'libphonenumber-js/max';
+import { Organization } from '../organizations/organization.entity';
+
+export enum PhoneNumberType {
+  MOBILE = 'mobile',
+  FIXED_LINE = 'fixed_line',
+  FIXED_LINE_OR_MOBILE = 'fixed_line_or_mobile',
+  OTHER = 'other',
+  UNKNOWN = 'unknown',
+}
+
+export interface NormalizedPhoneNumber {
+  e164: string; // +919876543210
+  digits: string; // 919876543210, as used in WhatsApp chat ids
+  country?: string;
+  type: PhoneNumberType;
+}
+
+// Single place for turning user-entered numbers into E.164
+@Injectable()
+export class PhoneNumberService {
+  private readonly DEFAULT_COUNTRY: string;
+
+  constructor(
+    @InjectRepository(Organization)
+    private organizationRepository: Repository<Organization>,
+    private configService: ConfigService,
+  ) {
+    this.DEFAULT_COUNTRY = this.configService.get<string>('DEFAULT_PHONE_COUNTRY', 'IN').toUpperCase();
+  }
+
+  // Returns null for numbers that aren't valid in any numbering plan
+  normalize(raw: string, defaultCountry?: string | null): NormalizedPhoneNumber | null {
+    if (!raw) return null;
+
+    let input = raw.trim();
+    // "00" international prefix, and bare digits that already carry a country code
+    if (input.startsWith('00')) {
+      input = '+' + input.slice(2);
+    }
+
+    const country = (defaultCountry || this.DEFAULT_COUNTRY).toUpperCase() as CountryCode;
+    let parsed = parsePhoneNumberFromString(input, country);
+    if ((!parsed || !parsed.isValid()) && !input.startsWith('+')) {
+      parsed = parsePhoneNumberFromString('+' + input.replace(/\D/g, ''));
+    }
+    if (!parsed || !parsed.isValid()) return null;
+
+    return {
+      e164: parsed.number,
+      digits: parsed.number.replace(/^\+/, ''),
+      country: parsed.country,
+      type: this.mapType(parsed.getType()),
+    };
+  }
+
+  isValidCountry(country: string): boolean {
+    return isSupportedCountry(country.toUpperCase());
+  }
+
+  // An API key's country wins over the organization's, which wins over DEFAULT_PHONE_COUNTRY
+  async resolveDefaultCountry(organizationId: number, apiKeyCountry?: string | null): Promise<string> {
+    if (apiKeyCountry) return apiKeyCountry;
+
+    const organization = await this.organizationRepository.findOne({
+      where: { id: organizationId },
+      select: ['id', 'defaultCountry'],
+    });
+    return organization?.defaultCountry || this.DEFAULT_COUNTRY;
+  }
+
+  private mapType(type: string | undefined): PhoneNumberType {
+    switch (type) {
+      case 'MOBILE':
+        return PhoneNumberType.MOBILE;
+      case 'FIXED_LINE':
+        return PhoneNumberType.FIXED_LINE;
+      case 'FIXED_LINE_OR_MOBILE':
+        return PhoneNumberType.FIXED_LINE_OR_MOBILE;
+      case undefined:
+        return PhoneNumberType.UNKNOWN;
+      default:
+        return PhoneNumberType.OTHER;
+    }
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { PhoneNumberService } from './phone-number.service';
+import { Organization } from '../organizations/organization.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Organization])],
+  providers: [PhoneNumberService],
+  exports: [PhoneNumberService],
+})
+export class PhoneModule {}
@@ -0,0 +1,34 @@
+import { IsString, IsOptional, IsUrl, MinLength, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ApiSendMessageDto {
+  @ApiProperty({ example: '+919876543210', description: 'Recipient, with country code or in the key\'s default country' })
+  @IsString()
+  @MinLength(5)
+  to: string;
+
+  @ApiPropertyOptional({ example: 'Hello! This is a test message.', description: 'Message text, or the caption when mediaUrl is set' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(4096)
+  text?: string;
+
+  @ApiPropertyOptional({ example: 'https://example.com/invoice.pdf', description: 'Media to download and send (needs whatsapp:media)' })
+  @IsOptional()
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true })
+  mediaUrl?: string;
+}
+
+// Form fields sent alongside the uploaded file
+export class ApiSendMediaDto {
+  @ApiProperty({ example: '+919876543210' })
+  @IsString()
+  @MinLength(5)
+  to: string;
+
+  @ApiPropertyOptional({ example: 'Your invoice' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1024)
+  caption?: string;
+}
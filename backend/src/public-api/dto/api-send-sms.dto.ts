@@ -0,0 +1,38 @@
+import { IsString, IsOptional, IsArray, ArrayMinSize, ArrayMaxSize, MinLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ApiSendSmsDto {
+  @ApiProperty({ example: '+919876543210' })
+  @IsString()
+  @MinLength(5)
+  to: string;
+
+  @ApiProperty({ example: 'Your code is 1234' })
+  @IsString()
+  @MinLength(1)
+  text: string;
+
+  @ApiPropertyOptional({ example: 'ABCDEF', description: '6 character sender name' })
+  @IsOptional()
+  @IsString()
+  senderId?: string;
+}
+
+export class ApiSendBulkSmsDto {
+  @ApiProperty({ example: ['+919876543210', '+919876543211'] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(1000)
+  @IsString({ each: true })
+  to: string[];
+
+  @ApiProperty({ example: 'This is a test message' })
+  @IsString()
+  @MinLength(1)
+  text: string;
+
+  @ApiPropertyOptional({ example: 'ABCDEF', description: '6 character sender name' })
+  @IsOptional()
+  @IsString()
+  senderId?: string;
+}
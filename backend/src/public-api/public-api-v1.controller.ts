@@ -0,0 +1,199 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  ParseIntPipe,
+  UseFilters,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiTags, ApiOperation, ApiSecurity, ApiConsumes, ApiBody, ApiHeader } from '@nestjs/swagger';
+import { PublicApiService } from './public-api.service';
+import { mediaUploadOptions } from './media-upload';
+import { ApiSendMessageDto, ApiSendMediaDto } from './dto/api-send-message.dto';
+import { ApiSendSmsDto, ApiSendBulkSmsDto } from './dto/api-send-sms.dto';
+import { ApiKeysService } from '../api-keys/api-keys.service';
+import { ApiKey, ApiKeyScope } from '../api-keys/api-key.entity';
+import { MessageLog, MessageStatus } from '../whatsapp/message-log.entity';
+import { SmsErrorCode, SmsResult } from '../sms/sms.service';
+import { ApiKeyGuard } from '../common/guards/api-key.guard';
+import { RequireApiKeyScope } from '../common/decorators/api-key-scope.decorator';
+import { CurrentApiKey } from '../common/decorators/current-api-key.decorator';
+import { ApiErrorException } from '../common/exceptions/api-error.exception';
+import { ApiExceptionFilter } from '../common/filters/api-exception.filter';
+import { IdempotencyInterceptor } from '../idempotency/idempotency.interceptor';
+
+const SMS_ERROR_STATUS: Record<SmsErrorCode, HttpStatus> = {
+  [SmsErrorCode.NOT_CONFIGURED]: HttpStatus.SERVICE_UNAVAILABLE,
+  [SmsErrorCode.INVALID_NUMBER]: HttpStatus.BAD_REQUEST,
+  [SmsErrorCode.LANDLINE]: HttpStatus.UNPROCESSABLE_ENTITY,
+  [SmsErrorCode.INSUFFICIENT_CREDITS]: HttpStatus.PAYMENT_REQUIRED,
+  [SmsErrorCode.OPTED_OUT]: HttpStatus.UNPROCESSABLE_ENTITY,
+  [SmsErrorCode.SEND_FAILED]: HttpStatus.BAD_GATEWAY,
+};
+
+const IDEMPOTENCY_HEADER = {
+  name: 'Idempotency-Key',
+  required: false,
+  description: 'Repeating a request with the same key returns the first response instead of sending again',
+};
+
+// JSON API. Errors are returned as { error: { status, code, message, details? } }.
+@ApiTags('Public API v1')
+@ApiSecurity('x-api-key')
+@ApiSecurity('bearer')
+@Controller('v1')
+@UseGuards(ApiKeyGuard)
+@UseFilters(ApiExceptionFilter)
+export class PublicApiV1Controller {
+  constructor(
+    private publicApiService: PublicApiService,
+    private apiKeysService: ApiKeysService,
+  ) {}
+
+  @Post('messages')
+  @RequireApiKeyScope(ApiKeyScope.WHATSAPP_SEND)
+  @UseInterceptors(IdempotencyInterceptor)
+  @ApiOperation({ summary: 'Send a WhatsApp message, optionally with media from a URL' })
+  @ApiHeader(IDEMPOTENCY_HEADER)
+  async sendMessage(@CurrentApiKey() apiKey: ApiKey, @Body() dto: ApiSendMessageDto) {
+    if (!dto.text && !dto.mediaUrl) {
+      throw new ApiErrorException(HttpStatus.BAD_REQUEST, 'validation_failed', 'text or mediaUrl is required');
+    }
+    if (dto.mediaUrl && !this.apiKeysService.hasScope(apiKey, ApiKeyScope.WHATSAPP_MEDIA)) {
+      throw new ApiErrorException(
+        HttpStatus.FORBIDDEN,
+        'missing_scope',
+        `API key is missing the ${ApiKeyScope.WHATSAPP_MEDIA} scope`,
+      );
+    }
+
+    const log = await this.publicApiService.sendWhatsapp(
+      apiKey,
+      dto.to,
+      dto.text || '',
+      dto.mediaUrl ? { url: dto.mediaUrl } : undefined,
+    );
+    return this.toSentMessage(log);
+  }
+
+  @Post('messages/media')
+  @RequireApiKeyScope(ApiKeyScope.WHATSAPP_MEDIA)
+  // Multer has to parse the form before the idempotency check hashes it
+  @UseInterceptors(FileInterceptor('file', mediaUploadOptions), IdempotencyInterceptor)
+  @ApiOperation({ summary: 'Send an uploaded file (image, video, PDF, document) over WhatsApp' })
+  @ApiHeader(IDEMPOTENCY_HEADER)
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['to', 'file'],
+      properties: {
+        to: { type: 'string', example: '+919876543210' },
+        caption: { type: 'string' },
+        file: { type: 'string', format: 'binary' },
+      },
+    },
+  })
+  async sendMedia(
+    @CurrentApiKey() apiKey: ApiKey,
+    @Body() dto: ApiSendMediaDto,
+    @UploadedFile() file: Express.Multer.File,
+  ) {
+    if (!file) {
+      throw new ApiErrorException(HttpStatus.BAD_REQUEST, 'validation_failed', 'file is required');
+    }
+
+    const log = await this.publicApiService.sendWhatsapp(apiKey, dto.to, dto.caption || '', { path: file.path });
+    return this.toSentMessage(log);
+  }
+
+  @Get('messages/:id')
+  @RequireApiKeyScope(ApiKeyScope.MESSAGES_READ)
+  @ApiOperation({ summary: 'Get the delivery status of a WhatsApp message' })
+  async getMessage(@CurrentApiKey() apiKey: ApiKey, @Param('id', ParseIntPipe) id: number) {
+    return this.toMessage(await this.publicApiService.getMessage(apiKey, id));
+  }
+
+  @Post('sms')
+  @RequireApiKeyScope(ApiKeyScope.SMS_SEND)
+  @UseInterceptors(IdempotencyInterceptor)
+  @ApiOperation({ summary: 'Send an SMS' })
+  @ApiHeader(IDEMPOTENCY_HEADER)
+  async sendSms(@CurrentApiKey() apiKey: ApiKey, @Body() dto: ApiSendSmsDto) {
+    const result = await this.publicApiService.sendSms(apiKey, dto.to, dto.text, dto.senderId);
+    if (!result.success) {
+      const code = result.code || SmsErrorCode.SEND_FAILED;
+      throw new ApiErrorException(SMS_ERROR_STATUS[code], code, result.error || 'SMS could not be sent');
+    }
+    return { id: result.messageId, channel: 'sms', to: dto.to, status: MessageStatus.SENT };
+  }
+
+  // Per-recipient outcomes; the request itself succeeds even if some sends fail
+  @Post('sms/bulk')
+  @HttpCode(HttpStatus.OK)
+  @RequireApiKeyScope(ApiKeyScope.SMS_SEND)
+  @UseInterceptors(IdempotencyInterceptor)
+  @ApiOperation({ summary: 'Send the same SMS to several recipients' })
+  @ApiHeader(IDEMPOTENCY_HEADER)
+  async sendBulkSms(@CurrentApiKey() apiKey: ApiKey, @Body() dto: ApiSendBulkSmsDto) {
+    const { results, successCount, failedCount, suppressedCount } = await this.publicApiService.sendBulkSms(
+      apiKey,
+      dto.to,
+      dto.text,
+      dto.senderId,
+    );
+
+    return {
+      results: results.map((result, index) => this.toSmsOutcome(dto.to[index], result)),
+      successCount,
+      failedCount,
+      suppressedCount,
+    };
+  }
+
+  // A send that didn't go out is reported as an error, with the logged message's id
+  private toSentMessage(log: MessageLog) {
+    if (log.status === MessageStatus.SUPPRESSED) {
+      throw new ApiErrorException(HttpStatus.UNPROCESSABLE_ENTITY, 'recipient_opted_out', log.error, {
+        messageId: log.id,
+      });
+    }
+    if (log.status === MessageStatus.FAILED) {
+      throw new ApiErrorException(HttpStatus.BAD_GATEWAY, 'send_failed', log.error, { messageId: log.id });
+    }
+    return this.toMessage(log);
+  }
+
+  private toMessage(log: MessageLog) {
+    return {
+      id: log.id,
+      channel: 'whatsapp',
+      to: log.normalizedRecipient || log.recipient,
+      status: log.status,
+      error: log.error || null,
+      sessionId: log.sessionId,
+      createdAt: log.createdAt,
+      sentAt: log.sentAt || null,
+      deliveredAt: log.deliveredAt || null,
+      readAt: log.readAt || null,
+    };
+  }
+
+  private toSmsOutcome(to: string, result: SmsResult) {
+    if (result.success) {
+      return { to, status: MessageStatus.SENT, id: result.messageId };
+    }
+    return {
+      to,
+      status: result.suppressed ? MessageStatus.SUPPRESSED : MessageStatus.FAILED,
+      error: { code: result.code || SmsErrorCode.SEND_FAILED, message: result.error },
+    };
+  }
+}
@@ -0,0 +1,177 @@
+import { Controller, Post, Query, Body, BadRequestException, UseGuards, UseInterceptors, UploadedFile } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiTags, ApiOperation, ApiQuery, ApiSecurity, ApiConsumes, ApiBody, ApiHeader } from '@nestjs/swagger';
+import { PublicApiService } from './public-api.service';
+import { mediaUploadOptions } from './media-upload';
+import { MessageLog, MessageStatus } from '../whatsapp/message-log.entity';
+import { ApiKey, ApiKeyScope } from '../api-keys/api-key.entity';
+import { ApiKeyGuard } from '../common/guards/api-key.guard';
+import { RequireApiKeyScope } from '../common/decorators/api-key-scope.decorator';
+import { CurrentApiKey } from '../common/decorators/current-api-key.decorator';
+import { IdempotencyInterceptor } from '../idempotency/idempotency.interceptor';
+
+const IDEMPOTENCY_HEADER = {
+  name: 'Idempotency-Key',
+  required: false,
+  description: 'Retries with the same key return the first result instead of sending again',
+};
+
+// Original query-string endpoints, kept for existing integrations. New clients should use /v1.
+@ApiTags('Public API (legacy)')
+@ApiSecurity('x-api-key')
+@ApiSecurity('bearer')
+@ApiSecurity('apikey')
+@Controller()
+@UseGuards(ApiKeyGuard)
+export class PublicApiController {
+  constructor(private publicApiService: PublicApiService) {}
+
+  @Post('wapp/api/send')
+  @RequireApiKeyScope(ApiKeyScope.WHATSAPP_SEND)
+  @UseInterceptors(IdempotencyInterceptor)
+  @ApiOperation({ summary: 'Send WhatsApp message via API' })
+  @ApiHeader(IDEMPOTENCY_HEADER)
+  @ApiQuery({ name: 'mobile', required: true, description: 'Mobile number, with country code or in the key\'s default country' })
+  @ApiQuery({ name: 'msg', required: true, description: 'Message content' })
+  async sendWhatsApp(
+    @CurrentApiKey() apiKeyRecord: ApiKey,
+    @Query('mobile') mobile: string,
+    @Query('msg') msg: string,
+  ) {
+    if (!mobile || !msg) {
+      throw new BadRequestException('Mobile number and message are required');
+    }
+
+    try {
+      return this.toResult(await this.publicApiService.sendWhatsapp(apiKeyRecord, mobile, msg));
+    } catch (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  }
+
+  @Post('wapp/api/sendmedia')
+  @RequireApiKeyScope(ApiKeyScope.WHATSAPP_MEDIA)
+  @ApiOperation({ summary: 'Send WhatsApp message with media (image, video, PDF, document)' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        media: {
+          type: 'string',
+          format: 'binary',
+          description: 'Media file (image, video, PDF, document)',
+        },
+      },
+    },
+  })
+  @ApiQuery({ name: 'mobile', required: true, description: 'Mobile number, with country code or in the key\'s default country' })
+  @ApiQuery({ name: 'msg', required: false, description: 'Caption/message (optional)' })
+  @UseInterceptors(FileInterceptor('media', mediaUploadOptions), IdempotencyInterceptor)
+  @ApiHeader(IDEMPOTENCY_HEADER)
+  async sendWhatsAppMedia(
+    @CurrentApiKey() apiKeyRecord: ApiKey,
+    @Query('mobile') mobile: string,
+    @Query('msg') msg: string,
+    @UploadedFile() media: Express.Multer.File,
+  ) {
+    if (!mobile) {
+      throw new BadRequestException('Mobile number is required');
+    }
+
+    if (!media) {
+      throw new BadRequestException('Media file is required');
+    }
+
+    try {
+      const log = await this.publicApiService.sendWhatsapp(apiKeyRecord, mobile, msg || '', { path: media.path });
+      return { ...this.toResult(log), mediaFile: media.filename };
+    } catch (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  }
+
+  @Post('wapp/api/sendmediaurl')
+  @RequireApiKeyScope(ApiKeyScope.WHATSAPP_MEDIA)
+  @UseInterceptors(IdempotencyInterceptor)
+  @ApiOperation({ summary: 'Send WhatsApp message with media from URL' })
+  @ApiHeader(IDEMPOTENCY_HEADER)
+  @ApiQuery({ name: 'mobile', required: true, description: 'Mobile number, with country code or in the key\'s default country' })
+  @ApiQuery({ name: 'msg', required: false, description: 'Caption/message (optional)' })
+  @ApiQuery({ name: 'mediaurl', required: true, description: 'URL of the media file' })
+  async sendWhatsAppMediaUrl(
+    @CurrentApiKey() apiKeyRecord: ApiKey,
+    @Query('mobile') mobile: string,
+    @Query('msg') msg: string,
+    @Query('mediaurl') mediaurl: string,
+  ) {
+    if (!mobile || !mediaurl) {
+      throw new BadRequestException('Mobile number and media URL are required');
+    }
+
+    try {
+      return this.toResult(
+        await this.publicApiService.sendWhatsapp(apiKeyRecord, mobile, msg || '', { url: mediaurl }),
+      );
+    } catch (error) {
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+  }
+
+  @Post('api/sendsms')
+  @RequireApiKeyScope(ApiKeyScope.SMS_SEND)
+  @ApiOperation({ summary: 'Send SMS via API' })
+  @ApiQuery({ name: 'number', required: true, description: 'Mobile number, with country code or in the key\'s default country' })
+  @ApiQuery({ name: 'sendername', required: false, description: '6 character sender name' })
+  @ApiQuery({ name: 'msg', required: true, description: 'Message content' })
+  async sendSms(
+    @CurrentApiKey() apiKeyRecord: ApiKey,
+    @Query('number') number: string,
+    @Query('sendername') sendername: string,
+    @Query('msg') msg: string,
+  ) {
+    if (!number || !msg) {
+      throw new BadRequestException('Number and message are required');
+    }
+
+    const result = await this.publicApiService.sendSms(apiKeyRecord, number, msg, sendername);
+
+    return {
+      success: result.success,
+      messageId: result.messageId,
+      error: result.error,
+    };
+  }
+
+  @Post('api/sendbulksms')
+  @RequireApiKeyScope(ApiKeyScope.SMS_SEND)
+  @ApiOperation({ summary: 'Send bulk SMS via API' })
+  async sendBulkSms(
+    @CurrentApiKey() apiKeyRecord: ApiKey,
+    @Body() body: { numbers: string[]; msg: string; sendername?: string },
+  ) {
+    if (!body.numbers || !body.msg) {
+      throw new BadRequestException('Numbers array and message are required');
+    }
+
+    return this.publicApiService.sendBulkSms(apiKeyRecord, body.numbers, body.msg, body.sendername);
+  }
+
+  private toResult(log: MessageLog) {
+    return {
+      success: log.status !== MessageStatus.SUPPRESSED,
+      messageId: log.id,
+      status: log.status,
+      error: log.status === MessageStatus.SUPPRESSED ? log.error : undefined,
+    };
+  }
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { PublicApiController } from './public-api.controller';
+import { PublicApiV1Controller } from './public-api-v1.controller';
+import { PublicApiService } from './public-api.service';
+import { ApiKeysModule } from '../api-keys/api-keys.module';
+import { WhatsappModule } from '../whatsapp/whatsapp.module';
+import { SmsModule } from '../sms/sms.module';
+import { PhoneModule } from '../phone/phone.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+
+@Module({
+  imports: [ApiKeysModule, WhatsappModule, SmsModule, PhoneModule, IdempotencyModule],
+  providers: [PublicApiService],
+  controllers: [PublicApiController, PublicApiV1Controller],
+})
+export class PublicApiModule {}
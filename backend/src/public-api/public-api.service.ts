@@ -0,0 +1,97 @@
+import { HttpStatus, Injectable } from '@nestjs/common';
+import { WhatsappService, SendOptions } from '../whatsapp/whatsapp.service';
+import { WhatsappSession } from '../whatsapp/whatsapp-session.entity';
+import { MessageLog, MessageSource } from '../whatsapp/message-log.entity';
+import { SmsService, SmsResult } from '../sms/sms.service';
+import { PhoneNumberService } from '../phone/phone-number.service';
+import { ApiKey } from '../api-keys/api-key.entity';
+import { ApiErrorException } from '../common/exceptions/api-error.exception';
+
+// Sends on behalf of an API key; shared by the v1 and legacy public endpoints
+@Injectable()
+export class PublicApiService {
+  constructor(
+    private whatsappService: WhatsappService,
+    private smsService: SmsService,
+    private phoneNumberService: PhoneNumberService,
+  ) {}
+
+  // media is either an uploaded file's path or a URL to download it from
+  async sendWhatsapp(
+    apiKey: ApiKey,
+    to: string,
+    text: string,
+    media?: { path?: string; url?: string },
+  ): Promise<MessageLog> {
+    const session = await this.findActiveSession(apiKey);
+    if (!session) {
+      throw new ApiErrorException(
+        HttpStatus.SERVICE_UNAVAILABLE,
+        'session_unavailable',
+        'No active WhatsApp session found',
+      );
+    }
+
+    const options: SendOptions = {
+      defaultCountry: apiKey.defaultCountry ?? undefined,
+      apiKeyId: apiKey.id,
+      checkSuppression: true,
+      userId: apiKey.userId,
+    };
+    if (media?.url) {
+      return this.whatsappService.sendMessageWithMediaUrl(
+        session.id,
+        apiKey.organizationId,
+        to,
+        text,
+        media.url,
+        MessageSource.API,
+        options,
+      );
+    }
+    return this.whatsappService.sendMessage(
+      session.id,
+      apiKey.organizationId,
+      to,
+      text,
+      media?.path,
+      MessageSource.API,
+      options,
+    );
+  }
+
+  async getMessage(apiKey: ApiKey, id: number): Promise<MessageLog> {
+    const log = await this.whatsappService.getMessageLog(id, apiKey.organizationId);
+    if (!log) {
+      throw new ApiErrorException(HttpStatus.NOT_FOUND, 'message_not_found', 'Message not found');
+    }
+    return log;
+  }
+
+  async sendSms(apiKey: ApiKey, to: string, text: string, senderId?: string): Promise<SmsResult> {
+    const defaultCountry = await this.phoneNumberService.resolveDefaultCountry(
+      apiKey.organizationId,
+      apiKey.defaultCountry,
+    );
+    return this.smsService.sendSms(apiKey.organizationId, to, text, senderId, defaultCountry, apiKey.userId);
+  }
+
+  async sendBulkSms(apiKey: ApiKey, numbers: string[], text: string, senderId?: string) {
+    const defaultCountry = await this.phoneNumberService.resolveDefaultCountry(
+      apiKey.organizationId,
+      apiKey.defaultCountry,
+    );
+    return this.smsService.sendBulkSms(apiKey.organizationId, numbers, text, senderId, defaultCountry, apiKey.userId);
+  }
+
+  // The key's pinned session, or else any connected session of its organization
+  private async findActiveSession(apiKey: ApiKey): Promise<WhatsappSession | undefined> {
+    if (apiKey.sessionId) {
+      const session = await this.whatsappService.getSession(apiKey.sessionId, apiKey.organizationId);
+      return session && this.whatsappService.isSessionActive(session.id) ? session : undefined;
+    }
+
+    const sessions = await this.whatsappService.getSessions(apiKey.organizationId);
+    return sessions.find((s) => this.whatsappService.isSessionActive(s.id));
+  }
+}
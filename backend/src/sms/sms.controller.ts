@@ -2,33 +2,55 @@ import { Controller, Post, Body, UseGuards } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
 import { SmsService, SmsResult } from './sms.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { OrganizationRoleGuard } from '../common/guards/organization-role.guard';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { RequireOrganizationRole } from '../common/decorators/organization-role.decorator';
+import { OrganizationRole } from '../organizations/organization-member.entity';
+import { PhoneNumberService } from '../phone/phone-number.service';
 import { SendSmsDto } from './dto/send-sms.dto';
 import { SendBulkSmsDto } from './dto/send-bulk-sms.dto';
 
 @ApiTags('SMS')
 @Controller('sms')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, OrganizationRoleGuard)
 @ApiBearerAuth()
 export class SmsController {
-  constructor(private smsService: SmsService) {}
+  constructor(
+    private smsService: SmsService,
+    private phoneNumberService: PhoneNumberService,
+  ) {}
 
   @Post('send')
+  @RequireOrganizationRole(OrganizationRole.AGENT)
   @ApiOperation({ summary: 'Send a single SMS' })
-  async sendSms(@Body() sendSmsDto: SendSmsDto): Promise<SmsResult> {
+  async sendSms(
+    @CurrentUser() user: { userId: number; organizationId: number },
+    @Body() sendSmsDto: SendSmsDto,
+  ): Promise<SmsResult> {
     return this.smsService.sendSms(
+      user.organizationId,
       sendSmsDto.number,
       sendSmsDto.msg,
       sendSmsDto.sendername,
+      await this.phoneNumberService.resolveDefaultCountry(user.organizationId),
+      user.userId,
     );
   }
 
   @Post('bulk')
+  @RequireOrganizationRole(OrganizationRole.AGENT)
   @ApiOperation({ summary: 'Send bulk SMS' })
-  async sendBulkSms(@Body() sendBulkSmsDto: SendBulkSmsDto) {
+  async sendBulkSms(
+    @CurrentUser() user: { userId: number; organizationId: number },
+    @Body() sendBulkSmsDto: SendBulkSmsDto,
+  ) {
     return this.smsService.sendBulkSms(
+      user.organizationId,
       sendBulkSmsDto.numbers,
       sendBulkSmsDto.msg,
       sendBulkSmsDto.sendername,
+      await this.phoneNumberService.resolveDefaultCountry(user.organizationId),
+      user.userId,
     );
   }
 }
@@ -1,9 +1,34 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { SmsService } from './sms.service';
 import { SmsController } from './sms.controller';
+import { PhoneModule } from '../phone/phone.module';
+import { SuppressionModule } from '../suppression/suppression.module';
+import { CreditsModule } from '../credits/credits.module';
+import { SMS_TRANSPORT, SmsTransport } from './transports/sms-transport.interface';
+import { TwilioTransport } from './transports/twilio.transport';
+import { FakeSmsTransport } from './transports/fake.transport';
+
+// SMS_PROVIDER=fake swaps Twilio for an in-memory stand-in (tests, local development)
+function createSmsTransport(configService: ConfigService): SmsTransport | null {
+  if (configService.get('SMS_PROVIDER') === 'fake') {
+    return new FakeSmsTransport();
+  }
+
+  const accountSid = configService.get<string>('TWILIO_ACCOUNT_SID');
+  const authToken = configService.get<string>('TWILIO_AUTH_TOKEN');
+  if (accountSid && authToken && !accountSid.startsWith('your-')) {
+    return new TwilioTransport(accountSid, authToken);
+  }
+  return null;
+}
 
 @Module({
-  providers: [SmsService],
+  imports: [PhoneModule, SuppressionModule, CreditsModule],
+  providers: [
+    SmsService,
+    { provide: SMS_TRANSPORT, useFactory: createSmsTransport, inject: [ConfigService] },
+  ],
   controllers: [SmsController],
   exports: [SmsService],
 })
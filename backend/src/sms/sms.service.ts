@@ -1,81 +1,139 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import Twilio from 'twilio';
+import { PhoneNumberService, PhoneNumberType } from '../phone/phone-number.service';
+import { SuppressionService } from '../suppression/suppression.service';
+import { CreditsService } from '../credits/credits.service';
+import { CreditReferenceType } from '../credits/credit-transaction.entity';
+import { SMS_TRANSPORT, SmsTransport } from './transports/sms-transport.interface';
+
+// Why an SMS was not sent, as reported by the public API
+export enum SmsErrorCode {
+  NOT_CONFIGURED = 'sms_not_configured',
+  INVALID_NUMBER = 'invalid_phone_number',
+  LANDLINE = 'landline_number',
+  INSUFFICIENT_CREDITS = 'insufficient_credits',
+  OPTED_OUT = 'recipient_opted_out',
+  SEND_FAILED = 'send_failed',
+}
 
 export interface SmsResult {
   success: boolean;
   messageId?: string;
   error?: string;
+  code?: SmsErrorCode;
+  // Not sent because the number is on the suppression list
+  suppressed?: boolean;
 }
 
 @Injectable()
 export class SmsService {
   private readonly logger = new Logger(SmsService.name);
-  private twilioClient: Twilio.Twilio | null = null;
   private fromNumber: string;
 
-  constructor(private configService: ConfigService) {
-    const accountSid = this.configService.get<string>('TWILIO_ACCOUNT_SID');
-    const authToken = this.configService.get<string>('TWILIO_AUTH_TOKEN');
+  constructor(
+    private configService: ConfigService,
+    private phoneNumberService: PhoneNumberService,
+    private suppressionService: SuppressionService,
+    private creditsService: CreditsService,
+    // Null when no SMS provider is configured
+    @Optional() @Inject(SMS_TRANSPORT) private transport: SmsTransport | null,
+  ) {
     this.fromNumber = this.configService.get<string>('TWILIO_PHONE_NUMBER', '');
 
-    if (accountSid && authToken && !accountSid.startsWith('your-')) {
-      this.twilioClient = Twilio(accountSid, authToken);
-      this.logger.log('Twilio client initialized');
+    if (this.transport) {
+      this.logger.log(`SMS transport initialized (${this.transport.name})`);
     } else {
       this.logger.warn('Twilio credentials not configured. SMS functionality disabled.');
     }
   }
 
   async sendSms(
+    organizationId: number,
     to: string,
     message: string,
     senderId?: string,
+    defaultCountry?: string,
+    userId?: number,
   ): Promise<SmsResult> {
-    if (!this.twilioClient) {
+    if (!this.transport) {
       return {
         success: false,
         error: 'SMS service not configured',
+        code: SmsErrorCode.NOT_CONFIGURED,
       };
     }
 
+    const normalized = this.phoneNumberService.normalize(to, defaultCountry);
+    if (!normalized) {
+      return { success: false, error: `Invalid phone number: ${to}`, code: SmsErrorCode.INVALID_NUMBER };
+    }
+    if (normalized.type === PhoneNumberType.FIXED_LINE) {
+      return { success: false, error: `Landline numbers cannot receive SMS: ${to}`, code: SmsErrorCode.LANDLINE };
+    }
+    // Checked before charging, so opted-out numbers cost nothing
+    if (await this.suppressionService.isSuppressed(organizationId, normalized.e164)) {
+      return {
+        success: false,
+        suppressed: true,
+        error: `Recipient has opted out: ${to}`,
+        code: SmsErrorCode.OPTED_OUT,
+      };
+    }
+
+    // Charged per segment up front, refunded if Twilio rejects the message
+    const price = this.creditsService.smsPrice(message);
+    const reference = { type: CreditReferenceType.SMS, id: normalized.e164, userId };
     try {
-      const formattedNumber = this.formatPhoneNumber(to);
+      await this.creditsService.debit(organizationId, price, `SMS to ${normalized.e164}`, reference);
+    } catch (error: any) {
+      return { success: false, error: error.message, code: SmsErrorCode.INSUFFICIENT_CREDITS };
+    }
 
-      const result = await this.twilioClient.messages.create({
+    try {
+      const messageId = await this.transport.send({
         body: message,
         from: senderId || this.fromNumber,
-        to: formattedNumber,
+        to: normalized.e164,
       });
 
-      this.logger.log(`SMS sent to ${to}: ${result.sid}`);
+      this.logger.log(`SMS sent to ${to}: ${messageId}`);
 
       return {
         success: true,
-        messageId: result.sid,
+        messageId,
       };
     } catch (error: any) {
       this.logger.error(`Failed to send SMS to ${to}: ${error.message}`);
+      await this.creditsService.refund(organizationId, price, `Refund for failed SMS to ${normalized.e164}`, reference);
       return {
         success: false,
         error: error.message,
+        code: SmsErrorCode.SEND_FAILED,
       };
     }
   }
 
   async sendBulkSms(
+    organizationId: number,
     recipients: string[],
     message: string,
     senderId?: string,
-  ): Promise<{ results: SmsResult[]; successCount: number; failedCount: number }> {
+    defaultCountry?: string,
+    userId?: number,
+  ): Promise<{ results: SmsResult[]; successCount: number; failedCount: number; suppressedCount: number }> {
     const results: SmsResult[] = [];
     let successCount = 0;
     let failedCount = 0;
+    let suppressedCount = 0;
 
     for (const recipient of recipients) {
-      const result = await this.sendSms(recipient, message, senderId);
+      const result = await this.sendSms(organizationId, recipient, message, senderId, defaultCountry, userId);
       results.push(result);
 
+      if (result.suppressed) {
+        suppressedCount++;
+        continue;
+      }
       if (result.success) {
         successCount++;
       } else {
@@ -85,21 +143,7 @@ export class SmsService {
       await this.sleep(1000);
     }
 
-    return { results, successCount, failedCount };
-  }
-
-  private formatPhoneNumber(phone: string): string {
-    let cleaned = phone.replace(/\D/g, '');
-    if (!cleaned.startsWith('+')) {
-      if (cleaned.length === 10) {
-        cleaned = '+91' + cleaned;
-      } else if (!cleaned.startsWith('91') && cleaned.length === 10) {
-        cleaned = '+91' + cleaned;
-      } else {
-        cleaned = '+' + cleaned;
-      }
-    }
-    return cleaned;
+    return { results, successCount, failedCount, suppressedCount };
   }
 
   private sleep(ms: number): Promise<void> {
@@ -0,0 +1,32 @@
+import { OutboundSms, SmsTransport } from './sms-transport.interface';
+
+export interface FakeSentSms extends OutboundSms {
+  sid: string;
+  sentAt: Date;
+}
+
+// Local stand-in for Twilio: records messages instead of sending them
+export class FakeSmsTransport implements SmsTransport {
+  readonly name = 'fake';
+  readonly sent: FakeSentSms[] = [];
+  private nextId = 1;
+  private sendError: Error | null = null;
+
+  async send(message: OutboundSms): Promise<string> {
+    if (this.sendError) {
+      const error = this.sendError;
+      this.sendError = null;
+      throw error;
+    }
+
+    // Twilio message SIDs are SM + 32 hex characters
+    const sid = `SM${String(this.nextId++).padStart(32, '0')}`;
+    this.sent.push({ ...message, sid, sentAt: new Date() });
+    return sid;
+  }
+
+  // Make the next send throw, like Twilio rejecting the message
+  failNextSend(error: Error = new Error('Fake SMS failure')): void {
+    this.sendError = error;
+  }
+}
@@ -0,0 +1,15 @@
+// Injection token for the transport SmsService sends through
+export const SMS_TRANSPORT = 'SMS_TRANSPORT';
+
+export interface OutboundSms {
+  from: string;
+  // E.164
+  to: string;
+  body: string;
+}
+
+export interface SmsTransport {
+  readonly name: string;
+  // Returns the provider's message id
+  send(message: OutboundSms): Promise<string>;
+}
@@ -0,0 +1,16 @@
+import Twilio from 'twilio';
+import { OutboundSms, SmsTransport } from './sms-transport.interface';
+
+export class TwilioTransport implements SmsTransport {
+  readonly name = 'twilio';
+  private client: Twilio.Twilio;
+
+  constructor(accountSid: string, authToken: string) {
+    this.client = Twilio(accountSid, authToken);
+  }
+
+  async send(message: OutboundSms): Promise<string> {
+    const result = await this.client.messages.create(message);
+    return result.sid;
+  }
+}
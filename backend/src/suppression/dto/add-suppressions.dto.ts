@@ -0,0 +1,16 @@
+import { IsString, IsArray, IsOptional, ArrayNotEmpty, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class AddSuppressionsDto {
+  @ApiProperty({ example: ['+919876543210', '9876543211'] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  phoneNumbers: string[];
+
+  @ApiPropertyOptional({ example: 'Asked not to be contacted by phone' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  note?: string;
+}
@@ -0,0 +1,117 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  ParseIntPipe,
+  BadRequestException,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { memoryStorage } from 'multer';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiConsumes, ApiBody } from '@nestjs/swagger';
+import { SuppressionService } from './suppression.service';
+import { SuppressionReason } from './suppression.entity';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { OrganizationRoleGuard } from '../common/guards/organization-role.guard';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { RequireOrganizationRole } from '../common/decorators/organization-role.decorator';
+import { OrganizationRole } from '../organizations/organization-member.entity';
+import { AddSuppressionsDto } from './dto/add-suppressions.dto';
+
+@ApiTags('Suppression List')
+@Controller('suppressions')
+@UseGuards(JwtAuthGuard, OrganizationRoleGuard)
+@ApiBearerAuth()
+export class SuppressionController {
+  constructor(private suppressionService: SuppressionService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get suppressed numbers' })
+  async findAll(
+    @CurrentUser() user: { organizationId: number },
+    @Query('limit') limit?: number,
+    @Query('offset') offset?: number,
+    @Query('search') search?: string,
+  ) {
+    return this.suppressionService.findAll(user.organizationId, Number(limit) || 100, Number(offset) || 0, search);
+  }
+
+  @Post()
+  @RequireOrganizationRole(OrganizationRole.MANAGER)
+  @ApiOperation({ summary: 'Add numbers to the suppression list' })
+  async add(
+    @CurrentUser() user: { userId: number; organizationId: number },
+    @Body() addSuppressionsDto: AddSuppressionsDto,
+  ) {
+    return this.suppressionService.add(
+      user.organizationId,
+      user.userId,
+      addSuppressionsDto.phoneNumbers,
+      SuppressionReason.MANUAL,
+      addSuppressionsDto.note,
+    );
+  }
+
+  @Post('import')
+  @RequireOrganizationRole(OrganizationRole.MANAGER)
+  @ApiOperation({ summary: 'Import suppressed numbers from CSV/XLSX' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: { type: 'string', format: 'binary' },
+        phoneColumn: { type: 'string', description: 'Header of the phone column (defaults to the first column)' },
+      },
+    },
+  })
+  @UseInterceptors(
+    FileInterceptor('file', {
+      storage: memoryStorage(),
+      limits: {
+        fileSize: 10 * 1024 * 1024, // 10MB max
+      },
+      fileFilter: (req, file, cb) => {
+        const allowedMimes = [
+          'text/csv',
+          'application/csv',
+          'text/plain',
+          'application/vnd.ms-excel',
+          'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        ];
+        if (allowedMimes.includes(file.mimetype)) {
+          cb(null, true);
+        } else {
+          cb(new BadRequestException('Invalid file type. Allowed: CSV, Excel'), false);
+        }
+      },
+    }),
+  )
+  async import(
+    @CurrentUser() user: { userId: number; organizationId: number },
+    @UploadedFile() file: Express.Multer.File,
+    @Body('phoneColumn') phoneColumn?: string,
+  ) {
+    if (!file) {
+      throw new BadRequestException('File is required');
+    }
+    return this.suppressionService.importFile(user.organizationId, user.userId, file, phoneColumn);
+  }
+
+  @Delete(':id')
+  @RequireOrganizationRole(OrganizationRole.MANAGER)
+  @ApiOperation({ summary: 'Remove a number from the suppression list' })
+  async remove(
+    @CurrentUser() user: { organizationId: number },
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    await this.suppressionService.remove(id, user.organizationId);
+    return { success: true };
+  }
+}
@@ -0,0 +1,58 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Organization } from '../organizations/organization.entity';
+import { User } from '../users/user.entity';
+
+export enum SuppressionReason {
+  // The contact replied with an opt-out keyword
+  OPT_OUT = 'opt_out',
+  MANUAL = 'manual',
+  IMPORT = 'import',
+}
+
+// Numbers an organization must not message, across all channels
+@Entity('suppressions')
+@Index(['organizationId', 'phoneNumber'], { unique: true })
+export class Suppression {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  // Member who added the number; empty for opt-outs
+  @Column({ nullable: true })
+  userId: number;
+
+  @Column({ nullable: true })
+  organizationId: number;
+
+  // E.164
+  @Column()
+  phoneNumber: string;
+
+  @Column({
+    type: 'enum',
+    enum: SuppressionReason,
+    default: SuppressionReason.MANUAL,
+  })
+  reason: SuppressionReason;
+
+  @Column({ nullable: true })
+  note: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organizationId' })
+  organization: Organization;
+}
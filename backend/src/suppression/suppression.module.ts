@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { SuppressionService } from './suppression.service';
+import { SuppressionController } from './suppression.controller';
+import { Suppression } from './suppression.entity';
+import { PhoneModule } from '../phone/phone.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Suppression]), PhoneModule],
+  providers: [SuppressionService],
+  controllers: [SuppressionController],
+  exports: [SuppressionService],
+})
+export class SuppressionModule {}
@@ -0,0 +1,171 @@
+import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { In, Like, Repository } from 'typeorm';
+import * as XLSX from 'xlsx';
+import { Suppression, SuppressionReason } from './suppression.entity';
+import { PhoneNumberService } from '../phone/phone-number.service';
+
+export interface AddSuppressionsResult {
+  added: number;
+  alreadySuppressed: number;
+  invalid: string[];
+}
+
+@Injectable()
+export class SuppressionService {
+  private readonly logger = new Logger(SuppressionService.name);
+  private readonly optOutKeywords: Set<string>;
+
+  constructor(
+    @InjectRepository(Suppression)
+    private suppressionRepository: Repository<Suppression>,
+    private phoneNumberService: PhoneNumberService,
+    private configService: ConfigService,
+  ) {
+    const keywords = this.configService.get<string>('OPT_OUT_KEYWORDS', 'STOP,STOPALL,UNSUBSCRIBE');
+    this.optOutKeywords = new Set(
+      keywords
+        .split(',')
+        .map((k) => k.trim().toUpperCase())
+        .filter(Boolean),
+    );
+  }
+
+  // The whole message has to be the keyword, so "don't stop" doesn't opt anyone out
+  isOptOutMessage(body: string): boolean {
+    const text = body
+      .trim()
+      .toUpperCase()
+      .replace(/[\s.!]+$/, '');
+    return this.optOutKeywords.has(text);
+  }
+
+  async isSuppressed(organizationId: number, phoneNumber: string): Promise<boolean> {
+    const count = await this.suppressionRepository.count({ where: { organizationId, phoneNumber } });
+    return count > 0;
+  }
+
+  // The subset of E.164 numbers that are suppressed
+  async findSuppressed(organizationId: number, phoneNumbers: string[]): Promise<Set<string>> {
+    if (phoneNumbers.length === 0) return new Set();
+
+    const suppressed = new Set<string>();
+    // Keep IN (...) lists to a reasonable size
+    for (let i = 0; i < phoneNumbers.length; i += 1000) {
+      const rows = await this.suppressionRepository.find({
+        select: ['phoneNumber'],
+        where: { organizationId, phoneNumber: In(phoneNumbers.slice(i, i + 1000)) },
+      });
+      rows.forEach((row) => suppressed.add(row.phoneNumber));
+    }
+    return suppressed;
+  }
+
+  async recordOptOut(organizationId: number, phoneNumber: string, note?: string): Promise<void> {
+    if (await this.isSuppressed(organizationId, phoneNumber)) return;
+
+    await this.suppressionRepository.save(
+      this.suppressionRepository.create({ organizationId, phoneNumber, reason: SuppressionReason.OPT_OUT, note }),
+    );
+    this.logger.log(`Organization ${organizationId}: ${phoneNumber} opted out`);
+  }
+
+  async add(
+    organizationId: number,
+    userId: number,
+    phoneNumbers: string[],
+    reason: SuppressionReason = SuppressionReason.MANUAL,
+    note?: string,
+  ): Promise<AddSuppressionsResult> {
+    const country = await this.phoneNumberService.resolveDefaultCountry(organizationId);
+    const numbers = new Set<string>();
+    const invalid: string[] = [];
+
+    for (const raw of phoneNumbers) {
+      const phoneNumber = raw.trim();
+      if (!phoneNumber) continue;
+
+      const normalized = this.phoneNumberService.normalize(phoneNumber, country);
+      if (normalized) {
+        numbers.add(normalized.e164);
+      } else {
+        invalid.push(phoneNumber);
+      }
+    }
+
+    const existing = await this.findSuppressed(organizationId, [...numbers]);
+    const entities = [...numbers]
+      .filter((phoneNumber) => !existing.has(phoneNumber))
+      .map((phoneNumber) => this.suppressionRepository.create({ organizationId, userId, phoneNumber, reason, note }));
+    await this.suppressionRepository.save(entities, { chunk: 500 });
+
+    return { added: entities.length, alreadySuppressed: existing.size, invalid };
+  }
+
+  // First sheet of a CSV/XLSX file; numbers come from `phoneColumn`, or the first column
+  async importFile(
+    organizationId: number,
+    userId: number,
+    file: Express.Multer.File,
+    phoneColumn?: string,
+  ): Promise<AddSuppressionsResult> {
+    let rows: unknown[][];
+    try {
+      const workbook = XLSX.read(file.buffer, { type: 'buffer', raw: true });
+      const sheet = workbook.Sheets[workbook.SheetNames[0]];
+      rows = sheet ? XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: '' }) : [];
+    } catch (error: any) {
+      throw new BadRequestException(`Could not read file: ${error.message}`);
+    }
+    if (rows.length === 0) {
+      throw new BadRequestException('File is empty');
+    }
+
+    let columnIndex = 0;
+    let dataRows = rows;
+    if (phoneColumn) {
+      columnIndex = rows[0].map((c) => String(c).trim()).indexOf(phoneColumn);
+      if (columnIndex === -1) {
+        throw new BadRequestException(`Column not found in file: ${phoneColumn}`);
+      }
+      dataRows = rows.slice(1);
+    }
+
+    const phoneNumbers = dataRows
+      .map((row) => row[columnIndex])
+      // Excel stores phone numbers as numbers; avoid exponent notation
+      .map((value) => (typeof value === 'number' && Number.isInteger(value) ? value.toFixed(0) : String(value ?? '')))
+      .filter((value) => value.trim());
+
+    const result = await this.add(organizationId, userId, phoneNumbers, SuppressionReason.IMPORT);
+    // Without a column name the first row may be a header rather than a number
+    if (!phoneColumn && result.invalid[0] === String(rows[0][0]).trim()) {
+      result.invalid.shift();
+    }
+    return result;
+  }
+
+  async findAll(
+    organizationId: number,
+    limit = 100,
+    offset = 0,
+    search?: string,
+  ): Promise<{ suppressions: Suppression[]; total: number }> {
+    const [suppressions, total] = await this.suppressionRepository.findAndCount({
+      where: { organizationId, ...(search && { phoneNumber: Like(`%${search.replace(/[%_]/g, '')}%`) }) },
+      order: { createdAt: 'DESC' },
+      take: limit,
+      skip: offset,
+    });
+    return { suppressions, total };
+  }
+
+  async remove(id: number, organizationId: number): Promise<void> {
+    const suppression = await this.suppressionRepository.findOne({ where: { id, organizationId } });
+    if (!suppression) {
+      throw new NotFoundException('Suppression not found');
+    }
+    await this.suppressionRepository.delete(id);
+  }
+}
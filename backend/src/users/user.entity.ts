@@ -10,6 +10,11 @@ import { WhatsappSession } from '../whatsapp/whatsapp-session.entity';
 import { ApiKey } from '../api-keys/api-key.entity';
 import { Campaign } from '../campaigns/campaign.entity';
 
+export enum UserRole {
+  ADMIN = 'admin',
+  USER = 'user',
+}
+
 @Entity('users')
 export class User {
   @PrimaryGeneratedColumn()
@@ -24,9 +29,25 @@ export class User {
   @Column()
   name: string;
 
-  @Column({ default: 100 })
+  // Balance from before organizations; moved to the user's personal organization on upgrade
+  @Column({ default: 0 })
   credits: number;
 
+  @Column({
+    type: 'enum',
+    enum: UserRole,
+    default: UserRole.USER,
+  })
+  role: UserRole;
+
+  // Suspended accounts can't log in or use their API keys
+  @Column({ default: true })
+  isActive: boolean;
+
+  // ISO country used for numbers entered without a country code
+  @Column({ nullable: true })
+  defaultCountry: string;
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -0,0 +1,24 @@
+import { IsUrl, IsArray, IsEnum, IsOptional, IsNumber, ArrayMinSize } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { WebhookEvent } from '../webhook-endpoint.entity';
+
+export class CreateWebhookDto {
+  @ApiProperty({ example: 'https://example.com/hooks/jantu' })
+  @IsUrl({ require_tld: false, protocols: ['http', 'https'] })
+  url: string;
+
+  @ApiProperty({
+    enum: WebhookEvent,
+    isArray: true,
+    example: [WebhookEvent.MESSAGE_DELIVERED, WebhookEvent.MESSAGE_FAILED],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsEnum(WebhookEvent, { each: true })
+  events: WebhookEvent[];
+
+  @ApiPropertyOptional({ example: 1, description: 'Limit message events to sends made with this API key' })
+  @IsOptional()
+  @IsNumber()
+  apiKeyId?: number;
+}
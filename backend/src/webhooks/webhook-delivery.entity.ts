@@ -0,0 +1,72 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { WebhookEndpoint, WebhookEvent } from './webhook-endpoint.entity';
+
+export enum DeliveryStatus {
+  PENDING = 'pending',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+}
+
+@Entity('webhook_deliveries')
+@Index(['status', 'nextAttemptAt'])
+export class WebhookDelivery {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  endpointId: number;
+
+  @Column({
+    type: 'enum',
+    enum: WebhookEvent,
+  })
+  event: WebhookEvent;
+
+  @Column({ type: 'text' })
+  payload: string;
+
+  @Column({
+    type: 'enum',
+    enum: DeliveryStatus,
+    default: DeliveryStatus.PENDING,
+  })
+  status: DeliveryStatus;
+
+  @Column({ default: 0 })
+  attempts: number;
+
+  // Explicit types: TypeORM can't infer them from the nullable unions
+  @Column({ type: Date, nullable: true })
+  nextAttemptAt: Date | null;
+
+  @Column({ type: 'int', nullable: true })
+  responseStatus: number | null;
+
+  @Column({ type: 'text', nullable: true })
+  responseBody: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  lastError: string | null;
+
+  // When a worker claimed the delivery; null while it isn't being sent
+  @Column({ type: Date, nullable: true })
+  lockedAt: Date | null;
+
+  @Column({ nullable: true })
+  deliveredAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @ManyToOne(() => WebhookEndpoint, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'endpointId' })
+  endpoint: WebhookEndpoint;
+}
@@ -0,0 +1,72 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Organization } from '../organizations/organization.entity';
+import { User } from '../users/user.entity';
+import { ApiKey } from '../api-keys/api-key.entity';
+
+export enum WebhookEvent {
+  MESSAGE_SENT = 'message.sent',
+  MESSAGE_DELIVERED = 'message.delivered',
+  MESSAGE_READ = 'message.read',
+  MESSAGE_FAILED = 'message.failed',
+  SESSION_CONNECTED = 'session.connected',
+  SESSION_DISCONNECTED = 'session.disconnected',
+  SESSION_QR_REQUIRED = 'session.qr_required',
+  CAMPAIGN_COMPLETED = 'campaign.completed',
+}
+
+@Entity('webhook_endpoints')
+export class WebhookEndpoint {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  userId: number;
+
+  @Index()
+  @Column({ nullable: true })
+  organizationId: number;
+
+  // When set, only message events for sends made with this API key are delivered
+  @Column({ nullable: true })
+  apiKeyId: number;
+
+  @Column()
+  url: string;
+
+  // HMAC-SHA256 signing secret
+  @Column()
+  secret: string;
+
+  @Column({ type: 'simple-array' })
+  events: WebhookEvent[];
+
+  @Column({ default: true })
+  isActive: boolean;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @ManyToOne(() => ApiKey, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'apiKeyId' })
+  apiKey: ApiKey;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organizationId' })
+  organization: Organization;
+}
@@ -0,0 +1,49 @@
+import { assertPublicUrl, isPrivateAddress } from './webhook-url';
+
+describe('webhook URLs', () => {
+  describe('isPrivateAddress', () => {
+    it.each([
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.16.0.1',
+      '172.31.255.255',
+      '192.168.1.1',
+      '169.254.169.254',
+      '100.64.0.1',
+      '0.0.0.0',
+      '255.255.255.255',
+      '::1',
+      '::',
+      'fe80::1',
+      'fd00::1',
+      '::ffff:127.0.0.1',
+      '::ffff:10.0.0.1',
+      'not-an-ip',
+    ])('refuses %s', (address) => {
+      expect(isPrivateAddress(address)).toBe(true);
+    });
+
+    it.each(['93.184.216.34', '172.32.0.1', '8.8.8.8', '2606:4700:4700::1111', '::ffff:8.8.8.8'])(
+      'allows %s',
+      (address) => {
+        expect(isPrivateAddress(address)).toBe(false);
+      },
+    );
+  });
+
+  describe('assertPublicUrl', () => {
+    it('refuses private hosts, including names that resolve to them', async () => {
+      await expect(assertPublicUrl('http://169.254.169.254/latest/meta-data')).rejects.toThrow('private address');
+      await expect(assertPublicUrl('http://[::1]:8080/hook')).rejects.toThrow('private address');
+      await expect(assertPublicUrl('http://localhost:3000/hook')).rejects.toThrow('private address');
+    });
+
+    it('allows public addresses', async () => {
+      await expect(assertPublicUrl('https://93.184.216.34/hook')).resolves.toBeUndefined();
+    });
+
+    it('refuses URLs it cannot parse', async () => {
+      await expect(assertPublicUrl('not a url')).rejects.toThrow('Invalid webhook URL');
+    });
+  });
+});
@@ -0,0 +1,63 @@
+// Keeps webhooks from reaching the server's own network: loopback, private and link-local
+// addresses (including cloud metadata at 169.254.169.254) are refused
+
+import { BlockList, isIP } from 'net';
+import { lookup } from 'dns/promises';
+
+const BLOCKED = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved and broadcast
+] as const) {
+  BLOCKED.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96], // NAT64, maps onto IPv4
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED.addSubnet(network, prefix, 'ipv6');
+}
+
+export function isPrivateAddress(address: string): boolean {
+  // IPv4 written as IPv6 (::ffff:a.b.c.d) is checked as IPv4
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  const ip = mapped ? mapped[1] : address;
+  const family = isIP(ip);
+  if (!family) return true;
+  return BLOCKED.check(ip, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+// Resolves the URL's host and throws if any of its addresses is private
+export async function assertPublicUrl(url: string): Promise<void> {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+  } catch {
+    throw new Error('Invalid webhook URL');
+  }
+
+  let addresses: { address: string }[];
+  try {
+    addresses = await lookup(hostname, { all: true, verbatim: true });
+  } catch {
+    throw new Error(`Could not resolve ${hostname}`);
+  }
+
+  const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+  if (blocked) {
+    throw new Error(`${hostname} resolves to a private address (${blocked.address})`);
+  }
+}
@@ -0,0 +1,81 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseIntPipe,
+  DefaultValuePipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { WebhooksService } from './webhooks.service';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { OrganizationRoleGuard } from '../common/guards/organization-role.guard';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { RequireOrganizationRole } from '../common/decorators/organization-role.decorator';
+import { OrganizationRole } from '../organizations/organization-member.entity';
+import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { DeliveryStatus } from './webhook-delivery.entity';
+
+@ApiTags('Webhooks')
+@Controller('webhooks')
+@UseGuards(JwtAuthGuard, OrganizationRoleGuard)
+@ApiBearerAuth()
+export class WebhooksController {
+  constructor(private webhooksService: WebhooksService) {}
+
+  @Post()
+  @RequireOrganizationRole(OrganizationRole.MANAGER)
+  @ApiOperation({ summary: 'Register a webhook endpoint (the signing secret is only shown once)' })
+  async create(
+    @CurrentUser() user: { userId: number; organizationId: number },
+    @Body() createWebhookDto: CreateWebhookDto,
+  ) {
+    return this.webhooksService.create(user.organizationId, user.userId, createWebhookDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get all webhook endpoints' })
+  async findAll(@CurrentUser() user: { organizationId: number }) {
+    const endpoints = await this.webhooksService.findAll(user.organizationId);
+    return endpoints.map((e) => ({
+      ...e,
+      secret: e.secret.substring(0, 10) + '...' + e.secret.substring(e.secret.length - 4),
+    }));
+  }
+
+  @Delete(':id')
+  @RequireOrganizationRole(OrganizationRole.MANAGER)
+  @ApiOperation({ summary: 'Delete a webhook endpoint' })
+  async delete(
+    @CurrentUser() user: { organizationId: number },
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    await this.webhooksService.delete(id, user.organizationId);
+    return { success: true };
+  }
+
+  @Get(':id/deliveries')
+  @ApiOperation({ summary: 'Get the delivery log for a webhook endpoint' })
+  async getDeliveries(
+    @CurrentUser() user: { organizationId: number },
+    @Param('id', ParseIntPipe) id: number,
+    @Query('limit', new DefaultValuePipe(50), ParseIntPipe) limit: number,
+  ) {
+    return this.webhooksService.getDeliveries(id, user.organizationId, Math.min(Math.max(limit, 1), 100));
+  }
+
+  @Post('deliveries/:id/redeliver')
+  @RequireOrganizationRole(OrganizationRole.MANAGER)
+  @ApiOperation({ summary: 'Send a webhook delivery again' })
+  async redeliver(
+    @CurrentUser() user: { organizationId: number },
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    const delivery = await this.webhooksService.redeliver(id, user.organizationId);
+    return { success: delivery.status === DeliveryStatus.SUCCEEDED, delivery };
+  }
+}
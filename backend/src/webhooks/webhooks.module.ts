@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { WebhooksService } from './webhooks.service';
+import { WebhooksController } from './webhooks.controller';
+import { WebhookEndpoint } from './webhook-endpoint.entity';
+import { WebhookDelivery } from './webhook-delivery.entity';
+import { ApiKey } from '../api-keys/api-key.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([WebhookEndpoint, WebhookDelivery, ApiKey])],
+  providers: [WebhooksService],
+  controllers: [WebhooksController],
+  exports: [WebhooksService],
+})
+export class WebhooksModule {}
@@ -0,0 +1,105 @@
+import { ConfigService } from '@nestjs/config';
+import { ConflictException } from '@nestjs/common';
+import { Repository } from 'typeorm';
+import { createHmac } from 'crypto';
+import { WebhooksService } from './webhooks.service';
+import { WebhookEndpoint, WebhookEvent } from './webhook-endpoint.entity';
+import { WebhookDelivery, DeliveryStatus } from './webhook-delivery.entity';
+import { ApiKey } from '../api-keys/api-key.entity';
+
+const NOW = new Date('2024-01-01T12:00:00Z').getTime();
+const SECRET = 'whsec_test';
+
+describe('WebhooksService', () => {
+  let deliveries: { findOne: jest.Mock; update: jest.Mock };
+  let fetchMock: jest.SpyInstance;
+  let service: WebhooksService;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+    deliveries = {
+      findOne: jest.fn(),
+      update: jest.fn(async () => ({ affected: 1 })),
+    };
+    fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(new Response('ok', { status: 200 }));
+    service = new WebhooksService(
+      {} as Repository<WebhookEndpoint>,
+      deliveries as unknown as Repository<WebhookDelivery>,
+      {} as Repository<ApiKey>,
+      new ConfigService({ WEBHOOK_MAX_ATTEMPTS: '3', WEBHOOK_ALLOW_PRIVATE_URLS: 'true' }),
+    );
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+    jest.useRealTimers();
+  });
+
+  const delivery = (overrides: Partial<WebhookDelivery> = {}) => {
+    const payload = JSON.stringify({ id: 7, event: WebhookEvent.MESSAGE_SENT, data: {} });
+    deliveries.findOne.mockResolvedValueOnce({
+      id: 7,
+      endpointId: 1,
+      event: WebhookEvent.MESSAGE_SENT,
+      payload,
+      status: DeliveryStatus.FAILED,
+      attempts: 0,
+      endpoint: { id: 1, organizationId: 1, url: 'https://example.com/hook', secret: SECRET },
+      ...overrides,
+    });
+    return payload;
+  };
+
+  // The last update is the attempt's outcome
+  const outcome = () => deliveries.update.mock.calls[deliveries.update.mock.calls.length - 1][1];
+
+  it('signs the timestamp and body with the endpoint secret', async () => {
+    const payload = delivery();
+
+    const result = await service.redeliver(7, 1);
+
+    expect(result.status).toBe(DeliveryStatus.SUCCEEDED);
+    const [url, init] = fetchMock.mock.calls[0];
+    const timestamp = String(NOW / 1000);
+    expect(url).toBe('https://example.com/hook');
+    expect(init.body).toBe(payload);
+    expect(init.headers).toMatchObject({
+      'X-Webhook-Id': '7',
+      'X-Webhook-Event': WebhookEvent.MESSAGE_SENT,
+      'X-Webhook-Timestamp': timestamp,
+      'X-Webhook-Signature': `sha256=${createHmac('sha256', SECRET).update(`${timestamp}.${payload}`).digest('hex')}`,
+    });
+    expect(outcome()).toMatchObject({ status: DeliveryStatus.SUCCEEDED, attempts: 1, lockedAt: null });
+  });
+
+  it('schedules retries with exponential backoff', async () => {
+    fetchMock.mockResolvedValue(new Response('unavailable', { status: 503 }));
+
+    delivery({ attempts: 0 });
+    await service.redeliver(7, 1);
+    expect(outcome()).toMatchObject({ attempts: 1, lastError: 'HTTP 503', nextAttemptAt: new Date(NOW + 30000) });
+
+    delivery({ attempts: 1 });
+    await service.redeliver(7, 1);
+    expect(outcome()).toMatchObject({ attempts: 2, nextAttemptAt: new Date(NOW + 60000) });
+    expect(outcome().status).toBeUndefined();
+  });
+
+  it('gives up after the last attempt', async () => {
+    fetchMock.mockRejectedValue(new Error('connect ECONNREFUSED'));
+    delivery({ attempts: 2 });
+
+    const result = await service.redeliver(7, 1);
+
+    expect(result).toMatchObject({ status: DeliveryStatus.FAILED, attempts: 3, lastError: 'connect ECONNREFUSED' });
+    expect(outcome().nextAttemptAt).toBeUndefined();
+  });
+
+  it('refuses to redeliver while the delivery is being sent', async () => {
+    delivery();
+    deliveries.update.mockResolvedValueOnce({ affected: 0 });
+
+    await expect(service.redeliver(7, 1)).rejects.toThrow(ConflictException);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,278 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { FindOptionsWhere, IsNull, LessThan, LessThanOrEqual, Repository } from 'typeorm';
+import { createHmac, randomBytes } from 'crypto';
+import { WebhookEndpoint, WebhookEvent } from './webhook-endpoint.entity';
+import { WebhookDelivery, DeliveryStatus } from './webhook-delivery.entity';
+import { ApiKey } from '../api-keys/api-key.entity';
+import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { assertPublicUrl } from './webhook-url';
+
+@Injectable()
+export class WebhooksService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WebhooksService.name);
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  private readonly POLL_INTERVAL: number;
+  private readonly MAX_ATTEMPTS: number;
+  private readonly ALLOW_PRIVATE_URLS: boolean;
+  private readonly BASE_RETRY_DELAY = 30000; // 30 seconds, doubled per attempt
+  private readonly REQUEST_TIMEOUT = 10000;
+  private readonly BATCH_SIZE = 20;
+  private readonly STALE_LOCK_AFTER = 5 * 60 * 1000; // well past REQUEST_TIMEOUT
+
+  constructor(
+    @InjectRepository(WebhookEndpoint)
+    private endpointRepository: Repository<WebhookEndpoint>,
+    @InjectRepository(WebhookDelivery)
+    private deliveryRepository: Repository<WebhookDelivery>,
+    @InjectRepository(ApiKey)
+    private apiKeyRepository: Repository<ApiKey>,
+    private configService: ConfigService,
+  ) {
+    this.POLL_INTERVAL = Number(this.configService.get('WEBHOOK_POLL_INTERVAL', 5000));
+    this.MAX_ATTEMPTS = Number(this.configService.get('WEBHOOK_MAX_ATTEMPTS', 6));
+    this.ALLOW_PRIVATE_URLS = this.configService.get('WEBHOOK_ALLOW_PRIVATE_URLS', 'false') === 'true';
+  }
+
+  onModuleInit() {
+    this.timer = setInterval(() => this.poll(), this.POLL_INTERVAL);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // The secret is only returned here; listings hide it
+  async create(organizationId: number, userId: number, dto: CreateWebhookDto): Promise<WebhookEndpoint> {
+    if (dto.apiKeyId) {
+      const apiKey = await this.apiKeyRepository.findOne({ where: { id: dto.apiKeyId, organizationId } });
+      if (!apiKey) {
+        throw new BadRequestException('API key not found');
+      }
+    }
+    try {
+      await this.checkUrl(dto.url);
+    } catch (error: any) {
+      throw new BadRequestException(error.message);
+    }
+
+    const endpoint = this.endpointRepository.create({
+      organizationId,
+      userId,
+      url: dto.url,
+      events: [...new Set(dto.events)],
+      apiKeyId: dto.apiKeyId,
+      secret: 'whsec_' + randomBytes(24).toString('hex'),
+    });
+    return this.endpointRepository.save(endpoint);
+  }
+
+  async findAll(organizationId: number): Promise<WebhookEndpoint[]> {
+    return this.endpointRepository.find({
+      where: { organizationId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async findOne(id: number, organizationId: number): Promise<WebhookEndpoint> {
+    const endpoint = await this.endpointRepository.findOne({ where: { id, organizationId } });
+    if (!endpoint) {
+      throw new NotFoundException('Webhook not found');
+    }
+    return endpoint;
+  }
+
+  async delete(id: number, organizationId: number): Promise<void> {
+    await this.findOne(id, organizationId);
+    await this.endpointRepository.delete(id);
+  }
+
+  async getDeliveries(endpointId: number, organizationId: number, limit = 50): Promise<WebhookDelivery[]> {
+    await this.findOne(endpointId, organizationId);
+    return this.deliveryRepository.find({
+      where: { endpointId },
+      order: { createdAt: 'DESC' },
+      take: limit,
+    });
+  }
+
+  async redeliver(deliveryId: number, organizationId: number): Promise<WebhookDelivery> {
+    const delivery = await this.deliveryRepository.findOne({
+      where: { id: deliveryId },
+      relations: ['endpoint'],
+    });
+    if (!delivery || delivery.endpoint.organizationId !== organizationId) {
+      throw new NotFoundException('Delivery not found');
+    }
+
+    if (!(await this.claim({ id: deliveryId }))) {
+      throw new ConflictException('Delivery is already being sent');
+    }
+
+    await this.deliveryRepository.update(deliveryId, {
+      status: DeliveryStatus.PENDING,
+      nextAttemptAt: new Date(),
+    });
+    const { endpoint, ...result } = await this.attempt({ ...delivery, status: DeliveryStatus.PENDING });
+    return result as WebhookDelivery;
+  }
+
+  // Queue an event for every matching endpoint. Never throws into the caller.
+  async dispatch(
+    organizationId: number,
+    event: WebhookEvent,
+    data: Record<string, any>,
+    apiKeyId?: number | null,
+  ): Promise<void> {
+    try {
+      const endpoints = await this.endpointRepository.find({ where: { organizationId, isActive: true } });
+      const targets = endpoints.filter(
+        (e) => e.events.includes(event) && (!e.apiKeyId || e.apiKeyId === apiKeyId),
+      );
+      if (targets.length === 0) return;
+
+      const createdAt = new Date();
+      for (const endpoint of targets) {
+        const delivery = await this.deliveryRepository.save(
+          this.deliveryRepository.create({
+            endpointId: endpoint.id,
+            event,
+            payload: '',
+            status: DeliveryStatus.PENDING,
+            nextAttemptAt: createdAt,
+          }),
+        );
+        // The delivery id doubles as an idempotency key for receivers
+        delivery.payload = JSON.stringify({ id: delivery.id, event, createdAt, data });
+        await this.deliveryRepository.update(delivery.id, { payload: delivery.payload });
+      }
+    } catch (error: any) {
+      this.logger.error(`Failed to queue ${event} webhook for organization ${organizationId}: ${error.message}`);
+    }
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      // Release deliveries whose worker died mid-send
+      await this.deliveryRepository.update(
+        { lockedAt: LessThan(new Date(Date.now() - this.STALE_LOCK_AFTER)) },
+        { lockedAt: null },
+      );
+
+      const now = new Date();
+      const due = await this.deliveryRepository.find({
+        where: { status: DeliveryStatus.PENDING, nextAttemptAt: LessThanOrEqual(now), lockedAt: IsNull() },
+        relations: ['endpoint'],
+        order: { nextAttemptAt: 'ASC' },
+        take: this.BATCH_SIZE,
+      });
+      await Promise.all(
+        due.map(async (delivery) => {
+          // Still due: a redelivery may have sent it since the query
+          const claimed = await this.claim({
+            id: delivery.id,
+            status: DeliveryStatus.PENDING,
+            nextAttemptAt: LessThanOrEqual(now),
+          });
+          if (claimed) await this.attempt(delivery);
+        }),
+      );
+    } catch (error: any) {
+      this.logger.error(`Webhook poll failed: ${error.message}`);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  // Conditional update so a delivery is only ever sent by one worker at a time
+  private async claim(where: FindOptionsWhere<WebhookDelivery>): Promise<boolean> {
+    const result = await this.deliveryRepository.update({ ...where, lockedAt: IsNull() }, { lockedAt: new Date() });
+    return result.affected === 1;
+  }
+
+  private async attempt(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    const endpoint = delivery.endpoint;
+    const attempts = delivery.attempts + 1;
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+
+    try {
+      // Checked again on every attempt, since DNS can change after the endpoint was created
+      await this.checkUrl(endpoint.url);
+      const response = await fetch(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Jantu-Webhooks/1.0',
+          'X-Webhook-Id': String(delivery.id),
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Timestamp': timestamp,
+          'X-Webhook-Signature': `sha256=${this.sign(endpoint.secret, timestamp, delivery.payload)}`,
+        },
+        body: delivery.payload,
+        // A redirect could point anywhere, including private addresses
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.REQUEST_TIMEOUT),
+      });
+      responseStatus = response.status;
+      responseBody = (await response.text()).slice(0, 2000);
+      if (!response.ok) {
+        error = `HTTP ${response.status}`;
+      }
+    } catch (err: any) {
+      error = err.message;
+    }
+
+    const update: Partial<WebhookDelivery> = {
+      attempts,
+      responseStatus,
+      responseBody,
+      lastError: error,
+      lockedAt: null,
+    };
+
+    if (!error) {
+      update.status = DeliveryStatus.SUCCEEDED;
+      update.deliveredAt = new Date();
+    } else if (attempts >= this.MAX_ATTEMPTS) {
+      update.status = DeliveryStatus.FAILED;
+      this.logger.warn(`Webhook delivery ${delivery.id} to ${endpoint.url} failed permanently: ${error}`);
+    } else {
+      update.nextAttemptAt = new Date(Date.now() + this.BASE_RETRY_DELAY * Math.pow(2, attempts - 1));
+    }
+
+    await this.deliveryRepository.update(delivery.id, update);
+    return { ...delivery, ...update } as WebhookDelivery;
+  }
+
+  private async checkUrl(url: string): Promise<void> {
+    if (!this.ALLOW_PRIVATE_URLS) {
+      await assertPublicUrl(url);
+    }
+  }
+
+  // Receivers verify with HMAC-SHA256(secret, "<timestamp>.<body>")
+  private sign(secret: string, timestamp: string, payload: string): string {
+    return createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+  }
+}
@@ -0,0 +1,121 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Organization } from '../organizations/organization.entity';
+import { WhatsappSession } from './whatsapp-session.entity';
+
+export enum MatchType {
+  EXACT = 'exact',
+  CONTAINS = 'contains',
+  REGEX = 'regex',
+}
+
+export enum ReplyType {
+  TEXT = 'text',
+  MEDIA = 'media',
+  // Text with {{name}}, {{phoneNumber}} and {{message}} filled in from the incoming message
+  TEMPLATE = 'template',
+}
+
+export enum ActiveHours {
+  ALWAYS = 'always',
+  BUSINESS_HOURS = 'business_hours',
+  OUTSIDE_BUSINESS_HOURS = 'outside_business_hours',
+}
+
+@Entity('auto_reply_rules')
+export class AutoReplyRule {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Index()
+  @Column({ nullable: true })
+  organizationId: number;
+
+  @Column()
+  sessionId: number;
+
+  @Column()
+  name: string;
+
+  @Column({
+    type: 'enum',
+    enum: MatchType,
+    default: MatchType.CONTAINS,
+  })
+  matchType: MatchType;
+
+  // Any one matching keyword (or pattern, for regex rules) triggers the rule
+  @Column({ type: 'simple-json' })
+  keywords: string[];
+
+  @Column({ default: false })
+  caseSensitive: boolean;
+
+  @Column({
+    type: 'enum',
+    enum: ReplyType,
+    default: ReplyType.TEXT,
+  })
+  replyType: ReplyType;
+
+  // Reply text, or the caption for media replies
+  @Column({ type: 'text', nullable: true })
+  replyText: string;
+
+  @Column({ nullable: true })
+  replyMediaUrl: string;
+
+  @Column({
+    type: 'enum',
+    enum: ActiveHours,
+    default: ActiveHours.ALWAYS,
+  })
+  activeHours: ActiveHours;
+
+  // Business hours as HH:mm in `timezone`
+  @Column({ nullable: true })
+  businessHoursStart: string;
+
+  @Column({ nullable: true })
+  businessHoursEnd: string;
+
+  // Days counted as business days (0 = Sunday); empty means every day
+  @Column({ type: 'simple-array', nullable: true })
+  businessDays: number[];
+
+  @Column({ default: 'UTC' })
+  timezone: string;
+
+  // Minimum time between replies from this rule to the same contact
+  @Column({ default: 3600 })
+  cooldownSeconds: number;
+
+  // Lower numbers are checked first; only the first matching rule replies
+  @Column({ default: 0 })
+  priority: number;
+
+  @Column({ default: true })
+  isActive: boolean;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+
+  @ManyToOne(() => WhatsappSession, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'sessionId' })
+  session: WhatsappSession;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organizationId' })
+  organization: Organization;
+}
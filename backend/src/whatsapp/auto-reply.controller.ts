@@ -0,0 +1,78 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  ParseIntPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { AutoReplyService } from './auto-reply.service';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { OrganizationRoleGuard } from '../common/guards/organization-role.guard';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { RequireOrganizationRole } from '../common/decorators/organization-role.decorator';
+import { OrganizationRole } from '../organizations/organization-member.entity';
+import { CreateAutoReplyRuleDto, UpdateAutoReplyRuleDto } from './dto/create-auto-reply-rule.dto';
+
+@ApiTags('WhatsApp Auto-replies')
+@Controller('whatsapp')
+@UseGuards(JwtAuthGuard, OrganizationRoleGuard)
+@ApiBearerAuth()
+export class AutoReplyController {
+  constructor(private autoReplyService: AutoReplyService) {}
+
+  @Post('sessions/:sessionId/auto-replies')
+  @RequireOrganizationRole(OrganizationRole.MANAGER)
+  @ApiOperation({ summary: 'Create an auto-reply rule for a session' })
+  async create(
+    @CurrentUser() user: { organizationId: number },
+    @Param('sessionId', ParseIntPipe) sessionId: number,
+    @Body() createRuleDto: CreateAutoReplyRuleDto,
+  ) {
+    return this.autoReplyService.create(sessionId, user.organizationId, createRuleDto);
+  }
+
+  @Get('sessions/:sessionId/auto-replies')
+  @ApiOperation({ summary: 'Get auto-reply rules for a session, in evaluation order' })
+  async findAll(
+    @CurrentUser() user: { organizationId: number },
+    @Param('sessionId', ParseIntPipe) sessionId: number,
+  ) {
+    return this.autoReplyService.findAll(sessionId, user.organizationId);
+  }
+
+  @Get('auto-replies/:id')
+  @ApiOperation({ summary: 'Get an auto-reply rule' })
+  async findOne(
+    @CurrentUser() user: { organizationId: number },
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    return this.autoReplyService.findOne(id, user.organizationId);
+  }
+
+  @Put('auto-replies/:id')
+  @RequireOrganizationRole(OrganizationRole.MANAGER)
+  @ApiOperation({ summary: 'Update an auto-reply rule' })
+  async update(
+    @CurrentUser() user: { organizationId: number },
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateRuleDto: UpdateAutoReplyRuleDto,
+  ) {
+    return this.autoReplyService.update(id, user.organizationId, updateRuleDto);
+  }
+
+  @Delete('auto-replies/:id')
+  @RequireOrganizationRole(OrganizationRole.MANAGER)
+  @ApiOperation({ summary: 'Delete an auto-reply rule' })
+  async delete(
+    @CurrentUser() user: { organizationId: number },
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    await this.autoReplyService.delete(id, user.organizationId);
+    return { success: true };
+  }
+}
@@ -0,0 +1,195 @@
+import { BadRequestException } from '@nestjs/common';
+import { Repository } from 'typeorm';
+import { AutoReplyService, AutoReplyContext } from './auto-reply.service';
+import { ActiveHours, AutoReplyRule, MatchType, ReplyType } from './auto-reply-rule.entity';
+import { WhatsappSession } from './whatsapp-session.entity';
+import { MessageLog } from './message-log.entity';
+
+const MONDAY_NOON = new Date('2024-01-01T12:00:00Z');
+const MONDAY_NIGHT = new Date('2024-01-01T23:00:00Z');
+
+let nextId = 1;
+function rule(overrides: Partial<AutoReplyRule> = {}): AutoReplyRule {
+  return {
+    id: nextId++,
+    sessionId: 1,
+    organizationId: 1,
+    name: 'Rule',
+    matchType: MatchType.CONTAINS,
+    keywords: ['price'],
+    caseSensitive: false,
+    replyType: ReplyType.TEXT,
+    replyText: 'Our prices start at $10',
+    activeHours: ActiveHours.ALWAYS,
+    businessHoursStart: '09:00',
+    businessHoursEnd: '17:00',
+    businessDays: [],
+    timezone: 'UTC',
+    cooldownSeconds: 0,
+    priority: 0,
+    isActive: true,
+    ...overrides,
+  } as AutoReplyRule;
+}
+
+describe('AutoReplyService', () => {
+  let rules: { find: jest.Mock; create: jest.Mock; save: jest.Mock; findOne: jest.Mock };
+  let sessions: { findOne: jest.Mock };
+  let messageLogs: { count: jest.Mock };
+  let service: AutoReplyService;
+
+  beforeEach(() => {
+    rules = {
+      find: jest.fn(async () => []),
+      create: jest.fn((data) => rule(data)),
+      save: jest.fn(async (data) => data),
+      findOne: jest.fn(),
+    };
+    sessions = { findOne: jest.fn(async () => ({ id: 1, organizationId: 1 })) };
+    messageLogs = { count: jest.fn(async () => 0) };
+    service = new AutoReplyService(
+      rules as unknown as Repository<AutoReplyRule>,
+      sessions as unknown as Repository<WhatsappSession>,
+      messageLogs as unknown as Repository<MessageLog>,
+    );
+  });
+
+  const context = (body: string, timestamp = MONDAY_NOON): AutoReplyContext => ({
+    sessionId: 1,
+    phoneNumber: '14155550101',
+    name: 'Ada',
+    body,
+    timestamp,
+  });
+
+  // Rules come back from the repository already in priority order
+  const match = (candidates: AutoReplyRule[], body: string, timestamp?: Date) => {
+    rules.find.mockResolvedValueOnce(candidates);
+    return service.findMatchingRule(context(body, timestamp));
+  };
+
+  describe('matching', () => {
+    it('matches exact keywords against the trimmed message, ignoring case by default', async () => {
+      const exact = rule({ matchType: MatchType.EXACT, keywords: ['STOP'] });
+
+      expect(await match([exact], '  stop ')).toBe(exact);
+      expect(await match([exact], 'please stop')).toBeNull();
+      expect(await match([{ ...exact, caseSensitive: true }], 'stop')).toBeNull();
+    });
+
+    it('matches keywords contained anywhere in the message', async () => {
+      const contains = rule({ keywords: ['price', 'cost'] });
+
+      expect(await match([contains], 'What does it COST?')).toBe(contains);
+      expect(await match([contains], 'Hello')).toBeNull();
+    });
+
+    it('anchors regular expressions to the trimmed message like the other match types', async () => {
+      const regex = rule({ matchType: MatchType.REGEX, keywords: ['^order #\\d+$'] });
+
+      expect(await match([regex], ' Order #123\n')).toBe(regex);
+      expect(await match([regex], 'order #abc')).toBeNull();
+    });
+
+    it('answers patterns that would backtrack catastrophically without hanging', async () => {
+      const regex = rule({ matchType: MatchType.REGEX, keywords: ['^(a+)+$'] });
+
+      expect(await match([regex], `${'a'.repeat(50)}!`)).toBeNull();
+    });
+
+    it('returns the first matching rule in priority order', async () => {
+      const first = rule({ priority: 1, keywords: ['hours'] });
+      const second = rule({ priority: 2, keywords: ['price'] });
+      const third = rule({ priority: 3, keywords: ['price'] });
+
+      expect(await match([first, second, third], 'price list please')).toBe(second);
+    });
+  });
+
+  describe('active hours', () => {
+    const business = rule({ activeHours: ActiveHours.BUSINESS_HOURS });
+    const outside = rule({ activeHours: ActiveHours.OUTSIDE_BUSINESS_HOURS });
+
+    it('only answers business-hours rules during business hours', async () => {
+      expect(await match([business], 'price', MONDAY_NOON)).toBe(business);
+      expect(await match([business], 'price', MONDAY_NIGHT)).toBeNull();
+    });
+
+    it('only answers outside-hours rules outside business hours', async () => {
+      expect(await match([outside], 'price', MONDAY_NOON)).toBeNull();
+      expect(await match([outside], 'price', MONDAY_NIGHT)).toBe(outside);
+    });
+
+    it('treats days that are not business days as outside business hours', async () => {
+      const weekdays = [1, 2, 3, 4, 5];
+      const sundayNoon = new Date('2023-12-31T12:00:00Z');
+
+      expect(await match([{ ...business, businessDays: weekdays }], 'price', sundayNoon)).toBeNull();
+      expect(await match([{ ...outside, businessDays: weekdays }], 'price', sundayNoon)).not.toBeNull();
+    });
+
+    it('supports windows that wrap past midnight', async () => {
+      const night = rule({ activeHours: ActiveHours.BUSINESS_HOURS, businessHoursStart: '22:00', businessHoursEnd: '06:00' });
+
+      expect(await match([night], 'price', MONDAY_NIGHT)).toBe(night);
+      expect(await match([night], 'price', new Date('2024-01-02T05:00:00Z'))).toBe(night);
+      expect(await match([night], 'price', MONDAY_NOON)).toBeNull();
+    });
+
+    it('uses the rule timezone', async () => {
+      // 12:00 UTC is 17:30 in Kolkata
+      expect(await match([{ ...business, timezone: 'Asia/Kolkata' }], 'price', MONDAY_NOON)).toBeNull();
+    });
+  });
+
+  describe('cooldown', () => {
+    it('skips a rule that recently replied to the same contact and falls through to the next', async () => {
+      const cooling = rule({ cooldownSeconds: 3600 });
+      const fallback = rule({ priority: 1 });
+      messageLogs.count.mockResolvedValueOnce(1);
+
+      expect(await match([cooling, fallback], 'price')).toBe(fallback);
+      expect(messageLogs.count).toHaveBeenCalledTimes(1);
+      expect(messageLogs.count.mock.calls[0][0].where).toMatchObject({
+        normalizedRecipient: '14155550101',
+        autoReplyRuleId: cooling.id,
+      });
+    });
+
+    it('does not look up earlier replies without a cooldown', async () => {
+      await match([rule()], 'price');
+      expect(messageLogs.count).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('renderReply', () => {
+    it('fills in template variables from the incoming message', () => {
+      const template = rule({ replyType: ReplyType.TEMPLATE, replyText: 'Hi {{name}}, you said "{{message}}"' });
+      expect(service.renderReply(template, context('price?'))).toBe('Hi Ada, you said "price?"');
+    });
+
+    it('sends plain text replies as written', () => {
+      const text = rule({ replyText: 'Hi {{name}}' });
+      expect(service.renderReply(text, context('price?'))).toBe('Hi {{name}}');
+    });
+  });
+
+  describe('validation', () => {
+    const create = (overrides: Partial<AutoReplyRule>) => service.create(1, 1, overrides as any);
+
+    it('rejects patterns that need backtracking', async () => {
+      await expect(create({ matchType: MatchType.REGEX, keywords: ['(a)\\1'], replyText: 'Hi' })).rejects.toThrow(
+        BadRequestException,
+      );
+      await expect(create({ matchType: MatchType.REGEX, keywords: ['^(?=a)'], replyText: 'Hi' })).rejects.toThrow(
+        'Invalid regular expression: ^(?=a)',
+      );
+    });
+
+    it('requires business hours for rules limited to them', async () => {
+      await expect(
+        create({ activeHours: ActiveHours.BUSINESS_HOURS, businessHoursStart: undefined, replyText: 'Hi' }),
+      ).rejects.toThrow('businessHoursStart and businessHoursEnd are required for business-hours rules');
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { MoreThan, Repository } from 'typeorm';
+import RE2 from 're2';
+import { AutoReplyRule, MatchType, ReplyType, ActiveHours } from './auto-reply-rule.entity';
+import { WhatsappSession } from './whatsapp-session.entity';
+import { MessageLog, MessageSource } from './message-log.entity';
+import { CreateAutoReplyRuleDto, UpdateAutoReplyRuleDto } from './dto/create-auto-reply-rule.dto';
+import { isValidTimezone, localWeekday, msUntilWindowOpens } from '../campaigns/send-window';
+import { renderTemplate } from '../campaigns/template';
+
+// What a rule needs to know about the incoming message
+export interface AutoReplyContext {
+  sessionId: number;
+  phoneNumber: string;
+  name: string | null;
+  body: string;
+  timestamp: Date;
+}
+
+@Injectable()
+export class AutoReplyService {
+  private readonly MAX_PATTERN_LENGTH = 200;
+
+  constructor(
+    @InjectRepository(AutoReplyRule)
+    private ruleRepository: Repository<AutoReplyRule>,
+    @InjectRepository(WhatsappSession)
+    private sessionRepository: Repository<WhatsappSession>,
+    @InjectRepository(MessageLog)
+    private messageLogRepository: Repository<MessageLog>,
+  ) {}
+
+  async create(sessionId: number, organizationId: number, dto: CreateAutoReplyRuleDto): Promise<AutoReplyRule> {
+    const session = await this.sessionRepository.findOne({ where: { id: sessionId, organizationId } });
+    if (!session) {
+      throw new NotFoundException('Session not found');
+    }
+
+    const rule = this.ruleRepository.create({ ...dto, sessionId, organizationId });
+    this.validate(rule);
+    return this.ruleRepository.save(rule);
+  }
+
+  async findAll(sessionId: number, organizationId: number): Promise<AutoReplyRule[]> {
+    return this.ruleRepository.find({
+      where: { sessionId, organizationId },
+      order: { priority: 'ASC', id: 'ASC' },
+    });
+  }
+
+  async findOne(id: number, organizationId: number): Promise<AutoReplyRule> {
+    const rule = await this.ruleRepository.findOne({ where: { id, organizationId } });
+    if (!rule) {
+      throw new NotFoundException('Auto-reply rule not found');
+    }
+    return rule;
+  }
+
+  async update(id: number, organizationId: number, dto: UpdateAutoReplyRuleDto): Promise<AutoReplyRule> {
+    const rule = await this.findOne(id, organizationId);
+    Object.assign(rule, dto);
+    this.validate(rule);
+    return this.ruleRepository.save(rule);
+  }
+
+  async delete(id: number, organizationId: number): Promise<void> {
+    await this.findOne(id, organizationId);
+    await this.ruleRepository.delete(id);
+  }
+
+  // First active rule (by priority) that matches and isn't cooling down for this contact
+  async findMatchingRule(context: AutoReplyContext): Promise<AutoReplyRule | null> {
+    const rules = await this.ruleRepository.find({
+      where: { sessionId: context.sessionId, isActive: true },
+      order: { priority: 'ASC', id: 'ASC' },
+    });
+
+    for (const rule of rules) {
+      if (!this.matches(rule, context.body)) continue;
+      if (!this.isActiveAt(rule, context.timestamp)) continue;
+      if (await this.isCoolingDown(rule, context.phoneNumber)) continue;
+      return rule;
+    }
+    return null;
+  }
+
+  renderReply(rule: AutoReplyRule, context: AutoReplyContext): string {
+    const text = rule.replyText || '';
+    if (rule.replyType !== ReplyType.TEMPLATE) return text;
+
+    return renderTemplate(text, {
+      name: context.name || '',
+      phoneNumber: context.phoneNumber,
+      message: context.body,
+    });
+  }
+
+  private matches(rule: AutoReplyRule, body: string): boolean {
+    const trimmed = body.trim();
+    const text = rule.caseSensitive ? trimmed : trimmed.toLowerCase();
+
+    return rule.keywords.some((keyword) => {
+      if (rule.matchType === MatchType.REGEX) {
+        try {
+          return this.compilePattern(keyword, rule.caseSensitive).test(trimmed);
+        } catch {
+          return false;
+        }
+      }
+
+      const needle = rule.caseSensitive ? keyword.trim() : keyword.trim().toLowerCase();
+      return rule.matchType === MatchType.EXACT ? text === needle : text.includes(needle);
+    });
+  }
+
+  // RE2 runs in linear time, so a pattern can't hang the process on a crafted message.
+  // It rejects backreferences and lookarounds, which would need backtracking.
+  private compilePattern(pattern: string, caseSensitive: boolean): RE2 {
+    return new RE2(pattern, caseSensitive ? '' : 'i');
+  }
+
+  private isActiveAt(rule: AutoReplyRule, date: Date): boolean {
+    if (rule.activeHours === ActiveHours.ALWAYS) return true;
+
+    const days = (rule.businessDays || []).map(Number);
+    const isBusinessDay = days.length === 0 || days.includes(localWeekday(date, rule.timezone));
+    const inHours = msUntilWindowOpens(date, rule.businessHoursStart, rule.businessHoursEnd, rule.timezone) === 0;
+    const duringBusinessHours = isBusinessDay && inHours;
+
+    return rule.activeHours === ActiveHours.BUSINESS_HOURS ? duringBusinessHours : !duringBusinessHours;
+  }
+
+  private async isCoolingDown(rule: AutoReplyRule, phoneNumber: string): Promise<boolean> {
+    if (rule.cooldownSeconds <= 0) return false;
+
+    const recent = await this.messageLogRepository.count({
+      where: {
+        sessionId: rule.sessionId,
+        normalizedRecipient: phoneNumber,
+        source: MessageSource.AUTOREPLY,
+        autoReplyRuleId: rule.id,
+        createdAt: MoreThan(new Date(Date.now() - rule.cooldownSeconds * 1000)),
+      },
+    });
+    return recent > 0;
+  }
+
+  private validate(rule: AutoReplyRule): void {
+    if (rule.replyType === ReplyType.MEDIA) {
+      if (!rule.replyMediaUrl) {
+        throw new BadRequestException('replyMediaUrl is required for media replies');
+      }
+    } else if (!rule.replyText) {
+      throw new BadRequestException('replyText is required for text and template replies');
+    }
+
+    if (rule.matchType === MatchType.REGEX) {
+      for (const pattern of rule.keywords) {
+        if (pattern.length > this.MAX_PATTERN_LENGTH) {
+          throw new BadRequestException(`Patterns are limited to ${this.MAX_PATTERN_LENGTH} characters`);
+        }
+        try {
+          this.compilePattern(pattern, true);
+        } catch {
+          throw new BadRequestException(`Invalid regular expression: ${pattern}`);
+        }
+      }
+    }
+
+    if (rule.activeHours && rule.activeHours !== ActiveHours.ALWAYS) {
+      if (!rule.businessHoursStart || !rule.businessHoursEnd) {
+        throw new BadRequestException('businessHoursStart and businessHoursEnd are required for business-hours rules');
+      }
+    }
+    if (rule.timezone && !isValidTimezone(rule.timezone)) {
+      throw new BadRequestException(`Unknown timezone: ${rule.timezone}`);
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Query,
+  Req,
+  Headers,
+  HttpCode,
+  ForbiddenException,
+  RawBodyRequest,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiExcludeEndpoint } from '@nestjs/swagger';
+import { ConfigService } from '@nestjs/config';
+import { Request } from 'express';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { WhatsappService } from './whatsapp.service';
+
+// Callback URL to configure in the Meta app for Cloud API sessions
+@ApiTags('WhatsApp')
+@Controller('whatsapp/cloud/webhook')
+export class CloudApiWebhookController {
+  constructor(
+    private whatsappService: WhatsappService,
+    private configService: ConfigService,
+  ) {}
+
+  // Meta's subscription handshake: echo the challenge if the verify token matches
+  @Get()
+  @ApiExcludeEndpoint()
+  verify(
+    @Query('hub.mode') mode: string,
+    @Query('hub.verify_token') token: string,
+    @Query('hub.challenge') challenge: string,
+  ) {
+    const expected = this.configService.get<string>('WHATSAPP_CLOUD_VERIFY_TOKEN');
+    if (mode !== 'subscribe' || !expected || token !== expected) {
+      throw new ForbiddenException('Invalid verify token');
+    }
+    return challenge;
+  }
+
+  @Post()
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Receive Cloud API message statuses and inbound messages' })
+  receive(@Req() req: RawBodyRequest<Request>, @Headers('x-hub-signature-256') signature?: string) {
+    if (!this.isSignedByMeta(req.rawBody, signature)) {
+      throw new ForbiddenException('Invalid signature');
+    }
+
+    this.whatsappService.handleCloudApiWebhook(req.body);
+    return { success: true };
+  }
+
+  // X-Hub-Signature-256: sha256=HMAC_SHA256(app secret, raw body)
+  private isSignedByMeta(rawBody: Buffer | undefined, signature?: string): boolean {
+    const secret = this.configService.get<string>('WHATSAPP_CLOUD_APP_SECRET');
+    if (!secret || !rawBody || !signature?.startsWith('sha256=')) return false;
+
+    const expected = Buffer.from(createHmac('sha256', secret).update(rawBody).digest('hex'));
+    const actual = Buffer.from(signature.slice(7));
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+}
@@ -0,0 +1,101 @@
+import {
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsUrl,
+  ArrayNotEmpty,
+  Matches,
+  Min,
+  Max,
+  MinLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import { MatchType, ReplyType, ActiveHours } from '../auto-reply-rule.entity';
+
+export class CreateAutoReplyRuleDto {
+  @ApiProperty({ example: 'Pricing question' })
+  @IsString()
+  @MinLength(1)
+  name: string;
+
+  @ApiProperty({ enum: MatchType, example: MatchType.CONTAINS })
+  @IsEnum(MatchType)
+  matchType: MatchType;
+
+  @ApiProperty({
+    example: ['price', 'pricing'],
+    description: 'Keywords, or RE2 patterns for regex rules (no backreferences or lookarounds)',
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  keywords: string[];
+
+  @ApiPropertyOptional({ example: false })
+  @IsOptional()
+  @IsBoolean()
+  caseSensitive?: boolean;
+
+  @ApiProperty({ enum: ReplyType, example: ReplyType.TEMPLATE })
+  @IsEnum(ReplyType)
+  replyType: ReplyType;
+
+  @ApiPropertyOptional({ example: 'Hi {{name}}, our pricing is at https://example.com/pricing' })
+  @IsOptional()
+  @IsString()
+  replyText?: string;
+
+  @ApiPropertyOptional({ example: 'https://example.com/brochure.pdf' })
+  @IsOptional()
+  @IsUrl()
+  replyMediaUrl?: string;
+
+  @ApiPropertyOptional({ enum: ActiveHours, example: ActiveHours.ALWAYS })
+  @IsOptional()
+  @IsEnum(ActiveHours)
+  activeHours?: ActiveHours;
+
+  @ApiPropertyOptional({ example: '09:00', description: 'Business hours start (HH:mm)' })
+  @IsOptional()
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'businessHoursStart must be HH:mm' })
+  businessHoursStart?: string;
+
+  @ApiPropertyOptional({ example: '18:00', description: 'Business hours end (HH:mm)' })
+  @IsOptional()
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'businessHoursEnd must be HH:mm' })
+  businessHoursEnd?: string;
+
+  @ApiPropertyOptional({ example: [1, 2, 3, 4, 5], description: 'Business days (0 = Sunday)' })
+  @IsOptional()
+  @IsArray()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  businessDays?: number[];
+
+  @ApiPropertyOptional({ example: 'Asia/Kolkata' })
+  @IsOptional()
+  @IsString()
+  timezone?: string;
+
+  @ApiPropertyOptional({ example: 3600, description: 'Seconds before the rule replies to the same contact again' })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  cooldownSeconds?: number;
+
+  @ApiPropertyOptional({ example: 0 })
+  @IsOptional()
+  @IsInt()
+  priority?: number;
+
+  @ApiPropertyOptional({ example: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class UpdateAutoReplyRuleDto extends PartialType(CreateAutoReplyRuleDto) {}
@@ -1,9 +1,26 @@
-import { IsString, MinLength } from 'class-validator';
-import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum, IsObject, IsOptional, IsString, MinLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { WhatsappProviderType } from '../providers/whatsapp-provider.interface';
 
 export class CreateSessionDto {
   @ApiProperty({ example: 'My Phone' })
   @IsString()
   @MinLength(1)
   sessionName: string;
+
+  @ApiPropertyOptional({
+    enum: WhatsappProviderType,
+    description: 'Transport for this session (defaults to WHATSAPP_DEFAULT_PROVIDER)',
+  })
+  @IsOptional()
+  @IsEnum(WhatsappProviderType)
+  provider?: WhatsappProviderType;
+
+  @ApiPropertyOptional({
+    example: { phoneNumberId: '123456789012345', accessToken: 'EAAG...' },
+    description: 'Provider settings. Cloud API sessions need phoneNumberId and accessToken',
+  })
+  @IsOptional()
+  @IsObject()
+  providerConfig?: Record<string, any>;
 }
@@ -5,7 +5,9 @@ import {
   CreateDateColumn,
   ManyToOne,
   JoinColumn,
+  Index,
 } from 'typeorm';
+import { Organization } from '../organizations/organization.entity';
 import { User } from '../users/user.entity';
 import { WhatsappSession } from './whatsapp-session.entity';
 
@@ -13,13 +15,17 @@ export enum MessageStatus {
   PENDING = 'pending',
   SENT = 'sent',
   DELIVERED = 'delivered',
+  READ = 'read',
   FAILED = 'failed',
+  // Not sent: the recipient is on the user's suppression list
+  SUPPRESSED = 'suppressed',
 }
 
 export enum MessageSource {
   API = 'api',
   CAMPAIGN = 'campaign',
   MANUAL = 'manual',
+  AUTOREPLY = 'autoreply',
 }
 
 @Entity('message_logs')
@@ -27,15 +33,24 @@ export class MessageLog {
   @PrimaryGeneratedColumn()
   id: number;
 
-  @Column()
+  // Member who sent it; empty for automatic replies
+  @Column({ nullable: true })
   userId: number;
 
+  @Index()
+  @Column({ nullable: true })
+  organizationId: number;
+
   @Column({ nullable: true })
   sessionId: number;
 
   @Column()
   recipient: string;
 
+  // E.164 form of the recipient
+  @Column({ nullable: true })
+  normalizedRecipient: string;
+
   @Column({ type: 'text' })
   message: string;
 
@@ -56,9 +71,32 @@ export class MessageLog {
   @Column({ nullable: true })
   error: string;
 
+  // Credits charged for the send; refunded if it fails
+  @Column({ default: 0 })
+  cost: number;
+
+  // API key used for the send, if it came through the public API
+  @Column({ nullable: true })
+  apiKeyId: number;
+
+  // Auto-responder rule that produced this message, for per-contact cooldowns
+  @Column({ nullable: true })
+  autoReplyRuleId: number;
+
   @Column({ nullable: true })
   sentAt: Date;
 
+  @Column({ nullable: true })
+  deliveredAt: Date;
+
+  @Column({ nullable: true })
+  readAt: Date;
+
+  // Serialized WhatsApp message id, used to match delivery/read acks
+  @Index()
+  @Column({ nullable: true })
+  whatsappMessageId: string;
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -69,4 +107,8 @@ export class MessageLog {
   @ManyToOne(() => WhatsappSession, { onDelete: 'SET NULL' })
   @JoinColumn({ name: 'sessionId' })
   session: WhatsappSession;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organizationId' })
+  organization: Organization;
 }
@@ -0,0 +1,200 @@
+import makeWASocket, {
+  AnyMessageContent,
+  Browsers,
+  DisconnectReason,
+  WAMessage,
+  WAMessageStatus,
+  WASocket,
+  useMultiFileAuthState,
+} from '@whiskeysockets/baileys';
+import { Boom } from '@hapi/boom';
+import pino from 'pino';
+import { MessageStatus } from '../message-log.entity';
+import { mediaTypeOf } from './media-type';
+import {
+  OutboundMedia,
+  ProviderInboundMessage,
+  WhatsappProvider,
+  WhatsappProviderHandlers,
+  WhatsappProviderOptions,
+  WhatsappProviderType,
+} from './whatsapp-provider.interface';
+
+const MEDIA_MESSAGE_TYPES = ['imageMessage', 'videoMessage', 'audioMessage', 'documentMessage', 'stickerMessage'];
+
+// Talks to WhatsApp Web over its websocket directly, so no Chromium per session
+export class BaileysProvider implements WhatsappProvider {
+  readonly type = WhatsappProviderType.BAILEYS;
+  readonly supportsPairingCode = true;
+
+  private socket: WASocket | null = null;
+  private pairingTimer: NodeJS.Timeout | null = null;
+  // Set when we close the socket ourselves, so it isn't reported as a disconnect
+  private closing = false;
+
+  constructor(
+    private options: WhatsappProviderOptions,
+    private handlers: WhatsappProviderHandlers,
+  ) {}
+
+  async connect(): Promise<void> {
+    const { state, saveCreds } = await useMultiFileAuthState(this.options.authDir);
+
+    const socket = makeWASocket({
+      auth: state,
+      browser: Browsers.ubuntu('Chrome'),
+      logger: pino({ level: 'silent' }),
+      markOnlineOnConnect: false,
+    });
+    this.socket = socket;
+
+    socket.ev.on('creds.update', saveCreds);
+
+    socket.ev.on('connection.update', (update) => {
+      const { connection, lastDisconnect, qr } = update;
+
+      if (qr) {
+        // Baileys asks for a QR once the socket is ready to link; pairing codes can be requested from then on
+        if (this.options.pairingPhoneNumber) {
+          if (!this.pairingTimer) this.startPairing();
+        } else {
+          this.handlers.onQr(qr);
+        }
+      }
+
+      if (connection === 'open') {
+        this.stopPairing();
+        this.handlers.onAuthenticated();
+        this.handlers.onReady(socket.user?.id.split(':')[0].split('@')[0] || null);
+      }
+
+      if (connection === 'close') {
+        this.stopPairing();
+        if (this.closing) return;
+
+        const statusCode = (lastDisconnect?.error as Boom | undefined)?.output?.statusCode;
+        const loggedOut = statusCode === DisconnectReason.loggedOut;
+        this.handlers.onDisconnected(
+          loggedOut ? 'LOGOUT' : lastDisconnect?.error?.message || `Connection closed (${statusCode})`,
+          loggedOut,
+        );
+      }
+    });
+
+    socket.ev.on('messages.update', (updates) => {
+      for (const { key, update } of updates) {
+        if (!key.fromMe || !key.id || update.status === undefined || update.status === null) continue;
+
+        if (update.status === WAMessageStatus.ERROR) {
+          this.handlers.onAck(key.id, MessageStatus.FAILED);
+        } else if (update.status >= WAMessageStatus.READ) {
+          this.handlers.onAck(key.id, MessageStatus.READ);
+        } else if (update.status === WAMessageStatus.DELIVERY_ACK) {
+          this.handlers.onAck(key.id, MessageStatus.DELIVERED);
+        }
+      }
+    });
+
+    socket.ev.on('messages.upsert', ({ messages, type }) => {
+      if (type !== 'notify') return;
+
+      for (const message of messages) {
+        const inbound = this.toInbound(message);
+        if (inbound) this.handlers.onMessage(inbound);
+      }
+    });
+  }
+
+  async sendText(to: string, text: string): Promise<string> {
+    return this.send(to, { text });
+  }
+
+  async sendMedia(to: string, media: OutboundMedia, caption: string): Promise<string> {
+    // Baileys reads local paths and downloads URLs itself
+    const source = { url: (media.path || media.url)! };
+    const { kind, mimetype, fileName } = mediaTypeOf(media);
+
+    let content: AnyMessageContent;
+    if (kind === 'image') {
+      content = { image: source, caption };
+    } else if (kind === 'video') {
+      content = { video: source, caption };
+    } else if (kind === 'audio') {
+      content = { audio: source, mimetype };
+    } else {
+      content = { document: source, mimetype, fileName, caption };
+    }
+    return this.send(to, content);
+  }
+
+  async requestPairingCode(): Promise<void> {
+    if (!this.socket || !this.options.pairingPhoneNumber) {
+      throw new Error('No pairing in progress for this session');
+    }
+    this.stopPairing();
+    this.startPairing();
+  }
+
+  async destroy(): Promise<void> {
+    this.closing = true;
+    this.stopPairing();
+    this.socket?.end(undefined);
+    this.socket = null;
+  }
+
+  // Baileys codes don't rotate on their own; request a new one every pairingCodeInterval like web.js
+  private startPairing() {
+    const request = async () => {
+      try {
+        const code = await this.socket!.requestPairingCode(this.options.pairingPhoneNumber!);
+        this.handlers.onPairingCode(code, new Date(Date.now() + this.options.pairingCodeInterval));
+      } catch (error: any) {
+        this.handlers.onAuthFailure(`Pairing code request failed: ${error.message}`);
+      }
+    };
+
+    this.pairingTimer = setInterval(request, this.options.pairingCodeInterval);
+    request();
+  }
+
+  private stopPairing() {
+    if (this.pairingTimer) {
+      clearInterval(this.pairingTimer);
+      this.pairingTimer = null;
+    }
+  }
+
+  private async send(to: string, content: AnyMessageContent): Promise<string> {
+    if (!this.socket) throw new Error('Socket not connected');
+    const sent = await this.socket.sendMessage(`${to}@s.whatsapp.net`, content);
+    if (!sent?.key.id) throw new Error('WhatsApp did not return a message id');
+    return sent.key.id;
+  }
+
+  // One-to-one chats only, like the web.js adapter
+  private toInbound(message: WAMessage): ProviderInboundMessage | null {
+    const chatId = message.key.remoteJid;
+    if (!chatId || !chatId.endsWith('@s.whatsapp.net') || message.key.fromMe || !message.message) return null;
+
+    const content = message.message;
+    const type = Object.keys(content)[0] || 'unknown';
+    const body =
+      content.conversation ||
+      content.extendedTextMessage?.text ||
+      content.imageMessage?.caption ||
+      content.videoMessage?.caption ||
+      content.documentMessage?.caption ||
+      '';
+
+    return {
+      chatId,
+      from: chatId.split('@')[0],
+      name: message.pushName || null,
+      messageId: message.key.id!,
+      body,
+      type,
+      hasMedia: MEDIA_MESSAGE_TYPES.includes(type),
+      timestamp: new Date(Number(message.messageTimestamp) * 1000),
+    };
+  }
+}
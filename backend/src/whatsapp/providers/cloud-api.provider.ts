@@ -0,0 +1,147 @@
+import * as fs from 'fs';
+import { MessageStatus } from '../message-log.entity';
+import { mediaTypeOf } from './media-type';
+import {
+  OutboundMedia,
+  ProviderAckStatus,
+  WhatsappProvider,
+  WhatsappProviderHandlers,
+  WhatsappProviderOptions,
+  WhatsappProviderType,
+} from './whatsapp-provider.interface';
+
+// Settings stored on a Cloud API session
+export interface CloudApiConfig {
+  phoneNumberId: string;
+  accessToken: string;
+}
+
+const ACK_STATUSES: Record<string, ProviderAckStatus> = {
+  delivered: MessageStatus.DELIVERED,
+  read: MessageStatus.READ,
+  failed: MessageStatus.FAILED,
+};
+
+// Official WhatsApp Business Cloud API. There is nothing to link: the session is ready once
+// its credentials check out, and acks and inbound messages arrive through the webhook.
+export class CloudApiProvider implements WhatsappProvider {
+  readonly type = WhatsappProviderType.CLOUD_API;
+  readonly supportsPairingCode = false;
+
+  private readonly config: CloudApiConfig;
+
+  constructor(
+    options: WhatsappProviderOptions,
+    private handlers: WhatsappProviderHandlers,
+    private graphApiUrl: string,
+  ) {
+    this.config = options.config as CloudApiConfig;
+  }
+
+  get phoneNumberId(): string {
+    return this.config.phoneNumberId;
+  }
+
+  async connect(): Promise<void> {
+    if (!this.config.phoneNumberId || !this.config.accessToken) {
+      throw new Error('Cloud API sessions need a phoneNumberId and an accessToken');
+    }
+
+    let phoneNumber: { display_phone_number?: string };
+    try {
+      phoneNumber = await this.request('GET', `${this.config.phoneNumberId}?fields=display_phone_number`);
+    } catch (error: any) {
+      this.handlers.onAuthFailure(error.message);
+      throw error;
+    }
+
+    this.handlers.onAuthenticated();
+    this.handlers.onReady(phoneNumber.display_phone_number?.replace(/\D/g, '') || null);
+  }
+
+  async sendText(to: string, text: string): Promise<string> {
+    return this.sendMessage(to, { type: 'text', text: { body: text } });
+  }
+
+  async sendMedia(to: string, media: OutboundMedia, caption: string): Promise<string> {
+    const { kind, mimetype, fileName } = mediaTypeOf(media);
+    const object: Record<string, string> = media.url ? { link: media.url } : { id: await this.upload(media.path!, mimetype) };
+
+    // Audio messages can't carry a caption
+    if (kind !== 'audio' && caption) object.caption = caption;
+    if (kind === 'document') object.filename = fileName;
+
+    return this.sendMessage(to, { type: kind, [kind]: object });
+  }
+
+  async requestPairingCode(): Promise<void> {
+    throw new Error('Cloud API sessions are not linked by pairing code');
+  }
+
+  async destroy(): Promise<void> {
+    // Stateless HTTP client
+  }
+
+  // One `value` from the webhook payload's entry[].changes[]
+  handleWebhook(value: any): void {
+    for (const status of value.statuses || []) {
+      const ack = ACK_STATUSES[status.status];
+      if (ack) this.handlers.onAck(status.id, ack);
+    }
+
+    const names = new Map<string, string>(
+      (value.contacts || []).map((contact: any) => [contact.wa_id, contact.profile?.name]),
+    );
+    for (const message of value.messages || []) {
+      const content = message[message.type] || {};
+      this.handlers.onMessage({
+        chatId: message.from,
+        from: message.from,
+        name: names.get(message.from) || null,
+        messageId: message.id,
+        body: content.body || content.caption || content.text || content.button_reply?.title || '',
+        type: message.type,
+        hasMedia: !!content.mime_type,
+        timestamp: new Date(Number(message.timestamp) * 1000),
+      });
+    }
+  }
+
+  private async sendMessage(to: string, message: Record<string, any>): Promise<string> {
+    const response = await this.request('POST', `${this.config.phoneNumberId}/messages`, {
+      messaging_product: 'whatsapp',
+      recipient_type: 'individual',
+      to,
+      ...message,
+    });
+    return response.messages[0].id;
+  }
+
+  private async upload(filePath: string, mimetype: string): Promise<string> {
+    const form = new FormData();
+    form.append('messaging_product', 'whatsapp');
+    form.append('type', mimetype);
+    form.append('file', new Blob([fs.readFileSync(filePath)], { type: mimetype }), filePath.split(/[\\/]/).pop());
+
+    const response = await this.request('POST', `${this.config.phoneNumberId}/media`, form);
+    return response.id;
+  }
+
+  private async request(method: string, path: string, body?: Record<string, any> | FormData): Promise<any> {
+    const isForm = body instanceof FormData;
+    const response = await fetch(`${this.graphApiUrl}/${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.config.accessToken}`,
+        ...(body && !isForm ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: isForm ? body : body ? JSON.stringify(body) : undefined,
+    });
+
+    const data: any = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error?.message || `Cloud API request failed with status ${response.status}`);
+    }
+    return data;
+  }
+}
@@ -0,0 +1,142 @@
+import { MessageStatus } from '../message-log.entity';
+import {
+  OutboundMedia,
+  ProviderAckStatus,
+  ProviderInboundMessage,
+  WhatsappProvider,
+  WhatsappProviderHandlers,
+  WhatsappProviderOptions,
+  WhatsappProviderType,
+} from './whatsapp-provider.interface';
+
+// Settings stored on a fake session
+export interface FakeProviderConfig {
+  // Link as soon as the session connects instead of waiting for link()
+  autoReady?: boolean;
+  phoneNumber?: string;
+}
+
+export interface FakeSentMessage {
+  id: string;
+  to: string;
+  text: string;
+  media?: OutboundMedia;
+  sentAt: Date;
+}
+
+// In-memory WhatsApp client: records what is sent and emits connection events, acks and
+// inbound messages on command. Live instances are reachable by session id through get().
+export class FakeProvider implements WhatsappProvider {
+  readonly type = WhatsappProviderType.FAKE;
+  readonly supportsPairingCode = true;
+
+  private static instances: Map<number, FakeProvider> = new Map();
+
+  readonly sent: FakeSentMessage[] = [];
+  private nextId = 1;
+  private sendError: Error | null = null;
+  private readonly config: FakeProviderConfig;
+
+  constructor(
+    private options: WhatsappProviderOptions,
+    private handlers: WhatsappProviderHandlers,
+  ) {
+    this.config = { autoReady: true, ...options.config };
+  }
+
+  static get(sessionId: number): FakeProvider | undefined {
+    return FakeProvider.instances.get(sessionId);
+  }
+
+  get sessionId(): number {
+    return this.options.sessionId;
+  }
+
+  async connect(): Promise<void> {
+    FakeProvider.instances.set(this.options.sessionId, this);
+
+    if (this.options.pairingPhoneNumber) {
+      await this.requestPairingCode();
+    } else {
+      this.showQr();
+    }
+
+    if (this.config.autoReady) this.link();
+  }
+
+  async sendText(to: string, text: string): Promise<string> {
+    return this.record({ to, text });
+  }
+
+  async sendMedia(to: string, media: OutboundMedia, caption: string): Promise<string> {
+    return this.record({ to, text: caption, media });
+  }
+
+  async requestPairingCode(): Promise<void> {
+    const code = Math.random().toString(36).slice(2, 10).toUpperCase().padEnd(8, '0');
+    this.handlers.onPairingCode(code, new Date(Date.now() + this.options.pairingCodeInterval));
+  }
+
+  async destroy(): Promise<void> {
+    if (FakeProvider.instances.get(this.options.sessionId) === this) {
+      FakeProvider.instances.delete(this.options.sessionId);
+    }
+  }
+
+  // A new QR code, as WhatsApp Web shows every ~20 seconds
+  showQr(): void {
+    this.handlers.onQr(`fake-qr-${this.options.sessionId}-${this.nextId++}`);
+  }
+
+  // Simulate the phone scanning the QR code or entering the pairing code
+  link(): void {
+    this.handlers.onAuthenticated();
+    this.handlers.onReady(this.config.phoneNumber || `1555000${String(this.options.sessionId).padStart(4, '0')}`);
+  }
+
+  failAuth(message = 'Fake authentication failure'): void {
+    this.handlers.onAuthFailure(message);
+  }
+
+  // The client is gone afterwards; a reconnect registers a new instance
+  disconnect(reason = 'NAVIGATION', loggedOut = false): void {
+    if (FakeProvider.instances.get(this.options.sessionId) === this) {
+      FakeProvider.instances.delete(this.options.sessionId);
+    }
+    this.handlers.onDisconnected(loggedOut ? 'LOGOUT' : reason, loggedOut);
+  }
+
+  ack(messageId: string, status: ProviderAckStatus = MessageStatus.DELIVERED): void {
+    this.handlers.onAck(messageId, status);
+  }
+
+  receive(message: Partial<ProviderInboundMessage> & { from: string }): void {
+    this.handlers.onMessage({
+      chatId: `${message.from}@c.us`,
+      name: null,
+      messageId: `fake-in-${this.options.sessionId}-${this.nextId++}`,
+      body: '',
+      type: 'chat',
+      hasMedia: false,
+      timestamp: new Date(),
+      ...message,
+    });
+  }
+
+  // Make the next send throw, to simulate a WhatsApp error
+  failNextSend(error: Error = new Error('Fake send failure')): void {
+    this.sendError = error;
+  }
+
+  private record(message: Omit<FakeSentMessage, 'id' | 'sentAt'>): string {
+    if (this.sendError) {
+      const error = this.sendError;
+      this.sendError = null;
+      throw error;
+    }
+
+    const id = `fake-${this.options.sessionId}-${this.nextId++}`;
+    this.sent.push({ id, sentAt: new Date(), ...message });
+    return id;
+  }
+}
@@ -0,0 +1,44 @@
+import { extname } from 'path';
+import { OutboundMedia } from './whatsapp-provider.interface';
+
+export type MediaKind = 'image' | 'video' | 'audio' | 'document';
+
+export interface MediaType {
+  kind: MediaKind;
+  mimetype: string;
+  fileName: string;
+}
+
+// The file types the upload endpoints accept, plus common audio
+const MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.mp4': 'video/mp4',
+  '.3gp': 'video/3gpp',
+  '.mov': 'video/quicktime',
+  '.mp3': 'audio/mpeg',
+  '.ogg': 'audio/ogg',
+  '.pdf': 'application/pdf',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xls': 'application/vnd.ms-excel',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// Providers without a media helper of their own pick the message type from the file extension
+export function mediaTypeOf(media: OutboundMedia): MediaType {
+  const location = media.path || new URL(media.url!).pathname;
+  const fileName = location.split(/[\\/]/).pop() || 'file';
+  const mimetype = MIME_TYPES[extname(fileName).toLowerCase()] || 'application/octet-stream';
+
+  // GIFs are sent as documents; WhatsApp only animates them as mp4 video
+  let kind: MediaKind = 'document';
+  if (mimetype.startsWith('image/') && mimetype !== 'image/gif') kind = 'image';
+  else if (mimetype.startsWith('video/')) kind = 'video';
+  else if (mimetype.startsWith('audio/')) kind = 'audio';
+
+  return { kind, mimetype, fileName };
+}
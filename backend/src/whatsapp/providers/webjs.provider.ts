@@ -0,0 +1,157 @@
+import * as path from 'path';
+import { Client, LocalAuth, MessageMedia, MessageAck, Message } from 'whatsapp-web.js';
+import { MessageStatus } from '../message-log.entity';
+import {
+  OutboundMedia,
+  WhatsappProvider,
+  WhatsappProviderHandlers,
+  WhatsappProviderOptions,
+  WhatsappProviderType,
+} from './whatsapp-provider.interface';
+
+export class WebjsProvider implements WhatsappProvider {
+  readonly type = WhatsappProviderType.WEBJS;
+  readonly supportsPairingCode = true;
+
+  private client: Client;
+
+  constructor(
+    private options: WhatsappProviderOptions,
+    private handlers: WhatsappProviderHandlers,
+  ) {}
+
+  async connect(): Promise<void> {
+    const puppeteerOptions: any = {
+      headless: true,
+      args: [
+        '--no-sandbox',
+        '--disable-setuid-sandbox',
+        '--disable-dev-shm-usage',
+        '--disable-accelerated-2d-canvas',
+        '--no-first-run',
+        '--no-zygote',
+        '--single-process',
+        '--disable-gpu',
+      ],
+    };
+
+    // Use system Chromium if available (for Docker/Railway)
+    if (process.env.PUPPETEER_EXECUTABLE_PATH) {
+      puppeteerOptions.executablePath = process.env.PUPPETEER_EXECUTABLE_PATH;
+    }
+
+    this.client = new Client({
+      // LocalAuth stores under <dataPath>/session-<clientId>, i.e. authDir
+      authStrategy: new LocalAuth({
+        clientId: `session-${this.options.sessionId}`,
+        dataPath: path.dirname(this.options.authDir),
+      }),
+      puppeteer: puppeteerOptions,
+      // Link by pairing code instead of QR; only used when there is no stored auth
+      pairWithPhoneNumber: this.options.pairingPhoneNumber
+        ? {
+            phoneNumber: this.options.pairingPhoneNumber,
+            showNotification: true,
+            intervalMs: this.options.pairingCodeInterval,
+          }
+        : undefined,
+    });
+
+    this.client.on('qr', (qr) => this.handlers.onQr(qr));
+
+    // Repeated every pairingCodeInterval until the phone is linked
+    this.client.on('code', (code: string) => {
+      this.handlers.onPairingCode(code, new Date(Date.now() + this.options.pairingCodeInterval));
+    });
+
+    this.client.on('authenticated', () => this.handlers.onAuthenticated());
+    this.client.on('auth_failure', (message) => this.handlers.onAuthFailure(message));
+
+    this.client.on('ready', () => {
+      const info = this.client.info;
+      this.handlers.onReady(info?.wid?.user || info?.wid?._serialized?.split('@')[0] || null);
+    });
+
+    // Delivery / read receipts for messages we sent
+    this.client.on('message_ack', (message, ack) => {
+      if (!message.fromMe) return;
+      if (ack === MessageAck.ACK_ERROR) {
+        this.handlers.onAck(message.id._serialized, MessageStatus.FAILED);
+      } else if (ack >= MessageAck.ACK_READ) {
+        this.handlers.onAck(message.id._serialized, MessageStatus.READ);
+      } else if (ack === MessageAck.ACK_DEVICE) {
+        this.handlers.onAck(message.id._serialized, MessageStatus.DELIVERED);
+      }
+    });
+
+    // Incoming messages (one-to-one chats only)
+    this.client.on('message', (message) => {
+      const isDirectChat = message.from.endsWith('@c.us') || message.from.endsWith('@lid');
+      if (message.fromMe || message.isStatus || !isDirectChat) return;
+
+      this.toInbound(message).then((inbound) => this.handlers.onMessage(inbound));
+    });
+
+    this.client.on('disconnected', (reason) => {
+      this.handlers.onDisconnected(String(reason), reason === 'LOGOUT');
+    });
+
+    await this.client.initialize();
+  }
+
+  async sendText(to: string, text: string): Promise<string> {
+    const sent = await this.client.sendMessage(this.chatId(to), text);
+    return sent.id._serialized;
+  }
+
+  async sendMedia(to: string, media: OutboundMedia, caption: string): Promise<string> {
+    const content = media.path ? MessageMedia.fromFilePath(media.path) : await MessageMedia.fromUrl(media.url!);
+    const sent = await this.client.sendMessage(this.chatId(to), content, { caption });
+    return sent.id._serialized;
+  }
+
+  async requestPairingCode(): Promise<void> {
+    if (!this.options.pairingPhoneNumber) {
+      throw new Error('No pairing phone number for this session');
+    }
+    // Fires the 'code' event with the new code
+    await this.client.requestPairingCode(
+      this.options.pairingPhoneNumber,
+      true,
+      this.options.pairingCodeInterval,
+    );
+  }
+
+  async destroy(): Promise<void> {
+    await this.client?.destroy();
+  }
+
+  // whatsapp-web.js uses format: number@c.us
+  private chatId(to: string): string {
+    return `${to}@c.us`;
+  }
+
+  private async toInbound(message: Message) {
+    let name: string | null = null;
+    let number = message.from.split('@')[0];
+    try {
+      const contact = await message.getContact();
+      name = contact.pushname || contact.name || null;
+      // @lid chat ids are not phone numbers; the contact still knows the real one
+      if (contact.number) number = contact.number;
+    } catch {
+      // Contact lookup is best-effort
+    }
+
+    return {
+      chatId: message.from,
+      from: number,
+      name,
+      messageId: message.id._serialized,
+      body: message.body || '',
+      type: message.type,
+      hasMedia: message.hasMedia,
+      timestamp: new Date(message.timestamp * 1000),
+    };
+  }
+}
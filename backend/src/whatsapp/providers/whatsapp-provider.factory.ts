@@ -0,0 +1,93 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CloudApiProvider } from './cloud-api.provider';
+import { FakeProvider } from './fake.provider';
+import { WebjsProvider } from './webjs.provider';
+import {
+  WhatsappProvider,
+  WhatsappProviderHandlers,
+  WhatsappProviderOptions,
+  WhatsappProviderType,
+} from './whatsapp-provider.interface';
+
+@Injectable()
+export class WhatsappProviderFactory {
+  readonly defaultType: WhatsappProviderType;
+  private readonly graphApiUrl: string;
+  private readonly fakeEnabled: boolean;
+
+  constructor(private configService: ConfigService) {
+    this.defaultType = this.configService.get('WHATSAPP_DEFAULT_PROVIDER', WhatsappProviderType.WEBJS);
+    this.graphApiUrl = this.configService.get('WHATSAPP_CLOUD_API_URL', 'https://graph.facebook.com/v21.0');
+    this.fakeEnabled = this.configService.get('WHATSAPP_FAKE_PROVIDER_ENABLED', 'false') === 'true';
+  }
+
+  // The fake provider would "send" without sending, so it has to be switched on explicitly
+  assertAvailable(type: WhatsappProviderType, config: Record<string, any> = {}): void {
+    if (type === WhatsappProviderType.FAKE && !this.fakeEnabled) {
+      throw new BadRequestException('The fake provider is disabled (WHATSAPP_FAKE_PROVIDER_ENABLED)');
+    }
+    if (type === WhatsappProviderType.CLOUD_API && (!config.phoneNumberId || !config.accessToken)) {
+      throw new BadRequestException('Cloud API sessions need providerConfig.phoneNumberId and providerConfig.accessToken');
+    }
+  }
+
+  create(
+    type: WhatsappProviderType,
+    options: Omit<WhatsappProviderOptions, 'authDir'> & { sessionDir: string },
+    handlers: WhatsappProviderHandlers,
+  ): WhatsappProvider {
+    const { sessionDir, ...rest } = options;
+    const providerOptions: WhatsappProviderOptions = {
+      ...rest,
+      authDir: this.authDir(type, sessionDir, options.sessionId),
+    };
+
+    switch (type) {
+      case WhatsappProviderType.BAILEYS: {
+        // Loaded on first use so deployments without Baileys sessions never load it
+        const { BaileysProvider } = require('./baileys.provider');
+        return new BaileysProvider(providerOptions, handlers);
+      }
+      case WhatsappProviderType.CLOUD_API:
+        return new CloudApiProvider(providerOptions, handlers, this.graphApiUrl);
+      case WhatsappProviderType.FAKE:
+        this.assertAvailable(type);
+        return new FakeProvider(providerOptions, handlers);
+      default:
+        return new WebjsProvider(providerOptions, handlers);
+    }
+  }
+
+  // Whether a session can reconnect on startup without being linked again
+  hasStoredAuth(type: WhatsappProviderType, sessionDir: string, sessionId: number): boolean {
+    switch (type) {
+      case WhatsappProviderType.BAILEYS:
+        return fs.existsSync(path.join(this.authDir(type, sessionDir, sessionId), 'creds.json'));
+      case WhatsappProviderType.WEBJS:
+        return fs.existsSync(this.authDir(type, sessionDir, sessionId));
+      default:
+        // Credentials are on the session itself, or there's nothing to store
+        return true;
+    }
+  }
+
+  clearStoredAuth(type: WhatsappProviderType, sessionDir: string, sessionId: number): void {
+    if (type !== WhatsappProviderType.WEBJS && type !== WhatsappProviderType.BAILEYS) return;
+
+    const dir = this.authDir(type, sessionDir, sessionId);
+    if (fs.existsSync(dir)) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  }
+
+  private authDir(type: WhatsappProviderType, sessionDir: string, sessionId: number): string {
+    // LocalAuth prefixes its clientId ("session-<id>") with "session-" again
+    return path.join(
+      sessionDir,
+      type === WhatsappProviderType.BAILEYS ? `baileys-${sessionId}` : `session-session-${sessionId}`,
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { MessageStatus } from '../message-log.entity';
+
+export enum WhatsappProviderType {
+  // whatsapp-web.js driving WhatsApp Web in Chromium
+  WEBJS = 'webjs',
+  // Baileys over the WhatsApp Web websocket, no browser
+  BAILEYS = 'baileys',
+  // Official WhatsApp Business Cloud API
+  CLOUD_API = 'cloud_api',
+  // In-memory client for tests and local development
+  FAKE = 'fake',
+}
+
+// A message received by a provider, before phone normalization
+export interface ProviderInboundMessage {
+  chatId: string;
+  // Sender's number as digits with country code, when the provider knows it
+  from: string | null;
+  name: string | null;
+  messageId: string;
+  body: string;
+  type: string;
+  hasMedia: boolean;
+  timestamp: Date;
+}
+
+// Either a local file or a public URL
+export interface OutboundMedia {
+  path?: string;
+  url?: string;
+}
+
+// Acks the service tracks; SENT is recorded when the send call returns
+export type ProviderAckStatus = MessageStatus.DELIVERED | MessageStatus.READ | MessageStatus.FAILED;
+
+// Callbacks a provider reports its connection and traffic through
+export interface WhatsappProviderHandlers {
+  onQr(qr: string): void;
+  onPairingCode(code: string, expiresAt: Date): void;
+  onAuthenticated(): void;
+  onAuthFailure(message: string): void;
+  onReady(phoneNumber: string | null): void;
+  // loggedOut: the phone unlinked the device, so stored auth is useless
+  onDisconnected(reason: string, loggedOut: boolean): void;
+  onAck(messageId: string, status: ProviderAckStatus): void;
+  onMessage(message: ProviderInboundMessage): void;
+}
+
+export interface WhatsappProviderOptions {
+  sessionId: number;
+  // Directory for providers that keep auth state on disk
+  authDir: string;
+  // Link by pairing code for this number (digits with country code) instead of QR
+  pairingPhoneNumber?: string;
+  pairingCodeInterval: number;
+  // Provider-specific settings stored on the session
+  config: Record<string, any>;
+}
+
+// Recipients are passed as digits with country code; each adapter builds its own address
+export interface WhatsappProvider {
+  readonly type: WhatsappProviderType;
+  readonly supportsPairingCode: boolean;
+
+  connect(): Promise<void>;
+  // Both return the provider's message id, which acks refer to
+  sendText(to: string, text: string): Promise<string>;
+  sendMedia(to: string, media: OutboundMedia, caption: string): Promise<string>;
+  requestPairingCode(): Promise<void>;
+  // Close the connection but keep stored auth
+  destroy(): Promise<void>;
+}
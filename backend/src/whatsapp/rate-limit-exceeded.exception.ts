@@ -0,0 +1,11 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+export class RateLimitExceededException extends HttpException {
+  // Milliseconds until the session's rate window resets
+  readonly waitTime: number;
+
+  constructor(waitTime: number) {
+    super(`Rate limit exceeded. Please wait ${Math.ceil(waitTime / 1000)} seconds.`, HttpStatus.TOO_MANY_REQUESTS);
+    this.waitTime = waitTime;
+  }
+}
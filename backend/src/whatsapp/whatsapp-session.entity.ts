@@ -6,8 +6,11 @@ import {
   UpdateDateColumn,
   ManyToOne,
   JoinColumn,
+  Index,
 } from 'typeorm';
+import { Organization } from '../organizations/organization.entity';
 import { User } from '../users/user.entity';
+import { WhatsappProviderType } from './providers/whatsapp-provider.interface';
 
 export enum SessionStatus {
   PENDING = 'pending',
@@ -24,6 +27,10 @@ export class WhatsappSession {
   @Column()
   userId: number;
 
+  @Index()
+  @Column({ nullable: true })
+  organizationId: number;
+
   @Column()
   sessionName: string;
 
@@ -40,6 +47,17 @@ export class WhatsappSession {
   @Column({ nullable: true })
   phoneNumber: string;
 
+  @Column({
+    type: 'enum',
+    enum: WhatsappProviderType,
+    default: WhatsappProviderType.WEBJS,
+  })
+  provider: WhatsappProviderType;
+
+  // Provider settings such as Cloud API credentials; never returned by default
+  @Column({ type: 'simple-json', nullable: true, select: false })
+  providerConfig: Record<string, any> | null;
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -49,4 +67,8 @@ export class WhatsappSession {
   @ManyToOne(() => User, (user) => user.whatsappSessions, { onDelete: 'CASCADE' })
   @JoinColumn({ name: 'userId' })
   user: User;
+
+  @ManyToOne(() => Organization, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'organizationId' })
+  organization: Organization;
 }
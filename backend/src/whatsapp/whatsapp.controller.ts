@@ -7,68 +7,81 @@ import {
   Param,
   Query,
   UseGuards,
+  UseInterceptors,
   ParseIntPipe,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiHeader } from '@nestjs/swagger';
 import { WhatsappService } from './whatsapp.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { OrganizationRoleGuard } from '../common/guards/organization-role.guard';
 import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { RequireOrganizationRole } from '../common/decorators/organization-role.decorator';
+import { OrganizationRole } from '../organizations/organization-member.entity';
 import { CreateSessionDto } from './dto/create-session.dto';
 import { SendMessageDto } from './dto/send-message.dto';
+import { IdempotencyInterceptor } from '../idempotency/idempotency.interceptor';
 
 @ApiTags('WhatsApp')
 @Controller('whatsapp')
-@UseGuards(JwtAuthGuard)
+@UseGuards(JwtAuthGuard, OrganizationRoleGuard)
 @ApiBearerAuth()
 export class WhatsappController {
   constructor(private whatsappService: WhatsappService) {}
 
   @Post('sessions')
+  @RequireOrganizationRole(OrganizationRole.MANAGER)
   @ApiOperation({ summary: 'Create a new WhatsApp session' })
   async createSession(
-    @CurrentUser() user: { userId: number },
+    @CurrentUser() user: { userId: number; organizationId: number },
     @Body() createSessionDto: CreateSessionDto,
   ) {
     const session = await this.whatsappService.createSession(
+      user.organizationId,
       user.userId,
       createSessionDto.sessionName,
+      createSessionDto.provider,
+      createSessionDto.providerConfig,
     );
     return { session, message: 'Session created. Connect via WebSocket to get QR code.' };
   }
 
   @Get('sessions')
-  @ApiOperation({ summary: 'Get all WhatsApp sessions for current user' })
-  async getSessions(@CurrentUser() user: { userId: number }) {
-    return this.whatsappService.getSessions(user.userId);
+  @ApiOperation({ summary: 'Get all WhatsApp sessions of the current organization' })
+  async getSessions(@CurrentUser() user: { organizationId: number }) {
+    return this.whatsappService.getSessions(user.organizationId);
   }
 
   @Get('sessions/:id')
   @ApiOperation({ summary: 'Get a specific WhatsApp session' })
   async getSession(
-    @CurrentUser() user: { userId: number },
+    @CurrentUser() user: { organizationId: number },
     @Param('id', ParseIntPipe) id: number,
   ) {
-    return this.whatsappService.getSession(id, user.userId);
+    return this.whatsappService.getSession(id, user.organizationId);
   }
 
   @Delete('sessions/:id')
+  @RequireOrganizationRole(OrganizationRole.MANAGER)
   @ApiOperation({ summary: 'Delete a WhatsApp session' })
   async deleteSession(
-    @CurrentUser() user: { userId: number },
+    @CurrentUser() user: { organizationId: number },
     @Param('id', ParseIntPipe) id: number,
   ) {
-    const deleted = await this.whatsappService.deleteSession(id, user.userId);
+    const deleted = await this.whatsappService.deleteSession(id, user.organizationId);
     return { success: deleted };
   }
 
   @Post('sessions/:id/send')
+  @RequireOrganizationRole(OrganizationRole.AGENT)
+  @UseInterceptors(IdempotencyInterceptor)
   @ApiOperation({ summary: 'Send a message via WhatsApp' })
+  @ApiHeader({ name: 'Idempotency-Key', required: false, description: 'Retries with the same key return the first result' })
   async sendMessage(
-    @CurrentUser() user: { userId: number },
+    @CurrentUser() user: { userId: number; organizationId: number },
     @Param('id', ParseIntPipe) sessionId: number,
     @Body() sendMessageDto: SendMessageDto,
   ) {
-    const session = await this.whatsappService.getSession(sessionId, user.userId);
+    const session = await this.whatsappService.getSession(sessionId, user.organizationId);
     if (!session) {
       return { success: false, error: 'Session not found' };
     }
@@ -76,10 +89,12 @@ export class WhatsappController {
     try {
       const log = await this.whatsappService.sendMessage(
         sessionId,
-        user.userId,
+        user.organizationId,
         sendMessageDto.recipient,
         sendMessageDto.message,
         sendMessageDto.mediaPath,
+        undefined,
+        { userId: user.userId },
       );
       return { success: true, messageLog: log };
     } catch (error) {
@@ -90,20 +105,20 @@ export class WhatsappController {
   @Get('messages')
   @ApiOperation({ summary: 'Get message logs' })
   async getMessageLogs(
-    @CurrentUser() user: { userId: number },
+    @CurrentUser() user: { organizationId: number },
     @Query('limit') limit?: number,
     @Query('offset') offset?: number,
   ) {
-    return this.whatsappService.getMessageLogs(user.userId, limit || 100, offset || 0);
+    return this.whatsappService.getMessageLogs(user.organizationId, limit || 100, offset || 0);
   }
 
   @Get('sessions/:id/messages')
   @ApiOperation({ summary: 'Get message logs for a session' })
   async getSessionMessages(
-    @CurrentUser() user: { userId: number },
+    @CurrentUser() user: { organizationId: number },
     @Param('id', ParseIntPipe) sessionId: number,
     @Query('limit') limit?: number,
   ) {
-    return this.whatsappService.getSessionMessageLogs(sessionId, user.userId, limit || 100);
+    return this.whatsappService.getSessionMessageLogs(sessionId, user.organizationId, limit || 100);
   }
 }
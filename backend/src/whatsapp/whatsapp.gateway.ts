@@ -4,13 +4,19 @@ import {
   SubscribeMessage,
   OnGatewayConnection,
   OnGatewayDisconnect,
+  OnGatewayInit,
   MessageBody,
   ConnectedSocket,
 } from '@nestjs/websockets';
-import { Server, Socket } from 'socket.io';
+import { Namespace, Socket } from 'socket.io';
 import { Logger } from '@nestjs/common';
-import { WhatsappService } from './whatsapp.service';
+import { WhatsappService, PairingRequest } from './whatsapp.service';
+import { AuthService, AuthenticatedUser } from '../auth/auth.service';
+import { OrganizationsService } from '../organizations/organizations.service';
+import { OrganizationRole, hasOrganizationRole } from '../organizations/organization-member.entity';
 
+// Sockets authenticate with their JWT in the handshake (auth.token) and join rooms
+// for their user, their organization and each session they follow
 @WebSocketGateway({
   cors: {
     origin: true,
@@ -18,108 +24,191 @@ import { WhatsappService } from './whatsapp.service';
   },
   namespace: '/whatsapp',
 })
-export class WhatsappGateway implements OnGatewayConnection, OnGatewayDisconnect {
+export class WhatsappGateway implements OnGatewayInit, OnGatewayConnection, OnGatewayDisconnect {
   @WebSocketServer()
-  server: Server;
+  server: Namespace;
 
   private readonly logger = new Logger(WhatsappGateway.name);
-  private clientSessions: Map<string, { userId: number; sessionId?: number; socket: Socket }> = new Map();
 
-  constructor(private whatsappService: WhatsappService) {}
+  constructor(
+    private whatsappService: WhatsappService,
+    private authService: AuthService,
+    private organizationsService: OrganizationsService,
+  ) {}
+
+  // Runs before the connection is accepted, so no event is handled for an unauthenticated socket
+  afterInit(server: Namespace) {
+    // Rooms and roles are fixed at connect, so a member whose role changes or who is removed is
+    // dropped; reconnecting authenticates again with the current membership
+    this.organizationsService.onMembershipChanged((organizationId, userId) =>
+      this.disconnectMember(organizationId, userId),
+    );
+
+    server.use(async (socket, next) => {
+      const header = socket.handshake.headers.authorization;
+      const token = socket.handshake.auth?.token || (header?.startsWith('Bearer ') ? header.slice(7) : undefined);
+      if (!token) {
+        return next(new Error('Authentication required'));
+      }
+
+      try {
+        socket.data.user = await this.authService.verifyToken(token);
+        next();
+      } catch (error: any) {
+        next(new Error(error.message || 'Unauthorized'));
+      }
+    });
+  }
 
   handleConnection(client: Socket) {
-    this.logger.log(`Client connected: ${client.id}`);
+    const user: AuthenticatedUser = client.data.user;
+    client.join([this.userRoom(user.userId), this.organizationRoom(user.organizationId)]);
+    this.logger.log(`Client ${client.id} connected as user ${user.userId} (organization ${user.organizationId})`);
   }
 
   handleDisconnect(client: Socket) {
     this.logger.log(`Client disconnected: ${client.id}`);
-    this.clientSessions.delete(client.id);
   }
 
-  @SubscribeMessage('authenticate')
-  handleAuthenticate(
+  @SubscribeMessage('initSession')
+  async handleInitSession(
     @ConnectedSocket() client: Socket,
-    @MessageBody() data: { userId: number },
+    @MessageBody() data: { sessionId: number },
   ) {
-    this.clientSessions.set(client.id, { userId: data.userId, socket: client });
-    client.emit('authenticated', { success: true });
-    this.logger.log(`Client ${client.id} authenticated as user ${data.userId}`);
+    await this.startSession(client, Number(data.sessionId));
   }
 
-  @SubscribeMessage('initSession')
-  async handleInitSession(
+  @SubscribeMessage('initSessionWithPhone')
+  async handleInitSessionWithPhone(
     @ConnectedSocket() client: Socket,
-    @MessageBody() data: { sessionId: number; userId: number },
+    @MessageBody() data: { sessionId: number; phoneNumber: string },
   ) {
-    const { sessionId, userId } = data;
-    this.logger.log(`Initializing session ${sessionId} for user ${userId}`);
+    const sessionId = Number(data.sessionId);
+    const user: AuthenticatedUser = client.data.user;
 
-    this.clientSessions.set(client.id, { userId, sessionId, socket: client });
+    let phoneNumber: string;
+    try {
+      phoneNumber = await this.whatsappService.resolvePairingNumber(user.organizationId, String(data.phoneNumber || ''));
+    } catch (error: any) {
+      client.emit('error', { message: error.message, sessionId });
+      return;
+    }
+
+    await this.startSession(client, sessionId, {
+      phoneNumber,
+      onCode: (code, expiresAt) => {
+        this.emitToSession(sessionId, 'pairingCode', { code, sessionId, expiresAt });
+      },
+    });
+  }
+
+  @SubscribeMessage('refreshPairingCode')
+  async handleRefreshPairingCode(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { sessionId: number },
+  ) {
+    const sessionId = Number(data.sessionId);
+    const session = await this.findManagedSession(client, sessionId);
+    if (!session) return;
 
     try {
-      await this.whatsappService.initializeClient(
-        sessionId,
-        userId,
-        (qr) => {
-          client.emit('qr', { qr, sessionId });
-        },
-        (status, statusData) => {
-          client.emit('status', { status, sessionId, ...statusData });
-        },
-      );
+      await this.whatsappService.refreshPairingCode(sessionId);
     } catch (error: any) {
       client.emit('error', { message: error.message, sessionId });
     }
   }
 
-  @SubscribeMessage('initSessionWithPhone')
-  async handleInitSessionWithPhone(
+  @SubscribeMessage('checkSession')
+  async handleCheckSession(
     @ConnectedSocket() client: Socket,
-    @MessageBody() data: { sessionId: number; userId: number; phoneNumber: string },
+    @MessageBody() data: { sessionId: number },
   ) {
-    // whatsapp-web.js doesn't support pairing codes, redirect to QR method
-    const { sessionId, userId } = data;
-    this.logger.log(`Pairing code not supported with whatsapp-web.js, using QR for session ${sessionId}`);
-
-    client.emit('status', {
-      status: 'info',
-      sessionId,
-      message: 'Pairing code not supported. Please use QR code instead.'
-    });
+    const sessionId = Number(data.sessionId);
+    // The session room receives QR and pairing codes, so only managers may follow it
+    const session = await this.findManagedSession(client, sessionId);
+    if (!session) return;
+
+    client.join(this.sessionRoom(sessionId));
+    client.emit('sessionStatus', { sessionId, isActive: this.whatsappService.isSessionActive(sessionId) });
+  }
+
+  emitToOrganization(organizationId: number, event: string, data: any) {
+    this.server.to(this.organizationRoom(organizationId)).emit(event, data);
+  }
+
+  emitToUser(userId: number, event: string, data: any) {
+    this.server.to(this.userRoom(userId)).emit(event, data);
+  }
+
+  emitToSession(sessionId: number, event: string, data: any) {
+    this.server.to(this.sessionRoom(sessionId)).emit(event, data);
+  }
+
+  // Sockets only authenticate on connect, so suspended users are dropped explicitly
+  disconnectUser(userId: number) {
+    this.server.in(this.userRoom(userId)).disconnectSockets(true);
+  }
+
+  private async disconnectMember(organizationId: number, userId: number) {
+    const sockets = await this.server.in(this.userRoom(userId)).fetchSockets();
+    for (const socket of sockets) {
+      if ((socket.data.user as AuthenticatedUser).organizationId === organizationId) {
+        socket.disconnect(true);
+      }
+    }
+  }
+
+  // Connecting or following a session is a manager action on a session of the member's own organization
+  private async findManagedSession(client: Socket, sessionId: number) {
+    const user: AuthenticatedUser = client.data.user;
+    if (!hasOrganizationRole(user.organizationRole, OrganizationRole.MANAGER)) {
+      client.emit('error', { message: 'Managing sessions requires the manager role', sessionId });
+      return null;
+    }
 
-    // Fall back to QR code method
-    this.clientSessions.set(client.id, { userId, sessionId, socket: client });
+    const session = await this.whatsappService.getSession(sessionId, user.organizationId);
+    if (!session) {
+      client.emit('error', { message: 'Session not found', sessionId });
+      return null;
+    }
+    return session;
+  }
+
+  // Links by QR code, or by pairing code when a pairing request is given
+  private async startSession(client: Socket, sessionId: number, pairing?: PairingRequest): Promise<void> {
+    const session = await this.findManagedSession(client, sessionId);
+    if (!session) return;
+
+    this.logger.log(`Initializing session ${sessionId} for organization ${session.organizationId}`);
+    client.join(this.sessionRoom(sessionId));
 
     try {
       await this.whatsappService.initializeClient(
         sessionId,
-        userId,
+        session.organizationId,
         (qr) => {
-          client.emit('qr', { qr, sessionId });
+          this.emitToSession(sessionId, 'qr', { qr, sessionId });
         },
         (status, statusData) => {
-          client.emit('status', { status, sessionId, ...statusData });
+          this.emitToSession(sessionId, 'status', { status, sessionId, ...statusData });
         },
+        0,
+        pairing,
       );
     } catch (error: any) {
       client.emit('error', { message: error.message, sessionId });
     }
   }
 
-  @SubscribeMessage('checkSession')
-  async handleCheckSession(
-    @ConnectedSocket() client: Socket,
-    @MessageBody() data: { sessionId: number },
-  ) {
-    const isActive = this.whatsappService.isSessionActive(data.sessionId);
-    client.emit('sessionStatus', { sessionId: data.sessionId, isActive });
+  private userRoom(userId: number): string {
+    return `user:${userId}`;
   }
 
-  emitToUser(userId: number, event: string, data: any) {
-    for (const [, session] of this.clientSessions) {
-      if (session.userId === userId && session.socket) {
-        session.socket.emit(event, data);
-      }
-    }
+  private organizationRoom(organizationId: number): string {
+    return `organization:${organizationId}`;
+  }
+
+  private sessionRoom(sessionId: number): string {
+    return `session:${sessionId}`;
   }
 }
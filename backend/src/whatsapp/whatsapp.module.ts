@@ -5,13 +5,32 @@ import { WhatsappController } from './whatsapp.controller';
 import { WhatsappGateway } from './whatsapp.gateway';
 import { WhatsappSession } from './whatsapp-session.entity';
 import { MessageLog } from './message-log.entity';
+import { AutoReplyRule } from './auto-reply-rule.entity';
+import { AutoReplyService } from './auto-reply.service';
+import { AutoReplyController } from './auto-reply.controller';
+import { CloudApiWebhookController } from './cloud-api-webhook.controller';
+import { WhatsappProviderFactory } from './providers/whatsapp-provider.factory';
+import { PhoneModule } from '../phone/phone.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
+import { SuppressionModule } from '../suppression/suppression.module';
+import { CreditsModule } from '../credits/credits.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { AuthModule } from '../auth/auth.module';
+import { OrganizationsModule } from '../organizations/organizations.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([WhatsappSession, MessageLog]),
+    TypeOrmModule.forFeature([WhatsappSession, MessageLog, AutoReplyRule]),
+    PhoneModule,
+    WebhooksModule,
+    SuppressionModule,
+    CreditsModule,
+    IdempotencyModule,
+    AuthModule,
+    OrganizationsModule,
   ],
-  providers: [WhatsappService, WhatsappGateway],
-  controllers: [WhatsappController],
-  exports: [WhatsappService],
+  providers: [WhatsappService, WhatsappGateway, AutoReplyService, WhatsappProviderFactory],
+  controllers: [WhatsappController, AutoReplyController, CloudApiWebhookController],
+  exports: [WhatsappService, WhatsappGateway],
 })
 export class WhatsappModule {}
@@ -1,4 +1,12 @@
-import { Injectable, OnModuleDestroy, OnModuleInit, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  OnModuleDestroy,
+  OnModuleInit,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { ConfigService } from '@nestjs/config';
@@ -6,19 +14,71 @@ import * as path from 'path';
 import * as fs from 'fs';
 import { WhatsappSession, SessionStatus } from './whatsapp-session.entity';
 import { MessageLog, MessageStatus, MessageSource } from './message-log.entity';
+import { PhoneNumberService, NormalizedPhoneNumber } from '../phone/phone-number.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { WebhookEvent } from '../webhooks/webhook-endpoint.entity';
+import { AutoReplyService, AutoReplyContext } from './auto-reply.service';
+import { RateLimitExceededException } from './rate-limit-exceeded.exception';
+import { ReplyType } from './auto-reply-rule.entity';
+import { SuppressionService } from '../suppression/suppression.service';
+import { CreditsService, BillingChannel, CreditReference } from '../credits/credits.service';
+import { CreditReferenceType } from '../credits/credit-transaction.entity';
+import { WhatsappProviderFactory } from './providers/whatsapp-provider.factory';
+import { CloudApiProvider } from './providers/cloud-api.provider';
+import {
+  ProviderAckStatus,
+  ProviderInboundMessage,
+  WhatsappProvider,
+  WhatsappProviderHandlers,
+  WhatsappProviderType,
+} from './providers/whatsapp-provider.interface';
+
+export interface SendOptions {
+  // Country for numbers without a country code (defaults to the organization's)
+  defaultCountry?: string;
+  // Member the send is made for, recorded on the log and the credit ledger
+  userId?: number | null;
+  // API key the send was made with, for per-key webhooks
+  apiKeyId?: number;
+  // Auto-responder rule that triggered the send
+  autoReplyRuleId?: number;
+  // Log the message as SUPPRESSED instead of sending if the recipient opted out
+  checkSuppression?: boolean;
+  // Campaign the send belongs to, recorded on the credit ledger
+  campaignId?: number;
+}
 
-// whatsapp-web.js imports
-import { Client, LocalAuth, MessageMedia } from 'whatsapp-web.js';
+// A message received on a session, independent of the client library
+export interface IncomingMessage {
+  sessionId: number;
+  organizationId: number;
+  // Chat id of the sender (e.g. 919876543210@c.us)
+  chatId: string;
+  // E.164 number of the sender, when it can be resolved
+  phoneNumber: string | null;
+  name: string | null;
+  whatsappMessageId: string;
+  body: string;
+  type: string;
+  hasMedia: boolean;
+  timestamp: Date;
+}
 
 interface ActiveClient {
-  client: Client;
+  provider: WhatsappProvider;
   sessionId: number;
-  userId: number;
+  organizationId: number;
   retryCount: number;
   lastActivity: Date;
   isReady: boolean;
 }
 
+// Phone-number linking in progress for a session
+export interface PairingRequest {
+  phoneNumber: string; // digits with country code, no +
+  onCode: (code: string, expiresAt: Date) => void;
+}
+
 // Rate limiter for messages
 interface RateLimitEntry {
   count: number;
@@ -31,6 +91,18 @@ export class WhatsappService implements OnModuleDestroy, OnModuleInit {
   private clients: Map<number, ActiveClient> = new Map();
   private qrCallbacks: Map<number, (qr: string) => void> = new Map();
   private statusCallbacks: Map<number, (status: string, data?: any) => void> = new Map();
+  private pairingRequests: Map<number, PairingRequest> = new Map();
+  private reconnectTimers: Map<number, NodeJS.Timeout> = new Map();
+  private messageStatusListeners: ((log: MessageLog) => void | Promise<void>)[] = [];
+  private incomingMessageListeners: ((message: IncomingMessage) => void | Promise<void>)[] = [];
+
+  // Order in which delivery states may advance; acks never move a message backwards
+  private readonly STATUS_RANK: Partial<Record<MessageStatus, number>> = {
+    [MessageStatus.PENDING]: 0,
+    [MessageStatus.SENT]: 1,
+    [MessageStatus.DELIVERED]: 2,
+    [MessageStatus.READ]: 3,
+  };
 
   // Rate limiting: max 30 messages per minute per session
   private rateLimits: Map<number, RateLimitEntry> = new Map();
@@ -39,20 +111,31 @@ export class WhatsappService implements OnModuleDestroy, OnModuleInit {
 
   // Retry configuration
   private readonly MAX_RETRIES = 5;
-  private readonly BASE_RETRY_DELAY = 5000; // 5 seconds
+  private readonly BASE_RETRY_DELAY: number; // 5 seconds by default, doubled per attempt
   private readonly MAX_RETRY_DELAY = 300000; // 5 minutes
 
-  // Session directory for whatsapp-web.js
+  // Where web.js and Baileys sessions keep their auth state
   private readonly SESSION_DIR: string;
 
+  // How long a pairing code stays valid before WhatsApp Web issues a new one
+  private readonly PAIRING_CODE_INTERVAL: number;
+
   constructor(
     @InjectRepository(WhatsappSession)
     private sessionRepository: Repository<WhatsappSession>,
     @InjectRepository(MessageLog)
     private messageLogRepository: Repository<MessageLog>,
     private configService: ConfigService,
+    private phoneNumberService: PhoneNumberService,
+    private webhooksService: WebhooksService,
+    private autoReplyService: AutoReplyService,
+    private suppressionService: SuppressionService,
+    private creditsService: CreditsService,
+    private providerFactory: WhatsappProviderFactory,
   ) {
     this.SESSION_DIR = this.configService.get<string>('WHATSAPP_SESSION_PATH') || './whatsapp-sessions';
+    this.PAIRING_CODE_INTERVAL = Number(this.configService.get('WHATSAPP_PAIRING_CODE_INTERVAL', 180000));
+    this.BASE_RETRY_DELAY = Number(this.configService.get('WHATSAPP_RECONNECT_DELAY', 5000));
     // Ensure session directory exists
     if (!fs.existsSync(this.SESSION_DIR)) {
       fs.mkdirSync(this.SESSION_DIR, { recursive: true });
@@ -61,7 +144,7 @@ export class WhatsappService implements OnModuleDestroy, OnModuleInit {
 
   // Auto-reconnect sessions on startup
   async onModuleInit() {
-    this.logger.log('WhatsApp Service (whatsapp-web.js) initializing...');
+    this.logger.log('WhatsApp Service initializing...');
 
     try {
       // Find all sessions that were connected
@@ -72,11 +155,10 @@ export class WhatsappService implements OnModuleDestroy, OnModuleInit {
       this.logger.log(`Found ${sessionsToRestore.length} sessions to restore`);
 
       for (const session of sessionsToRestore) {
-        // Check if session folder exists (has auth data)
-        const sessionPath = path.join(this.SESSION_DIR, `session-${session.id}`);
-        if (fs.existsSync(sessionPath)) {
+        // Check if the session has stored auth data
+        if (this.providerFactory.hasStoredAuth(session.provider, this.SESSION_DIR, session.id)) {
           this.logger.log(`Auto-restoring session ${session.id} (${session.sessionName})`);
-          this.initializeClient(session.id, session.userId).catch(err => {
+          this.initializeClient(session.id, session.organizationId).catch(err => {
             this.logger.error(`Failed to auto-restore session ${session.id}: ${err.message}`);
           });
           // Delay between session inits
@@ -93,9 +175,11 @@ export class WhatsappService implements OnModuleDestroy, OnModuleInit {
 
   async onModuleDestroy() {
     this.logger.log('WhatsApp Service shutting down...');
+    this.reconnectTimers.forEach((timer) => clearTimeout(timer));
+    this.reconnectTimers.clear();
     for (const [sessionId, activeClient] of this.clients) {
       try {
-        await activeClient.client.destroy();
+        await activeClient.provider.destroy();
       } catch (error) {
         this.logger.error(`Error destroying client ${sessionId}: ${error.message}`);
       }
@@ -133,28 +217,52 @@ export class WhatsappService implements OnModuleDestroy, OnModuleInit {
     return { allowed: true };
   }
 
-  async createSession(userId: number, sessionName: string): Promise<WhatsappSession> {
+  async createSession(
+    organizationId: number,
+    userId: number,
+    sessionName: string,
+    provider: WhatsappProviderType = this.providerFactory.defaultType,
+    providerConfig?: Record<string, any>,
+  ): Promise<WhatsappSession> {
+    this.providerFactory.assertAvailable(provider, providerConfig);
+
     const session = this.sessionRepository.create({
+      organizationId,
       userId,
       sessionName,
+      provider,
+      providerConfig: providerConfig || null,
       status: SessionStatus.PENDING,
     });
-    return this.sessionRepository.save(session);
+    await this.sessionRepository.save(session);
+
+    // Reload without providerConfig so credentials aren't echoed back
+    return this.sessionRepository.findOneOrFail({ where: { id: session.id } });
+  }
+
+  // providerConfig is not selected by default since it can hold credentials
+  private async findSessionWithConfig(sessionId: number): Promise<WhatsappSession | null> {
+    return this.sessionRepository
+      .createQueryBuilder('session')
+      .addSelect('session.providerConfig')
+      .where('session.id = :sessionId', { sessionId })
+      .getOne();
   }
 
   async initializeClient(
     sessionId: number,
-    userId: number,
+    organizationId: number,
     onQr?: (qr: string) => void,
     onStatus?: (status: string, data?: any) => void,
     retryCount: number = 0,
+    pairing?: PairingRequest,
   ): Promise<void> {
     // Close existing connection if any
     if (this.clients.has(sessionId)) {
       const existing = this.clients.get(sessionId);
       if (existing) {
         try {
-          await existing.client.destroy();
+          await existing.provider.destroy();
         } catch (e) {}
       }
       this.clients.delete(sessionId);
@@ -163,75 +271,71 @@ export class WhatsappService implements OnModuleDestroy, OnModuleInit {
     if (onQr) this.qrCallbacks.set(sessionId, onQr);
     if (onStatus) this.statusCallbacks.set(sessionId, onStatus);
 
-    this.logger.log(`Initializing whatsapp-web.js client for session ${sessionId} (attempt ${retryCount + 1}/${this.MAX_RETRIES + 1})`);
-
-    try {
-      // Create client with LocalAuth for session persistence
-      const puppeteerOptions: any = {
-        headless: true,
-        args: [
-          '--no-sandbox',
-          '--disable-setuid-sandbox',
-          '--disable-dev-shm-usage',
-          '--disable-accelerated-2d-canvas',
-          '--no-first-run',
-          '--no-zygote',
-          '--single-process',
-          '--disable-gpu',
-        ],
-      };
-
-      // Use system Chromium if available (for Docker/Railway)
-      if (process.env.PUPPETEER_EXECUTABLE_PATH) {
-        puppeteerOptions.executablePath = process.env.PUPPETEER_EXECUTABLE_PATH;
-        this.logger.log(`Using Chromium at: ${process.env.PUPPETEER_EXECUTABLE_PATH}`);
+    // A fresh start picks the linking method; reconnect attempts keep the current one
+    if (retryCount === 0) {
+      if (pairing) {
+        this.pairingRequests.set(sessionId, pairing);
+      } else {
+        this.pairingRequests.delete(sessionId);
       }
+    }
+    const pairingRequest = this.pairingRequests.get(sessionId);
 
-      const client = new Client({
-        authStrategy: new LocalAuth({
-          clientId: `session-${sessionId}`,
-          dataPath: this.SESSION_DIR,
-        }),
-        puppeteer: puppeteerOptions,
-      });
+    const session = await this.findSessionWithConfig(sessionId);
+    if (!session) {
+      throw new NotFoundException('Session not found');
+    }
 
-      // Store client
-      this.clients.set(sessionId, {
-        client,
-        sessionId,
-        userId,
-        retryCount,
-        lastActivity: new Date(),
-        isReady: false,
-      });
+    let qrNotified = false;
+
+    this.logger.log(
+      `Initializing ${session.provider} client for session ${sessionId} (attempt ${retryCount + 1}/${this.MAX_RETRIES + 1})`,
+    );
+
+    // Both QR codes and pairing codes rotate; only notify webhooks about the first one
+    const notifyLinkRequired = (method: string) => {
+      if (qrNotified) return;
+      qrNotified = true;
+      this.emitSessionEvent(organizationId, WebhookEvent.SESSION_QR_REQUIRED, sessionId, { method });
+    };
 
+    const handlers: WhatsappProviderHandlers = {
       // QR Code event
-      client.on('qr', (qr) => {
+      onQr: (qr) => {
         this.logger.log(`QR code generated for session ${sessionId}`);
         const callback = this.qrCallbacks.get(sessionId);
         if (callback) callback(qr);
-      });
+        notifyLinkRequired('qr');
+      },
+
+      onPairingCode: (code, expiresAt) => {
+        this.logger.log(`Pairing code generated for session ${sessionId}`);
+        const request = this.pairingRequests.get(sessionId);
+        if (request) request.onCode(code, expiresAt);
+        notifyLinkRequired('pairing_code');
+      },
 
       // Authentication success
-      client.on('authenticated', () => {
+      onAuthenticated: () => {
         this.logger.log(`Session ${sessionId} authenticated`);
         const statusCallback = this.statusCallbacks.get(sessionId);
         if (statusCallback) statusCallback('authenticated');
-      });
+      },
 
       // Auth failure
-      client.on('auth_failure', async (msg) => {
+      onAuthFailure: async (msg) => {
         this.logger.error(`Auth failure for session ${sessionId}: ${msg}`);
         await this.sessionRepository.update(sessionId, {
           status: SessionStatus.FAILED,
         });
         const statusCallback = this.statusCallbacks.get(sessionId);
         if (statusCallback) statusCallback('error', { error: 'Authentication failed', details: msg });
-      });
+      },
 
       // Ready event - fully connected
-      client.on('ready', async () => {
+      onReady: async (phoneNumber) => {
         this.logger.log(`Client ready for session ${sessionId}`);
+        this.pairingRequests.delete(sessionId);
 
         const activeClient = this.clients.get(sessionId);
         if (activeClient) {
@@ -240,38 +344,49 @@ export class WhatsappService implements OnModuleDestroy, OnModuleInit {
           activeClient.lastActivity = new Date();
         }
 
-        // Get phone number
-        const info = client.info;
-        const phoneNumber = info?.wid?.user || info?.wid?._serialized?.split('@')[0];
-
         await this.sessionRepository.update(sessionId, {
           status: SessionStatus.CONNECTED,
-          phoneNumber: phoneNumber,
+          phoneNumber: phoneNumber ?? undefined,
         });
 
         const statusCallback = this.statusCallbacks.get(sessionId);
         if (statusCallback) statusCallback('ready', { phoneNumber });
-      });
+        this.emitSessionEvent(organizationId, WebhookEvent.SESSION_CONNECTED, sessionId, { phoneNumber });
+      },
+
+      // Delivery / read receipts for messages we sent
+      onAck: (whatsappMessageId, status) => {
+        this.handleMessageAck(whatsappMessageId, status).catch((err) =>
+          this.logger.error(`Failed to process ack for session ${sessionId}: ${err.message}`),
+        );
+      },
+
+      // Incoming messages (one-to-one chats only)
+      onMessage: (message) => {
+        this.handleIncomingMessage(sessionId, organizationId, message).catch((err) =>
+          this.logger.error(`Failed to process incoming message for session ${sessionId}: ${err.message}`),
+        );
+      },
 
       // Disconnected event
-      client.on('disconnected', async (reason) => {
+      onDisconnected: async (reason, loggedOut) => {
         this.logger.warn(`Session ${sessionId} disconnected: ${reason}`);
 
         const activeClient = this.clients.get(sessionId);
         const currentRetryCount = activeClient?.retryCount || 0;
 
         this.clients.delete(sessionId);
+        this.emitSessionEvent(organizationId, WebhookEvent.SESSION_DISCONNECTED, sessionId, {
+          reason,
+          willReconnect: !loggedOut && currentRetryCount < this.MAX_RETRIES,
+        });
 
-        if (reason === 'LOGOUT') {
+        if (loggedOut) {
           // User logged out - clear session
           await this.sessionRepository.update(sessionId, {
             status: SessionStatus.DISCONNECTED,
           });
-          // Delete session folder
-          const sessionPath = path.join(this.SESSION_DIR, `session-${sessionId}`);
-          if (fs.existsSync(sessionPath)) {
-            fs.rmSync(sessionPath, { recursive: true, force: true });
-          }
+          this.providerFactory.clearStoredAuth(session.provider, this.SESSION_DIR, sessionId);
           const statusCallback = this.statusCallbacks.get(sessionId);
           if (statusCallback) statusCallback('disconnected', { reason: 'logged_out', needsReauth: true });
 
@@ -284,13 +399,15 @@ export class WhatsappService implements OnModuleDestroy, OnModuleInit {
             status: SessionStatus.PENDING,
           });
 
-          setTimeout(() => {
+          const timer = setTimeout(() => {
+            this.reconnectTimers.delete(sessionId);
             const statusCallback = this.statusCallbacks.get(sessionId);
             if (statusCallback) statusCallback('reconnecting', { attempt: currentRetryCount + 2 });
 
-            this.initializeClient(sessionId, userId, onQr, onStatus, currentRetryCount + 1)
+            this.initializeClient(sessionId, organizationId, onQr, onStatus, currentRetryCount + 1)
               .catch(err => this.logger.error(`Reconnect failed: ${err.message}`));
           }, delay);
+          this.reconnectTimers.set(sessionId, timer);
 
         } else {
           // Max retries exceeded
@@ -301,10 +418,37 @@ export class WhatsappService implements OnModuleDestroy, OnModuleInit {
           const statusCallback = this.statusCallbacks.get(sessionId);
           if (statusCallback) statusCallback('error', { maxRetriesExceeded: true });
         }
+      },
+    };
+
+    try {
+      const provider = this.providerFactory.create(
+        session.provider,
+        {
+          sessionId,
+          sessionDir: this.SESSION_DIR,
+          pairingPhoneNumber: pairingRequest?.phoneNumber,
+          pairingCodeInterval: this.PAIRING_CODE_INTERVAL,
+          config: session.providerConfig || {},
+        },
+        handlers,
+      );
+      if (pairingRequest && !provider.supportsPairingCode) {
+        throw new BadRequestException(`${session.provider} sessions can't be linked by pairing code`);
+      }
+
+      // Store client
+      this.clients.set(sessionId, {
+        provider,
+        sessionId,
+        organizationId,
+        retryCount,
+        lastActivity: new Date(),
+        isReady: false,
       });
 
       // Initialize the client
-      await client.initialize();
+      await provider.connect();
 
     } catch (error: any) {
       this.logger.error(`Failed to initialize client ${sessionId}: ${error.message}`);
@@ -318,31 +462,62 @@ export class WhatsappService implements OnModuleDestroy, OnModuleInit {
     }
   }
 
-  async getSessions(userId: number): Promise<WhatsappSession[]> {
-    return this.sessionRepository.find({ where: { userId } });
+  // Pairing codes need the full international number as digits
+  async resolvePairingNumber(organizationId: number, phoneNumber: string): Promise<string> {
+    const normalized = await this.normalizeRecipient(organizationId, phoneNumber);
+    return normalized.e164.replace(/^\+/, '');
   }
 
-  async getSession(sessionId: number, userId: number): Promise<WhatsappSession | null> {
-    return this.sessionRepository.findOne({ where: { id: sessionId, userId } });
+  // Issue a new pairing code now instead of waiting for the current one to expire
+  async refreshPairingCode(sessionId: number): Promise<void> {
+    const activeClient = this.clients.get(sessionId);
+    const request = this.pairingRequests.get(sessionId);
+    if (!activeClient || !request || activeClient.isReady) {
+      throw new BadRequestException('No pairing in progress for this session');
+    }
+
+    await activeClient.provider.requestPairingCode();
   }
 
-  async deleteSession(sessionId: number, userId: number): Promise<boolean> {
-    const session = await this.getSession(sessionId, userId);
+  // The Cloud API posts acks and inbound messages for all of its numbers to one webhook
+  handleCloudApiWebhook(payload: any): void {
+    for (const entry of payload?.entry || []) {
+      for (const change of entry.changes || []) {
+        const phoneNumberId = change.value?.metadata?.phone_number_id;
+        if (!phoneNumberId) continue;
+
+        for (const { provider } of this.clients.values()) {
+          if (provider instanceof CloudApiProvider && provider.phoneNumberId === phoneNumberId) {
+            provider.handleWebhook(change.value);
+          }
+        }
+      }
+    }
+  }
+
+  async getSessions(organizationId: number): Promise<WhatsappSession[]> {
+    return this.sessionRepository.find({ where: { organizationId } });
+  }
+
+  async getSession(sessionId: number, organizationId: number): Promise<WhatsappSession | null> {
+    return this.sessionRepository.findOne({ where: { id: sessionId, organizationId } });
+  }
+
+  async deleteSession(sessionId: number, organizationId: number): Promise<boolean> {
+    const session = await this.getSession(sessionId, organizationId);
     if (!session) return false;
 
+    this.cancelReconnect(sessionId);
     const activeClient = this.clients.get(sessionId);
     if (activeClient) {
       try {
-        await activeClient.client.destroy();
+        await activeClient.provider.destroy();
       } catch (e) {}
       this.clients.delete(sessionId);
     }
 
-    // Delete session folder
-    const sessionPath = path.join(this.SESSION_DIR, `session-${sessionId}`);
-    if (fs.existsSync(sessionPath)) {
-      fs.rmSync(sessionPath, { recursive: true, force: true });
-    }
+    // Delete stored auth
+    this.providerFactory.clearStoredAuth(session.provider, this.SESSION_DIR, sessionId);
 
     // Clean up rate limit entry
     this.rateLimits.delete(sessionId);
@@ -351,6 +526,40 @@ export class WhatsappService implements OnModuleDestroy, OnModuleInit {
     return true;
   }
 
+  // Drop the live client but keep the session and its auth data, so it can reconnect later
+  async disconnectSession(sessionId: number): Promise<void> {
+    const activeClient = this.clients.get(sessionId);
+    // Removed first so the 'disconnected' handler doesn't schedule a reconnect
+    this.cancelReconnect(sessionId);
+    this.clients.delete(sessionId);
+    this.rateLimits.delete(sessionId);
+
+    if (activeClient) {
+      try {
+        await activeClient.provider.destroy();
+      } catch (error: any) {
+        this.logger.error(`Error destroying client ${sessionId}: ${error.message}`);
+      }
+    }
+
+    await this.sessionRepository.update(sessionId, { status: SessionStatus.DISCONNECTED });
+    const session = await this.sessionRepository.findOne({ where: { id: sessionId } });
+    if (session) {
+      this.emitSessionEvent(session.organizationId, WebhookEvent.SESSION_DISCONNECTED, sessionId, {
+        reason: 'FORCED',
+        willReconnect: false,
+      });
+    }
+  }
+
+  private cancelReconnect(sessionId: number): void {
+    const timer = this.reconnectTimers.get(sessionId);
+    if (timer) {
+      clearTimeout(timer);
+      this.reconnectTimers.delete(sessionId);
+    }
+  }
+
   isSessionActive(sessionId: number): boolean {
     const client = this.clients.get(sessionId);
     return !!client && client.isReady;
@@ -358,54 +567,57 @@ export class WhatsappService implements OnModuleDestroy, OnModuleInit {
 
   async sendMessage(
     sessionId: number,
-    userId: number,
+    organizationId: number,
     recipient: string,
     message: string,
     mediaPath?: string,
     source: MessageSource = MessageSource.MANUAL,
+    options: SendOptions = {},
   ): Promise<MessageLog> {
     const activeClient = this.clients.get(sessionId);
     if (!activeClient || !activeClient.isReady) {
-      throw new Error('Session not active');
+      throw new ServiceUnavailableException('Session not active');
+    }
+
+    const normalized = await this.normalizeRecipient(organizationId, recipient, options.defaultCountry);
+
+    if (options.checkSuppression && (await this.suppressionService.isSuppressed(organizationId, normalized.e164))) {
+      return this.logSuppressed(sessionId, organizationId, recipient, normalized, message, source, options);
     }
 
     // Check rate limit
     const rateCheck = this.checkRateLimit(sessionId);
     if (!rateCheck.allowed) {
-      throw new Error(`Rate limit exceeded. Please wait ${Math.ceil(rateCheck.waitTime! / 1000)} seconds.`);
+      throw new RateLimitExceededException(rateCheck.waitTime!);
     }
 
     // Update last activity
     activeClient.lastActivity = new Date();
 
-    // Format recipient number - add country code if needed
-    let formattedNumber = recipient.replace(/[^0-9]/g, '');
-    // If 10 digits, assume India and add 91
-    if (formattedNumber.length === 10) {
-      formattedNumber = '91' + formattedNumber;
-      this.logger.log(`Added country code: ${formattedNumber}`);
-    }
-    // whatsapp-web.js uses format: number@c.us
-    const chatId = `${formattedNumber}@c.us`;
+    const hasMedia = !!mediaPath && fs.existsSync(mediaPath);
 
     const log = this.messageLogRepository.create({
-      userId,
+      organizationId,
+      userId: options.userId ?? undefined,
       sessionId,
       recipient,
+      normalizedRecipient: normalized.e164,
       message,
       status: MessageStatus.PENDING,
       source,
+      apiKeyId: options.apiKeyId,
+      autoReplyRuleId: options.autoReplyRuleId,
     });
     await this.messageLogRepository.save(log);
+    await this.charge(log, hasMedia ? BillingChannel.WHATSAPP_MEDIA : BillingChannel.WHATSAPP_TEXT, options);
 
     try {
-      if (mediaPath && fs.existsSync(mediaPath)) {
+      if (hasMedia) {
         // Send media message
-        const media = MessageMedia.fromFilePath(mediaPath);
-        await activeClient.client.sendMessage(chatId, media, { caption: message });
+        log.whatsappMessageId = await activeClient.provider.sendMedia(normalized.digits, { path: mediaPath }, message);
       } else {
         // Send text message
-        await activeClient.client.sendMessage(chatId, message);
+        log.whatsappMessageId = await activeClient.provider.sendText(normalized.digits, message);
       }
 
       log.status = MessageStatus.SENT;
@@ -414,56 +626,60 @@ export class WhatsappService implements OnModuleDestroy, OnModuleInit {
       log.status = MessageStatus.FAILED;
       log.error = error.message;
       this.logger.error(`Failed to send message: ${error.message}`);
+      await this.refund(log, options);
     }
 
     await this.messageLogRepository.save(log);
+    this.emitMessageEvent(log);
     return log;
   }
 
   async sendMessageWithMediaUrl(
     sessionId: number,
-    userId: number,
+    organizationId: number,
     recipient: string,
     message: string,
     mediaUrl: string,
     source: MessageSource = MessageSource.API,
+    options: SendOptions = {},
   ): Promise<MessageLog> {
     const activeClient = this.clients.get(sessionId);
     if (!activeClient || !activeClient.isReady) {
-      throw new Error('Session not active');
+      throw new ServiceUnavailableException('Session not active');
+    }
+
+    const normalized = await this.normalizeRecipient(organizationId, recipient, options.defaultCountry);
+
+    if (options.checkSuppression && (await this.suppressionService.isSuppressed(organizationId, normalized.e164))) {
+      return this.logSuppressed(sessionId, organizationId, recipient, normalized, message, source, options);
     }
 
     // Check rate limit
     const rateCheck = this.checkRateLimit(sessionId);
     if (!rateCheck.allowed) {
-      throw new Error(`Rate limit exceeded. Please wait ${Math.ceil(rateCheck.waitTime! / 1000)} seconds.`);
+      throw new RateLimitExceededException(rateCheck.waitTime!);
     }
 
     // Update last activity
     activeClient.lastActivity = new Date();
 
-    // Format recipient number
-    let formattedNumber = recipient.replace(/[^0-9]/g, '');
-    if (formattedNumber.length === 10) {
-      formattedNumber = '91' + formattedNumber;
-      this.logger.log(`Added country code: ${formattedNumber}`);
-    }
-    const chatId = `${formattedNumber}@c.us`;
-
     const log = this.messageLogRepository.create({
-      userId,
+      organizationId,
+      userId: options.userId ?? undefined,
       sessionId,
       recipient,
+      normalizedRecipient: normalized.e164,
       message,
       status: MessageStatus.PENDING,
       source,
+      apiKeyId: options.apiKeyId,
+      autoReplyRuleId: options.autoReplyRuleId,
     });
     await this.messageLogRepository.save(log);
+    await this.charge(log, BillingChannel.WHATSAPP_MEDIA, options);
 
     try {
-      // Download media from URL
-      const media = await MessageMedia.fromUrl(mediaUrl);
-      await activeClient.client.sendMessage(chatId, media, { caption: message });
+      log.whatsappMessageId = await activeClient.provider.sendMedia(normalized.digits, { url: mediaUrl }, message);
 
       log.status = MessageStatus.SENT;
       log.sentAt = new Date();
@@ -471,24 +687,273 @@ export class WhatsappService implements OnModuleDestroy, OnModuleInit {
       log.status = MessageStatus.FAILED;
       log.error = error.message;
       this.logger.error(`Failed to send media message: ${error.message}`);
+      await this.refund(log, options);
     }
 
     await this.messageLogRepository.save(log);
+    this.emitMessageEvent(log);
     return log;
   }
 
-  async getMessageLogs(userId: number, limit = 100, offset = 0): Promise<MessageLog[]> {
+  // Debit the message's price; without enough credits the log is failed and the send refused
+  private async charge(log: MessageLog, channel: BillingChannel, options: SendOptions): Promise<void> {
+    const price = this.creditsService.priceOf(channel);
+    try {
+      await this.creditsService.debit(
+        log.organizationId,
+        price,
+        `WhatsApp ${channel === BillingChannel.WHATSAPP_MEDIA ? 'media' : 'text'} message #${log.id}`,
+        this.creditReference(log, options),
+      );
+    } catch (error: any) {
+      log.status = MessageStatus.FAILED;
+      log.error = error.message;
+      await this.messageLogRepository.save(log);
+      throw error;
+    }
+    log.cost = price;
+  }
+
+  private async refund(log: MessageLog, options: SendOptions = {}): Promise<void> {
+    if (!log.cost) return;
+    try {
+      await this.creditsService.refund(
+        log.organizationId,
+        log.cost,
+        `Refund for failed WhatsApp message #${log.id}`,
+        this.creditReference(log, options),
+      );
+    } catch (error: any) {
+      this.logger.error(`Failed to refund message ${log.id}: ${error.message}`);
+    }
+  }
+
+  private creditReference(log: MessageLog, options: SendOptions): CreditReference {
+    return options.campaignId
+      ? { type: CreditReferenceType.CAMPAIGN, id: options.campaignId, userId: log.userId }
+      : { type: CreditReferenceType.MESSAGE, id: log.id, userId: log.userId };
+  }
+
+  private async logSuppressed(
+    sessionId: number,
+    organizationId: number,
+    recipient: string,
+    normalized: NormalizedPhoneNumber,
+    message: string,
+    source: MessageSource,
+    options: SendOptions,
+  ): Promise<MessageLog> {
+    const log = this.messageLogRepository.create({
+      organizationId,
+      userId: options.userId ?? undefined,
+      sessionId,
+      recipient,
+      normalizedRecipient: normalized.e164,
+      message,
+      status: MessageStatus.SUPPRESSED,
+      source,
+      error: 'Recipient has opted out',
+      apiKeyId: options.apiKeyId,
+      autoReplyRuleId: options.autoReplyRuleId,
+    });
+    return this.messageLogRepository.save(log);
+  }
+
+  // Subscribe to delivery/read status changes on message logs
+  onMessageStatus(listener: (log: MessageLog) => void | Promise<void>): void {
+    this.messageStatusListeners.push(listener);
+  }
+
+  // Subscribe to messages received on any session
+  onIncomingMessage(listener: (message: IncomingMessage) => void | Promise<void>): void {
+    this.incomingMessageListeners.push(listener);
+  }
+
+  private async handleIncomingMessage(
+    sessionId: number,
+    organizationId: number,
+    message: ProviderInboundMessage,
+  ): Promise<void> {
+    const activeClient = this.clients.get(sessionId);
+    if (activeClient) activeClient.lastActivity = new Date();
+
+    const incoming: IncomingMessage = {
+      sessionId,
+      organizationId,
+      chatId: message.chatId,
+      phoneNumber: message.from ? this.phoneNumberService.normalize(`+${message.from}`)?.e164 || null : null,
+      name: message.name,
+      whatsappMessageId: message.messageId,
+      body: message.body,
+      type: message.type,
+      hasMedia: message.hasMedia,
+      timestamp: message.timestamp,
+    };
+
+    for (const listener of this.incomingMessageListeners) {
+      try {
+        await listener(incoming);
+      } catch (error: any) {
+        this.logger.error(`Incoming message listener failed: ${error.message}`);
+      }
+    }
+
+    // Opt-outs are recorded instead of being answered
+    if (incoming.phoneNumber && this.suppressionService.isOptOutMessage(incoming.body)) {
+      await this.suppressionService.recordOptOut(
+        organizationId,
+        incoming.phoneNumber,
+        `Replied "${incoming.body.trim()}" on session ${sessionId}`,
+      );
+      return;
+    }
+
+    await this.autoReply(incoming);
+  }
+
+  private async autoReply(incoming: IncomingMessage): Promise<void> {
+    if (!incoming.phoneNumber || !incoming.body) return;
+
+    const context: AutoReplyContext = {
+      sessionId: incoming.sessionId,
+      phoneNumber: incoming.phoneNumber,
+      name: incoming.name,
+      body: incoming.body,
+      timestamp: incoming.timestamp,
+    };
+
+    try {
+      const rule = await this.autoReplyService.findMatchingRule(context);
+      if (!rule) return;
+
+      const reply = this.autoReplyService.renderReply(rule, context);
+      const options: SendOptions = { autoReplyRuleId: rule.id };
+      this.logger.log(`Auto-reply rule ${rule.id} matched on session ${incoming.sessionId}`);
+
+      if (rule.replyType === ReplyType.MEDIA) {
+        await this.sendMessageWithMediaUrl(
+          incoming.sessionId,
+          incoming.organizationId,
+          incoming.phoneNumber,
+          reply,
+          rule.replyMediaUrl,
+          MessageSource.AUTOREPLY,
+          options,
+        );
+      } else {
+        await this.sendMessage(
+          incoming.sessionId,
+          incoming.organizationId,
+          incoming.phoneNumber,
+          reply,
+          undefined,
+          MessageSource.AUTOREPLY,
+          options,
+        );
+      }
+    } catch (error: any) {
+      this.logger.error(`Auto-reply failed on session ${incoming.sessionId}: ${error.message}`);
+    }
+  }
+
+  private async handleMessageAck(whatsappMessageId: string, status: ProviderAckStatus): Promise<void> {
+    const log = await this.messageLogRepository.findOne({ where: { whatsappMessageId } });
+    if (!log || log.status === status) return;
+
+    if (status === MessageStatus.FAILED) {
+      if (log.status !== MessageStatus.SENT) return;
+      log.error = 'Delivery failed';
+      await this.refund(log);
+    } else {
+      const current = this.STATUS_RANK[log.status];
+      if (current === undefined || current >= this.STATUS_RANK[status]!) return;
+
+      const now = new Date();
+      if (!log.deliveredAt) log.deliveredAt = now;
+      if (status === MessageStatus.READ) log.readAt = now;
+    }
+
+    log.status = status;
+    await this.messageLogRepository.save(log);
+    this.emitMessageEvent(log);
+
+    for (const listener of this.messageStatusListeners) {
+      try {
+        await listener(log);
+      } catch (error: any) {
+        this.logger.error(`Message status listener failed: ${error.message}`);
+      }
+    }
+  }
+
+  private emitMessageEvent(log: MessageLog): void {
+    const events: Partial<Record<MessageStatus, WebhookEvent>> = {
+      [MessageStatus.SENT]: WebhookEvent.MESSAGE_SENT,
+      [MessageStatus.DELIVERED]: WebhookEvent.MESSAGE_DELIVERED,
+      [MessageStatus.READ]: WebhookEvent.MESSAGE_READ,
+      [MessageStatus.FAILED]: WebhookEvent.MESSAGE_FAILED,
+    };
+    const event = events[log.status];
+    if (!event) return;
+
+    this.webhooksService.dispatch(
+      log.organizationId,
+      event,
+      {
+        messageId: log.id,
+        whatsappMessageId: log.whatsappMessageId,
+        sessionId: log.sessionId,
+        recipient: log.recipient,
+        normalizedRecipient: log.normalizedRecipient,
+        status: log.status,
+        source: log.source,
+        error: log.error,
+        sentAt: log.sentAt,
+        deliveredAt: log.deliveredAt,
+        readAt: log.readAt,
+      },
+      log.apiKeyId,
+    );
+  }
+
+  private emitSessionEvent(
+    organizationId: number,
+    event: WebhookEvent,
+    sessionId: number,
+    data: Record<string, any> = {},
+  ): void {
+    this.webhooksService.dispatch(organizationId, event, { sessionId, ...data });
+  }
+
+  private async normalizeRecipient(
+    organizationId: number,
+    recipient: string,
+    defaultCountry?: string,
+  ): Promise<NormalizedPhoneNumber> {
+    const country = await this.phoneNumberService.resolveDefaultCountry(organizationId, defaultCountry);
+    const normalized = this.phoneNumberService.normalize(recipient, country);
+    if (!normalized) {
+      throw new BadRequestException(`Invalid phone number: ${recipient}`);
+    }
+    return normalized;
+  }
+
+  async getMessageLogs(organizationId: number, limit = 100, offset = 0): Promise<MessageLog[]> {
     return this.messageLogRepository.find({
-      where: { userId },
+      where: { organizationId },
       order: { createdAt: 'DESC' },
       take: limit,
       skip: offset,
     });
   }
 
-  async getSessionMessageLogs(sessionId: number, userId: number, limit = 100): Promise<MessageLog[]> {
+  async getMessageLog(id: number, organizationId: number): Promise<MessageLog | null> {
+    return this.messageLogRepository.findOne({ where: { id, organizationId } });
+  }
+
+  async getSessionMessageLogs(sessionId: number, organizationId: number, limit = 100): Promise<MessageLog[]> {
     return this.messageLogRepository.find({
-      where: { sessionId, userId },
+      where: { sessionId, organizationId },
       order: { createdAt: 'DESC' },
       take: limit,
     });
@@ -0,0 +1,267 @@
+import { INestApplication } from '@nestjs/common';
+import request from 'supertest';
+import { DataSource } from 'typeorm';
+import { FakeProvider } from '../src/whatsapp/providers/fake.provider';
+import { MessageStatus } from '../src/whatsapp/message-log.entity';
+import { CampaignStatus } from '../src/campaigns/campaign.entity';
+import { RecipientStatus } from '../src/campaigns/campaign-recipient.entity';
+import { CampaignJob, JobStatus } from '../src/campaigns/campaign-job.entity';
+import { CreditsService } from '../src/credits/credits.service';
+import { connectSocket, createSession, createTestApp, nextEvent, registerUser, TestUser, waitFor } from './utils';
+
+const NUMBERS = ['+14155550101', '+14155550102', '+14155550103'];
+
+describe('Campaign sending (e2e)', () => {
+  let app: INestApplication;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  // A user with a linked fake session
+  async function setUp(credits: number): Promise<{ user: TestUser; sessionId: number }> {
+    const user = await registerUser(app, credits);
+    const session = await createSession(app, user);
+
+    const socket = connectSocket(app, user.token);
+    await nextEvent(socket, 'connect');
+    const ready = nextEvent(socket, 'status', (e) => e.status === 'ready');
+    socket.emit('initSession', { sessionId: session.id });
+    await ready;
+    socket.disconnect();
+
+    return { user, sessionId: session.id };
+  }
+
+  async function createCampaign(user: TestUser, sessionId: number, phoneNumbers: string[]): Promise<number> {
+    const server = app.getHttpServer();
+    const campaign = await request(server)
+      .post('/campaigns')
+      .set('Authorization', `Bearer ${user.token}`)
+      .send({ name: 'Launch', message: 'Hello from the e2e suite', sessionId })
+      .expect(201);
+
+    await request(server)
+      .post(`/campaigns/${campaign.body.id}/recipients`)
+      .set('Authorization', `Bearer ${user.token}`)
+      .send({ phoneNumbers })
+      .expect(201);
+    return campaign.body.id;
+  }
+
+  const getReport = async (user: TestUser, campaignId: number) =>
+    (
+      await request(app.getHttpServer())
+        .get(`/campaigns/${campaignId}/report`)
+        .set('Authorization', `Bearer ${user.token}`)
+        .expect(200)
+    ).body;
+
+  it('sends to every recipient, charges credits and tracks receipts', async () => {
+    const { user, sessionId } = await setUp(10);
+    const campaignId = await createCampaign(user, sessionId, NUMBERS);
+
+    const socket = connectSocket(app, user.token);
+    await nextEvent(socket, 'connect');
+    const finished = nextEvent(socket, 'campaignProgress', (e) => e.campaignId === campaignId && e.pendingCount === 0);
+
+    await request(app.getHttpServer())
+      .post(`/campaigns/${campaignId}/send`)
+      .set('Authorization', `Bearer ${user.token}`)
+      .expect(201);
+
+    expect(await finished).toMatchObject({ totalRecipients: 3, sentCount: 3, failedCount: 0 });
+    socket.disconnect();
+
+    const report = await waitFor(async () => {
+      const current = await getReport(user, campaignId);
+      return current.campaign.status === CampaignStatus.COMPLETED && current;
+    });
+    expect(report.recipients.every((r: any) => r.status === RecipientStatus.SENT)).toBe(true);
+    // Starting it again would resend to everyone
+    await request(app.getHttpServer())
+      .post(`/campaigns/${campaignId}/send`)
+      .set('Authorization', `Bearer ${user.token}`)
+      .expect(400)
+      .expect((res) => expect(res.body.message).toBe('Campaign is already completed'));
+
+    const provider = FakeProvider.get(sessionId)!;
+    expect(provider.sent.map((m) => m.to).sort()).toEqual(NUMBERS.map((n) => n.slice(1)));
+    expect(provider.sent[0].text).toContain('Hello from the e2e suite');
+    expect(await app.get(CreditsService).getBalance(user.organizationId)).toBe(7);
+
+    provider.ack(provider.sent[0].id, MessageStatus.DELIVERED);
+    provider.ack(provider.sent[1].id, MessageStatus.READ);
+
+    const delivered = await waitFor(async () => {
+      const current = await getReport(user, campaignId);
+      return current.campaign.readCount === 1 && current;
+    });
+    expect(delivered.campaign).toMatchObject({ deliveredCount: 2, readCount: 1 });
+  });
+
+  it('skips numbers that are already recipients when a list is uploaded again', async () => {
+    const { user, sessionId } = await setUp(10);
+    const campaignId = await createCampaign(user, sessionId, NUMBERS);
+
+    const res = await request(app.getHttpServer())
+      .post(`/campaigns/${campaignId}/recipients`)
+      .set('Authorization', `Bearer ${user.token}`)
+      .send({ phoneNumbers: [...NUMBERS, '(415) 555-0104'] })
+      .expect(201);
+    expect(res.body).toMatchObject({ added: 1, suppressed: 0, skipped: 3 });
+
+    const report = await getReport(user, campaignId);
+    expect(report.campaign.totalRecipients).toBe(4);
+    expect(report.recipients).toHaveLength(4);
+  });
+
+  it('refuses to start without enough credits', async () => {
+    const { user, sessionId } = await setUp(2);
+    const campaignId = await createCampaign(user, sessionId, NUMBERS);
+
+    await request(app.getHttpServer())
+      .post(`/campaigns/${campaignId}/send`)
+      .set('Authorization', `Bearer ${user.token}`)
+      .expect(402);
+    expect(FakeProvider.get(sessionId)!.sent).toHaveLength(0);
+  });
+
+  it('refuses to start while the session is disconnected', async () => {
+    const { user, sessionId } = await setUp(10);
+    const campaignId = await createCampaign(user, sessionId, NUMBERS);
+    FakeProvider.get(sessionId)!.disconnect('LOGOUT', true);
+
+    await request(app.getHttpServer())
+      .post(`/campaigns/${campaignId}/send`)
+      .set('Authorization', `Bearer ${user.token}`)
+      .expect(400)
+      .expect((res) => expect(res.body.message).toBe('WhatsApp session is not connected'));
+  });
+
+  it('skips suppressed recipients', async () => {
+    const { user, sessionId } = await setUp(10);
+    await request(app.getHttpServer())
+      .post('/suppressions')
+      .set('Authorization', `Bearer ${user.token}`)
+      .send({ phoneNumbers: [NUMBERS[0], '+14155550105'] })
+      .expect(201);
+    const campaignId = await createCampaign(user, sessionId, NUMBERS);
+
+    // Only numbers that were actually added count as suppressed
+    const again = await request(app.getHttpServer())
+      .post(`/campaigns/${campaignId}/recipients`)
+      .set('Authorization', `Bearer ${user.token}`)
+      .send({ phoneNumbers: [...NUMBERS, '+14155550105'] })
+      .expect(201);
+    expect(again.body).toMatchObject({ added: 0, suppressed: 1, skipped: 3 });
+
+    await request(app.getHttpServer())
+      .post(`/campaigns/${campaignId}/send`)
+      .set('Authorization', `Bearer ${user.token}`)
+      .expect(201);
+
+    const report = await waitFor(async () => {
+      const current = await getReport(user, campaignId);
+      return current.campaign.status === CampaignStatus.COMPLETED && current;
+    });
+    expect(report.campaign.suppressedCount).toBe(2);
+    expect(FakeProvider.get(sessionId)!.sent.map((m) => m.to)).not.toContain(NUMBERS[0].slice(1));
+  });
+
+  it('waits out the session rate limit without using up attempts', async () => {
+    const { user, sessionId } = await setUp(40);
+    // Use up the session's 30 messages per minute
+    for (let i = 0; i < 30; i++) {
+      await request(app.getHttpServer())
+        .post(`/whatsapp/sessions/${sessionId}/send`)
+        .set('Authorization', `Bearer ${user.token}`)
+        .send({ recipient: NUMBERS[0], message: `Direct ${i}` })
+        .expect(201);
+    }
+    const campaignId = await createCampaign(user, sessionId, NUMBERS.slice(1, 2));
+
+    await request(app.getHttpServer())
+      .post(`/campaigns/${campaignId}/send`)
+      .set('Authorization', `Bearer ${user.token}`)
+      .expect(201);
+
+    const jobs = app.get(DataSource).getRepository(CampaignJob);
+    const job = await waitFor(async () => {
+      const current = await jobs.findOneBy({ campaignId });
+      return current?.status === JobStatus.QUEUED && current.runAt.getTime() > Date.now() + 30000 && current;
+    });
+    expect(job.attempts).toBe(0);
+    expect(FakeProvider.get(sessionId)!.sent).toHaveLength(30);
+  });
+
+  it('refuses to start a campaign again once it is cancelled', async () => {
+    const { user, sessionId } = await setUp(10);
+    const campaignId = await createCampaign(user, sessionId, NUMBERS);
+
+    await request(app.getHttpServer())
+      .post(`/campaigns/${campaignId}/cancel`)
+      .set('Authorization', `Bearer ${user.token}`)
+      .expect(201);
+    await request(app.getHttpServer())
+      .post(`/campaigns/${campaignId}/send`)
+      .set('Authorization', `Bearer ${user.token}`)
+      .expect(400)
+      .expect((res) => expect(res.body.message).toBe('Campaign is already cancelled'));
+    expect(FakeProvider.get(sessionId)!.sent).toHaveLength(0);
+  });
+
+  it('validates an imported file before adding its rows', async () => {
+    const { user, sessionId } = await setUp(10);
+    const campaignId = await createCampaign(user, sessionId, [NUMBERS[0]]);
+    const csv = [
+      'Phone,Name,Timezone',
+      `${NUMBERS[1]},Bob,America/New_York`,
+      'not-a-number,Carl,',
+      `${NUMBERS[1]},Bob again,`,
+      `${NUMBERS[0]},Ann,`,
+      `${NUMBERS[2]},Dan,Mars/Olympus_Mons`,
+      '+14155550104,Eve,',
+    ].join('\n');
+    const upload = (fields: Record<string, string>) => {
+      const req = request(app.getHttpServer())
+        .post(`/campaigns/${campaignId}/recipients/import`)
+        .set('Authorization', `Bearer ${user.token}`)
+        .attach('file', Buffer.from(csv), { filename: 'recipients.csv', contentType: 'text/csv' });
+      for (const [name, value] of Object.entries(fields)) req.field(name, value);
+      return req;
+    };
+
+    // Without a phone column the report only lists the columns
+    const columns = await upload({}).expect(201);
+    expect(columns.body).toMatchObject({ columns: ['Phone', 'Name', 'Timezone'], totalRows: 6, acceptedCount: 0 });
+
+    const mapping = { phoneColumn: 'Phone', timezoneColumn: 'Timezone', variables: JSON.stringify({ name: 'Name' }) };
+    const report = await upload(mapping).expect(201);
+    expect(report.body).toMatchObject({ acceptedCount: 2, committed: false });
+    expect(report.body.rejected).toEqual([
+      { row: 3, phoneNumber: 'not-a-number', reason: 'Invalid phone number' },
+      { row: 4, phoneNumber: NUMBERS[1], reason: 'Duplicate phone number in file' },
+      { row: 5, phoneNumber: NUMBERS[0], reason: 'Already a recipient of this campaign' },
+      { row: 6, phoneNumber: NUMBERS[2], reason: 'Unknown timezone: Mars/Olympus_Mons' },
+    ]);
+    expect(report.body.preview[0]).toEqual({
+      phoneNumber: NUMBERS[1],
+      variables: { name: 'Bob' },
+      timezone: 'America/New_York',
+    });
+    expect((await getReport(user, campaignId)).campaign.totalRecipients).toBe(1);
+
+    const invalid = await upload({ ...mapping, variables: '["Name"]' }).expect(400);
+    expect(invalid.body.message).toBe('variables must be a JSON object mapping variable names to column names');
+
+    const committed = await upload({ ...mapping, commit: 'true' }).expect(201);
+    expect(committed.body).toMatchObject({ acceptedCount: 2, committed: true });
+    const after = await getReport(user, campaignId);
+    expect(after.recipients.map((r: any) => r.phoneNumber).sort()).toEqual([NUMBERS[0], NUMBERS[1], '+14155550104']);
+  });
+});
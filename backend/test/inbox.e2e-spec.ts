@@ -0,0 +1,144 @@
+import { INestApplication } from '@nestjs/common';
+import request from 'supertest';
+import { FakeProvider } from '../src/whatsapp/providers/fake.provider';
+import { OrganizationRole } from '../src/organizations/organization-member.entity';
+import { addMember, connectSocket, createSession, createTestApp, nextEvent, registerUser, TestUser, waitFor } from './utils';
+
+const MINUTE = 60 * 1000;
+
+describe('Inbox (e2e)', () => {
+  let app: INestApplication;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  // A user with a linked fake session
+  async function setUp(): Promise<{ user: TestUser; sessionId: number }> {
+    const user = await registerUser(app, 10);
+    const session = await createSession(app, user);
+
+    const socket = connectSocket(app, user.token);
+    await nextEvent(socket, 'connect');
+    const ready = nextEvent(socket, 'status', (e) => e.status === 'ready');
+    socket.emit('initSession', { sessionId: session.id });
+    await ready;
+    socket.disconnect();
+
+    return { user, sessionId: session.id };
+  }
+
+  const getConversations = async (user: TestUser, sessionId: number) =>
+    (
+      await request(app.getHttpServer())
+        .get(`/inbox/sessions/${sessionId}/conversations`)
+        .set('Authorization', `Bearer ${user.token}`)
+        .expect(200)
+    ).body;
+
+  const getThread = async (user: TestUser, contactId: number, query: Record<string, string | number> = {}) =>
+    (
+      await request(app.getHttpServer())
+        .get(`/inbox/conversations/${contactId}/messages`)
+        .query(query)
+        .set('Authorization', `Bearer ${user.token}`)
+        .expect(200)
+    ).body;
+
+  it('captures inbound messages once each and tracks unread counts', async () => {
+    const { user, sessionId } = await setUp();
+    const provider = FakeProvider.get(sessionId)!;
+    const socket = connectSocket(app, user.token);
+    await nextEvent(socket, 'connect');
+
+    const first = nextEvent(socket, 'inboxMessage');
+    provider.receive({ from: '14155550101', name: 'Ada', messageId: 'in-1', body: 'Hello there' });
+    expect(await first).toMatchObject({
+      sessionId,
+      contact: { phoneNumber: '+14155550101', name: 'Ada', unreadCount: 1 },
+      message: { direction: 'inbound', body: 'Hello there' },
+    });
+
+    // WhatsApp can deliver the same message twice
+    const second = nextEvent(socket, 'inboxMessage');
+    provider.receive({ from: '14155550101', messageId: 'in-1', body: 'Hello there' });
+    provider.receive({ from: '14155550101', messageId: 'in-2', body: 'Are you open today?' });
+    expect((await second).message.body).toBe('Are you open today?');
+    socket.disconnect();
+
+    const { conversations, total } = await getConversations(user, sessionId);
+    expect(total).toBe(1);
+    expect(conversations[0]).toMatchObject({ unreadCount: 2, lastMessagePreview: 'Are you open today?' });
+    expect((await getThread(user, conversations[0].id)).messages).toHaveLength(2);
+
+    await request(app.getHttpServer())
+      .post(`/inbox/conversations/${conversations[0].id}/read`)
+      .set('Authorization', `Bearer ${user.token}`)
+      .expect(201);
+    expect((await getConversations(user, sessionId)).conversations[0].unreadCount).toBe(0);
+  });
+
+  it('merges replies into the thread and pages back through it', async () => {
+    const { user, sessionId } = await setUp();
+    const provider = FakeProvider.get(sessionId)!;
+    provider.receive({ from: '14155550102', body: 'First', timestamp: new Date(Date.now() - 3 * MINUTE) });
+    provider.receive({ from: '14155550102', body: 'Second', timestamp: new Date(Date.now() - 2 * MINUTE) });
+    const contactId = (
+      await waitFor(async () => {
+        const { conversations } = await getConversations(user, sessionId);
+        return conversations[0]?.unreadCount === 2 && conversations[0];
+      })
+    ).id;
+
+    const reply = await request(app.getHttpServer())
+      .post(`/inbox/conversations/${contactId}/reply`)
+      .set('Authorization', `Bearer ${user.token}`)
+      .send({ message: 'Third' })
+      .expect(201);
+    expect(reply.body.success).toBe(true);
+    expect(provider.sent.map((m) => [m.to, m.text])).toEqual([['14155550102', 'Third']]);
+
+    // Oldest first within a page, newest page first
+    const latest = await getThread(user, contactId, { limit: 2 });
+    expect(latest.messages.map((m: any) => [m.direction, m.body])).toEqual([
+      ['inbound', 'Second'],
+      ['outbound', 'Third'],
+    ]);
+    expect(latest.hasMore).toBe(true);
+
+    const older = await getThread(user, contactId, { limit: 2, before: latest.messages[0].timestamp });
+    expect(older.messages.map((m: any) => m.body)).toEqual(['First']);
+    expect(older.hasMore).toBe(false);
+
+    const { conversations } = await getConversations(user, sessionId);
+    expect(conversations[0].lastMessagePreview).toBe('Third');
+  });
+
+  it('only lets agents reply', async () => {
+    const { user, sessionId } = await setUp();
+    FakeProvider.get(sessionId)!.receive({ from: '14155550103', body: 'Hi' });
+    const contactId = (
+      await waitFor(async () => (await getConversations(user, sessionId)).conversations[0])
+    ).id;
+
+    const viewer = await addMember(app, user, OrganizationRole.VIEWER);
+    expect((await getThread(viewer, contactId)).messages).toHaveLength(1);
+    await request(app.getHttpServer())
+      .post(`/inbox/conversations/${contactId}/reply`)
+      .set('Authorization', `Bearer ${viewer.token}`)
+      .send({ message: 'Hello' })
+      .expect(403);
+
+    const agent = await addMember(app, user, OrganizationRole.AGENT);
+    await request(app.getHttpServer())
+      .post(`/inbox/conversations/${contactId}/reply`)
+      .set('Authorization', `Bearer ${agent.token}`)
+      .send({ message: 'Hello' })
+      .expect(201);
+    expect(FakeProvider.get(sessionId)!.sent).toHaveLength(1);
+  });
+});
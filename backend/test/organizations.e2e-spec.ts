@@ -0,0 +1,71 @@
+import { INestApplication } from '@nestjs/common';
+import request from 'supertest';
+import { DataSource } from 'typeorm';
+import { Organization } from '../src/organizations/organization.entity';
+import { OrganizationRole } from '../src/organizations/organization-member.entity';
+import { addMember, connectSocket, createTestApp, nextEvent, registerUser, TestUser } from './utils';
+
+describe('Organization membership (e2e)', () => {
+  let app: INestApplication;
+  let owner: TestUser;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    owner = await registerUser(app);
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const findMember = async (user: TestUser) => {
+    const res = await request(app.getHttpServer())
+      .get('/organizations/current/members')
+      .set('Authorization', `Bearer ${owner.token}`)
+      .expect(200);
+    return res.body.find((m: any) => m.userId === user.userId);
+  };
+
+  it('rejects the tokens of removed members without creating anything', async () => {
+    const agent = await addMember(app, owner, OrganizationRole.AGENT);
+    const organizations = app.get(DataSource).getRepository(Organization);
+    const before = await organizations.count();
+
+    await request(app.getHttpServer())
+      .delete(`/organizations/current/members/${(await findMember(agent)).id}`)
+      .set('Authorization', `Bearer ${owner.token}`)
+      .expect(200);
+
+    const res = await request(app.getHttpServer())
+      .get('/organizations/current')
+      .set('Authorization', `Bearer ${agent.token}`)
+      .expect(401);
+    expect(res.body.message).toBe('You are no longer a member of this organization');
+    expect(await organizations.count()).toBe(before);
+
+    // Logging in again starts in the member's own organization
+    const login = await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email: agent.email, password: 'password123' })
+      .expect(201);
+    expect(login.body.user.organization.id).not.toBe(owner.organizationId);
+  });
+
+  it('disconnects the sockets of members whose role changes', async () => {
+    const manager = await addMember(app, owner, OrganizationRole.MANAGER);
+    const ownerSocket = connectSocket(app, owner.token);
+    const managerSocket = connectSocket(app, manager.token);
+    await Promise.all([nextEvent(ownerSocket, 'connect'), nextEvent(managerSocket, 'connect')]);
+
+    const dropped = nextEvent(managerSocket, 'disconnect');
+    await request(app.getHttpServer())
+      .put(`/organizations/current/members/${(await findMember(manager)).id}`)
+      .set('Authorization', `Bearer ${owner.token}`)
+      .send({ role: OrganizationRole.VIEWER })
+      .expect(200);
+
+    expect(await dropped).toBe('io server disconnect');
+    expect(ownerSocket.connected).toBe(true);
+    ownerSocket.disconnect();
+  });
+});
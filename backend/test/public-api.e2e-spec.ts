@@ -0,0 +1,219 @@
+import { INestApplication } from '@nestjs/common';
+import request from 'supertest';
+import { ApiKeyScope } from '../src/api-keys/api-key.entity';
+import { MessageStatus } from '../src/whatsapp/message-log.entity';
+import { FakeProvider } from '../src/whatsapp/providers/fake.provider';
+import { FakeSmsTransport } from '../src/sms/transports/fake.transport';
+import { SMS_TRANSPORT } from '../src/sms/transports/sms-transport.interface';
+import { CreditsService } from '../src/credits/credits.service';
+import { connectSocket, createSession, createTestApp, nextEvent, registerUser, TestUser, waitFor } from './utils';
+
+describe('Public API (e2e)', () => {
+  let app: INestApplication;
+  let owner: TestUser;
+  let sessionId: number;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    owner = await registerUser(app, 20);
+
+    const session = await createSession(app, owner);
+    sessionId = session.id;
+    const socket = connectSocket(app, owner.token);
+    await nextEvent(socket, 'connect');
+    const ready = nextEvent(socket, 'status', (e) => e.status === 'ready');
+    socket.emit('initSession', { sessionId });
+    await ready;
+    socket.disconnect();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  async function createApiKey(scopes: ApiKeyScope[], extra: Record<string, any> = {}): Promise<string> {
+    const res = await request(app.getHttpServer())
+      .post('/api-keys')
+      .set('Authorization', `Bearer ${owner.token}`)
+      .send({ name: 'e2e', scopes, ...extra })
+      .expect(201);
+    return res.body.key;
+  }
+
+  describe('authentication', () => {
+    it('requires an API key', async () => {
+      const res = await request(app.getHttpServer()).post('/v1/messages').send({ to: '+14155550101', text: 'Hi' }).expect(401);
+      expect(res.body.error.code).toBe('api_key_missing');
+    });
+
+    it('rejects unknown keys', async () => {
+      const res = await request(app.getHttpServer())
+        .post('/v1/messages')
+        .set('X-API-Key', 'not-a-real-key')
+        .send({ to: '+14155550101', text: 'Hi' })
+        .expect(401);
+      expect(res.body.error.code).toBe('api_key_invalid');
+    });
+
+    it('rejects expired keys', async () => {
+      const key = await createApiKey([ApiKeyScope.WHATSAPP_SEND], { expiresAt: new Date(Date.now() + 1000).toISOString() });
+      await new Promise((resolve) => setTimeout(resolve, 1100));
+
+      const res = await request(app.getHttpServer())
+        .post('/v1/messages')
+        .set('X-API-Key', key)
+        .send({ to: '+14155550101', text: 'Hi' })
+        .expect(401);
+      expect(res.body.error.code).toBe('api_key_expired');
+    });
+
+    it('enforces scopes', async () => {
+      const key = await createApiKey([ApiKeyScope.SMS_SEND]);
+      const res = await request(app.getHttpServer())
+        .post('/v1/messages')
+        .set('X-API-Key', key)
+        .send({ to: '+14155550101', text: 'Hi' })
+        .expect(403);
+      expect(res.body.error).toMatchObject({ code: 'missing_scope', message: `API key is missing the ${ApiKeyScope.WHATSAPP_SEND} scope` });
+    });
+
+    it('enforces the IP allowlist', async () => {
+      const key = await createApiKey([ApiKeyScope.WHATSAPP_SEND], { allowedIps: ['203.0.113.7'] });
+      const res = await request(app.getHttpServer())
+        .post('/v1/messages')
+        .set('X-API-Key', key)
+        .send({ to: '+14155550101', text: 'Hi' })
+        .expect(403);
+      expect(res.body.error.code).toBe('ip_not_allowed');
+    });
+
+    it('rate limits each key', async () => {
+      const key = await createApiKey([ApiKeyScope.MESSAGES_READ], { rateLimitPerMinute: 2 });
+      const server = app.getHttpServer();
+      await request(server).get('/v1/messages/999').set('X-API-Key', key).expect(404);
+      await request(server).get('/v1/messages/999').set('X-API-Key', key).expect(404);
+
+      const res = await request(server).get('/v1/messages/999').set('X-API-Key', key).expect(429);
+      expect(res.body.error.details.retryAfterSeconds).toBeGreaterThan(0);
+    });
+  });
+
+  describe('WhatsApp messages', () => {
+    it('sends a message and reports its delivery status', async () => {
+      const key = await createApiKey([ApiKeyScope.WHATSAPP_SEND, ApiKeyScope.MESSAGES_READ]);
+      const server = app.getHttpServer();
+
+      const sent = await request(server)
+        .post('/v1/messages')
+        .set('Authorization', `Bearer ${key}`)
+        .send({ to: '+14155550111', text: 'Your code is 1234' })
+        .expect(201);
+      expect(sent.body).toMatchObject({ channel: 'whatsapp', to: '+14155550111', status: MessageStatus.SENT, sessionId });
+
+      const provider = FakeProvider.get(sessionId)!;
+      const outbound = provider.sent[provider.sent.length - 1];
+      expect(outbound).toMatchObject({ to: '14155550111', text: 'Your code is 1234' });
+
+      provider.ack(outbound.id, MessageStatus.READ);
+      const read = await waitFor(async () => {
+        const res = await request(server).get(`/v1/messages/${sent.body.id}`).set('X-API-Key', key).expect(200);
+        return res.body.status === MessageStatus.READ && res.body;
+      });
+      expect(read.readAt).not.toBeNull();
+    });
+
+    it('does not send twice for a repeated Idempotency-Key', async () => {
+      const key = await createApiKey([ApiKeyScope.WHATSAPP_SEND]);
+      const provider = FakeProvider.get(sessionId)!;
+      const before = provider.sent.length;
+
+      const send = () =>
+        request(app.getHttpServer())
+          .post('/v1/messages')
+          .set('X-API-Key', key)
+          .set('Idempotency-Key', 'order-42')
+          .send({ to: '+14155550112', text: 'Order shipped' })
+          .expect(201);
+      const first = await send();
+      const second = await send();
+
+      expect(second.body.id).toBe(first.body.id);
+      expect(provider.sent.length).toBe(before + 1);
+    });
+
+    it('reports a failed send as a gateway error', async () => {
+      const key = await createApiKey([ApiKeyScope.WHATSAPP_SEND]);
+      FakeProvider.get(sessionId)!.failNextSend(new Error('Phone is offline'));
+
+      const res = await request(app.getHttpServer())
+        .post('/v1/messages')
+        .set('X-API-Key', key)
+        .send({ to: '+14155550113', text: 'Hi' })
+        .expect(502);
+      expect(res.body.error).toMatchObject({ code: 'send_failed', message: 'Phone is offline' });
+    });
+  });
+
+  describe('SMS', () => {
+    let transport: FakeSmsTransport;
+
+    beforeAll(() => {
+      transport = app.get<FakeSmsTransport>(SMS_TRANSPORT);
+    });
+
+    it('sends through the SMS transport', async () => {
+      const key = await createApiKey([ApiKeyScope.SMS_SEND]);
+      const res = await request(app.getHttpServer())
+        .post('/v1/sms')
+        .set('X-API-Key', key)
+        .send({ to: '+14155550121', text: 'Hello by SMS' })
+        .expect(201);
+
+      expect(res.body).toMatchObject({ channel: 'sms', status: MessageStatus.SENT });
+      expect(transport.sent[transport.sent.length - 1]).toMatchObject({
+        sid: res.body.id,
+        to: '+14155550121',
+        from: process.env.TWILIO_PHONE_NUMBER,
+        body: 'Hello by SMS',
+      });
+    });
+
+    it('does not send to or charge for numbers that opted out', async () => {
+      const key = await createApiKey([ApiKeyScope.SMS_SEND]);
+      await request(app.getHttpServer())
+        .post('/suppressions')
+        .set('Authorization', `Bearer ${owner.token}`)
+        .send({ phoneNumbers: ['+14155550123'] })
+        .expect(201);
+      const before = await app.get(CreditsService).getBalance(owner.organizationId);
+      const sent = transport.sent.length;
+
+      const res = await request(app.getHttpServer())
+        .post('/v1/sms')
+        .set('X-API-Key', key)
+        .send({ to: '+14155550123', text: 'Hello by SMS' })
+        .expect(422);
+      expect(res.body.error.code).toBe('recipient_opted_out');
+      expect(transport.sent.length).toBe(sent);
+      expect(await app.get(CreditsService).getBalance(owner.organizationId)).toBe(before);
+    });
+
+    it('refunds the credit when the transport rejects the message', async () => {
+      const key = await createApiKey([ApiKeyScope.SMS_SEND]);
+      const balance = async () =>
+        (
+          await request(app.getHttpServer()).get('/credits/balance').set('Authorization', `Bearer ${owner.token}`).expect(200)
+        ).body;
+      const before = await balance();
+      transport.failNextSend(new Error('Carrier rejected the message'));
+
+      const res = await request(app.getHttpServer())
+        .post('/v1/sms')
+        .set('X-API-Key', key)
+        .send({ to: '+14155550122', text: 'Hello by SMS' })
+        .expect(502);
+      expect(res.body.error.code).toBe('send_failed');
+      expect(await balance()).toEqual(before);
+    });
+  });
+});
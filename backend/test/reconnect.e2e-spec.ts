@@ -0,0 +1,118 @@
+import { INestApplication } from '@nestjs/common';
+import { Socket } from 'socket.io-client';
+import { FakeProvider } from '../src/whatsapp/providers/fake.provider';
+import { WhatsappService } from '../src/whatsapp/whatsapp.service';
+import { SessionStatus } from '../src/whatsapp/whatsapp-session.entity';
+import { connectSocket, createSession, createTestApp, nextEvent, registerUser, TestUser, waitFor } from './utils';
+
+// Matches WHATSAPP_RECONNECT_DELAY in setup-env.ts and MAX_RETRIES in WhatsappService
+const BASE_DELAY = Number(process.env.WHATSAPP_RECONNECT_DELAY);
+const MAX_RETRIES = 5;
+
+describe('WhatsApp reconnect and backoff (e2e)', () => {
+  let app: INestApplication;
+  let owner: TestUser;
+  let socket: Socket;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    owner = await registerUser(app);
+  });
+
+  beforeEach(async () => {
+    socket = connectSocket(app, owner.token);
+    await nextEvent(socket, 'connect');
+  });
+
+  afterEach(() => {
+    socket.disconnect();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  async function linkSession(autoReady: boolean): Promise<number> {
+    const session = await createSession(app, owner, { autoReady });
+    const qr = nextEvent(socket, 'qr');
+    const ready = nextEvent(socket, 'status', (e) => e.status === 'ready');
+    socket.emit('initSession', { sessionId: session.id });
+
+    if (!autoReady) {
+      await qr;
+      FakeProvider.get(session.id)!.link();
+    }
+    await ready;
+    return session.id;
+  }
+
+  const sessionStatus = async (sessionId: number) =>
+    (await app.get(WhatsappService).getSession(sessionId, owner.organizationId))!.status;
+
+  it('reconnects after an unexpected disconnect', async () => {
+    const sessionId = await linkSession(true);
+    const first = FakeProvider.get(sessionId)!;
+
+    const reconnecting = nextEvent(socket, 'status', (e) => e.status === 'reconnecting');
+    const ready = nextEvent(socket, 'status', (e) => e.status === 'ready');
+    first.disconnect('CONFLICT');
+
+    expect(await reconnecting).toMatchObject({ sessionId, attempt: 2 });
+    await ready;
+
+    // A new client replaces the dropped one
+    expect(FakeProvider.get(sessionId)).not.toBe(first);
+    expect(app.get(WhatsappService).isSessionActive(sessionId)).toBe(true);
+    await waitFor(async () => (await sessionStatus(sessionId)) === SessionStatus.CONNECTED);
+  });
+
+  it('backs off exponentially and gives up after the maximum number of retries', async () => {
+    // Reconnects show a QR code and wait, so every attempt ends in another disconnect
+    const sessionId = await linkSession(false);
+    const gaps: number[] = [];
+
+    for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
+      const reconnected = nextEvent(socket, 'qr');
+      const disconnectedAt = Date.now();
+      FakeProvider.get(sessionId)!.disconnect('NAVIGATION');
+
+      await waitFor(async () => (await sessionStatus(sessionId)) === SessionStatus.PENDING);
+      await reconnected;
+      gaps.push(Date.now() - disconnectedAt);
+    }
+
+    // Doubling per attempt, with at most 10% jitter
+    gaps.forEach((gap, attempt) => {
+      expect(gap).toBeGreaterThanOrEqual(BASE_DELAY * Math.pow(2, attempt) * 0.9);
+    });
+
+    const gaveUp = nextEvent(socket, 'status', (e) => e.status === 'error');
+    FakeProvider.get(sessionId)!.disconnect('NAVIGATION');
+    expect(await gaveUp).toMatchObject({ maxRetriesExceeded: true });
+    await waitFor(async () => (await sessionStatus(sessionId)) === SessionStatus.FAILED);
+    expect(app.get(WhatsappService).isSessionActive(sessionId)).toBe(false);
+  });
+
+  it('resets the retry count once a reconnect succeeds', async () => {
+    const sessionId = await linkSession(true);
+
+    // More disconnects than MAX_RETRIES, each followed by a successful reconnect
+    for (let i = 0; i <= MAX_RETRIES; i++) {
+      const ready = nextEvent(socket, 'status', (e) => e.status === 'ready');
+      FakeProvider.get(sessionId)!.disconnect('NAVIGATION');
+      await ready;
+    }
+    await waitFor(async () => (await sessionStatus(sessionId)) === SessionStatus.CONNECTED);
+  });
+
+  it('does not reconnect after a logout', async () => {
+    const sessionId = await linkSession(true);
+    const disconnected = nextEvent(socket, 'status', (e) => e.status === 'disconnected');
+    FakeProvider.get(sessionId)!.disconnect('LOGOUT', true);
+    await disconnected;
+
+    await new Promise((resolve) => setTimeout(resolve, BASE_DELAY * 5));
+    expect(FakeProvider.get(sessionId)).toBeUndefined();
+    expect(await sessionStatus(sessionId)).toBe(SessionStatus.DISCONNECTED);
+  });
+});
@@ -0,0 +1,161 @@
+import { INestApplication } from '@nestjs/common';
+import request from 'supertest';
+import { Socket } from 'socket.io-client';
+import { FakeProvider } from '../src/whatsapp/providers/fake.provider';
+import { SessionStatus } from '../src/whatsapp/whatsapp-session.entity';
+import { OrganizationRole } from '../src/organizations/organization-member.entity';
+import { addMember, connectSocket, createSession, createTestApp, nextEvent, registerUser, TestUser, waitFor } from './utils';
+
+describe('WhatsApp session lifecycle (e2e)', () => {
+  let app: INestApplication;
+  let owner: TestUser;
+  let socket: Socket;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    owner = await registerUser(app);
+  });
+
+  beforeEach(async () => {
+    socket = connectSocket(app, owner.token);
+    await nextEvent(socket, 'connect');
+  });
+
+  afterEach(() => {
+    socket.disconnect();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const getSession = async (id: number) =>
+    (
+      await request(app.getHttpServer())
+        .get(`/whatsapp/sessions/${id}`)
+        .set('Authorization', `Bearer ${owner.token}`)
+        .expect(200)
+    ).body;
+
+  it('rejects sockets without a valid token', async () => {
+    const anonymous = connectSocket(app);
+    const error = await nextEvent<Error>(anonymous, 'connect_error');
+    expect(error.message).toBe('Authentication required');
+
+    const forged = connectSocket(app, 'not-a-jwt');
+    await nextEvent(forged, 'connect_error');
+    expect(forged.connected).toBe(false);
+  });
+
+  it('links a session by QR code and reports it connected', async () => {
+    const session = await createSession(app, owner, { autoReady: false });
+    expect(session.status).toBe(SessionStatus.PENDING);
+    expect(session.providerConfig).toBeUndefined();
+
+    const qr = nextEvent(socket, 'qr');
+    socket.emit('initSession', { sessionId: session.id });
+    expect((await qr).qr).toMatch(/^fake-qr-/);
+
+    const ready = nextEvent(socket, 'status', (e) => e.status === 'ready');
+    FakeProvider.get(session.id)!.link();
+    expect((await ready).phoneNumber).toBeDefined();
+
+    const stored = await waitFor(async () => {
+      const current = await getSession(session.id);
+      return current.status === SessionStatus.CONNECTED && current;
+    });
+    expect(stored.phoneNumber).toBe((await ready).phoneNumber);
+  });
+
+  it('links a session by pairing code', async () => {
+    const session = await createSession(app, owner, { autoReady: false });
+
+    const pairing = nextEvent(socket, 'pairingCode');
+    socket.emit('initSessionWithPhone', { sessionId: session.id, phoneNumber: '+1 415 555 0100' });
+    const { code, expiresAt } = await pairing;
+    expect(code).toHaveLength(8);
+    expect(new Date(expiresAt).getTime()).toBeGreaterThan(Date.now());
+
+    const refreshed = nextEvent(socket, 'pairingCode');
+    socket.emit('refreshPairingCode', { sessionId: session.id });
+    await refreshed;
+
+    const ready = nextEvent(socket, 'status', (e) => e.status === 'ready');
+    FakeProvider.get(session.id)!.link();
+    await ready;
+  });
+
+  it('marks the session failed when authentication fails', async () => {
+    const session = await createSession(app, owner, { autoReady: false });
+    const qr = nextEvent(socket, 'qr');
+    socket.emit('initSession', { sessionId: session.id });
+    await qr;
+
+    const error = nextEvent(socket, 'status', (e) => e.status === 'error');
+    FakeProvider.get(session.id)!.failAuth();
+    expect((await error).error).toBe('Authentication failed');
+    await waitFor(async () => (await getSession(session.id)).status === SessionStatus.FAILED);
+  });
+
+  it('asks to link again after the phone logs out', async () => {
+    const session = await createSession(app, owner);
+    const ready = nextEvent(socket, 'status', (e) => e.status === 'ready');
+    socket.emit('initSession', { sessionId: session.id });
+    await ready;
+
+    const disconnected = nextEvent(socket, 'status', (e) => e.status === 'disconnected');
+    FakeProvider.get(session.id)!.disconnect('LOGOUT', true);
+    expect(await disconnected).toMatchObject({ reason: 'logged_out', needsReauth: true });
+    await waitFor(async () => (await getSession(session.id)).status === SessionStatus.DISCONNECTED);
+  });
+
+  it('does not let other organizations connect or see the session', async () => {
+    const session = await createSession(app, owner);
+    const outsider = await registerUser(app);
+
+    await request(app.getHttpServer())
+      .get(`/whatsapp/sessions/${session.id}`)
+      .set('Authorization', `Bearer ${outsider.token}`)
+      .expect((res) => expect(res.body).toEqual({}));
+
+    const outsiderSocket = connectSocket(app, outsider.token);
+    await nextEvent(outsiderSocket, 'connect');
+    const error = nextEvent(outsiderSocket, 'error');
+    outsiderSocket.emit('initSession', { sessionId: session.id });
+    expect((await error).message).toBe('Session not found');
+    expect(FakeProvider.get(session.id)).toBeUndefined();
+    outsiderSocket.disconnect();
+  });
+
+  it('keeps QR codes away from members below manager', async () => {
+    const session = await createSession(app, owner, { autoReady: false });
+    const viewer = await addMember(app, owner, OrganizationRole.VIEWER);
+    const viewerSocket = connectSocket(app, viewer.token);
+    await nextEvent(viewerSocket, 'connect');
+
+    const refused = nextEvent(viewerSocket, 'error');
+    viewerSocket.emit('checkSession', { sessionId: session.id });
+    expect((await refused).message).toBe('Managing sessions requires the manager role');
+
+    const viewerQr = jest.fn();
+    viewerSocket.on('qr', viewerQr);
+    const qr = nextEvent(socket, 'qr');
+    socket.emit('initSession', { sessionId: session.id });
+    await qr;
+    expect(viewerQr).not.toHaveBeenCalled();
+    viewerSocket.disconnect();
+  });
+
+  it('deletes a session and drops its client', async () => {
+    const session = await createSession(app, owner);
+    const ready = nextEvent(socket, 'status', (e) => e.status === 'ready');
+    socket.emit('initSession', { sessionId: session.id });
+    await ready;
+
+    await request(app.getHttpServer())
+      .delete(`/whatsapp/sessions/${session.id}`)
+      .set('Authorization', `Bearer ${owner.token}`)
+      .expect(200, { success: true });
+    expect(FakeProvider.get(session.id)).toBeUndefined();
+  });
+});
@@ -0,0 +1,17 @@
+import * as os from 'os';
+import * as path from 'path';
+
+// Runs before each suite imports AppModule; process.env wins over any .env file
+Object.assign(process.env, {
+  JWT_SECRET: 'e2e-secret',
+  WHATSAPP_DEFAULT_PROVIDER: 'fake',
+  WHATSAPP_FAKE_PROVIDER_ENABLED: 'true',
+  WHATSAPP_SESSION_PATH: path.join(os.tmpdir(), 'jantu-e2e-sessions'),
+  WHATSAPP_RECONNECT_DELAY: '20',
+  SMS_PROVIDER: 'fake',
+  TWILIO_PHONE_NUMBER: '+15005550006',
+  CAMPAIGN_QUEUE_POLL_INTERVAL: '50',
+  MESSAGE_DELAY_MIN: '0',
+  MESSAGE_DELAY_MAX: '0',
+  DEFAULT_PHONE_COUNTRY: 'US',
+});
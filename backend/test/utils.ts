@@ -0,0 +1,169 @@
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { AddressInfo } from 'net';
+import request from 'supertest';
+import { io, Socket } from 'socket.io-client';
+import { DataType, newDb } from 'pg-mem';
+import { DataSource } from 'typeorm';
+import { AppModule } from '../src/app.module';
+import { CreditsService } from '../src/credits/credits.service';
+import { OrganizationRole } from '../src/organizations/organization-member.entity';
+
+export interface TestUser {
+  token: string;
+  email: string;
+  userId: number;
+  organizationId: number;
+}
+
+// In-memory Postgres, so the enum and JSON columns behave as in production
+async function createDataSource(): Promise<DataSource> {
+  const db = newDb({ autoCreateForeignKeyIndices: true });
+  db.public.registerFunction({ name: 'current_database', implementation: () => 'jantu' });
+  db.public.registerFunction({ name: 'version', implementation: () => 'PostgreSQL 16 (pg-mem)' });
+  // pg-mem computes "integer - untyped literal" with the operands swapped ('credits - $1' gives $1 - credits)
+  db.getSchema('pg_catalog').registerOperator({
+    operator: '-',
+    left: DataType.integer,
+    right: DataType.text,
+    returns: DataType.integer,
+    implementation: (a: number, b: string) => a - Number(b),
+  });
+
+  const dataSource: DataSource = await db.adapters.createTypeormDataSource({
+    type: 'postgres',
+    entities: [__dirname + '/../src/**/*.entity.ts'],
+    synchronize: true,
+  });
+  await dataSource.initialize();
+
+  // TypeORM declares numeric defaults as DEFAULT '0', which pg-mem stores as text, so counters
+  // would concatenate instead of adding up
+  for (const entity of dataSource.entityMetadatas) {
+    for (const column of entity.columns) {
+      if (typeof column.default === 'number') {
+        await dataSource.query(
+          `ALTER TABLE "${entity.tableName}" ALTER COLUMN "${column.databaseName}" SET DEFAULT ${column.default}`,
+        );
+      }
+    }
+  }
+  return dataSource;
+}
+
+// Boots the whole application with the fake WhatsApp provider and SMS transport (see
+// setup-env.ts), listening on a random port so sockets can connect
+export async function createTestApp(): Promise<INestApplication> {
+  const moduleRef = await Test.createTestingModule({ imports: [AppModule] })
+    .overrideProvider(DataSource)
+    .useFactory({ factory: createDataSource })
+    .compile();
+  const app = moduleRef.createNestApplication({ rawBody: true, logger: false });
+
+  // Same pipe as main.ts
+  app.useGlobalPipes(
+    new ValidationPipe({
+      whitelist: true,
+      transform: true,
+      forbidNonWhitelisted: true,
+    }),
+  );
+
+  await app.listen(0);
+  return app;
+}
+
+let userCount = 0;
+
+// Registers a user, which also creates their organization with them as owner. Pass credits to
+// replace the signup bonus with an exact balance.
+export async function registerUser(app: INestApplication, credits?: number): Promise<TestUser> {
+  userCount++;
+  const email = `user${userCount}@example.com`;
+  const res = await request(app.getHttpServer())
+    .post('/auth/register')
+    .send({ email, password: 'password123', name: `User ${userCount}`, defaultCountry: 'US' })
+    .expect(201);
+
+  const user: TestUser = {
+    token: res.body.token,
+    email,
+    userId: res.body.user.id,
+    organizationId: res.body.user.organization.id,
+  };
+  if (credits !== undefined) {
+    const creditsService = app.get(CreditsService);
+    const difference = credits - (await creditsService.getBalance(user.organizationId));
+    if (difference !== 0) {
+      await creditsService.adjust(user.organizationId, difference, 'Test balance');
+    }
+  }
+  return user;
+}
+
+// Registers a user and adds them to the owner's organization with the given role; the returned
+// token is scoped to that organization
+export async function addMember(app: INestApplication, owner: TestUser, role: OrganizationRole): Promise<TestUser> {
+  const server = app.getHttpServer();
+  const member = await registerUser(app);
+  const invitation = await request(server)
+    .post('/organizations/current/invitations')
+    .set('Authorization', `Bearer ${owner.token}`)
+    .send({ email: member.email, role })
+    .expect(201);
+  await request(server)
+    .post('/organizations/invitations/accept')
+    .set('Authorization', `Bearer ${member.token}`)
+    .send({ token: invitation.body.token })
+    .expect(201);
+  const switched = await request(server)
+    .post('/auth/switch-organization')
+    .set('Authorization', `Bearer ${member.token}`)
+    .send({ organizationId: owner.organizationId })
+    .expect(201);
+
+  return { ...member, token: switched.body.token, organizationId: owner.organizationId };
+}
+
+export async function createSession(app: INestApplication, user: TestUser, providerConfig?: Record<string, any>) {
+  const res = await request(app.getHttpServer())
+    .post('/whatsapp/sessions')
+    .set('Authorization', `Bearer ${user.token}`)
+    .send({ sessionName: 'Test session', providerConfig })
+    .expect(201);
+  return res.body.session;
+}
+
+export function connectSocket(app: INestApplication, token?: string): Socket {
+  const { port } = app.getHttpServer().address() as AddressInfo;
+  return io(`http://127.0.0.1:${port}/whatsapp`, {
+    auth: token ? { token } : {},
+    transports: ['websocket'],
+    reconnection: false,
+    forceNew: true,
+  });
+}
+
+export function nextEvent<T = any>(socket: Socket, event: string, predicate: (data: T) => boolean = () => true): Promise<T> {
+  return new Promise((resolve) => {
+    const listener = (data: T) => {
+      if (!predicate(data)) return;
+      socket.off(event, listener);
+      resolve(data);
+    };
+    socket.on(event, listener);
+  });
+}
+
+// Polls until the check passes; the app reacts to fake provider events asynchronously
+export async function waitFor<T>(check: () => Promise<T | undefined | null | false> | T | undefined | null | false, timeout = 5000): Promise<T> {
+  const deadline = Date.now() + timeout;
+  for (;;) {
+    const result = await check();
+    if (result) return result;
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
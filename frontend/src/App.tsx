@@ -7,11 +7,16 @@ import Dashboard from './pages/Dashboard'
 import RegisterWAPP from './pages/RegisterWAPP'
 import WappCampaign from './pages/WappCampaign'
 import ButtonCampaign from './pages/ButtonCampaign'
+import CampaignProgress from './pages/CampaignProgress'
 import WAPPReport from './pages/WAPPReport'
 import WAppChannel from './pages/WAppChannel'
 import CreditHistory from './pages/CreditHistory'
 import ChangePassword from './pages/ChangePassword'
 import ManageAPIKey from './pages/ManageAPIKey'
+import Inbox from './pages/Inbox'
+import Admin from './pages/Admin'
+import Organization from './pages/Organization'
+import AcceptInvitation from './pages/AcceptInvitation'
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
   const { isAuthenticated, loading } = useAuth()
@@ -31,6 +36,16 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
   return <>{children}</>
 }
 
+function AdminRoute({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth()
+
+  if (user?.role !== 'admin') {
+    return <Navigate to="/" replace />
+  }
+
+  return <>{children}</>
+}
+
 function App() {
   const { isAuthenticated } = useAuth()
 
@@ -50,11 +65,23 @@ function App() {
         <Route path="register-wapp" element={<RegisterWAPP />} />
         <Route path="wapp-campaign" element={<WappCampaign />} />
         <Route path="button-campaign" element={<ButtonCampaign />} />
+        <Route path="campaigns/:id" element={<CampaignProgress />} />
         <Route path="wapp-report" element={<WAPPReport />} />
+        <Route path="inbox" element={<Inbox />} />
         <Route path="wapp-channel" element={<WAppChannel />} />
         <Route path="credit-history" element={<CreditHistory />} />
         <Route path="change-password" element={<ChangePassword />} />
         <Route path="manage-api-key" element={<ManageAPIKey />} />
+        <Route path="organization" element={<Organization />} />
+        <Route path="invitations/accept" element={<AcceptInvitation />} />
+        <Route
+          path="admin"
+          element={
+            <AdminRoute>
+              <Admin />
+            </AdminRoute>
+          }
+        />
       </Route>
     </Routes>
   )
@@ -11,25 +11,60 @@ import {
   MdVpnKey,
   MdLogout,
   MdMenu,
+  MdInbox,
+  MdAdminPanelSettings,
+  MdGroups,
 } from 'react-icons/md'
 import { FaWhatsapp } from 'react-icons/fa'
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
+import toast from 'react-hot-toast'
+import api from '../services/api'
 
 const menuItems = [
   { path: '/', icon: MdDashboard, label: 'Dashboard' },
   { path: '/wapp-campaign', icon: MdMessage, label: 'Wapp Campaign' },
   { path: '/button-campaign', icon: MdCampaign, label: 'Button Campaign' },
   { path: '/wapp-report', icon: MdAssessment, label: 'WAPP Report' },
+  { path: '/inbox', icon: MdInbox, label: 'Inbox' },
   { path: '/register-wapp', icon: FaWhatsapp, label: 'Register WAPP' },
   { path: '/wapp-channel', icon: MdPhoneAndroid, label: 'WApp Channel' },
   { path: '/credit-history', icon: MdHistory, label: 'Credit History' },
   { path: '/change-password', icon: MdLock, label: 'Change Password' },
   { path: '/manage-api-key', icon: MdVpnKey, label: 'Manage APIKey' },
+  { path: '/organization', icon: MdGroups, label: 'Organization' },
+]
+
+interface OrganizationOption {
+  id: number
+  name: string
+}
+
+const adminMenuItems = [
+  { path: '/admin', icon: MdAdminPanelSettings, label: 'Admin' },
 ]
 
 export default function Layout() {
-  const { user, logout } = useAuth()
+  const { user, logout, switchOrganization } = useAuth()
   const [sidebarOpen, setSidebarOpen] = useState(true)
+  const [organizations, setOrganizations] = useState<OrganizationOption[]>([])
+  const visibleItems = user?.role === 'admin' ? [...menuItems, ...adminMenuItems] : menuItems
+
+  useEffect(() => {
+    api
+      .get('/organizations')
+      .then((response) => setOrganizations(response.data))
+      .catch(() => setOrganizations([]))
+  }, [user?.organization.id])
+
+  const handleSwitch = async (organizationId: number) => {
+    try {
+      await switchOrganization(organizationId)
+      // Every page's data belongs to the previous organization
+      window.location.assign('/')
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to switch organization')
+    }
+  }
 
   return (
     <div className="flex min-h-screen">
@@ -45,7 +80,7 @@ export default function Layout() {
         </div>
 
         <nav className="mt-4">
-          {menuItems.map((item) => (
+          {visibleItems.map((item) => (
             <NavLink
               key={item.path}
               to={item.path}
@@ -85,8 +120,23 @@ export default function Layout() {
           </button>
 
           <div className="flex items-center gap-4">
+            {organizations.length > 1 ? (
+              <select
+                value={user?.organization.id}
+                onChange={(e) => handleSwitch(Number(e.target.value))}
+                className="input py-1"
+              >
+                {organizations.map((org) => (
+                  <option key={org.id} value={org.id}>
+                    {org.name}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <span className="text-gray-500 text-sm">{user?.organization.name}</span>
+            )}
             <span className="badge badge-success">Credit</span>
-            <span className="badge badge-info">W.API:{user?.credits || 0}</span>
+            <span className="badge badge-info">W.API:{user?.organization.credits || 0}</span>
             <span className="text-gray-700">{user?.name}</span>
           </div>
         </header>
@@ -1,11 +1,20 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react'
 import api from '../services/api'
 
+export type OrganizationRole = 'owner' | 'manager' | 'agent' | 'viewer'
+
 interface User {
   id: number
   email: string
   name: string
-  credits: number
+  role: 'admin' | 'user'
+  // Organization the session is working in
+  organization: {
+    id: number
+    name: string
+    role: OrganizationRole
+    credits: number
+  }
 }
 
 interface AuthContextType {
@@ -17,8 +26,12 @@ interface AuthContextType {
   register: (email: string, password: string, name: string) => Promise<void>
   logout: () => void
   updateUser: (user: User) => void
+  switchOrganization: (organizationId: number) => Promise<void>
+  hasOrganizationRole: (role: OrganizationRole) => boolean
 }
 
+const ROLE_RANK: Record<OrganizationRole, number> = { viewer: 0, agent: 1, manager: 2, owner: 3 }
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
 export function AuthProvider({ children }: { children: ReactNode }) {
@@ -69,6 +82,18 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     setUser(userData)
   }
 
+  // Issues a new token scoped to the other organization
+  const switchOrganization = async (organizationId: number) => {
+    const response = await api.post('/auth/switch-organization', { organizationId })
+    const { user: userData, token: authToken } = response.data
+    localStorage.setItem('token', authToken)
+    setToken(authToken)
+    setUser(userData)
+  }
+
+  const hasOrganizationRole = (role: OrganizationRole) =>
+    !!user && ROLE_RANK[user.organization.role] >= ROLE_RANK[role]
+
   return (
     <AuthContext.Provider
       value={{
@@ -80,6 +105,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         register,
         logout,
         updateUser,
+        switchOrganization,
+        hasOrganizationRole,
       }}
     >
       {children}
@@ -0,0 +1,45 @@
+import { useEffect, useRef, useState } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import api from '../../services/api'
+import { useAuth } from '../../context/AuthContext'
+
+export default function AcceptInvitation() {
+  const [searchParams] = useSearchParams()
+  const { switchOrganization } = useAuth()
+  const [error, setError] = useState<string | null>(null)
+  // StrictMode runs effects twice; an invitation can only be accepted once
+  const started = useRef(false)
+
+  useEffect(() => {
+    const token = searchParams.get('token')
+    if (!token) {
+      setError('This invitation link is incomplete.')
+      return
+    }
+    if (started.current) return
+    started.current = true
+
+    api
+      .post('/organizations/invitations/accept', { token })
+      .then((response) => switchOrganization(response.data.id))
+      .then(() => window.location.assign('/organization'))
+      .catch((err) => setError(err.response?.data?.message || 'Failed to accept invitation'))
+  }, [])
+
+  return (
+    <div className="card max-w-md mx-auto text-center">
+      {error ? (
+        <>
+          <p className="text-red-600 mb-4">{error}</p>
+          <Link to="/" className="btn-primary">
+            Back to dashboard
+          </Link>
+        </>
+      ) : (
+        <div className="flex items-center justify-center h-32">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-500"></div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,547 @@
+import { useState, useEffect } from 'react'
+import api from '../../services/api'
+import toast from 'react-hot-toast'
+import { useAuth } from '../../context/AuthContext'
+
+interface AdminUser {
+  id: number
+  email: string
+  name: string
+  role: 'admin' | 'user'
+  isActive: boolean
+  createdAt: string
+}
+
+interface AdminOrganization {
+  id: number
+  name: string
+  credits: number
+  createdAt: string
+}
+
+interface AdminApiKey {
+  id: number
+  name: string
+  key: string
+  isActive: boolean
+  lastUsedAt: string | null
+}
+
+interface AdminSession {
+  id: number
+  sessionName: string
+  phoneNumber: string | null
+  status: string
+  isLive: boolean
+  updatedAt: string
+  user?: { id: number; email: string; name: string } | null
+  organization?: { id: number; name: string } | null
+}
+
+interface UserDetail {
+  user: AdminUser
+  organizations: { id: number; name: string; credits: number; role: string }[]
+  sessions: AdminSession[]
+  apiKeys: AdminApiKey[]
+}
+
+const PAGE_SIZE = 50
+
+export default function Admin() {
+  const { user: currentUser } = useAuth()
+  const [tab, setTab] = useState<'users' | 'organizations' | 'sessions'>('users')
+  const [users, setUsers] = useState<AdminUser[]>([])
+  const [total, setTotal] = useState(0)
+  const [page, setPage] = useState(0)
+  const [search, setSearch] = useState('')
+  const [detail, setDetail] = useState<UserDetail | null>(null)
+  const [sessions, setSessions] = useState<AdminSession[]>([])
+  const [organizations, setOrganizations] = useState<AdminOrganization[]>([])
+  const [orgSearch, setOrgSearch] = useState('')
+  const [selectedOrg, setSelectedOrg] = useState<AdminOrganization | null>(null)
+  const [creditAmount, setCreditAmount] = useState('')
+  const [creditReason, setCreditReason] = useState('')
+  const [creditTopUp, setCreditTopUp] = useState(false)
+
+  useEffect(() => {
+    loadUsers()
+  }, [page])
+
+  useEffect(() => {
+    if (tab === 'sessions') loadSessions()
+    if (tab === 'organizations') loadOrganizations()
+  }, [tab])
+
+  const loadUsers = async () => {
+    try {
+      const params = new URLSearchParams({
+        limit: String(PAGE_SIZE),
+        offset: String(page * PAGE_SIZE),
+      })
+      if (search.trim()) params.set('search', search.trim())
+      const response = await api.get(`/admin/users?${params}`)
+      setUsers(response.data.users)
+      setTotal(response.data.total)
+    } catch (error) {
+      console.error('Failed to load users:', error)
+    }
+  }
+
+  const loadDetail = async (userId: number) => {
+    try {
+      const response = await api.get(`/admin/users/${userId}`)
+      setDetail(response.data)
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to load user')
+    }
+  }
+
+  const loadOrganizations = async () => {
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) })
+      if (orgSearch.trim()) params.set('search', orgSearch.trim())
+      const response = await api.get(`/admin/organizations?${params}`)
+      setOrganizations(response.data.organizations)
+      setSelectedOrg((current) =>
+        current ? response.data.organizations.find((o: AdminOrganization) => o.id === current.id) || null : null,
+      )
+    } catch (error) {
+      console.error('Failed to load organizations:', error)
+    }
+  }
+
+  const loadSessions = async () => {
+    try {
+      const response = await api.get('/admin/sessions')
+      setSessions(response.data)
+    } catch (error) {
+      console.error('Failed to load sessions:', error)
+    }
+  }
+
+  const refresh = async (userId: number) => {
+    await Promise.all([loadUsers(), loadDetail(userId)])
+  }
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (page === 0) {
+      loadUsers()
+    } else {
+      setPage(0)
+    }
+  }
+
+  const adjustCredits = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!selectedOrg) return
+
+    const amount = parseInt(creditAmount, 10)
+    if (!amount || !creditReason.trim()) {
+      toast.error('Enter a non-zero amount and a reason')
+      return
+    }
+
+    try {
+      await api.post(`/admin/organizations/${selectedOrg.id}/credits`, {
+        amount,
+        reason: creditReason.trim(),
+        topUp: creditTopUp,
+      })
+      toast.success('Credits updated')
+      setCreditAmount('')
+      setCreditReason('')
+      setCreditTopUp(false)
+      loadOrganizations()
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to update credits')
+    }
+  }
+
+  const toggleActive = async (target: AdminUser) => {
+    if (target.isActive && !confirm(`Suspend ${target.email}? Their campaigns will be paused and sessions disconnected.`)) {
+      return
+    }
+    try {
+      await api.put(`/admin/users/${target.id}/status`, { isActive: !target.isActive })
+      toast.success(target.isActive ? 'User suspended' : 'User reactivated')
+      refresh(target.id)
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to update user')
+    }
+  }
+
+  const toggleRole = async (target: AdminUser) => {
+    const role = target.role === 'admin' ? 'user' : 'admin'
+    try {
+      await api.put(`/admin/users/${target.id}/role`, { role })
+      toast.success(`Role set to ${role}`)
+      refresh(target.id)
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to update role')
+    }
+  }
+
+  const toggleApiKey = async (apiKey: AdminApiKey) => {
+    if (!detail) return
+    try {
+      await api.put(`/admin/api-keys/${apiKey.id}/status`, { isActive: !apiKey.isActive })
+      toast.success(apiKey.isActive ? 'API key disabled' : 'API key enabled')
+      loadDetail(detail.user.id)
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to update API key')
+    }
+  }
+
+  const disconnectSession = async (session: AdminSession) => {
+    if (!confirm(`Disconnect session "${session.sessionName}"?`)) return
+    try {
+      await api.post(`/admin/sessions/${session.id}/disconnect`)
+      toast.success('Session disconnected')
+      loadSessions()
+      if (detail) loadDetail(detail.user.id)
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to disconnect session')
+    }
+  }
+
+  const renderSessionStatus = (session: AdminSession) => (
+    <span className={`badge ${session.isLive ? 'badge-success' : 'badge-warning'}`}>
+      {session.isLive ? 'live' : session.status}
+    </span>
+  )
+
+  return (
+    <div>
+      <h1 className="text-2xl font-bold mb-6">Admin</h1>
+
+      <div className="flex gap-2 mb-6">
+        <button
+          onClick={() => setTab('users')}
+          className={`px-4 py-2 rounded ${tab === 'users' ? 'bg-primary-500 text-white' : 'bg-gray-200'}`}
+        >
+          Users
+        </button>
+        <button
+          onClick={() => setTab('organizations')}
+          className={`px-4 py-2 rounded ${tab === 'organizations' ? 'bg-primary-500 text-white' : 'bg-gray-200'}`}
+        >
+          Organizations
+        </button>
+        <button
+          onClick={() => setTab('sessions')}
+          className={`px-4 py-2 rounded ${tab === 'sessions' ? 'bg-primary-500 text-white' : 'bg-gray-200'}`}
+        >
+          Sessions
+        </button>
+      </div>
+
+      {tab === 'users' && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="card">
+            <form onSubmit={handleSearch} className="flex gap-2 mb-4">
+              <input
+                type="text"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="input flex-1"
+                placeholder="Search by email or name"
+              />
+              <button type="submit" className="btn-primary">
+                Search
+              </button>
+            </form>
+
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-2 px-4">User</th>
+                    <th className="text-left py-2 px-4">Role</th>
+                    <th className="text-left py-2 px-4">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {users.map((u) => (
+                    <tr
+                      key={u.id}
+                      onClick={() => loadDetail(u.id)}
+                      className={`border-b cursor-pointer hover:bg-gray-50 ${
+                        detail?.user.id === u.id ? 'bg-gray-50' : ''
+                      }`}
+                    >
+                      <td className="py-2 px-4">
+                        <p className="font-medium">{u.name}</p>
+                        <p className="text-sm text-gray-500">{u.email}</p>
+                      </td>
+                      <td className="py-2 px-4">{u.role}</td>
+                      <td className="py-2 px-4">
+                        <span className={`badge ${u.isActive ? 'badge-success' : 'badge-danger'}`}>
+                          {u.isActive ? 'active' : 'suspended'}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {total > PAGE_SIZE && (
+              <div className="flex justify-between items-center mt-4">
+                <button
+                  onClick={() => setPage((p) => p - 1)}
+                  disabled={page === 0}
+                  className="px-4 py-2 rounded bg-gray-200 disabled:opacity-50"
+                >
+                  Previous
+                </button>
+                <span className="text-sm text-gray-500">
+                  Page {page + 1} of {Math.ceil(total / PAGE_SIZE)}
+                </span>
+                <button
+                  onClick={() => setPage((p) => p + 1)}
+                  disabled={(page + 1) * PAGE_SIZE >= total}
+                  className="px-4 py-2 rounded bg-gray-200 disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </div>
+            )}
+          </div>
+
+          {detail ? (
+            <div className="card space-y-6">
+              <div className="flex justify-between items-start">
+                <div>
+                  <h2 className="text-lg font-semibold">{detail.user.name}</h2>
+                  <p className="text-sm text-gray-500">{detail.user.email}</p>
+                </div>
+                {detail.user.id !== currentUser?.id && (
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => toggleRole(detail.user)}
+                      className="px-3 py-1 rounded bg-gray-200 text-sm"
+                    >
+                      {detail.user.role === 'admin' ? 'Remove admin' : 'Make admin'}
+                    </button>
+                    <button
+                      onClick={() => toggleActive(detail.user)}
+                      className={detail.user.isActive ? 'btn-danger' : 'btn-success'}
+                    >
+                      {detail.user.isActive ? 'Suspend' : 'Reactivate'}
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <h3 className="font-semibold mb-2">Organizations</h3>
+                {detail.organizations.map((org) => (
+                  <div key={org.id} className="flex justify-between items-center py-1 text-sm">
+                    <span>
+                      {org.name} <span className="text-gray-500">({org.role})</span>
+                    </span>
+                    <span>{org.credits} credits</span>
+                  </div>
+                ))}
+              </div>
+
+              <div>
+                <h3 className="font-semibold mb-2">API keys</h3>
+                {detail.apiKeys.length === 0 ? (
+                  <p className="text-sm text-gray-500">No API keys</p>
+                ) : (
+                  detail.apiKeys.map((apiKey) => (
+                    <div key={apiKey.id} className="flex justify-between items-center py-1">
+                      <span className="text-sm">
+                        {apiKey.name} <code className="text-gray-500">{apiKey.key}</code>
+                      </span>
+                      <button
+                        onClick={() => toggleApiKey(apiKey)}
+                        className={`badge ${apiKey.isActive ? 'badge-success' : 'badge-danger'}`}
+                      >
+                        {apiKey.isActive ? 'enabled' : 'disabled'}
+                      </button>
+                    </div>
+                  ))
+                )}
+              </div>
+
+              <div>
+                <h3 className="font-semibold mb-2">WhatsApp sessions</h3>
+                {detail.sessions.length === 0 ? (
+                  <p className="text-sm text-gray-500">No sessions</p>
+                ) : (
+                  detail.sessions.map((session) => (
+                    <div key={session.id} className="flex justify-between items-center py-1">
+                      <span className="text-sm">
+                        {session.sessionName} {session.phoneNumber && `(${session.phoneNumber})`}
+                      </span>
+                      <div className="flex gap-2 items-center">
+                        {renderSessionStatus(session)}
+                        {session.isLive && (
+                          <button
+                            onClick={() => disconnectSession(session)}
+                            className="text-sm text-red-500 hover:text-red-700"
+                          >
+                            Disconnect
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          ) : (
+            <div className="card">
+              <p className="text-gray-500 text-center py-8">Select a user to manage</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {tab === 'organizations' && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="card">
+            <form
+              onSubmit={(e) => {
+                e.preventDefault()
+                loadOrganizations()
+              }}
+              className="flex gap-2 mb-4"
+            >
+              <input
+                type="text"
+                value={orgSearch}
+                onChange={(e) => setOrgSearch(e.target.value)}
+                className="input flex-1"
+                placeholder="Search by name"
+              />
+              <button type="submit" className="btn-primary">
+                Search
+              </button>
+            </form>
+
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left py-2 px-4">Organization</th>
+                  <th className="text-right py-2 px-4">Credits</th>
+                </tr>
+              </thead>
+              <tbody>
+                {organizations.map((org) => (
+                  <tr
+                    key={org.id}
+                    onClick={() => setSelectedOrg(org)}
+                    className={`border-b cursor-pointer hover:bg-gray-50 ${
+                      selectedOrg?.id === org.id ? 'bg-gray-50' : ''
+                    }`}
+                  >
+                    <td className="py-2 px-4">{org.name}</td>
+                    <td className="py-2 px-4 text-right">{org.credits}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {selectedOrg ? (
+            <div className="card space-y-4">
+              <div>
+                <h2 className="text-lg font-semibold">{selectedOrg.name}</h2>
+                <p className="text-sm mt-1">
+                  Credits: <span className="font-semibold">{selectedOrg.credits}</span>
+                </p>
+              </div>
+              <form onSubmit={adjustCredits} className="space-y-2">
+                <h3 className="font-semibold">Adjust credits</h3>
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    value={creditAmount}
+                    onChange={(e) => setCreditAmount(e.target.value)}
+                    className="input w-32"
+                    placeholder="+/- amount"
+                  />
+                  <input
+                    type="text"
+                    value={creditReason}
+                    onChange={(e) => setCreditReason(e.target.value)}
+                    className="input flex-1"
+                    placeholder="Reason"
+                  />
+                </div>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={creditTopUp}
+                    onChange={(e) => setCreditTopUp(e.target.checked)}
+                  />
+                  Record as a paid top-up
+                </label>
+                <button type="submit" className="btn-primary">
+                  Apply
+                </button>
+              </form>
+            </div>
+          ) : (
+            <div className="card">
+              <p className="text-gray-500 text-center py-8">Select an organization to manage</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {tab === 'sessions' && (
+        <div className="card">
+          {sessions.length === 0 ? (
+            <p className="text-gray-500 text-center py-8">No sessions</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-2 px-4">Session</th>
+                    <th className="text-left py-2 px-4">Organization</th>
+                    <th className="text-left py-2 px-4">Created by</th>
+                    <th className="text-left py-2 px-4">Status</th>
+                    <th className="text-left py-2 px-4">Last update</th>
+                    <th className="py-2 px-4"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sessions.map((session) => (
+                    <tr key={session.id} className="border-b hover:bg-gray-50">
+                      <td className="py-2 px-4">
+                        <p className="font-medium">{session.sessionName}</p>
+                        <p className="text-sm text-gray-500">{session.phoneNumber || '-'}</p>
+                      </td>
+                      <td className="py-2 px-4 text-sm">{session.organization?.name || '-'}</td>
+                      <td className="py-2 px-4 text-sm">{session.user?.email || '-'}</td>
+                      <td className="py-2 px-4">{renderSessionStatus(session)}</td>
+                      <td className="py-2 px-4 text-sm">
+                        {new Date(session.updatedAt).toLocaleString()}
+                      </td>
+                      <td className="py-2 px-4 text-right">
+                        {session.isLive && (
+                          <button
+                            onClick={() => disconnectSession(session)}
+                            className="text-sm text-red-500 hover:text-red-700"
+                          >
+                            Force disconnect
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from 'react'
 import { useDropzone } from 'react-dropzone'
+import { useNavigate } from 'react-router-dom'
 import api from '../../services/api'
 import toast from 'react-hot-toast'
 
@@ -10,6 +11,7 @@ interface Session {
 }
 
 export default function ButtonCampaign() {
+  const navigate = useNavigate()
   const [sessions, setSessions] = useState<Session[]>([])
   const [selectedSession, setSelectedSession] = useState<number | null>(null)
   const [campaignName, setCampaignName] = useState('')
@@ -144,15 +146,8 @@ export default function ButtonCampaign() {
 
       toast.success('Campaign started successfully!')
 
-      // Reset form
-      setCampaignName('')
-      setNumbers('')
-      setMessage('')
-      setLinkUrl('')
-      setCallNumber('')
-      setImages([])
-      setVideo(null)
-      setPdf(null)
+      // Follow the campaign live
+      navigate(`/campaigns/${campaignId}`)
     } catch (error: any) {
       toast.error(error.response?.data?.message || 'Failed to create campaign')
     } finally {
@@ -0,0 +1,266 @@
+import { useState, useEffect } from 'react'
+import { useParams } from 'react-router-dom'
+import api from '../../services/api'
+import { connectSocket, disconnectSocket } from '../../services/socket'
+import toast from 'react-hot-toast'
+import { useAuth } from '../../context/AuthContext'
+
+interface Recipient {
+  id: number
+  phoneNumber: string
+  status: string
+  error?: string | null
+  sentAt?: string | null
+  deliveredAt?: string | null
+  readAt?: string | null
+}
+
+interface Progress {
+  status: string
+  totalRecipients: number
+  sentCount: number
+  failedCount: number
+  pendingCount: number
+  throughputPerMinute: number
+  etaSeconds: number | null
+}
+
+interface ThroughputSample {
+  at: number
+  value: number
+}
+
+// Throughput samples kept for the chart
+const MAX_SAMPLES = 60
+
+const STATUS_BADGES: Record<string, string> = {
+  pending: 'badge-warning',
+  sent: 'badge-info',
+  delivered: 'badge-success',
+  read: 'badge-success',
+  failed: 'badge-danger',
+  cancelled: 'badge-danger',
+  suppressed: 'badge-warning',
+}
+
+function formatEta(seconds: number | null): string {
+  if (seconds === null) return '—'
+  if (seconds < 60) return `${seconds}s`
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+}
+
+function ThroughputChart({ samples }: { samples: ThroughputSample[] }) {
+  if (samples.length === 0) {
+    return <p className="text-sm text-gray-500">Waiting for messages to be sent...</p>
+  }
+
+  const max = Math.max(...samples.map((s) => s.value), 1)
+  const barWidth = 100 / MAX_SAMPLES
+
+  return (
+    <div>
+      <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="w-full h-40 bg-gray-50 rounded">
+        {samples.map((sample, index) => {
+          const height = (sample.value / max) * 38
+          return (
+            <rect
+              key={sample.at}
+              x={index * barWidth}
+              y={40 - height}
+              width={barWidth * 0.8}
+              height={height}
+              className="fill-primary-500"
+            >
+              <title>{`${sample.value}/min at ${new Date(sample.at).toLocaleTimeString()}`}</title>
+            </rect>
+          )
+        })}
+      </svg>
+      <p className="text-xs text-gray-400 mt-1">Peak {max} messages/min</p>
+    </div>
+  )
+}
+
+export default function CampaignProgress() {
+  const { id } = useParams()
+  const campaignId = Number(id)
+  const { hasOrganizationRole } = useAuth()
+  const [name, setName] = useState('')
+  const [progress, setProgress] = useState<Progress | null>(null)
+  const [recipients, setRecipients] = useState<Recipient[]>([])
+  const [samples, setSamples] = useState<ThroughputSample[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const canManage = hasOrganizationRole('manager')
+
+  useEffect(() => {
+    loadReport()
+
+    const socket = connectSocket()
+    const onProgress = (data: Progress & { campaignId: number }) => {
+      if (data.campaignId !== campaignId) return
+      setProgress(data)
+      if (data.status === 'running') {
+        setSamples((prev) => [...prev, { at: Date.now(), value: data.throughputPerMinute }].slice(-MAX_SAMPLES))
+      }
+    }
+    const onRecipient = (data: { campaignId: number; recipient: Recipient }) => {
+      if (data.campaignId !== campaignId) return
+      setRecipients((prev) => prev.map((r) => (r.id === data.recipient.id ? { ...r, ...data.recipient } : r)))
+    }
+    const onStatus = (data: { campaignId: number; status: string }) => {
+      if (data.campaignId !== campaignId) return
+      setProgress((prev) => (prev ? { ...prev, status: data.status } : prev))
+    }
+
+    socket.on('campaignProgress', onProgress)
+    socket.on('campaignRecipient', onRecipient)
+    socket.on('campaignStatus', onStatus)
+    return () => {
+      socket.off('campaignProgress', onProgress)
+      socket.off('campaignRecipient', onRecipient)
+      socket.off('campaignStatus', onStatus)
+      disconnectSocket()
+    }
+  }, [campaignId])
+
+  const loadReport = async () => {
+    try {
+      const response = await api.get(`/campaigns/${campaignId}/report`)
+      const { campaign } = response.data
+      const loaded: Recipient[] = response.data.recipients
+      setName(campaign.name)
+      setRecipients(loaded)
+      setProgress({
+        status: campaign.status,
+        totalRecipients: campaign.totalRecipients,
+        sentCount: campaign.sentCount,
+        failedCount: campaign.failedCount,
+        pendingCount: loaded.filter((r) => r.status === 'pending').length,
+        throughputPerMinute: 0,
+        etaSeconds: null,
+      })
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to load campaign')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const runAction = async (action: 'pause' | 'resume' | 'cancel') => {
+    if (action === 'cancel' && !confirm('Cancel this campaign? Unsent messages will be dropped.')) return
+    try {
+      await api.post(`/campaigns/${campaignId}/${action}`)
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || `Failed to ${action} campaign`)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-500"></div>
+      </div>
+    )
+  }
+
+  if (!progress) {
+    return <p className="text-gray-500">Campaign not found.</p>
+  }
+
+  const processed = progress.sentCount + progress.failedCount
+  const percent = progress.totalRecipients > 0 ? Math.round((processed / progress.totalRecipients) * 100) : 0
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold">{name}</h1>
+        <div className="flex items-center gap-3">
+          <span className="badge badge-info">{progress.status}</span>
+          {canManage && progress.status === 'running' && (
+            <button onClick={() => runAction('pause')} className="btn-primary">
+              Pause
+            </button>
+          )}
+          {canManage && progress.status === 'paused' && (
+            <button onClick={() => runAction('resume')} className="btn-primary">
+              Resume
+            </button>
+          )}
+          {canManage && ['pending', 'running', 'paused'].includes(progress.status) && (
+            <button onClick={() => runAction('cancel')} className="btn-danger">
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="card mb-6">
+        <div className="w-full bg-gray-200 rounded-full h-3 mb-4">
+          <div className="bg-primary-500 h-3 rounded-full transition-all" style={{ width: `${percent}%` }}></div>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-center">
+          <div>
+            <p className="text-2xl font-bold">{progress.totalRecipients}</p>
+            <p className="text-sm text-gray-500">Recipients</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold text-green-600">{progress.sentCount}</p>
+            <p className="text-sm text-gray-500">Sent</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold text-red-600">{progress.failedCount}</p>
+            <p className="text-sm text-gray-500">Failed</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold">{progress.pendingCount}</p>
+            <p className="text-sm text-gray-500">Pending</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold">{formatEta(progress.etaSeconds)}</p>
+            <p className="text-sm text-gray-500">ETA</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="card mb-6">
+        <h2 className="text-lg font-semibold mb-4">Throughput</h2>
+        <ThroughputChart samples={samples} />
+      </div>
+
+      <div className="card">
+        <h2 className="text-lg font-semibold mb-4">Recipients</h2>
+        <div className="overflow-x-auto max-h-[32rem] overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 pr-4">Phone number</th>
+                <th className="py-2 pr-4">Status</th>
+                <th className="py-2 pr-4">Sent</th>
+                <th className="py-2">Error</th>
+              </tr>
+            </thead>
+            <tbody>
+              {recipients.map((recipient) => (
+                <tr key={recipient.id} className="border-b last:border-0">
+                  <td className="py-2 pr-4">{recipient.phoneNumber}</td>
+                  <td className="py-2 pr-4">
+                    <span className={`badge ${STATUS_BADGES[recipient.status] || 'badge-info'}`}>
+                      {recipient.status}
+                    </span>
+                  </td>
+                  <td className="py-2 pr-4 text-gray-500">
+                    {recipient.sentAt ? new Date(recipient.sentAt).toLocaleTimeString() : '—'}
+                  </td>
+                  <td className="py-2 text-red-600">{recipient.error || ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
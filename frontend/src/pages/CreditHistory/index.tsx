@@ -1,28 +1,63 @@
 import { useState, useEffect } from 'react'
-import { useAuth } from '../../context/AuthContext'
 import api from '../../services/api'
 
-interface MessageLog {
+interface CreditTransaction {
   id: number
-  recipient: string
-  status: string
-  source: string
+  type: string
+  amount: number
+  balanceAfter: number
+  reason: string
+  referenceType: string | null
+  referenceId: string | null
   createdAt: string
 }
 
+type Pricing = Record<string, number>
+
+const PAGE_SIZE = 50
+
+const PRICE_LABELS: Record<string, string> = {
+  whatsapp_text: 'WhatsApp text',
+  whatsapp_media: 'WhatsApp media',
+  sms_segment: 'SMS (per segment)',
+}
+
 export default function CreditHistory() {
-  const { user } = useAuth()
-  const [messages, setMessages] = useState<MessageLog[]>([])
+  const [balance, setBalance] = useState(0)
+  const [pricing, setPricing] = useState<Pricing>({})
+  const [transactions, setTransactions] = useState<CreditTransaction[]>([])
+  const [total, setTotal] = useState(0)
+  const [page, setPage] = useState(0)
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
-    loadHistory()
+    loadSummary()
   }, [])
 
-  const loadHistory = async () => {
+  useEffect(() => {
+    loadTransactions()
+  }, [page])
+
+  const loadSummary = async () => {
+    try {
+      const [balanceResponse, pricingResponse] = await Promise.all([
+        api.get('/credits/balance'),
+        api.get('/credits/pricing'),
+      ])
+      setBalance(balanceResponse.data.credits)
+      setPricing(pricingResponse.data)
+    } catch (error) {
+      console.error('Failed to load credits:', error)
+    }
+  }
+
+  const loadTransactions = async () => {
     try {
-      const response = await api.get('/whatsapp/messages?limit=100')
-      setMessages(response.data)
+      const response = await api.get(
+        `/credits/transactions?limit=${PAGE_SIZE}&offset=${page * PAGE_SIZE}`
+      )
+      setTransactions(response.data.transactions)
+      setTotal(response.data.total)
     } catch (error) {
       console.error('Failed to load history:', error)
     } finally {
@@ -30,7 +65,12 @@ export default function CreditHistory() {
     }
   }
 
-  const sentMessages = messages.filter((m) => m.status === 'sent')
+  const spent = transactions
+    .filter((t) => t.type === 'debit')
+    .reduce((sum, t) => sum - t.amount, 0)
+  const refunded = transactions
+    .filter((t) => t.type === 'refund')
+    .reduce((sum, t) => sum + t.amount, 0)
 
   if (loading) {
     return (
@@ -44,25 +84,33 @@ export default function CreditHistory() {
     <div>
       <h1 className="text-2xl font-bold mb-6">Credit History</h1>
 
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-6">
         <div className="card">
           <h3 className="text-gray-500 text-sm">Current Credits</h3>
-          <p className="text-3xl font-bold text-green-600">{user?.credits || 0}</p>
+          <p className="text-3xl font-bold text-green-600">{balance}</p>
+        </div>
+        <div className="card">
+          <h3 className="text-gray-500 text-sm">Spent (this page)</h3>
+          <p className="text-3xl font-bold text-red-600">{spent}</p>
         </div>
         <div className="card">
-          <h3 className="text-gray-500 text-sm">Messages Sent</h3>
-          <p className="text-3xl font-bold text-blue-600">{sentMessages.length}</p>
+          <h3 className="text-gray-500 text-sm">Refunded (this page)</h3>
+          <p className="text-3xl font-bold text-blue-600">{refunded}</p>
         </div>
         <div className="card">
-          <h3 className="text-gray-500 text-sm">Total Usage</h3>
-          <p className="text-3xl font-bold text-purple-600">{messages.length}</p>
+          <h3 className="text-gray-500 text-sm mb-1">Pricing</h3>
+          {Object.entries(pricing).map(([channel, price]) => (
+            <p key={channel} className="text-sm">
+              {PRICE_LABELS[channel] || channel}: <span className="font-semibold">{price}</span>
+            </p>
+          ))}
         </div>
       </div>
 
       <div className="card">
-        <h2 className="text-lg font-semibold mb-4">Recent Activity</h2>
+        <h2 className="text-lg font-semibold mb-4">Ledger</h2>
 
-        {messages.length === 0 ? (
+        {transactions.length === 0 ? (
           <p className="text-gray-500 text-center py-8">No activity yet</p>
         ) : (
           <div className="overflow-x-auto">
@@ -70,48 +118,72 @@ export default function CreditHistory() {
               <thead>
                 <tr className="border-b">
                   <th className="text-left py-2 px-4">Date</th>
-                  <th className="text-left py-2 px-4">Recipient</th>
                   <th className="text-left py-2 px-4">Type</th>
-                  <th className="text-left py-2 px-4">Status</th>
-                  <th className="text-left py-2 px-4">Credits</th>
+                  <th className="text-left py-2 px-4">Description</th>
+                  <th className="text-left py-2 px-4">Reference</th>
+                  <th className="text-right py-2 px-4">Credits</th>
+                  <th className="text-right py-2 px-4">Balance</th>
                 </tr>
               </thead>
               <tbody>
-                {messages.slice(0, 50).map((msg) => (
-                  <tr key={msg.id} className="border-b hover:bg-gray-50">
+                {transactions.map((t) => (
+                  <tr key={t.id} className="border-b hover:bg-gray-50">
                     <td className="py-2 px-4 text-sm">
-                      {new Date(msg.createdAt).toLocaleString()}
-                    </td>
-                    <td className="py-2 px-4">{msg.recipient}</td>
-                    <td className="py-2 px-4">
-                      <span className="badge badge-info">{msg.source}</span>
+                      {new Date(t.createdAt).toLocaleString()}
                     </td>
                     <td className="py-2 px-4">
                       <span
                         className={`badge ${
-                          msg.status === 'sent'
-                            ? 'badge-success'
-                            : msg.status === 'pending'
-                            ? 'badge-warning'
-                            : 'badge-danger'
+                          t.type === 'debit'
+                            ? 'badge-danger'
+                            : t.type === 'refund'
+                            ? 'badge-info'
+                            : 'badge-success'
                         }`}
                       >
-                        {msg.status}
+                        {t.type.replace('_', ' ')}
                       </span>
                     </td>
-                    <td className="py-2 px-4">
-                      {msg.status === 'sent' ? (
-                        <span className="text-red-500">-1</span>
-                      ) : (
-                        <span className="text-gray-400">0</span>
-                      )}
+                    <td className="py-2 px-4">{t.reason}</td>
+                    <td className="py-2 px-4 text-sm text-gray-500">
+                      {t.referenceType ? `${t.referenceType} ${t.referenceId ?? ''}` : '-'}
+                    </td>
+                    <td
+                      className={`py-2 px-4 text-right ${
+                        t.amount < 0 ? 'text-red-500' : 'text-green-600'
+                      }`}
+                    >
+                      {t.amount > 0 ? `+${t.amount}` : t.amount}
                     </td>
+                    <td className="py-2 px-4 text-right">{t.balanceAfter}</td>
                   </tr>
                 ))}
               </tbody>
             </table>
           </div>
         )}
+
+        {total > PAGE_SIZE && (
+          <div className="flex justify-between items-center mt-4">
+            <button
+              onClick={() => setPage((p) => p - 1)}
+              disabled={page === 0}
+              className="px-4 py-2 rounded bg-gray-200 disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <span className="text-sm text-gray-500">
+              Page {page + 1} of {Math.ceil(total / PAGE_SIZE)}
+            </span>
+            <button
+              onClick={() => setPage((p) => p + 1)}
+              disabled={(page + 1) * PAGE_SIZE >= total}
+              className="px-4 py-2 rounded bg-gray-200 disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        )}
       </div>
     </div>
   )
@@ -78,7 +78,7 @@ export default function Dashboard() {
 
       <div className="mb-6 p-4 bg-white rounded-lg shadow">
         <h2 className="text-lg font-semibold">Welcome, {user?.name}!</h2>
-        <p className="text-gray-600">Credits available: {user?.credits}</p>
+        <p className="text-gray-600">Credits available: {user?.organization.credits}</p>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
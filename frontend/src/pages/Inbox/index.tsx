@@ -0,0 +1,284 @@
+import { useState, useEffect, useRef } from 'react'
+import { useAuth } from '../../context/AuthContext'
+import api from '../../services/api'
+import { connectSocket, disconnectSocket } from '../../services/socket'
+import toast from 'react-hot-toast'
+import { MdSend } from 'react-icons/md'
+
+interface Session {
+  id: number
+  sessionName: string
+  status: string
+  phoneNumber: string | null
+}
+
+interface Conversation {
+  id: number
+  sessionId: number
+  phoneNumber: string | null
+  name: string | null
+  lastMessageAt: string | null
+  lastMessagePreview: string | null
+  unreadCount: number
+}
+
+interface ThreadMessage {
+  id: number
+  direction: 'inbound' | 'outbound'
+  body: string
+  type: string
+  hasMedia: boolean
+  status: string | null
+  timestamp: string
+}
+
+const PAGE_SIZE = 50
+
+export default function Inbox() {
+  const { user } = useAuth()
+  const [sessions, setSessions] = useState<Session[]>([])
+  const [sessionId, setSessionId] = useState<number | null>(null)
+  const [conversations, setConversations] = useState<Conversation[]>([])
+  const [selected, setSelected] = useState<Conversation | null>(null)
+  const [messages, setMessages] = useState<ThreadMessage[]>([])
+  const [hasMore, setHasMore] = useState(false)
+  const [reply, setReply] = useState('')
+  const [sending, setSending] = useState(false)
+  const selectedRef = useRef<Conversation | null>(null)
+  const bottomRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    loadSessions()
+    return () => {
+      disconnectSocket()
+    }
+  }, [])
+
+  useEffect(() => {
+    selectedRef.current = selected
+  }, [selected])
+
+  useEffect(() => {
+    if (!sessionId || !user) return
+    setSelected(null)
+    setMessages([])
+    loadConversations(sessionId)
+
+    const socket = connectSocket()
+    const onMessage = (data: { sessionId: number; contact: Conversation; message: ThreadMessage }) => {
+      if (data.sessionId !== sessionId) return
+
+      const isOpen = selectedRef.current?.id === data.contact.id
+      setConversations((prev) => [
+        { ...data.contact, unreadCount: isOpen ? 0 : data.contact.unreadCount },
+        ...prev.filter((c) => c.id !== data.contact.id),
+      ])
+      if (isOpen) {
+        setMessages((prev) => [...prev, data.message])
+        api.post(`/inbox/conversations/${data.contact.id}/read`).catch(() => {})
+      }
+    }
+    socket.on('inboxMessage', onMessage)
+    return () => {
+      socket.off('inboxMessage', onMessage)
+    }
+  }, [sessionId, user])
+
+  // Follow new messages, but not when older pages are prepended
+  const lastMessage = messages[messages.length - 1]
+  const lastMessageKey = lastMessage ? `${lastMessage.direction}-${lastMessage.id}` : ''
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' })
+  }, [lastMessageKey])
+
+  const loadSessions = async () => {
+    try {
+      const response = await api.get('/whatsapp/sessions')
+      setSessions(response.data)
+      if (response.data.length > 0) {
+        setSessionId(response.data[0].id)
+      }
+    } catch (error) {
+      console.error('Failed to load sessions:', error)
+    }
+  }
+
+  const loadConversations = async (id: number) => {
+    try {
+      const response = await api.get(`/inbox/sessions/${id}/conversations?limit=100`)
+      setConversations(response.data.conversations)
+    } catch (error) {
+      console.error('Failed to load conversations:', error)
+    }
+  }
+
+  const openConversation = async (conversation: Conversation) => {
+    setSelected(conversation)
+    setMessages([])
+    try {
+      const response = await api.get(`/inbox/conversations/${conversation.id}/messages?limit=${PAGE_SIZE}`)
+      setMessages(response.data.messages)
+      setHasMore(response.data.hasMore)
+
+      if (conversation.unreadCount > 0) {
+        await api.post(`/inbox/conversations/${conversation.id}/read`)
+        setConversations((prev) =>
+          prev.map((c) => (c.id === conversation.id ? { ...c, unreadCount: 0 } : c))
+        )
+      }
+    } catch (error) {
+      console.error('Failed to load messages:', error)
+    }
+  }
+
+  const loadOlder = async () => {
+    if (!selected || messages.length === 0) return
+    try {
+      const before = encodeURIComponent(messages[0].timestamp)
+      const response = await api.get(
+        `/inbox/conversations/${selected.id}/messages?limit=${PAGE_SIZE}&before=${before}`
+      )
+      setMessages((prev) => [...response.data.messages, ...prev])
+      setHasMore(response.data.hasMore)
+    } catch (error) {
+      console.error('Failed to load older messages:', error)
+    }
+  }
+
+  const sendReply = async () => {
+    if (!selected || !reply.trim()) return
+
+    setSending(true)
+    try {
+      const response = await api.post(`/inbox/conversations/${selected.id}/reply`, {
+        message: reply.trim(),
+      })
+      const log = response.data.messageLog
+      setMessages((prev) => [
+        ...prev,
+        {
+          id: log.id,
+          direction: 'outbound',
+          body: log.message,
+          type: 'chat',
+          hasMedia: false,
+          status: log.status,
+          timestamp: log.createdAt,
+        },
+      ])
+      setReply('')
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to send reply')
+    } finally {
+      setSending(false)
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold">Inbox</h1>
+        <select
+          value={sessionId ?? ''}
+          onChange={(e) => setSessionId(Number(e.target.value))}
+          className="input w-64"
+        >
+          {sessions.length === 0 && <option value="">No sessions</option>}
+          {sessions.map((s) => (
+            <option key={s.id} value={s.id}>
+              {s.sessionName} {s.phoneNumber ? `(${s.phoneNumber})` : ''}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4" style={{ height: 'calc(100vh - 180px)' }}>
+        {/* Conversations */}
+        <div className="card overflow-y-auto p-0">
+          {conversations.length === 0 ? (
+            <p className="text-gray-500 text-center py-8">No conversations yet</p>
+          ) : (
+            conversations.map((c) => (
+              <button
+                key={c.id}
+                onClick={() => openConversation(c)}
+                className={`w-full text-left px-4 py-3 border-b hover:bg-gray-50 ${
+                  selected?.id === c.id ? 'bg-gray-100' : ''
+                }`}
+              >
+                <div className="flex justify-between items-center">
+                  <span className="font-medium truncate">{c.name || c.phoneNumber || 'Unknown'}</span>
+                  {c.unreadCount > 0 && <span className="badge badge-success">{c.unreadCount}</span>}
+                </div>
+                {c.name && c.phoneNumber && <p className="text-xs text-gray-400">{c.phoneNumber}</p>}
+                <p className="text-sm text-gray-500 truncate">{c.lastMessagePreview}</p>
+                {c.lastMessageAt && (
+                  <p className="text-xs text-gray-400">{new Date(c.lastMessageAt).toLocaleString()}</p>
+                )}
+              </button>
+            ))
+          )}
+        </div>
+
+        {/* Thread */}
+        <div className="card col-span-2 flex flex-col">
+          {!selected ? (
+            <p className="text-gray-500 text-center py-8">Select a conversation</p>
+          ) : (
+            <>
+              <div className="border-b pb-3 mb-3">
+                <h2 className="font-semibold">{selected.name || selected.phoneNumber}</h2>
+                {selected.name && <p className="text-sm text-gray-500">{selected.phoneNumber}</p>}
+              </div>
+
+              <div className="flex-1 overflow-y-auto space-y-2">
+                {hasMore && (
+                  <div className="text-center">
+                    <button onClick={loadOlder} className="text-sm text-primary-500 hover:underline">
+                      Load older messages
+                    </button>
+                  </div>
+                )}
+                {messages.map((m) => (
+                  <div
+                    key={`${m.direction}-${m.id}`}
+                    className={`flex ${m.direction === 'outbound' ? 'justify-end' : 'justify-start'}`}
+                  >
+                    <div
+                      className={`max-w-md rounded-lg px-3 py-2 ${
+                        m.direction === 'outbound' ? 'bg-green-100' : 'bg-gray-100'
+                      }`}
+                    >
+                      <p className="whitespace-pre-wrap break-words">
+                        {m.body || (m.hasMedia ? `[${m.type}]` : '')}
+                      </p>
+                      <p className="text-xs text-gray-400 text-right">
+                        {new Date(m.timestamp).toLocaleTimeString()}
+                        {m.status && ` · ${m.status}`}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+                <div ref={bottomRef} />
+              </div>
+
+              <div className="flex gap-2 mt-3">
+                <input
+                  type="text"
+                  value={reply}
+                  onChange={(e) => setReply(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && sendReply()}
+                  placeholder="Type a reply..."
+                  className="input flex-1"
+                />
+                <button onClick={sendReply} disabled={sending || !reply.trim()} className="btn-primary">
+                  <MdSend />
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
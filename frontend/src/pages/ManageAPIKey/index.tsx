@@ -1,26 +1,46 @@
 import { useState, useEffect } from 'react'
 import api from '../../services/api'
 import toast from 'react-hot-toast'
-import { FaKey, FaTrash, FaCopy } from 'react-icons/fa'
+import { FaKey, FaTrash, FaCopy, FaSyncAlt } from 'react-icons/fa'
 
 interface ApiKey {
   id: number
   name: string
   key: string
   isActive: boolean
+  scopes: string[] | null
+  sessionId: number | null
+  allowedIps: string[] | null
+  expiresAt: string | null
+  rateLimitPerMinute: number | null
+  previousKeyExpiresAt: string | null
   createdAt: string
   lastUsedAt: string | null
 }
 
+interface Session {
+  id: number
+  sessionName: string
+}
+
+const SCOPES = ['whatsapp:send', 'whatsapp:media', 'sms:send', 'messages:read', 'campaigns:read']
+
 export default function ManageAPIKey() {
   const [apiKeys, setApiKeys] = useState<ApiKey[]>([])
   const [newKeyName, setNewKeyName] = useState('')
   const [loading, setLoading] = useState(true)
   const [newlyCreatedKey, setNewlyCreatedKey] = useState<string | null>(null)
+  const [sessions, setSessions] = useState<Session[]>([])
+  const [scopes, setScopes] = useState<string[]>(['whatsapp:send'])
+  const [sessionId, setSessionId] = useState('')
+  const [allowedIps, setAllowedIps] = useState('')
+  const [expiresAt, setExpiresAt] = useState('')
+  const [rateLimit, setRateLimit] = useState('')
   const baseUrl = import.meta.env.VITE_API_URL || 'http://localhost:3000'
 
   useEffect(() => {
     loadApiKeys()
+    api.get('/whatsapp/sessions').then((response) => setSessions(response.data)).catch(() => {})
   }, [])
 
   const loadApiKeys = async () => {
@@ -39,11 +59,27 @@ export default function ManageAPIKey() {
       toast.error('Please enter a name for the API key')
       return
     }
+    if (scopes.length === 0) {
+      toast.error('Select at least one scope')
+      return
+    }
 
+    const ips = allowedIps.split(',').map((ip) => ip.trim()).filter(Boolean)
     try {
-      const response = await api.post('/api-keys', { name: newKeyName })
+      const response = await api.post('/api-keys', {
+        name: newKeyName,
+        scopes,
+        sessionId: sessionId ? Number(sessionId) : undefined,
+        allowedIps: ips.length > 0 ? ips : undefined,
+        expiresAt: expiresAt ? new Date(`${expiresAt}T23:59:59`).toISOString() : undefined,
+        rateLimitPerMinute: rateLimit ? Number(rateLimit) : undefined,
+      })
       setNewlyCreatedKey(response.data.key)
       setNewKeyName('')
+      setSessionId('')
+      setAllowedIps('')
+      setExpiresAt('')
+      setRateLimit('')
       loadApiKeys()
       toast.success('API key created successfully')
     } catch (error: any) {
@@ -63,6 +99,38 @@ export default function ManageAPIKey() {
     }
   }
 
+  const rotateApiKey = async (id: number) => {
+    const hours = prompt('Keep the old key working for how many hours?', '24')
+    if (hours === null) return
+
+    try {
+      const response = await api.post(`/api-keys/${id}/rotate`, { gracePeriodHours: Number(hours) || 0 })
+      setNewlyCreatedKey(response.data.key)
+      toast.success('API key rotated')
+      loadApiKeys()
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to rotate API key')
+    }
+  }
+
+  const toggleScope = (scope: string) => {
+    setScopes((prev) => (prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]))
+  }
+
+  const describeRestrictions = (key: ApiKey) => {
+    const parts: string[] = []
+    if (key.sessionId) {
+      parts.push(`session: ${sessions.find((s) => s.id === key.sessionId)?.sessionName || `#${key.sessionId}`}`)
+    }
+    if (key.allowedIps?.length) parts.push(`IPs: ${key.allowedIps.join(', ')}`)
+    if (key.rateLimitPerMinute) parts.push(`${key.rateLimitPerMinute}/min`)
+    if (key.expiresAt) parts.push(`expires ${new Date(key.expiresAt).toLocaleDateString()}`)
+    if (key.previousKeyExpiresAt && new Date(key.previousKeyExpiresAt) > new Date()) {
+      parts.push(`old key valid until ${new Date(key.previousKeyExpiresAt).toLocaleString()}`)
+    }
+    return parts.join(' · ')
+  }
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text)
     toast.success('Copied to clipboard!')
@@ -96,6 +164,57 @@ export default function ManageAPIKey() {
           </button>
         </div>
 
+        <div className="mt-4">
+          <p className="text-sm font-medium mb-2">Scopes</p>
+          <div className="flex flex-wrap gap-4">
+            {SCOPES.map((scope) => (
+              <label key={scope} className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={scopes.includes(scope)} onChange={() => toggleScope(scope)} />
+                {scope}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+          <div>
+            <label className="block text-sm font-medium mb-1">Session</label>
+            <select value={sessionId} onChange={(e) => setSessionId(e.target.value)} className="input">
+              <option value="">Any connected session</option>
+              {sessions.map((session) => (
+                <option key={session.id} value={session.id}>
+                  {session.sessionName}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Allowed IPs</label>
+            <input
+              type="text"
+              value={allowedIps}
+              onChange={(e) => setAllowedIps(e.target.value)}
+              placeholder="Any (e.g. 203.0.113.7, 10.0.0.0/8)"
+              className="input"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Expires on</label>
+            <input type="date" value={expiresAt} onChange={(e) => setExpiresAt(e.target.value)} className="input" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Requests per minute</label>
+            <input
+              type="number"
+              min={1}
+              value={rateLimit}
+              onChange={(e) => setRateLimit(e.target.value)}
+              placeholder="Default"
+              className="input"
+            />
+          </div>
+        </div>
+
         {newlyCreatedKey && (
           <div className="mt-4 p-4 bg-green-50 border border-green-200 rounded">
             <p className="text-sm text-green-800 mb-2">
@@ -133,17 +252,33 @@ export default function ManageAPIKey() {
                   <div>
                     <p className="font-medium">{key.name}</p>
                     <p className="text-sm text-gray-500">Key: {key.key}</p>
+                    <p className="text-xs text-gray-500">
+                      Scopes: {key.scopes?.length ? key.scopes.join(', ') : 'all'}
+                    </p>
+                    {describeRestrictions(key) && (
+                      <p className="text-xs text-gray-500">{describeRestrictions(key)}</p>
+                    )}
                     <p className="text-xs text-gray-400">
                       Created: {new Date(key.createdAt).toLocaleDateString()}
                     </p>
                   </div>
                 </div>
-                <button
-                  onClick={() => deleteApiKey(key.id)}
-                  className="text-red-500 hover:text-red-600 p-2"
-                >
-                  <FaTrash />
-                </button>
+                <div className="flex items-center">
+                  <button
+                    onClick={() => rotateApiKey(key.id)}
+                    className="text-primary-500 hover:text-primary-600 p-2"
+                    title="Rotate"
+                  >
+                    <FaSyncAlt />
+                  </button>
+                  <button
+                    onClick={() => deleteApiKey(key.id)}
+                    className="text-red-500 hover:text-red-600 p-2"
+                    title="Delete"
+                  >
+                    <FaTrash />
+                  </button>
+                </div>
               </div>
             ))}
           </div>
@@ -152,7 +287,18 @@ export default function ManageAPIKey() {
 
       {/* API Documentation */}
       <div className="card">
-        <h2 className="text-lg font-semibold mb-6">API Documentation</h2>
+        <h2 className="text-lg font-semibold mb-2">API Documentation</h2>
+        <p className="text-gray-600 mb-2">
+          Send your key in the <code>X-API-Key</code> header (or <code>Authorization: Bearer &lt;key&gt;</code>). The{' '}
+          <code>apikey</code> query parameter still works but ends up in server and proxy logs.
+        </p>
+        <p className="text-gray-600 mb-6">
+          New integrations should use the JSON API under <code>{baseUrl}/v1</code>, documented at{' '}
+          <a href={`${baseUrl}/api/docs`} target="_blank" rel="noreferrer" className="text-primary-600 underline">
+            {baseUrl}/api/docs
+          </a>
+          . The endpoints below are kept for existing integrations.
+        </p>
 
         {/* SEND WAPP API */}
         <div className="mb-8">
@@ -178,9 +324,9 @@ export default function ManageAPIKey() {
             </thead>
             <tbody>
               <tr className="border">
-                <td className="p-2 border">apikey</td>
+                <td className="p-2 border">X-API-Key (header)</td>
                 <td className="p-2 border">apikey generated from above.</td>
-                <td className="p-2 border font-mono text-sm">67fd47ab51b34699a1822c669b5d3f99</td>
+                <td className="p-2 border font-mono text-sm">wk_67fd47ab51b34699a1822c669b5d3f99</td>
               </tr>
               <tr className="border">
                 <td className="p-2 border">number</td>
@@ -198,9 +344,10 @@ export default function ManageAPIKey() {
           <div className="bg-gray-100 p-3 rounded">
             <span className="text-gray-600">Example:</span>
             <code className="ml-2 text-sm break-all">
+              <span className="bg-green-200 px-1">X-API-Key</span>: wk_67fd47ab51b34699a1822c669b5d3f99
+              <br />
               {baseUrl}/wapp/api/send?
-              <span className="bg-green-200 px-1">apikey</span>=67fd47ab51b34699a1822c669b5d3f99
-              <span className="bg-yellow-200 px-1">&mobile</span>=989898XXXX
+              <span className="bg-yellow-200 px-1">mobile</span>=989898XXXX
               <span className="bg-yellow-200 px-1">&msg</span>=testmsg
             </code>
           </div>
@@ -230,9 +377,9 @@ export default function ManageAPIKey() {
             </thead>
             <tbody>
               <tr className="border">
-                <td className="p-2 border">apikey</td>
+                <td className="p-2 border">X-API-Key (header)</td>
                 <td className="p-2 border">apikey generated from above.</td>
-                <td className="p-2 border font-mono text-sm">67fd47ab51b34699a1822c669b5d3f99</td>
+                <td className="p-2 border font-mono text-sm">wk_67fd47ab51b34699a1822c669b5d3f99</td>
               </tr>
               <tr className="border">
                 <td className="p-2 border">number</td>
@@ -255,9 +402,10 @@ export default function ManageAPIKey() {
           <div className="bg-gray-100 p-3 rounded">
             <span className="text-gray-600">Example:</span>
             <code className="ml-2 text-sm break-all">
+              <span className="bg-green-200 px-1">X-API-Key</span>: wk_67fd47ab51b34699a1822c669b5d3f99
+              <br />
               {baseUrl}/api/sendsms?
-              <span className="bg-green-200 px-1">apikey</span>=67fd47ab51b34699a1822c669b5d3f99
-              <span className="bg-yellow-200 px-1">&number</span>=989898XXXX
+              <span className="bg-yellow-200 px-1">number</span>=989898XXXX
               <span className="bg-pink-200 px-1">&sendername</span>=ABCDEF
               <span className="bg-yellow-200 px-1">&msg</span>=testmsg
             </code>
@@ -279,7 +427,7 @@ export default function ManageAPIKey() {
           </div>
 
           <p className="text-gray-600 mb-4">
-            Send bulk SMS using JSON body. Pass <code>apikey</code> as query parameter and JSON body with:
+            Send bulk SMS using JSON body. Pass the key in the <code>X-API-Key</code> header and a JSON body with:
           </p>
 
           <pre className="bg-gray-800 text-green-400 p-4 rounded overflow-x-auto">
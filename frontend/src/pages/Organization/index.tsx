@@ -0,0 +1,291 @@
+import { useState, useEffect } from 'react'
+import api from '../../services/api'
+import toast from 'react-hot-toast'
+import { FaCopy, FaTrash } from 'react-icons/fa'
+import { useAuth, OrganizationRole } from '../../context/AuthContext'
+
+interface Member {
+  id: number
+  role: OrganizationRole
+  createdAt: string
+  user: { id: number; email: string; name: string }
+}
+
+interface Invitation {
+  id: number
+  email: string
+  role: OrganizationRole
+  expiresAt: string
+}
+
+const ROLES: OrganizationRole[] = ['owner', 'manager', 'agent', 'viewer']
+
+export default function Organization() {
+  const { user, hasOrganizationRole, switchOrganization } = useAuth()
+  const [members, setMembers] = useState<Member[]>([])
+  const [invitations, setInvitations] = useState<Invitation[]>([])
+  const [loading, setLoading] = useState(true)
+  const [orgName, setOrgName] = useState(user?.organization.name || '')
+  const [inviteEmail, setInviteEmail] = useState('')
+  const [inviteRole, setInviteRole] = useState<OrganizationRole>('agent')
+  const [acceptUrl, setAcceptUrl] = useState<string | null>(null)
+  const [newOrgName, setNewOrgName] = useState('')
+
+  const canManage = hasOrganizationRole('manager')
+  const isOwner = hasOrganizationRole('owner')
+
+  useEffect(() => {
+    loadData()
+  }, [])
+
+  const loadData = async () => {
+    try {
+      const [membersResponse, invitationsResponse] = await Promise.all([
+        api.get('/organizations/current/members'),
+        canManage ? api.get('/organizations/current/invitations') : Promise.resolve({ data: [] }),
+      ])
+      setMembers(membersResponse.data)
+      setInvitations(invitationsResponse.data)
+    } catch (error) {
+      console.error('Failed to load organization:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const rename = async () => {
+    if (!orgName.trim()) return
+    try {
+      await api.put('/organizations/current', { name: orgName.trim() })
+      toast.success('Organization updated')
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to update organization')
+    }
+  }
+
+  const invite = async () => {
+    if (!inviteEmail.trim()) {
+      toast.error('Please enter an email address')
+      return
+    }
+    try {
+      const response = await api.post('/organizations/current/invitations', {
+        email: inviteEmail.trim(),
+        role: inviteRole,
+      })
+      setAcceptUrl(response.data.acceptUrl)
+      setInviteEmail('')
+      loadData()
+      toast.success('Invitation created')
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to create invitation')
+    }
+  }
+
+  const revoke = async (id: number) => {
+    try {
+      await api.delete(`/organizations/current/invitations/${id}`)
+      loadData()
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to revoke invitation')
+    }
+  }
+
+  const changeRole = async (member: Member, role: OrganizationRole) => {
+    try {
+      await api.put(`/organizations/current/members/${member.id}`, { role })
+      toast.success(`${member.user.name} is now ${role}`)
+      loadData()
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to change role')
+    }
+  }
+
+  const removeMember = async (member: Member) => {
+    const leaving = member.user.id === user?.id
+    if (!confirm(leaving ? 'Leave this organization?' : `Remove ${member.user.name}?`)) return
+
+    try {
+      await api.delete(`/organizations/current/members/${member.id}`)
+      if (leaving) {
+        // The token still points at the organization we just left
+        window.location.assign('/')
+        return
+      }
+      loadData()
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to remove member')
+    }
+  }
+
+  const createOrganization = async () => {
+    if (!newOrgName.trim()) return
+    try {
+      const response = await api.post('/organizations', { name: newOrgName.trim() })
+      await switchOrganization(response.data.id)
+      window.location.assign('/organization')
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to create organization')
+    }
+  }
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text)
+    toast.success('Copied to clipboard!')
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-500"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <h1 className="text-2xl font-bold mb-6">Organization</h1>
+
+      <div className="card mb-6">
+        <h2 className="text-lg font-semibold mb-4">{user?.organization.name}</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Your role: <span className="badge badge-info">{user?.organization.role}</span>
+        </p>
+        {isOwner && (
+          <div className="flex gap-4 items-center">
+            <input
+              type="text"
+              value={orgName}
+              onChange={(e) => setOrgName(e.target.value)}
+              className="input flex-1"
+            />
+            <button onClick={rename} className="btn-primary whitespace-nowrap">
+              Rename
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="card mb-6">
+        <h2 className="text-lg font-semibold mb-4">Members</h2>
+        <div className="space-y-3">
+          {members.map((member) => (
+            <div key={member.id} className="flex items-center justify-between p-3 border rounded">
+              <div>
+                <p className="font-medium">{member.user.name}</p>
+                <p className="text-sm text-gray-500">{member.user.email}</p>
+              </div>
+              <div className="flex items-center gap-3">
+                {canManage && member.user.id !== user?.id ? (
+                  <select
+                    value={member.role}
+                    onChange={(e) => changeRole(member, e.target.value as OrganizationRole)}
+                    className="input py-1"
+                  >
+                    {ROLES.map((role) => (
+                      <option key={role} value={role}>
+                        {role}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <span className="badge badge-info">{member.role}</span>
+                )}
+                {(canManage || member.user.id === user?.id) && (
+                  <button
+                    onClick={() => removeMember(member)}
+                    className="text-red-500 hover:text-red-600 p-2"
+                    title={member.user.id === user?.id ? 'Leave' : 'Remove'}
+                  >
+                    <FaTrash />
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {canManage && (
+        <div className="card mb-6">
+          <h2 className="text-lg font-semibold mb-4">Invite Member</h2>
+          <div className="flex gap-4 items-center">
+            <input
+              type="email"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              placeholder="Email address"
+              className="input flex-1"
+            />
+            <select
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as OrganizationRole)}
+              className="input w-40"
+            >
+              {ROLES.filter((role) => isOwner || role !== 'owner').map((role) => (
+                <option key={role} value={role}>
+                  {role}
+                </option>
+              ))}
+            </select>
+            <button onClick={invite} className="btn-primary whitespace-nowrap">
+              Invite
+            </button>
+          </div>
+
+          {acceptUrl && (
+            <div className="mt-4 p-4 bg-green-50 border border-green-200 rounded">
+              <p className="text-sm text-green-800 mb-2">
+                Send this link to the invitee (it won't be shown again):
+              </p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 bg-white p-2 rounded text-sm break-all">{acceptUrl}</code>
+                <button
+                  onClick={() => copyToClipboard(acceptUrl)}
+                  className="p-2 text-green-600 hover:text-green-800"
+                >
+                  <FaCopy />
+                </button>
+              </div>
+            </div>
+          )}
+
+          {invitations.length > 0 && (
+            <div className="mt-6 space-y-2">
+              <h3 className="font-medium">Pending invitations</h3>
+              {invitations.map((invitation) => (
+                <div key={invitation.id} className="flex items-center justify-between p-3 border rounded">
+                  <div>
+                    <p>{invitation.email}</p>
+                    <p className="text-xs text-gray-400">
+                      {invitation.role} · expires {new Date(invitation.expiresAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <button onClick={() => revoke(invitation.id)} className="text-red-500 hover:text-red-600 p-2">
+                    <FaTrash />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="card">
+        <h2 className="text-lg font-semibold mb-4">New Organization</h2>
+        <div className="flex gap-4 items-center">
+          <input
+            type="text"
+            value={newOrgName}
+            onChange={(e) => setNewOrgName(e.target.value)}
+            placeholder="Organization name"
+            className="input flex-1"
+          />
+          <button onClick={createOrganization} className="btn-primary whitespace-nowrap">
+            Create
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,5 +1,4 @@
 import { useState, useEffect } from 'react'
-import { useAuth } from '../../context/AuthContext'
 import api from '../../services/api'
 import { connectSocket, disconnectSocket } from '../../services/socket'
 import toast from 'react-hot-toast'
@@ -10,22 +9,34 @@ interface Session {
   sessionName: string
   status: string
   phoneNumber: string | null
+  provider: Provider
   createdAt: string
 }
 
 type AuthMethod = 'qr' | 'phone'
+type Provider = 'webjs' | 'baileys' | 'cloud_api'
+
+const PROVIDERS: { value: Provider; label: string }[] = [
+  { value: 'webjs', label: 'WhatsApp Web (browser)' },
+  { value: 'baileys', label: 'WhatsApp Web (lightweight)' },
+  { value: 'cloud_api', label: 'WhatsApp Cloud API' },
+]
 
 export default function RegisterWAPP() {
-  const { user } = useAuth()
   const [sessions, setSessions] = useState<Session[]>([])
   const [sessionName, setSessionName] = useState('')
   const [phoneNumber, setPhoneNumber] = useState('')
   const [authMethod, setAuthMethod] = useState<AuthMethod>('phone')
+  const [provider, setProvider] = useState<Provider>('webjs')
+  const [phoneNumberId, setPhoneNumberId] = useState('')
+  const [accessToken, setAccessToken] = useState('')
   const [loading, setLoading] = useState(false)
   const [showModal, setShowModal] = useState(false)
   const [qrCode, setQrCode] = useState('')
   const [pairingCode, setPairingCode] = useState('')
-  const [, setCurrentSessionId] = useState<number | null>(null)
+  const [pairingExpiresAt, setPairingExpiresAt] = useState<number | null>(null)
+  const [secondsLeft, setSecondsLeft] = useState(0)
+  const [currentSessionId, setCurrentSessionId] = useState<number | null>(null)
   const [connectionStatus, setConnectionStatus] = useState('')
 
   useEffect(() => {
@@ -35,6 +46,15 @@ export default function RegisterWAPP() {
     }
   }, [])
 
+  // Countdown until the pairing code expires; the server sends a new one when it does
+  useEffect(() => {
+    if (!pairingExpiresAt) return
+    const tick = () => setSecondsLeft(Math.max(0, Math.round((pairingExpiresAt - Date.now()) / 1000)))
+    tick()
+    const timer = setInterval(tick, 1000)
+    return () => clearInterval(timer)
+  }, [pairingExpiresAt])
+
   const loadSessions = async () => {
     try {
       const response = await api.get('/whatsapp/sessions')
@@ -50,15 +70,28 @@ export default function RegisterWAPP() {
       return
     }
 
-    if (authMethod === 'phone' && !phoneNumber.trim()) {
+    // Cloud API numbers are registered with Meta, there is no phone to link
+    const isCloudApi = provider === 'cloud_api'
+    const method: AuthMethod = isCloudApi ? 'qr' : authMethod
+
+    if (method === 'phone' && !phoneNumber.trim()) {
       toast.error('Please enter your WhatsApp phone number')
       return
     }
 
+    if (isCloudApi && (!phoneNumberId.trim() || !accessToken.trim())) {
+      toast.error('Please enter the phone number ID and access token')
+      return
+    }
+
     setLoading(true)
     try {
       const response = await api.post('/whatsapp/sessions', {
         sessionName: sessionName.trim(),
+        provider,
+        providerConfig: isCloudApi
+          ? { phoneNumberId: phoneNumberId.trim(), accessToken: accessToken.trim() }
+          : undefined,
       })
 
       const session = response.data.session
@@ -67,8 +100,9 @@ export default function RegisterWAPP() {
       setConnectionStatus('Initializing...')
       setQrCode('')
       setPairingCode('')
+      setPairingExpiresAt(null)
 
-      const socket = connectSocket(user!.id)
+      const socket = connectSocket()
 
       socket.on('qr', (data: { qr: string; sessionId: number }) => {
         if (data.sessionId === session.id) {
@@ -77,9 +111,10 @@ export default function RegisterWAPP() {
         }
       })
 
-      socket.on('pairingCode', (data: { code: string; sessionId: number }) => {
+      socket.on('pairingCode', (data: { code: string; sessionId: number; expiresAt: string }) => {
         if (data.sessionId === session.id) {
           setPairingCode(data.code)
+          setPairingExpiresAt(new Date(data.expiresAt).getTime())
           setConnectionStatus('Enter this code in WhatsApp')
         }
       })
@@ -115,18 +150,19 @@ export default function RegisterWAPP() {
       })
 
       // Use different event based on auth method
-      if (authMethod === 'phone') {
+      if (method === 'phone') {
         socket.emit('initSessionWithPhone', {
           sessionId: session.id,
-          userId: user!.id,
-          phoneNumber: phoneNumber.replace(/[^0-9]/g, '')
+          phoneNumber: phoneNumber.replace(/[^0-9+]/g, '')
         })
       } else {
-        socket.emit('initSession', { sessionId: session.id, userId: user!.id })
+        socket.emit('initSession', { sessionId: session.id })
       }
 
       setSessionName('')
       setPhoneNumber('')
+      setPhoneNumberId('')
+      setAccessToken('')
       loadSessions()
     } catch (error: any) {
       toast.error(error.response?.data?.message || 'Failed to create session')
@@ -158,8 +194,9 @@ export default function RegisterWAPP() {
     setConnectionStatus('Reconnecting...')
     setQrCode('')
     setPairingCode('')
+    setPairingExpiresAt(null)
 
-    const socket = connectSocket(user!.id)
+    const socket = connectSocket()
 
     socket.on('qr', (data: { qr: string; sessionId: number }) => {
       if (data.sessionId === sessionId) {
@@ -168,9 +205,10 @@ export default function RegisterWAPP() {
       }
     })
 
-    socket.on('pairingCode', (data: { code: string; sessionId: number }) => {
+    socket.on('pairingCode', (data: { code: string; sessionId: number; expiresAt: string }) => {
       if (data.sessionId === sessionId) {
         setPairingCode(data.code)
+        setPairingExpiresAt(new Date(data.expiresAt).getTime())
         setConnectionStatus('Enter this code in WhatsApp')
       }
     })
@@ -191,18 +229,24 @@ export default function RegisterWAPP() {
     if (method === 'phone') {
       socket.emit('initSessionWithPhone', {
         sessionId,
-        userId: user!.id,
-        phoneNumber: phoneNumber.replace(/[^0-9]/g, '')
+        phoneNumber: phoneNumber.replace(/[^0-9+]/g, '')
       })
     } else {
-      socket.emit('initSession', { sessionId, userId: user!.id })
+      socket.emit('initSession', { sessionId })
     }
   }
 
+  const refreshPairingCode = () => {
+    if (!currentSessionId) return
+    connectSocket().emit('refreshPairingCode', { sessionId: currentSessionId })
+    setConnectionStatus('Requesting a new code...')
+  }
+
   const closeModal = () => {
     setShowModal(false)
     setQrCode('')
     setPairingCode('')
+    setPairingExpiresAt(null)
     setCurrentSessionId(null)
     setConnectionStatus('')
     disconnectSocket()
@@ -215,32 +259,49 @@ export default function RegisterWAPP() {
       <div className="card mb-6">
         <h2 className="text-lg font-semibold mb-4">Register WA</h2>
 
-        {/* Auth Method Toggle */}
-        <div className="flex gap-2 mb-4">
-          <button
-            onClick={() => setAuthMethod('phone')}
-            className={`flex items-center gap-2 px-4 py-2 rounded-lg border ${
-              authMethod === 'phone'
-                ? 'bg-green-500 text-white border-green-500'
-                : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
-            }`}
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">Connection:</label>
+          <select
+            value={provider}
+            onChange={(e) => setProvider(e.target.value as Provider)}
+            className="px-4 py-2.5 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-base"
           >
-            <FaMobileAlt />
-            Phone Code (Faster)
-          </button>
-          <button
-            onClick={() => setAuthMethod('qr')}
-            className={`flex items-center gap-2 px-4 py-2 rounded-lg border ${
-              authMethod === 'qr'
-                ? 'bg-green-500 text-white border-green-500'
-                : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
-            }`}
-          >
-            <FaQrcode />
-            QR Code
-          </button>
+            {PROVIDERS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
         </div>
 
+        {/* Auth Method Toggle */}
+        {provider !== 'cloud_api' && (
+          <div className="flex gap-2 mb-4">
+            <button
+              onClick={() => setAuthMethod('phone')}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg border ${
+                authMethod === 'phone'
+                  ? 'bg-green-500 text-white border-green-500'
+                  : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              <FaMobileAlt />
+              Phone Code (Faster)
+            </button>
+            <button
+              onClick={() => setAuthMethod('qr')}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg border ${
+                authMethod === 'qr'
+                  ? 'bg-green-500 text-white border-green-500'
+                  : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              <FaQrcode />
+              QR Code
+            </button>
+          </div>
+        )}
+
         <div className="flex flex-col gap-4">
           <div className="flex gap-4 items-end">
             <div className="flex-1">
@@ -255,7 +316,7 @@ export default function RegisterWAPP() {
                 className="w-full px-4 py-2.5 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-base"
               />
             </div>
-            {authMethod === 'phone' && (
+            {provider !== 'cloud_api' && authMethod === 'phone' && (
               <div className="flex-1">
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   WhatsApp Number (with country code):
@@ -270,12 +331,41 @@ export default function RegisterWAPP() {
               </div>
             )}
           </div>
+          {provider === 'cloud_api' && (
+            <div className="flex gap-4">
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Phone Number ID:</label>
+                <input
+                  type="text"
+                  value={phoneNumberId}
+                  onChange={(e) => setPhoneNumberId(e.target.value)}
+                  placeholder="123456789012345"
+                  className="w-full px-4 py-2.5 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-base"
+                />
+              </div>
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Access Token:</label>
+                <input
+                  type="password"
+                  value={accessToken}
+                  onChange={(e) => setAccessToken(e.target.value)}
+                  className="w-full px-4 py-2.5 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-base"
+                />
+              </div>
+            </div>
+          )}
           <button
             onClick={createSession}
             disabled={loading}
             className="btn-primary px-6 py-2.5 whitespace-nowrap self-start"
           >
-            {loading ? 'Creating...' : authMethod === 'phone' ? 'Register with Phone' : 'Register & Scan'}
+            {loading
+              ? 'Creating...'
+              : provider === 'cloud_api'
+              ? 'Register'
+              : authMethod === 'phone'
+              ? 'Register with Phone'
+              : 'Register & Scan'}
           </button>
         </div>
       </div>
@@ -291,6 +381,7 @@ export default function RegisterWAPP() {
                 <tr className="border-b">
                   <th className="text-left py-2 px-4">Name</th>
                   <th className="text-left py-2 px-4">Phone Number</th>
+                  <th className="text-left py-2 px-4">Connection</th>
                   <th className="text-left py-2 px-4">Status</th>
                   <th className="text-left py-2 px-4">Actions</th>
                 </tr>
@@ -300,6 +391,9 @@ export default function RegisterWAPP() {
                   <tr key={session.id} className="border-b">
                     <td className="py-2 px-4">{session.sessionName}</td>
                     <td className="py-2 px-4">{session.phoneNumber || '-'}</td>
+                    <td className="py-2 px-4 text-sm text-gray-500">
+                      {PROVIDERS.find((option) => option.value === session.provider)?.label || session.provider}
+                    </td>
                     <td className="py-2 px-4">
                       <span
                         className={`badge ${
@@ -317,7 +411,9 @@ export default function RegisterWAPP() {
                       <div className="flex gap-2">
                         {session.status !== 'connected' && (
                           <button
-                            onClick={() => reconnectSession(session.id, authMethod)}
+                            onClick={() =>
+                              reconnectSession(session.id, session.provider === 'cloud_api' ? 'qr' : authMethod)
+                            }
                             className="text-blue-500 hover:underline text-sm"
                           >
                             Reconnect
@@ -358,6 +454,16 @@ export default function RegisterWAPP() {
                   <div className="text-4xl font-mono font-bold tracking-widest bg-gray-100 py-6 px-4 rounded-lg text-green-600">
                     {pairingCode}
                   </div>
+                  <div className="mt-2 flex items-center justify-center gap-3 text-sm">
+                    <span className={secondsLeft > 0 ? 'text-gray-500' : 'text-red-500'}>
+                      {secondsLeft > 0
+                        ? `Expires in ${Math.floor(secondsLeft / 60)}:${String(secondsLeft % 60).padStart(2, '0')}`
+                        : 'Code expired, a new one is on its way'}
+                    </span>
+                    <button onClick={refreshPairingCode} className="text-primary-600 hover:underline">
+                      Get a new code
+                    </button>
+                  </div>
                   <p className="mt-4 text-sm text-gray-600">
                     1. Open WhatsApp on your phone<br/>
                     2. Go to Settings → Linked Devices<br/>
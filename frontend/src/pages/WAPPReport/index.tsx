@@ -38,6 +38,8 @@ export default function WAPPReport() {
   const stats = {
     total: messages.length,
     sent: messages.filter((m) => m.status === 'sent').length,
+    delivered: messages.filter((m) => m.status === 'delivered').length,
+    read: messages.filter((m) => m.status === 'read').length,
     pending: messages.filter((m) => m.status === 'pending').length,
     failed: messages.filter((m) => m.status === 'failed').length,
   }
@@ -55,7 +57,7 @@ export default function WAPPReport() {
       <h1 className="text-2xl font-bold mb-6">WAPP Report</h1>
 
       {/* Stats */}
-      <div className="grid grid-cols-4 gap-4 mb-6">
+      <div className="grid grid-cols-6 gap-4 mb-6">
         <div className="card text-center">
           <p className="text-2xl font-bold">{stats.total}</p>
           <p className="text-gray-500">Total</p>
@@ -64,6 +66,14 @@ export default function WAPPReport() {
           <p className="text-2xl font-bold text-green-600">{stats.sent}</p>
           <p className="text-gray-500">Sent</p>
         </div>
+        <div className="card text-center">
+          <p className="text-2xl font-bold text-blue-600">{stats.delivered}</p>
+          <p className="text-gray-500">Delivered</p>
+        </div>
+        <div className="card text-center">
+          <p className="text-2xl font-bold text-indigo-600">{stats.read}</p>
+          <p className="text-gray-500">Read</p>
+        </div>
         <div className="card text-center">
           <p className="text-2xl font-bold text-yellow-600">{stats.pending}</p>
           <p className="text-gray-500">Pending</p>
@@ -93,6 +103,22 @@ export default function WAPPReport() {
           >
             Sent
           </button>
+          <button
+            onClick={() => setFilter('delivered')}
+            className={`px-4 py-2 rounded ${
+              filter === 'delivered' ? 'bg-blue-500 text-white' : 'bg-gray-200'
+            }`}
+          >
+            Delivered
+          </button>
+          <button
+            onClick={() => setFilter('read')}
+            className={`px-4 py-2 rounded ${
+              filter === 'read' ? 'bg-indigo-500 text-white' : 'bg-gray-200'
+            }`}
+          >
+            Read
+          </button>
           <button
             onClick={() => setFilter('pending')}
             className={`px-4 py-2 rounded ${
@@ -141,6 +167,8 @@ export default function WAPPReport() {
                       className={`badge ${
                         msg.status === 'sent'
                           ? 'badge-success'
+                          : msg.status === 'delivered' || msg.status === 'read'
+                          ? 'badge-info'
                           : msg.status === 'pending'
                           ? 'badge-warning'
                           : 'badge-danger'
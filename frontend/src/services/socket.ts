@@ -14,12 +14,19 @@ export function getSocket(): Socket {
   return socket
 }
 
-export function connectSocket(userId: number): Socket {
+// Authenticates with the stored token; the server puts the socket in its organization's room
+export function connectSocket(): Socket {
   const sock = getSocket()
+  const token = localStorage.getItem('token')
+
+  // Logged in again or switched organization since the last handshake
+  if (sock.connected && (sock.auth as { token?: string | null })?.token !== token) {
+    sock.disconnect()
+  }
 
   if (!sock.connected) {
+    sock.auth = { token }
     sock.connect()
-    sock.emit('authenticate', { userId })
   }
 
   return sock